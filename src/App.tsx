@@ -1,60 +1,164 @@
-import  { useState } from 'react';
-import { Calculator, BarChart as ChartBar, Database } from 'lucide-react';
+import  { useEffect, useState } from 'react';
+import { Calculator, BarChart as ChartBar, Database, Grid3x3, Languages, Sigma } from 'lucide-react';
 import EquationSolver from './components/EquationSolver';
 import DataAnalysis from './components/DataAnalysis';
+import Visualization from './components/Visualization';
+import Calculus from './components/Calculus';
+import MatrixWorkspace from './components/MatrixWorkspace';
+import { PlotRequest } from './utils/functionPlot';
+import { DEFAULT_NUMERIC_OPTIONS, SolveRequest } from './utils/rootFinding';
+import { Tab, UrlState, readUrlState, writeUrlState } from './utils/urlState';
+import { LOCALES, Locale, getLocale, getMessages, setLocale } from './i18n';
+import { LocaleContext } from './i18n/context';
 
+function App() {
+  // L'onglet, l'équation et les réglages d'analyse vivent dans l'URL pour pouvoir être partagés
+  const [urlState, setUrlState] = useState<UrlState>(readUrlState);
+  const activeTab = urlState.tab;
+  const [plotRequest, setPlotRequest] = useState<PlotRequest | null>(null);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  const t = getMessages(locale).app;
 
-type Tab = 'equations' | 'analysis' | 'visualization';
+  // Les utilitaires lisent la langue globale, le contexte fait re-rendre les composants
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
 
-function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('equations');
+  useEffect(() => {
+    const restore = () => setUrlState(readUrlState());
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  const updateUrl = (patch: Partial<UrlState>) => {
+    const next = { ...urlState, ...patch };
+    writeUrlState(next, next.tab !== urlState.tab);
+    setUrlState(next);
+  };
+
+  const setActiveTab = (tab: Tab) => updateUrl({ tab });
+
+  const showGraph = (request: PlotRequest) => {
+    setPlotRequest(request);
+    setActiveTab('visualization');
+  };
+
+  const solveInSolver = ({ mode, equation, interval }: SolveRequest) => {
+    const { xMin, xMax, method, tolerance } = { ...DEFAULT_NUMERIC_OPTIONS, ...interval };
+    updateUrl({ tab: 'equations', mode, equation, unknown: '', numeric: { xMin, xMax, method, tolerance } });
+  };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
-      <header className="bg-white shadow-md">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <h1 className="text-3xl font-bold text-gray-900">Analyse Mathématique Avancée</h1>
-        </div>
-      </header>
-
-      <nav className="bg-white shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex space-x-4">
-            <button
-              onClick={() => setActiveTab('equations')}
-              className={`flex items-center px-4 py-3 text-sm font-medium ${
-                activeTab === 'equations'
-                  ? 'border-b-2 border-indigo-500 text-indigo-600'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <Calculator className="w-5 h-5 mr-2" />
-              Équations
-            </button>
-            <button
-              onClick={() => setActiveTab('analysis')}
-              className={`flex items-center px-4 py-3 text-sm font-medium ${
-                activeTab === 'analysis'
-                  ? 'border-b-2 border-indigo-500 text-indigo-600'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              <Database className="w-5 h-5 mr-2" />
-              Analyse de Données
-            </button>
-            
+    <LocaleContext.Provider value={locale}>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
+        <header className="bg-white shadow-md">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900">{t.title}</h1>
+            <label className="flex items-center text-sm text-gray-600">
+              <Languages className="w-4 h-4 mr-2" aria-hidden="true" />
+              <span className="sr-only">{t.language}</span>
+              <select
+                value={locale}
+                onChange={(e) => changeLocale(e.target.value as Locale)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(LOCALES) as Locale[]).map(code => (
+                  <option key={code} value={code}>{LOCALES[code]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </header>
+
+        <nav className="bg-white shadow-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex space-x-4">
+              <button
+                onClick={() => setActiveTab('equations')}
+                className={`flex items-center px-4 py-3 text-sm font-medium ${
+                  activeTab === 'equations'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Calculator className="w-5 h-5 mr-2" />
+                {t.tabs.equations}
+              </button>
+              <button
+                onClick={() => setActiveTab('analysis')}
+                className={`flex items-center px-4 py-3 text-sm font-medium ${
+                  activeTab === 'analysis'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Database className="w-5 h-5 mr-2" />
+                {t.tabs.analysis}
+              </button>
+              <button
+                onClick={() => setActiveTab('visualization')}
+                className={`flex items-center px-4 py-3 text-sm font-medium ${
+                  activeTab === 'visualization'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <ChartBar className="w-5 h-5 mr-2" />
+                {t.tabs.visualization}
+              </button>
+              <button
+                onClick={() => setActiveTab('calculus')}
+                className={`flex items-center px-4 py-3 text-sm font-medium ${
+                  activeTab === 'calculus'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Sigma className="w-5 h-5 mr-2" />
+                {t.tabs.calculus}
+              </button>
+              <button
+                onClick={() => setActiveTab('matrices')}
+                className={`flex items-center px-4 py-3 text-sm font-medium ${
+                  activeTab === 'matrices'
+                    ? 'border-b-2 border-indigo-500 text-indigo-600'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <Grid3x3 className="w-5 h-5 mr-2" />
+                {t.tabs.matrices}
+              </button>
+            </div>
+          </div>
+        </nav>
+
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            {activeTab === 'equations' && (
+              <EquationSolver
+                initialMode={urlState.mode}
+                initialEquation={urlState.equation}
+                initialUnknown={urlState.unknown}
+                initialNumeric={urlState.numeric}
+                onEquationChange={updateUrl}
+                onPlot={showGraph}
+              />
+            )}
+            {activeTab === 'analysis' && (
+              <DataAnalysis
+                settings={urlState.analysis}
+                onSettingsChange={analysis => updateUrl({ analysis })}
+                onSolve={solveInSolver}
+              />
+            )}
+            {activeTab === 'visualization' && <Visualization request={plotRequest} />}
+            {activeTab === 'calculus' && <Calculus />}
+            {activeTab === 'matrices' && <MatrixWorkspace />}
           </div>
-        </div>
-      </nav>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="bg-white rounded-lg shadow-lg p-6">
-          {activeTab === 'equations' && <EquationSolver />}
-          {activeTab === 'analysis' && <DataAnalysis />}
-          
-        </div>
-      </main>
-    </div>
+        </main>
+      </div>
+    </LocaleContext.Provider>
   );
 }
 
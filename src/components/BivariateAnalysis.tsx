@@ -0,0 +1,318 @@
+import { useMemo, useState } from 'react';
+import CurveFitPanel from './CurveFitPanel';
+import Plot from './Plot';
+import StatExplanationList from './StatExplanationList';
+import { Dataset } from '../utils/dataset';
+import { StatExplanation } from '../utils/statistics';
+import {
+  LinearRegression,
+  correlationMatrix,
+  describeCorrelation,
+  linearRegression,
+  pairValues,
+  pearson,
+  spearman,
+} from '../utils/regression';
+import { FitModel, fitCurves } from '../utils/curveFitting';
+import type { SolveRequest } from '../utils/rootFinding';
+import { Messages, formatNumber, plotSeparators } from '../i18n';
+import { useLocale, useMessages } from '../i18n/context';
+
+interface BivariateAnalysisProps {
+  dataset: Dataset;
+  numericColumns: number[];
+  onSolve?: (request: SolveRequest) => void;
+}
+
+const formatCoefficient = (value: number) => (Number.isNaN(value) ? '—' : formatNumber(value, 3));
+
+const buildExplanations = (
+  xName: string,
+  yName: string,
+  r: number,
+  rho: number,
+  regression: LinearRegression | null,
+  t: Messages['bivariate']
+): StatExplanation[] => {
+  const items: StatExplanation[] = [
+    {
+      title: t.pearson.title,
+      value: formatCoefficient(r),
+      formula: "r = Σ(xi - x̄)(yi - ȳ) / √( Σ(xi - x̄)² · Σ(yi - ȳ)² )",
+      description: t.pearson.description,
+      interpretation: t.pearson.interpretation(xName, yName, describeCorrelation(r))
+    },
+    {
+      title: t.spearman.title,
+      value: formatCoefficient(rho),
+      formula: t.spearman.formula,
+      description: t.spearman.description,
+      interpretation: `${t.spearman.interpretation(xName, yName, describeCorrelation(rho))} ${
+        !Number.isNaN(r) && !Number.isNaN(rho) && Math.abs(rho) - Math.abs(r) > 0.1
+          ? t.spearman.nonLinear
+          : t.spearman.robust
+      }`
+    }
+  ];
+  if (!regression) return items;
+
+  const { slope, intercept, rSquared, residualStandardError } = regression;
+  return [
+    ...items,
+    {
+      title: t.slope.title,
+      value: formatNumber(slope, 4),
+      formula: "a = Σ(xi - x̄)(yi - ȳ) / Σ(xi - x̄)²",
+      description: t.slope.description,
+      interpretation: t.slope.interpretation(xName, yName, slope >= 0, formatNumber(Math.abs(slope), 4))
+    },
+    {
+      title: t.intercept.title,
+      value: formatNumber(intercept, 4),
+      formula: "b = ȳ - a · x̄",
+      description: t.intercept.description,
+      interpretation: t.intercept.interpretation(
+        `y = ${formatNumber(slope, 4)}x ${intercept >= 0 ? '+' : '-'} ${formatNumber(Math.abs(intercept), 4)}`
+      )
+    },
+    {
+      title: t.rSquared.title,
+      value: formatNumber(rSquared, 4),
+      formula: "R² = 1 - Σ(yi - ŷi)² / Σ(yi - ȳ)²",
+      description: t.rSquared.description,
+      interpretation: `${t.rSquared.interpretation(formatNumber(rSquared * 100, 1), yName)} ${
+        rSquared >= 0.7 ? t.rSquared.good : rSquared >= 0.3 ? t.rSquared.partial : t.rSquared.poor
+      }`
+    },
+    {
+      title: t.residualError.title,
+      value: formatNumber(residualStandardError, 4),
+      formula: "s = √( Σ(yi - ŷi)² / (n - 2) )",
+      description: t.residualError.description,
+      interpretation: t.residualError.interpretation(yName, formatNumber(residualStandardError, 4))
+    }
+  ];
+};
+
+const WEBGL_THRESHOLD = 5000;
+
+// Nombre de points des courbes ajustées superposées au nuage
+const CURVE_SAMPLES = 100;
+
+const FIT_COLORS: Record<FitModel, string> = {
+  linear: '#dc2626',
+  exponential: '#d97706',
+  logarithmic: '#7c3aed',
+  power: '#059669',
+  polynomial: '#db2777'
+};
+
+function BivariateAnalysis({ dataset, numericColumns, onSolve }: BivariateAnalysisProps) {
+  const { bivariate: t, curveFitting } = useMessages();
+  const locale = useLocale();
+  const [xColumn, setXColumn] = useState<number | null>(null);
+  const [yColumn, setYColumn] = useState<number | null>(null);
+  const [degree, setDegree] = useState(2);
+  // Courbes superposées en plus de la droite des moindres carrés
+  const [visibleFits, setVisibleFits] = useState<FitModel[]>([]);
+
+  // Par défaut : les deux premières colonnes numériques
+  const xIndex = xColumn !== null && numericColumns.includes(xColumn) ? xColumn : numericColumns[0];
+  const yIndex = yColumn !== null && numericColumns.includes(yColumn) ? yColumn : numericColumns[1];
+  const xName = dataset.columns[xIndex].name;
+  const yName = dataset.columns[yIndex].name;
+
+  const paired = useMemo(
+    () => pairValues(dataset.columns[xIndex].values, dataset.columns[yIndex].values),
+    [dataset, xIndex, yIndex]
+  );
+  const r = useMemo(() => pearson(paired.x, paired.y), [paired]);
+  const rho = useMemo(() => spearman(paired.x, paired.y), [paired]);
+  const regression = useMemo(() => linearRegression(paired.x, paired.y), [paired]);
+  const fitComparison = useMemo(() => fitCurves(paired.x, paired.y, degree, locale), [paired, degree, locale]);
+  const explanations = useMemo(
+    () => buildExplanations(xName, yName, r, rho, regression, t),
+    [xName, yName, r, rho, regression, t]
+  );
+
+  const names = numericColumns.map(i => dataset.columns[i].name);
+  const matrix = useMemo(
+    () => correlationMatrix(numericColumns.map(i => dataset.columns[i].values)),
+    [dataset, numericColumns]
+  );
+
+  // Pas d'étalement (...) : il dépasserait la taille de la pile sur un gros fichier
+  const xMin = paired.x.reduce((min, v) => Math.min(min, v), Infinity);
+  const xMax = paired.x.reduce((max, v) => Math.max(max, v), -Infinity);
+  // Au-delà de quelques milliers de points, le rendu WebGL reste fluide
+  const markerType = paired.x.length > WEBGL_THRESHOLD ? 'scattergl' : 'scatter';
+  const curveX = Array.from({ length: CURVE_SAMPLES }, (_, i) => xMin + ((xMax - xMin) * i) / (CURVE_SAMPLES - 1));
+  // La droite des moindres carrés est déjà tracée : le modèle linéaire n'est pas superposé une seconde fois
+  const fitTraces = fitComparison.fits
+    .filter(fit => fit.model !== 'linear' && visibleFits.includes(fit.model))
+    .map(fit => ({
+      type: 'scatter' as const,
+      mode: 'lines' as const,
+      x: curveX,
+      y: curveX.map(v => {
+        const value = fit.predict(v);
+        return Number.isFinite(value) ? value : null;
+      }),
+      line: { color: FIT_COLORS[fit.model], width: 2, dash: 'dash' as const },
+      name: curveFitting.models[fit.model]
+    }));
+
+  const toggleFit = (model: FitModel) =>
+    setVisibleFits(prev => (prev.includes(model) ? prev.filter(m => m !== model) : [...prev, model]));
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-gray-800 mb-4">
+        {t.title}
+        <span className="ml-2 text-sm font-normal text-gray-500">
+          {t.pairs(paired.x.length)}
+        </span>
+      </h3>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        <label>
+          {t.explanatory}
+          <select
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={xIndex}
+            onChange={(e) => setXColumn(Number(e.target.value))}
+          >
+            {numericColumns.map(i => (
+              <option key={i} value={i}>{dataset.columns[i].name}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t.response}
+          <select
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={yIndex}
+            onChange={(e) => setYColumn(Number(e.target.value))}
+          >
+            {numericColumns.map(i => (
+              <option key={i} value={i}>{dataset.columns[i].name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {paired.x.length < 2 ? (
+        <p className="text-sm text-gray-500">{t.notEnoughPairs}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <Plot
+              data={[
+                {
+                  type: markerType,
+                  mode: 'markers',
+                  x: paired.x,
+                  y: paired.y,
+                  marker: { color: 'rgba(37, 99, 235, 0.7)', size: 7 },
+                  name: t.observations,
+                  hovertemplate: `${xName} = %{x}<br>${yName} = %{y}<extra></extra>`
+                },
+                ...(regression ? [{
+                  type: 'scatter' as const,
+                  mode: 'lines' as const,
+                  x: [xMin, xMax],
+                  y: [regression.slope * xMin + regression.intercept, regression.slope * xMax + regression.intercept],
+                  line: { color: '#dc2626', width: 2 },
+                  name: t.leastSquaresLine
+                }] : []),
+                ...fitTraces
+              ]}
+              layout={{
+                autosize: true,
+                height: 320,
+                margin: { l: 50, r: 20, t: 30, b: 50 },
+                title: { text: t.scatter, font: { size: 14 } },
+                separators: plotSeparators(),
+                showlegend: false,
+                xaxis: { title: { text: xName } },
+                yaxis: { title: { text: yName } }
+              }}
+              config={{ responsive: true, displaylogo: false }}
+              useResizeHandler
+              style={{ width: '100%' }}
+            />
+            {regression && (
+              <Plot
+                data={[{
+                  type: markerType,
+                  mode: 'markers',
+                  x: paired.x,
+                  y: regression.residuals,
+                  marker: { color: 'rgba(5, 150, 105, 0.7)', size: 7 },
+                  hovertemplate: `${xName} = %{x}<br>${t.residual} = %{y:.3f}<extra></extra>`
+                }]}
+                layout={{
+                  autosize: true,
+                  height: 320,
+                  margin: { l: 50, r: 20, t: 30, b: 50 },
+                  title: { text: t.residuals, font: { size: 14 } },
+                  separators: plotSeparators(),
+                  showlegend: false,
+                  xaxis: { title: { text: xName } },
+                  yaxis: { title: { text: 'yi - ŷi' }, zeroline: true, zerolinecolor: '#dc2626' }
+                }}
+                config={{ responsive: true, displaylogo: false }}
+                useResizeHandler
+                style={{ width: '100%' }}
+              />
+            )}
+          </div>
+
+          <StatExplanationList items={explanations} />
+
+          <CurveFitPanel
+            comparison={fitComparison}
+            x={paired.x}
+            degree={degree}
+            onDegreeChange={setDegree}
+            visible={visibleFits}
+            colors={FIT_COLORS}
+            onToggle={toggleFit}
+            onSolve={onSolve}
+          />
+        </>
+      )}
+
+      <div className="mt-6">
+        <h4 className="font-medium text-gray-700 mb-3">{t.correlationMatrix}</h4>
+        <Plot
+          data={[{
+            type: 'heatmap',
+            x: names,
+            y: names,
+            z: matrix.map(row => row.map(value => (Number.isNaN(value) ? null : value))),
+            zmin: -1,
+            zmax: 1,
+            colorscale: 'RdBu',
+            reversescale: true,
+            text: matrix.map(row => row.map(formatCoefficient)) as unknown as string[],
+            texttemplate: '%{text}',
+            hovertemplate: '%{y} / %{x} : r = %{text}<extra></extra>'
+          }]}
+          layout={{
+            autosize: true,
+            height: Math.max(300, 60 * names.length + 120),
+            margin: { l: 100, r: 20, t: 20, b: 80 },
+            separators: plotSeparators(),
+            yaxis: { autorange: 'reversed' }
+          }}
+          config={{ responsive: true, displaylogo: false }}
+          useResizeHandler
+          style={{ width: '100%' }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default BivariateAnalysis;
@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react';
+import type { Data } from 'plotly.js';
+import MathFormula from './MathFormula';
+import Plot from './Plot';
+import StepList from './StepList';
+import {
+  DerivativeResult,
+  INTEGRATION_METHODS,
+  IntegralResult,
+  IntegrationMethod,
+  LIMIT_SIDES,
+  LimitResult,
+  LimitSide,
+  differentiateWithSteps,
+  integrateWithSteps,
+  limitWithSteps,
+  parseLimitPoint,
+} from '../utils/calculus';
+import { Curve, DEFAULT_RANGE, sampleFunction } from '../utils/functionPlot';
+import { formatNumber, parseLocaleNumber, plotSeparators } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+const EXAMPLES = ['x^2·sin(x)', 'ln(x)/x', 'e^(-x^2)', 'sqrt(x^2 + 1)', 'sin(x)/x'];
+
+const F_COLOR = '#2563eb';
+const DERIVATIVE_COLOR = '#dc2626';
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+const buttonClass = 'px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50';
+
+type Outcome<T> = { value: T; error: null } | { value: null; error: string };
+
+const attempt = <T,>(compute: () => T, fallback: string): Outcome<T> => {
+  try {
+    return { value: compute(), error: null };
+  } catch (err) {
+    return { value: null, error: err instanceof Error ? err.message : fallback };
+  }
+};
+
+// Fenêtre verticale réglée sur les valeurs centrales : une asymptote ne doit pas écraser la courbe
+const verticalRange = (curves: Curve[]): [number, number] | undefined => {
+  const values = curves.flatMap(curve => curve.y).filter((y): y is number => y !== null).sort((a, b) => a - b);
+  if (values.length === 0) return undefined;
+  const low = values[Math.floor(values.length * 0.02)];
+  const high = values[Math.ceil(values.length * 0.98) - 1];
+  const margin = Math.max(1, (high - low) * 0.1);
+  return [low - margin, high + margin];
+};
+
+function Calculus() {
+  const t = useMessages().calculus;
+  const [expression, setExpression] = useState('x^2·sin(x)');
+  const [xMin, setXMin] = useState(() => formatNumber(DEFAULT_RANGE.xMin));
+  const [xMax, setXMax] = useState(() => formatNumber(DEFAULT_RANGE.xMax));
+  const [lower, setLower] = useState('0');
+  const [upper, setUpper] = useState('1');
+  const [method, setMethod] = useState<IntegrationMethod>('adaptive');
+  const [integral, setIntegral] = useState<Outcome<IntegralResult> | null>(null);
+  const [point, setPoint] = useState('0');
+  const [side, setSide] = useState<LimitSide>('both');
+  const [limit, setLimit] = useState<Outcome<LimitResult> | null>(null);
+  // Bornes de l'intégrale calculée, pour colorer l'aire sous la courbe
+  const [area, setArea] = useState<[number, number] | null>(null);
+
+  const derivative = useMemo<Outcome<DerivativeResult>>(
+    () => attempt(() => differentiateWithSteps(expression), t.emptyFunction),
+    [expression, t]
+  );
+
+  const range = useMemo(() => {
+    const min = parseLocaleNumber(xMin);
+    const max = parseLocaleNumber(xMax);
+    return min !== null && max !== null && min < max ? { min, max } : { min: DEFAULT_RANGE.xMin, max: DEFAULT_RANGE.xMax };
+  }, [xMin, xMax]);
+
+  const plot = useMemo(() => {
+    if (!derivative.value) return null;
+    const { f, fPrime, expression: fText, derivative: fPrimeText } = derivative.value;
+    const yRange = DEFAULT_RANGE.yMax - DEFAULT_RANGE.yMin;
+    const curve = sampleFunction(f, range.min, range.max, yRange);
+    const slope = sampleFunction(fPrime, range.min, range.max, yRange);
+    const traces: Data[] = [];
+    if (area) {
+      const shaded = sampleFunction(f, area[0], area[1], yRange);
+      traces.push({
+        type: 'scatter',
+        mode: 'lines',
+        x: shaded.x,
+        y: shaded.y,
+        fill: 'tozeroy',
+        fillcolor: 'rgba(37, 99, 235, 0.2)',
+        line: { width: 0 },
+        name: t.integralArea,
+        hoverinfo: 'skip'
+      });
+    }
+    traces.push(
+      { type: 'scatter', mode: 'lines', x: curve.x, y: curve.y, name: `f(x) = ${fText}`, line: { color: F_COLOR, width: 2 } },
+      {
+        type: 'scatter',
+        mode: 'lines',
+        x: slope.x,
+        y: slope.y,
+        name: `f′(x) = ${fPrimeText}`,
+        line: { color: DERIVATIVE_COLOR, width: 2, dash: 'dash' }
+      }
+    );
+    return { traces, yRange: verticalRange([curve, slope]) };
+  }, [derivative, range, area, t]);
+
+  const changeExpression = (next: string) => {
+    setExpression(next);
+    // Les résultats affichés portaient sur l'ancienne fonction
+    setIntegral(null);
+    setLimit(null);
+    setArea(null);
+  };
+
+  const computeIntegral = () => {
+    const a = parseLocaleNumber(lower);
+    const b = parseLocaleNumber(upper);
+    if (a === null || b === null) {
+      setIntegral({ value: null, error: t.invalidNumber(a === null ? lower : upper) });
+      setArea(null);
+      return;
+    }
+    const outcome = attempt(() => integrateWithSteps(expression, a, b, method), t.invalidBounds);
+    setIntegral(outcome);
+    setArea(outcome.value ? [Math.min(a, b), Math.max(a, b)] : null);
+  };
+
+  const computeLimit = () => {
+    const target = parseLimitPoint(point);
+    if (target === null) {
+      setLimit({ value: null, error: t.invalidPoint });
+      return;
+    }
+    setLimit(attempt(() => limitWithSteps(expression, target, side), t.invalidPoint));
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto p-4">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{t.title}</h2>
+        <label htmlFor="calculus-function" className="block text-sm font-medium text-gray-700 mb-1">
+          {t.functionLabel}
+        </label>
+        <input
+          type="text"
+          id="calculus-function"
+          className="w-full px-4 py-2 border border-gray-300 rounded-md font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          value={expression}
+          onChange={(e) => changeExpression(e.target.value)}
+          placeholder={t.placeholder}
+        />
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-500">{t.examples}</span>
+          {EXAMPLES.map(example => (
+            <button key={example} onClick={() => changeExpression(example)} className="text-blue-600 hover:text-blue-800">
+              {example}
+            </button>
+          ))}
+        </div>
+        {derivative.error && expression.trim() && <p className="mt-2 text-sm text-red-600">{derivative.error}</p>}
+      </div>
+
+      {derivative.value && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">{t.derivativeTitle}</h3>
+          <div className="p-4 bg-green-50 border-l-4 border-green-500 rounded text-xl text-green-900 overflow-x-auto">
+            <MathFormula math={`f'(x) = ${derivative.value.derivative}`} />
+          </div>
+          <div className="mt-4">
+            <StepList steps={derivative.value.steps} />
+          </div>
+        </div>
+      )}
+
+      {plot && (
+        <div className="bg-white p-4 rounded-lg shadow">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h3 className="text-lg font-semibold text-gray-800">{t.plotTitle}</h3>
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="text" inputMode="decimal" className={`w-20 ${inputClass}`} value={xMin} onChange={(e) => setXMin(e.target.value)} aria-label="x min" />
+              <span>≤ x ≤</span>
+              <input type="text" inputMode="decimal" className={`w-20 ${inputClass}`} value={xMax} onChange={(e) => setXMax(e.target.value)} aria-label="x max" />
+            </div>
+          </div>
+          <Plot
+            data={plot.traces}
+            layout={{
+              autosize: true,
+              height: 420,
+              margin: { l: 50, r: 20, t: 20, b: 40 },
+              separators: plotSeparators(),
+              xaxis: { range: [range.min, range.max], zeroline: true, zerolinecolor: '#9ca3af' },
+              yaxis: { range: plot.yRange, autorange: plot.yRange === undefined, zeroline: true, zerolinecolor: '#9ca3af' },
+              legend: { orientation: 'h', y: -0.15 }
+            }}
+            config={{ responsive: true, displaylogo: false }}
+            useResizeHandler
+            style={{ width: '100%' }}
+          />
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">{t.integralTitle}</h3>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            {t.from}
+            <input type="text" inputMode="decimal" className={`w-20 ${inputClass}`} value={lower} onChange={(e) => setLower(e.target.value)} />
+            {t.to}
+            <input type="text" inputMode="decimal" className={`w-20 ${inputClass}`} value={upper} onChange={(e) => setUpper(e.target.value)} />
+          </div>
+          <label className="mt-3 flex items-center text-sm text-gray-700">
+            {t.methodLabel}
+            <select className={`ml-2 ${inputClass}`} value={method} onChange={(e) => setMethod(e.target.value as IntegrationMethod)}>
+              {INTEGRATION_METHODS.map(name => (
+                <option key={name} value={name}>{t.integrationMethods[name]}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={computeIntegral} disabled={!derivative.value} className={`mt-3 ${buttonClass}`}>
+            {t.compute}
+          </button>
+          {integral?.error && <p className="mt-2 text-sm text-red-600">{integral.error}</p>}
+          {integral?.value && (
+            <div className="mt-4">
+              <div className="p-3 bg-green-50 border-l-4 border-green-500 rounded text-green-900 overflow-x-auto">
+                <MathFormula math={integral.value.result} />
+              </div>
+              <div className="mt-3">
+                <StepList steps={integral.value.steps} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">{t.limitTitle}</h3>
+          <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            {t.point}
+            <input
+              type="text"
+              className={`w-24 ${inputClass}`}
+              value={point}
+              onChange={(e) => setPoint(e.target.value)}
+              title={t.pointHint}
+              placeholder={t.pointHint}
+            />
+          </label>
+          <label className="mt-3 flex items-center text-sm text-gray-700">
+            {t.sideLabel}
+            <select className={`ml-2 ${inputClass}`} value={side} onChange={(e) => setSide(e.target.value as LimitSide)}>
+              {LIMIT_SIDES.map(name => (
+                <option key={name} value={name}>{t.sides[name]}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={computeLimit} disabled={!derivative.value} className={`mt-3 ${buttonClass}`}>
+            {t.compute}
+          </button>
+          {limit?.error && <p className="mt-2 text-sm text-red-600">{limit.error}</p>}
+          {limit?.value && (
+            <div className="mt-4">
+              <div className={`p-3 border-l-4 rounded font-semibold ${
+                limit.value.kind === 'none' ? 'bg-amber-50 border-amber-400 text-amber-800' : 'bg-green-50 border-green-500 text-green-900'
+              }`}>
+                {limit.value.result}
+              </div>
+              <div className="mt-3">
+                <StepList steps={limit.value.steps} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Calculus;
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import MathFormula from './MathFormula';
+import { FitComparison, FitModel, MAX_DEGREE, fitSolveRequest } from '../utils/curveFitting';
+import type { SolveRequest } from '../utils/rootFinding';
+import { formatNumber, parseLocaleNumber } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface CurveFitPanelProps {
+  comparison: FitComparison;
+  // Abscisses observées : elles bornent l'intervalle de recherche transmis au résolveur
+  x: number[];
+  degree: number;
+  onDegreeChange: (degree: number) => void;
+  // Modèles superposés au nuage de points, avec leur couleur de tracé
+  visible: FitModel[];
+  colors: Record<FitModel, string>;
+  onToggle: (model: FitModel) => void;
+  onSolve?: (request: SolveRequest) => void;
+}
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+function CurveFitPanel({ comparison, x, degree, onDegreeChange, visible, colors, onToggle, onSolve }: CurveFitPanelProps) {
+  const t = useMessages().curveFitting;
+  const [target, setTarget] = useState('');
+  const [chosenModel, setChosenModel] = useState<FitModel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { fits, failures } = comparison;
+  // Par défaut le meilleur modèle ; un modèle choisi qui n'est plus ajusté retombe sur celui-ci
+  const selected = fits.find(fit => fit.model === chosenModel) ?? fits[0];
+
+  const solve = () => {
+    const value = parseLocaleNumber(target);
+    if (value === null) {
+      setError(t.invalidTarget(target));
+      return;
+    }
+    setError(null);
+    onSolve?.(fitSolveRequest(selected, value, x));
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="font-medium text-gray-700">{t.title}</h4>
+        <label className="text-sm text-gray-700">
+          {t.degree}
+          <select className={`ml-2 ${selectClass}`} value={degree} onChange={(e) => onDegreeChange(Number(e.target.value))}>
+            {Array.from({ length: MAX_DEGREE - 1 }, (_, i) => i + 2).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="mb-3 text-xs text-gray-500">{t.hint}</p>
+
+      {fits.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="px-3 py-2 text-left font-medium text-gray-500">{t.rank}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">{t.model}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">{t.equation}</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">{t.parameters}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">R²</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">{t.adjustedRSquared}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">{t.rmse}</th>
+                <th className="px-3 py-2 text-center font-medium text-gray-500">{t.show}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fits.map((fit, i) => (
+                <tr key={fit.model} className={`border-b border-gray-100 ${i === 0 ? 'bg-green-50' : ''}`}>
+                  <td className="px-3 py-1.5 text-gray-700">{i + 1}</td>
+                  <td className="px-3 py-1.5 text-gray-700 whitespace-nowrap">
+                    <span className="inline-block w-3 h-3 mr-2 rounded-full align-middle" style={{ backgroundColor: colors[fit.model] }} />
+                    {t.models[fit.model]}
+                    {i === 0 && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">{t.best}</span>}
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <MathFormula math={`y = ${fit.expression}`} />
+                  </td>
+                  <td className="px-3 py-1.5 text-gray-600 font-mono text-xs">
+                    {fit.parameters.map(({ name, value }) => `${name} = ${formatNumber(value, 4)}`).join(' ; ')}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">{formatNumber(fit.rSquared, 4)}</td>
+                  <td className="px-3 py-1.5 text-right font-medium">{formatNumber(fit.adjustedRSquared, 4)}</td>
+                  <td className="px-3 py-1.5 text-right">{formatNumber(fit.rmse, 4)}</td>
+                  <td className="px-3 py-1.5 text-center">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      checked={visible.includes(fit.model)}
+                      onChange={() => onToggle(fit.model)}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {failures.length > 0 && (
+        <p className="mt-2 text-sm text-gray-500">
+          {t.unavailable} {failures.map(({ model, reason }) => `${t.models[model]} (${reason})`).join(', ')}
+        </p>
+      )}
+
+      {onSolve && selected && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <span>{t.solveFor}</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            className={`w-28 ${selectClass}`}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && target.trim() && solve()}
+          />
+          <span>{t.using}</span>
+          <select className={selectClass} value={selected.model} onChange={(e) => setChosenModel(e.target.value as FitModel)}>
+            {fits.map(fit => (
+              <option key={fit.model} value={fit.model}>{t.models[fit.model]}</option>
+            ))}
+          </select>
+          <button
+            onClick={solve}
+            disabled={!target.trim()}
+            className="inline-flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Calculator className="w-4 h-4 mr-1" />
+            {t.solve}
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export default CurveFitPanel;
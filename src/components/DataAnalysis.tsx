@@ -1,196 +1,391 @@
-import React, { useState } from 'react';
-import Papa from 'papaparse';
-import * as math from 'mathjs';
-
-interface DataStats {
-  mean: number;
-  median: number;
-  standardDeviation: number;
-  min: number;
-  max: number;
-  variance: number;
-  range: number;
-  sum: number;
-}
+import React, { useMemo, useRef, useState } from 'react';
+import { Pencil, Table, X } from 'lucide-react';
+import BivariateAnalysis from './BivariateAnalysis';
+import DataCleaningPanel from './DataCleaningPanel';
+import DataEntryGrid from './DataEntryGrid';
+import DistributionChart from './DistributionChart';
+import GroupAnalysis from './GroupAnalysis';
+import InferencePanel from './InferencePanel';
+import ReportExport from './ReportExport';
+import StatExplanationList from './StatExplanationList';
+import {
+  DataStats,
+  EXACT_QUANTILE_LIMIT,
+  Estimator,
+  NumericStat,
+  StatExplanation,
+  Z_SCORE_THRESHOLD,
+  statsFromSummary,
+} from '../utils/statistics';
+import { Dataset, numericValues, toDataset, toGridRows } from '../utils/dataset';
+import { PREVIEW_ROWS, parseRows } from '../utils/csvAccumulator';
+import type { CleaningResult } from '../utils/dataCleaning';
+import { ParseJob, ParseProgress, parseCsvInWorker } from '../utils/csvWorkerClient';
+import type { SolveRequest } from '../utils/rootFinding';
+import { AnalysisSettings } from '../utils/urlState';
+import { Messages, formatNumber } from '../i18n';
+import { useMessages } from '../i18n/context';
 
-interface StatExplanation {
-  title: string;
-  value: string;
-  formula: string;
-  description: string;
-  interpretation: string;
-}
+const formatStat = (value: number, digits = 2) => formatNumber(value, digits);
 
-const convertMathResult = (result: math.MathType): number => {
-  if (typeof result === 'number') return result;
-  if (math.isMatrix(result)) {
-    try {
-      return convertMathResult(result.get([0]));
-    } catch {
-      return 0;
-    }
-  }
-  if (Array.isArray(result)) {
-    const firstValue = result.flat(Infinity)[0];
-    return firstValue !== undefined ? convertMathResult(firstValue) : 0;
-  }
-  if (math.isComplex(result)) return result.re;
-  if (math.isFraction(result) || math.isBigNumber(result)) {
-    try {
-      return Number(result);
-    } catch {
-      return 0;
+const formatList = (values: number[], empty: string) =>
+  values.length === 0 ? empty : values.slice(0, 10).map(v => formatStat(v)).join(' ; ') + (values.length > 10 ? ' …' : '');
+
+const describeSkewness = (skewness: number, t: Messages['explanations']['skewness']) => {
+  if (!Number.isFinite(skewness)) return t.undefinedValue;
+  if (Math.abs(skewness) < 0.5) return t.symmetric;
+  return skewness > 0 ? t.right : t.left;
+};
+
+const describeKurtosis = (kurtosis: number, t: Messages['explanations']['kurtosis']) => {
+  if (!Number.isFinite(kurtosis)) return t.undefinedValue;
+  if (Math.abs(kurtosis) < 0.5) return t.normal;
+  return kurtosis > 0 ? t.heavy : t.light;
+};
+
+const buildExplanations = (stats: DataStats, estimator: Estimator, messages: Messages): StatExplanation[] => {
+  const t = messages.explanations;
+  const sample = estimator === 'sample';
+  const center = sample ? 'x̄' : 'μ';
+  const denominator = sample ? '(n - 1)' : 'N';
+  const count = sample ? 'n' : 'N';
+  const cv = stats.coefficientOfVariation;
+  const lowFence = formatStat(stats.q1 - 1.5 * stats.iqr);
+  const highFence = formatStat(stats.q3 + 1.5 * stats.iqr);
+  return [
+    {
+      title: t.mean.title,
+      value: formatStat(stats.mean),
+      formula: `${center} = Σ(xi) / ${count}`,
+      description: t.mean.description,
+      interpretation: t.mean.interpretation(formatStat(stats.mean))
+    },
+    {
+      title: t.median.title,
+      value: formatStat(stats.median),
+      formula: t.median.formula,
+      description: t.median.description,
+      interpretation: t.median.interpretation(formatStat(stats.median))
+    },
+    {
+      title: t.mode.title,
+      value: formatList(stats.modes, messages.common.none),
+      formula: t.mode.formula,
+      description: t.mode.description,
+      interpretation: stats.modes.length === 0
+        ? t.mode.none
+        : stats.modes.length === 1
+          ? t.mode.single(formatStat(stats.modes[0]))
+          : t.mode.multiple(stats.modes.length)
+    },
+    {
+      title: t.standardDeviation.title,
+      value: formatStat(stats.standardDeviation),
+      formula: `${sample ? 's' : 'σ'} = √( Σ(xi - ${center})² / ${denominator} )`,
+      description: sample ? t.standardDeviation.sampleDescription : t.standardDeviation.populationDescription,
+      interpretation: t.standardDeviation.interpretation(
+        formatStat(stats.mean - stats.standardDeviation),
+        formatStat(stats.mean + stats.standardDeviation)
+      )
+    },
+    {
+      title: t.variance.title,
+      value: formatStat(stats.variance),
+      formula: `${sample ? 's²' : 'σ²'} = Σ(xi - ${center})² / ${denominator}`,
+      description: sample ? t.variance.sampleDescription : t.variance.populationDescription,
+      interpretation: t.variance.interpretation(formatStat(stats.variance), stats.variance > stats.mean)
+    },
+    {
+      title: t.coefficientOfVariation.title,
+      value: Number.isFinite(cv) ? `${formatStat(cv * 100, 1)} %` : '—',
+      formula: `CV = ${sample ? 's' : 'σ'} / |${center}|`,
+      description: t.coefficientOfVariation.description,
+      interpretation: Number.isFinite(cv)
+        ? t.coefficientOfVariation.interpretation(formatStat(cv * 100, 1), cv < 0.15 ? 'low' : cv < 0.3 ? 'moderate' : 'high')
+        : t.coefficientOfVariation.undefinedValue
+    },
+    {
+      title: t.standardError.title,
+      value: formatStat(stats.standardError, 4),
+      formula: `SE = ${sample ? 's' : 'σ'} / √${count}`,
+      description: t.standardError.description,
+      interpretation: t.standardError.interpretation(formatStat(stats.standardError, 4), stats.count)
+    },
+    {
+      title: t.q1.title,
+      value: formatStat(stats.q1),
+      formula: t.q1.formula,
+      description: t.q1.description,
+      interpretation: t.q1.interpretation(formatStat(stats.q1))
+    },
+    {
+      title: t.q3.title,
+      value: formatStat(stats.q3),
+      formula: t.q3.formula,
+      description: t.q3.description,
+      interpretation: t.q3.interpretation(formatStat(stats.q3))
+    },
+    {
+      title: t.iqr.title,
+      value: formatStat(stats.iqr),
+      formula: 'IQR = Q3 - Q1',
+      description: t.iqr.description,
+      interpretation: t.iqr.interpretation(formatStat(stats.iqr), formatStat(stats.q1), formatStat(stats.q3))
+    },
+    {
+      title: t.percentiles.title,
+      value: `P10 = ${formatStat(stats.percentiles.find(p => p.p === 10)?.value ?? NaN)} · P90 = ${formatStat(stats.percentiles.find(p => p.p === 90)?.value ?? NaN)}`,
+      formula: stats.percentiles.map(({ p, value }) => `P${p} = ${formatStat(value)}`).join('   '),
+      description: t.percentiles.description,
+      interpretation: t.percentiles.interpretation(
+        formatStat(stats.percentiles[0].value),
+        formatStat(stats.percentiles[stats.percentiles.length - 1].value)
+      )
+    },
+    {
+      title: t.skewness.title,
+      value: formatStat(stats.skewness, 3),
+      formula: sample ? 'G1 = √(n(n - 1)) / (n - 2) · m3 / m2^(3/2)' : t.skewness.populationFormula,
+      description: t.skewness.description,
+      interpretation: t.skewness.interpretation(describeSkewness(stats.skewness, t.skewness))
+    },
+    {
+      title: t.kurtosis.title,
+      value: formatStat(stats.kurtosis, 3),
+      formula: sample ? t.kurtosis.sampleFormula : t.kurtosis.populationFormula,
+      description: t.kurtosis.description,
+      interpretation: t.kurtosis.interpretation(formatStat(stats.kurtosis, 3), describeKurtosis(stats.kurtosis, t.kurtosis))
+    },
+    {
+      title: t.iqrOutliers.title,
+      value: `${stats.iqrOutliers.length}`,
+      formula: t.iqrOutliers.formula(formatNumber(1.5)),
+      description: t.iqrOutliers.description,
+      interpretation: stats.iqrOutliers.length === 0
+        ? t.iqrOutliers.none(lowFence, highFence)
+        : t.iqrOutliers.some(lowFence, highFence, formatList(stats.iqrOutliers, ''))
+    },
+    {
+      title: t.zScoreOutliers.title,
+      value: `${stats.zScoreOutliers.length}`,
+      formula: `|zi| = |xi - ${center}| / ${sample ? 's' : 'σ'} > ${Z_SCORE_THRESHOLD}`,
+      description: t.zScoreOutliers.description,
+      interpretation: stats.zScoreOutliers.length === 0
+        ? t.zScoreOutliers.none
+        : t.zScoreOutliers.some(formatList(stats.zScoreOutliers, ''))
+    },
+    {
+      title: t.min.title,
+      value: formatStat(stats.min),
+      formula: 'min(xi)',
+      description: t.min.description,
+      interpretation: t.min.interpretation(formatStat(stats.min))
+    },
+    {
+      title: t.max.title,
+      value: formatStat(stats.max),
+      formula: 'max(xi)',
+      description: t.max.description,
+      interpretation: t.max.interpretation(formatStat(stats.max))
+    },
+    {
+      title: t.range.title,
+      value: formatStat(stats.range),
+      formula: 'max(xi) - min(xi)',
+      description: t.range.description,
+      interpretation: t.range.interpretation(formatStat(stats.range))
+    },
+    {
+      title: t.sum.title,
+      value: formatStat(stats.sum),
+      formula: 'Σ(xi)',
+      description: t.sum.description,
+      interpretation: t.sum.interpretation(formatStat(stats.sum))
     }
-  }
-  try {
-    const num = Number(result);
-    return isNaN(num) ? 0 : num;
-  } catch {
-    return 0;
-  }
+  ];
 };
 
-function DataAnalysis() {
-  const [data, setData] = useState<number[]>([]);
-  const [stats, setStats] = useState<DataStats | null>(null);
-  const [explanations, setExplanations] = useState<StatExplanation[]>([]);
+// L'effectif a sa propre ligne dans le tableau de comparaison
+const COMPARISON_ROWS: Exclude<NumericStat, 'count'>[] = [
+  'mean',
+  'median',
+  'standardDeviation',
+  'variance',
+  'coefficientOfVariation',
+  'standardError',
+  'q1',
+  'q3',
+  'iqr',
+  'skewness',
+  'kurtosis',
+  'min',
+  'max',
+  'range',
+  'sum'
+];
+
+// Au-delà, la grille de saisie deviendrait trop lourde à afficher
+const MAX_GRID_ROWS = 500;
+
+interface Change {
+  // Jeu de données avant la modification, rétabli par l'annulation
+  previous: Dataset;
+  description: string;
+}
+
+const numericIndices = (dataset: Dataset) =>
+  dataset.columns.flatMap((column, i) => (column.type === 'numeric' ? [i] : []));
+
+interface DataAnalysisProps {
+  // Réglages repris de l'URL ; les colonnes sont désignées par leur nom pour survivre au rechargement du fichier
+  settings: AnalysisSettings;
+  onSettingsChange: (settings: AnalysisSettings) => void;
+  onSolve?: (request: SolveRequest) => void;
+}
+
+function DataAnalysis({ settings, onSettingsChange, onSolve }: DataAnalysisProps) {
+  const messages = useMessages();
+  const t = messages.analysis;
+  const [dataset, setDataset] = useState<Dataset | null>(null);
+  const [file, setFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [showDetails, setShowDetails] = useState<Record<string, boolean>>({});
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [changes, setChanges] = useState<Change[]>([]);
+  // Lignes affichées dans la grille de saisie (vide pour une nouvelle saisie), null si elle est fermée
+  const [grid, setGrid] = useState<string[][] | null>(null);
+  const { estimator } = settings;
+  const job = useRef<ParseJob | null>(null);
+  const container = useRef<HTMLDivElement>(null);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const isLoading = progress !== null;
+  const numericColumns = useMemo(() => (dataset ? numericIndices(dataset) : []), [dataset]);
+  const selected = useMemo(() => {
+    const names = settings.columns;
+    if (!dataset || !names) return numericColumns;
+    const chosen = numericColumns.filter(i => names.includes(dataset.columns[i].name));
+    // Aucun nom reconnu (autre fichier, en-tête modifié) : toutes les colonnes numériques
+    return chosen.length === 0 && names.length > 0 ? numericColumns : chosen;
+  }, [dataset, numericColumns, settings.columns]);
+  const activeColumn = dataset && settings.column !== null
+    ? dataset.columns.findIndex(column => column.name === settings.column)
+    : -1;
+  const active = selected.includes(activeColumn) ? activeColumn : selected[0] ?? null;
 
-    setIsLoading(true);
-    setError(null);
+  const data = useMemo(
+    () => (dataset && active !== null ? numericValues(dataset.columns[active]) : []),
+    [dataset, active]
+  );
+  // Les résumés sont calculés pendant la lecture : seul l'estimateur reste à appliquer
+  const summary = dataset && active !== null ? dataset.columns[active].summary : null;
+  const stats = useMemo(() => (summary ? statsFromSummary(summary, estimator) : null), [summary, estimator]);
+  const explanations = useMemo(() => (stats ? buildExplanations(stats, estimator, messages) : []), [stats, estimator, messages]);
+  const comparison = useMemo(
+    () => (dataset
+      ? selected.flatMap(i => {
+        const column = dataset.columns[i];
+        if (!column.summary) return [];
+        const stats = statsFromSummary(column.summary, estimator);
+        return [{ index: i, name: column.name, count: stats.count, stats }];
+      })
+      : []),
+    [dataset, selected, estimator]
+  );
 
-    Papa.parse(file, {
-      complete: (results) => {
-        try {
-          const parsedData = results.data.flat();
-          const numbers = parsedData
-            .map(item => {
-              const num = typeof item === 'string' ? parseFloat(item) : Number(item);
-              return isNaN(num) ? null : num;
-            })
-            .filter((n): n is number => n !== null);
-          
-          if (numbers.length === 0) {
-            setError('Aucune donnée numérique valide trouvée');
-            return;
-          }
-
-          setData(numbers);
-          calculateStats(numbers);
-        } catch (err) {
-          setError('Erreur lors du traitement des données');
-          console.error(err);
-        } finally {
-          setIsLoading(false);
-        }
-      },
-      error: (error) => {
-        setError(`Erreur de lecture du fichier: ${error.message}`);
-        setIsLoading(false);
-      },
-    });
+  const showDataset = (next: Dataset) => {
+    setError(numericIndices(next).length === 0 ? t.noNumericColumn : null);
+    setDataset(next);
   };
 
-  const calculateStats = (numbers: number[]): void => {
+  // La lecture a lieu dans un Web Worker ; hasHeader à null laisse le worker détecter l'en-tête
+  const loadFile = async (source: File, hasHeader: boolean | null) => {
+    job.current?.cancel();
+    setProgress({ loaded: 0, total: source.size, rows: 0 });
+    setError(null);
+
+    const current = parseCsvInWorker(source, hasHeader, setProgress);
+    job.current = current;
     try {
-      const stats: DataStats = {
-        mean: convertMathResult(math.mean(numbers)),
-        median: convertMathResult(math.median(numbers)),
-        standardDeviation: convertMathResult(math.std(numbers)),
-        min: convertMathResult(math.min(numbers)),
-        max: convertMathResult(math.max(numbers)),
-        variance: convertMathResult(math.variance(numbers)),
-        range: convertMathResult(math.max(numbers)) - convertMathResult(math.min(numbers)),
-        sum: convertMathResult(math.sum(numbers))
-      };
-      setStats(stats);
-
-      setExplanations([
-        {
-          title: "Moyenne",
-          value: stats.mean.toFixed(2),
-          formula: "Σ(xi) / n",
-          description: "La moyenne arithmétique de toutes les valeurs",
-          interpretation: `La valeur moyenne de votre dataset est ${stats.mean.toFixed(2)}. Cela représente le centre de gravité de votre distribution.`
-        },
-        {
-          title: "Médiane",
-          value: stats.median.toFixed(2),
-          formula: "Valeur centrale quand les données sont ordonnées",
-          description: "La valeur qui sépare le dataset en deux parties égales",
-          interpretation: `50% de vos valeurs sont inférieures à ${stats.median.toFixed(2)} et 50% sont supérieures.`
-        },
-        {
-          title: "Écart-type",
-          value: stats.standardDeviation.toFixed(2),
-          formula: "√( Σ(xi - μ)² / n )",
-          description: "Mesure la dispersion des données autour de la moyenne",
-          interpretation: `Environ 68% des valeurs se trouvent entre ${(stats.mean - stats.standardDeviation).toFixed(2)} et ${(stats.mean + stats.standardDeviation).toFixed(2)}.`
-        },
-        {
-          title: "Variance",
-          value: stats.variance.toFixed(2),
-          formula: "Σ(xi - μ)² / n",
-          description: "Carré de l'écart-type, mesure la dispersion",
-          interpretation: `Une variance de ${stats.variance.toFixed(2)} indique que les données sont ${stats.variance > stats.mean ? 'très dispersées' : 'relativement groupées'}.`
-        },
-        {
-          title: "Minimum",
-          value: stats.min.toFixed(2),
-          formula: "min(xi)",
-          description: "La plus petite valeur du dataset",
-          interpretation: `Votre valeur la plus basse est ${stats.min.toFixed(2)}.`
-        },
-        {
-          title: "Maximum",
-          value: stats.max.toFixed(2),
-          formula: "max(xi)",
-          description: "La plus grande valeur du dataset",
-          interpretation: `Votre valeur la plus élevée est ${stats.max.toFixed(2)}.`
-        },
-        {
-          title: "Étendue",
-          value: stats.range.toFixed(2),
-          formula: "max(xi) - min(xi)",
-          description: "Différence entre les valeurs extrêmes",
-          interpretation: `Vos données couvrent un intervalle de ${stats.range.toFixed(2)} unités.`
-        },
-        {
-          title: "Somme",
-          value: stats.sum.toFixed(2),
-          formula: "Σ(xi)",
-          description: "Total de toutes les valeurs",
-          interpretation: `La somme totale de toutes vos valeurs est ${stats.sum.toFixed(2)}.`
-        }
-      ]);
+      showDataset(toDataset(await current.promise));
+      setChanges([]);
+      setFile(source);
     } catch (err) {
-      setError('Erreur dans les calculs statistiques');
-      console.error(err);
+      // Une lecture interrompue par un nouveau chargement ne signale pas d'erreur
+      if (job.current === current) setError(err instanceof Error ? err.message : t.processingError);
+    } finally {
+      if (job.current === current) {
+        job.current = null;
+        setProgress(null);
+      }
     }
   };
 
-  const toggleDetail = (title: string) => {
-    setShowDetails(prev => ({
-      ...prev,
-      [title]: !prev[title]
-    }));
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const source = event.target.files?.[0];
+    // Permet de réimporter le même fichier après une annulation
+    event.target.value = '';
+    if (source) loadFile(source, null);
+  };
+
+  const cancelLoading = () => job.current?.cancel();
+
+  const toggleColumn = (index: number) => {
+    if (!dataset) return;
+    const next = selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index].sort((a, b) => a - b);
+    onSettingsChange({
+      ...settings,
+      columns: next.length === numericColumns.length ? null : next.map(i => dataset.columns[i].name)
+    });
+  };
+
+  const setEstimator = (value: Estimator) => onSettingsChange({ ...settings, estimator: value });
+
+  const setActiveColumn = (index: number) => {
+    if (dataset) onSettingsChange({ ...settings, column: dataset.columns[index].name });
+  };
+
+  const toggleHeader = (value: boolean) => {
+    if (file) loadFile(file, value);
+  };
+
+  // Chaque modification conserve le jeu de données précédent pour pouvoir être annulée
+  const applyChange = ({ dataset: next, description }: CleaningResult) => {
+    if (!dataset) return;
+    setChanges(prev => [...prev, { previous: dataset, description }]);
+    showDataset(next);
+  };
+
+  const undoChange = () => {
+    const last = changes[changes.length - 1];
+    if (!last) return;
+    setChanges(prev => prev.slice(0, -1));
+    showDataset(last.previous);
+  };
+
+  // Une nouvelle saisie remplace les données ; une modification des données existantes s'annule comme un nettoyage
+  const submitGrid = (rows: string[][]) => {
+    const next = toDataset(parseRows(rows, true));
+    if (dataset && grid && grid.length > 0) {
+      applyChange({ dataset: next, description: messages.dataEntry.edited });
+    } else {
+      job.current?.cancel();
+      job.current = null;
+      setProgress(null);
+      showDataset(next);
+      setChanges([]);
+      setFile(null);
+    }
+    setGrid(null);
   };
 
   return (
-    <div className="space-y-6 max-w-4xl mx-auto p-4">
+    <div ref={container} className="space-y-6 max-w-4xl mx-auto p-4">
       <div className="bg-white p-6 rounded-lg shadow">
-        <h2 className="text-2xl font-bold text-gray-800 mb-6">Analyse de Données Statistiques</h2>
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{t.title}</h2>
         
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Importer un fichier CSV
+              {t.importLabel}
             </label>
             <div className="flex items-center gap-4">
               <input
@@ -200,13 +395,48 @@ function DataAnalysis() {
                 className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                 disabled={isLoading}
               />
-              {isLoading && (
-                <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-solid border-blue-600 border-r-transparent"></div>
-              )}
             </div>
+            {progress && (
+              <div className="mt-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${progress.total > 0 ? (100 * progress.loaded) / progress.total : 0}%` }}
+                    />
+                  </div>
+                  <button
+                    onClick={cancelLoading}
+                    className="inline-flex items-center px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    {t.cancel}
+                  </button>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {t.progress(
+                    progress.total > 0 ? Math.round((100 * progress.loaded) / progress.total) : 0,
+                    formatNumber(progress.rows)
+                  )}
+                </p>
+              </div>
+            )}
             <p className="mt-2 text-xs text-gray-500">
-              Le fichier doit contenir une colonne de valeurs numériques
+              {t.fileHint}
             </p>
+            {grid === null && (
+              <button
+                onClick={() => setGrid([])}
+                disabled={isLoading}
+                className="mt-3 inline-flex items-center px-3 py-1.5 text-sm text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+              >
+                <Table className="w-4 h-4 mr-2" />
+                {messages.dataEntry.open}
+              </button>
+            )}
+            {grid !== null && (
+              <DataEntryGrid initialRows={grid} onSubmit={submitGrid} onClose={() => setGrid(null)} />
+            )}
           </div>
 
           {error && (
@@ -222,120 +452,306 @@ function DataAnalysis() {
         </div>
       </div>
 
-      {stats && (
+      {dataset && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-xl font-semibold text-gray-800">
+              {t.preview}
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {t.size(formatNumber(dataset.rowCount), dataset.columns.length)}
+              </span>
+            </h3>
+            <div className="flex flex-wrap items-center gap-4">
+              {file && (
+                <label className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={dataset.hasHeader}
+                    disabled={isLoading}
+                    onChange={(e) => toggleHeader(e.target.checked)}
+                  />
+                  {t.headerToggle}
+                </label>
+              )}
+              {dataset.rowCount <= MAX_GRID_ROWS && grid === null && (
+                <button
+                  onClick={() => setGrid(toGridRows(dataset))}
+                  className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Pencil className="w-4 h-4 mr-1" />
+                  {messages.dataEntry.edit}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {dataset.columns.map((column, i) => (
+                    <th key={i} className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                      {column.name}
+                      <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-normal ${
+                        column.type === 'numeric' ? 'bg-blue-100 text-blue-700' : 'bg-amber-100 text-amber-700'
+                      }`}>
+                        {column.type === 'numeric' ? t.numeric : t.categorical}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dataset.preview.map((cells, row) => (
+                  <tr key={row} className="border-t border-gray-100">
+                    {dataset.columns.map((column, i) => {
+                      const cell = (cells[i] ?? '').trim();
+                      const value = column.values[row];
+                      return (
+                        <td
+                          key={i}
+                          className={`px-3 py-1.5 whitespace-nowrap ${column.type === 'numeric' ? 'text-right font-mono' : ''} ${
+                            cell === '' || (column.type === 'numeric' && value === null) ? 'text-gray-400' : 'text-gray-700'
+                          }`}
+                        >
+                          {cell === '' ? '—' : column.type === 'numeric' && value !== null ? formatNumber(value) : cell}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {dataset.rowCount > PREVIEW_ROWS && (
+            <p className="mt-2 text-xs text-gray-500">
+              {t.previewRows(PREVIEW_ROWS, formatNumber(dataset.rowCount))}
+            </p>
+          )}
+
+          <div className="mt-6">
+            <h4 className="font-medium text-gray-700 mb-3">{t.dataRepresents}</h4>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+              <label className="inline-flex items-center">
+                <input
+                  type="radio"
+                  name="estimator"
+                  className="mr-2 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={estimator === 'sample'}
+                  onChange={() => setEstimator('sample')}
+                />
+                {t.sample}
+              </label>
+              <label className="inline-flex items-center">
+                <input
+                  type="radio"
+                  name="estimator"
+                  className="mr-2 border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={estimator === 'population'}
+                  onChange={() => setEstimator('population')}
+                />
+                {t.population}
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <h4 className="font-medium text-gray-700 mb-3">{t.columnsToAnalyze}</h4>
+            <div className="flex flex-wrap gap-2">
+              {dataset.columns.map((column, i) => (
+                column.type === 'numeric' ? (
+                  <label
+                    key={i}
+                    className={`inline-flex items-center px-3 py-1.5 rounded-md border text-sm cursor-pointer ${
+                      selected.includes(i) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      checked={selected.includes(i)}
+                      onChange={() => toggleColumn(i)}
+                    />
+                    {column.name}
+                  </label>
+                ) : (
+                  <span
+                    key={i}
+                    className="inline-flex items-center px-3 py-1.5 rounded-md border border-dashed border-gray-300 text-sm text-gray-400"
+                    title={column.frequencies.slice(0, 5).map(([value, count]) => `${value} (${count})`).join(', ')}
+                  >
+                    {column.name} · {t.categories(column.frequencies.length)}
+                  </span>
+                )
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {dataset && (
+        <DataCleaningPanel
+          dataset={dataset}
+          numericColumns={numericColumns}
+          estimator={estimator}
+          changes={changes.map(change => change.description)}
+          onApply={applyChange}
+          onUndo={undoChange}
+        />
+      )}
+
+      {comparison.length > 1 && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-xl font-semibold text-gray-800 mb-4">{t.comparison}</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">{t.statistic}</th>
+                  {comparison.map(({ index, name }) => (
+                    <th key={index} className="px-3 py-2 text-right font-medium text-gray-700 whitespace-nowrap">{name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-100">
+                  <td className="px-3 py-1.5 text-gray-500">{t.observations}</td>
+                  {comparison.map(({ index, count }) => (
+                    <td key={index} className="px-3 py-1.5 text-right font-medium">{count}</td>
+                  ))}
+                </tr>
+                {COMPARISON_ROWS.map(key => (
+                  <tr key={key} className="border-b border-gray-100">
+                    <td className="px-3 py-1.5 text-gray-500">{t.labels[key]}</td>
+                    {comparison.map(({ index, stats }) => (
+                      <td key={index} className="px-3 py-1.5 text-right font-medium">{formatStat(stats[key])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {stats && dataset && active !== null && (
         <div className="bg-white p-6 rounded-lg shadow">
           <h3 className="text-xl font-semibold text-gray-800 mb-4">
-            Analyse Statistique Détailée
+            {t.detailedTitle}
             <span className="ml-2 text-sm font-normal text-gray-500">
-              ({data.length} observations)
+              {t.detailedSubtitle(dataset.columns[active].name, data.length)}
             </span>
           </h3>
 
-          <div className="space-y-4">
-            {explanations.map((item, index) => (
-              <div key={index} className="border border-gray-200 rounded-lg overflow-hidden">
-                <div 
-                  className="flex justify-between items-center p-4 bg-gray-50 cursor-pointer"
-                  onClick={() => toggleDetail(item.title)}
-                >
-                  <div>
-                    <h4 className="font-medium text-gray-700">{item.title}</h4>
-                    <p className="text-sm text-gray-500">{item.description}</p>
-                  </div>
-                  <div className="flex items-center">
-                    <span className="text-lg font-bold text-blue-600 mr-3">{item.value}</span>
-                    <svg 
-                      className={`w-5 h-5 text-gray-500 transform transition-transform ${showDetails[item.title] ? 'rotate-180' : ''}`} 
-                      fill="none" 
-                      stroke="currentColor" 
-                      viewBox="0 0 24 24"
-                    >
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                    </svg>
-                  </div>
-                </div>
+          {selected.length > 1 && (
+            <label className="block mb-4 text-sm text-gray-700">
+              {t.detailedColumn}
+              <select
+                className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={active}
+                onChange={(e) => setActiveColumn(Number(e.target.value))}
+              >
+                {selected.map(i => (
+                  <option key={i} value={i}>{dataset.columns[i].name}</option>
+                ))}
+              </select>
+            </label>
+          )}
 
-                {showDetails[item.title] && (
-                  <div className="p-4 bg-white border-t border-gray-200">
-                    <div className="mb-3">
-                      <span className="text-xs font-semibold text-gray-500">FORMULE</span>
-                      <div className="mt-1 p-2 bg-gray-100 rounded font-mono text-sm">
-                        {item.formula}
-                      </div>
-                    </div>
-                    <div>
-                      <span className="text-xs font-semibold text-gray-500">INTERPRÉTATION</span>
-                      <p className="mt-1 text-sm text-gray-700">{item.interpretation}</p>
-                    </div>
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
+          <ReportExport
+            metadata={{
+              source: file?.name ?? messages.report.manualSource,
+              column: dataset.columns[active].name,
+              observations: stats.count,
+              rows: dataset.rowCount,
+              estimator
+            }}
+            active={{ name: dataset.columns[active].name, stats, explanations }}
+            columns={comparison.map(({ name, stats }) => ({ name, stats }))}
+            changes={changes.map(change => change.description)}
+            chartsRoot={container}
+          />
+
+          {stats.approximate && (
+            <p className="mb-4 p-3 bg-amber-50 border-l-4 border-amber-400 rounded text-sm text-amber-800">
+              {t.approximate(formatNumber(EXACT_QUANTILE_LIMIT))}
+            </p>
+          )}
+
+          <StatExplanationList items={explanations} />
 
           <div className="mt-6">
-            <h4 className="font-medium text-gray-700 mb-3">Résumé Statistique</h4>
+            <h4 className="font-medium text-gray-700 mb-3">{t.summary}</h4>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="bg-gray-50 p-4 rounded-lg">
-                <h5 className="font-medium text-gray-700 mb-2">Tendance Centrale</h5>
+                <h5 className="font-medium text-gray-700 mb-2">{t.centralTendency}</h5>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Moyenne</span>
-                    <span className="text-sm font-medium">{stats.mean.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.mean}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.mean)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Médiane</span>
-                    <span className="text-sm font-medium">{stats.median.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.median}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.median)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Somme</span>
-                    <span className="text-sm font-medium">{stats.sum.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.sum}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.sum)}</span>
                   </div>
                 </div>
               </div>
 
               <div className="bg-gray-50 p-4 rounded-lg">
-                <h5 className="font-medium text-gray-700 mb-2">Dispersion</h5>
+                <h5 className="font-medium text-gray-700 mb-2">{t.dispersion}</h5>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Écart-type</span>
-                    <span className="text-sm font-medium">{stats.standardDeviation.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.standardDeviation}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.standardDeviation)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Variance</span>
-                    <span className="text-sm font-medium">{stats.variance.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.variance}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.variance)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Étendue</span>
-                    <span className="text-sm font-medium">{stats.range.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.range}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.range)}</span>
                   </div>
                 </div>
               </div>
 
               <div className="bg-gray-50 p-4 rounded-lg">
-                <h5 className="font-medium text-gray-700 mb-2">Extrêmes</h5>
+                <h5 className="font-medium text-gray-700 mb-2">{t.extremes}</h5>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Minimum</span>
-                    <span className="text-sm font-medium">{stats.min.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.min}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.min)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-500">Maximum</span>
-                    <span className="text-sm font-medium">{stats.max.toFixed(2)}</span>
+                    <span className="text-sm text-gray-500">{t.labels.max}</span>
+                    <span className="text-sm font-medium">{formatStat(stats.max)}</span>
                   </div>
                 </div>
               </div>
 
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <h5 className="font-medium text-gray-700 mb-2">Distribution</h5>
-                <div className="text-sm text-gray-500">
-                  <p>Histogramme à venir...</p>
-                </div>
+              <div className="bg-gray-50 p-4 rounded-lg md:col-span-2">
+                <h5 className="font-medium text-gray-700 mb-2">{t.distribution}</h5>
+                {summary && <DistributionChart data={data} summary={summary} />}
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {dataset && numericColumns.length >= 2 && (
+        <BivariateAnalysis dataset={dataset} numericColumns={numericColumns} onSolve={onSolve} />
+      )}
+
+      {dataset && numericColumns.length > 0 && (
+        <GroupAnalysis dataset={dataset} numericColumns={numericColumns} estimator={estimator} />
+      )}
+
+      {dataset && <InferencePanel dataset={dataset} numericColumns={numericColumns} />}
     </div>
   );
 }
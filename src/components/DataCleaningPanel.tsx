@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Dataset } from '../utils/dataset';
+import {
+  CleaningAction,
+  CleaningResult,
+  FILTER_OPERATORS,
+  FilterOperator,
+  ImputeStrategy,
+  OutlierMethod,
+  applyCleaning
+} from '../utils/dataCleaning';
+import type { Estimator } from '../utils/statistics';
+import { formatNumber } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface DataCleaningPanelProps {
+  dataset: Dataset;
+  numericColumns: number[];
+  estimator: Estimator;
+  // Descriptions des modifications appliquées, de la plus ancienne à la plus récente
+  changes: string[];
+  onApply: (result: CleaningResult) => void;
+  onUndo: () => void;
+}
+
+const selectClass = 'px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const buttonClass = 'px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50';
+
+const IMPUTE_STRATEGIES: ImputeStrategy[] = ['mean', 'median'];
+
+const OUTLIER_METHODS: OutlierMethod[] = ['iqr', 'zScore'];
+
+// Une colonne catégorielle ne se compare que par égalité
+const CATEGORICAL_OPERATORS: FilterOperator[] = ['=', '≠'];
+
+function DataCleaningPanel({ dataset, numericColumns, estimator, changes, onApply, onUndo }: DataCleaningPanelProps) {
+  const { cleaning: t, analysis } = useMessages();
+  const [missingColumn, setMissingColumn] = useState<number | null>(null);
+  const [strategy, setStrategy] = useState<ImputeStrategy>('mean');
+  const [outlierColumn, setOutlierColumn] = useState<number | null>(null);
+  const [method, setMethod] = useState<OutlierMethod>('iqr');
+  const [filterColumn, setFilterColumn] = useState(0);
+  const [chosenOperator, setOperator] = useState<FilterOperator>('≥');
+  const [filterValue, setFilterValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { columns } = dataset;
+  // Les indices mémorisés peuvent désigner une colonne disparue après le chargement d'autres données
+  const missingTarget = missingColumn !== null && missingColumn < columns.length ? missingColumn : null;
+  const outlierTarget = outlierColumn !== null && numericColumns.includes(outlierColumn) ? outlierColumn : numericColumns[0];
+  const filterTarget = Math.min(filterColumn, columns.length - 1);
+  const operators = columns[filterTarget].type === 'numeric' ? FILTER_OPERATORS : CATEGORICAL_OPERATORS;
+  const operator = operators.includes(chosenOperator) ? chosenOperator : operators[0];
+  const imputable = missingTarget === null
+    ? numericColumns.some(i => columns[i].missing + columns[i].invalid > 0)
+    : columns[missingTarget].type === 'numeric';
+  const hasIssues = columns.some(column => column.missing + column.invalid > 0);
+  const hasInvalid = columns.some(column => column.invalid > 0);
+
+  const apply = (action: CleaningAction) => {
+    try {
+      onApply(applyCleaning(dataset, action));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : analysis.processingError);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-gray-800 mb-4">{t.title}</h3>
+
+      <h4 className="font-medium text-gray-700 mb-2">
+        {t.report}
+        <span className="ml-2 text-sm font-normal text-gray-500">
+          {t.rows(formatNumber(dataset.rowCount))} · {t.duplicates(dataset.duplicates)}
+        </span>
+      </h4>
+      {hasIssues ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="px-3 py-2 text-left font-medium text-gray-500">{t.column}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">{t.missing}</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">{t.invalid}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((column, i) => (
+                <tr key={i} className="border-b border-gray-100">
+                  <td className="px-3 py-1.5 text-gray-700">{column.name}</td>
+                  <td className={`px-3 py-1.5 text-right ${column.missing > 0 ? 'font-medium text-amber-700' : 'text-gray-400'}`}>
+                    {formatNumber(column.missing)}
+                  </td>
+                  <td className={`px-3 py-1.5 text-right ${column.invalid > 0 ? 'font-medium text-red-700' : 'text-gray-400'}`}>
+                    {column.type === 'numeric' ? formatNumber(column.invalid) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-green-700">{t.complete}</p>
+      )}
+      {hasInvalid && (
+        <p className="mt-2 p-3 bg-amber-50 border-l-4 border-amber-400 rounded text-sm text-amber-800">{t.invalidHint}</p>
+      )}
+
+      <div className="mt-6 space-y-4 text-sm text-gray-700">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-40 font-medium">{t.missingValues}</span>
+          <select
+            className={selectClass}
+            value={missingTarget ?? ''}
+            onChange={(e) => setMissingColumn(e.target.value === '' ? null : Number(e.target.value))}
+          >
+            <option value="">{t.allColumnsOption}</option>
+            {columns.map((column, i) => (
+              <option key={i} value={i}>{column.name}</option>
+            ))}
+          </select>
+          <button className={buttonClass} onClick={() => apply({ type: 'dropMissing', column: missingTarget })}>
+            {t.dropRows}
+          </button>
+          <button
+            className={`${buttonClass} disabled:opacity-50`}
+            disabled={!imputable}
+            onClick={() => apply({ type: 'impute', column: missingTarget, strategy })}
+          >
+            {t.impute}
+          </button>
+          <select className={selectClass} value={strategy} onChange={(e) => setStrategy(e.target.value as ImputeStrategy)}>
+            {IMPUTE_STRATEGIES.map(value => (
+              <option key={value} value={value}>{t.strategies[value]}</option>
+            ))}
+          </select>
+        </div>
+
+        {outlierTarget !== undefined && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-40 font-medium">{t.outliers}</span>
+            <select className={selectClass} value={outlierTarget} onChange={(e) => setOutlierColumn(Number(e.target.value))}>
+              {numericColumns.map(i => (
+                <option key={i} value={i}>{columns[i].name}</option>
+              ))}
+            </select>
+            <select className={selectClass} value={method} onChange={(e) => setMethod(e.target.value as OutlierMethod)}>
+              {OUTLIER_METHODS.map(value => (
+                <option key={value} value={value}>{t.methods[value]}</option>
+              ))}
+            </select>
+            <button className={buttonClass} onClick={() => apply({ type: 'trimOutliers', column: outlierTarget, method, estimator })}>
+              {t.trim}
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="w-40 font-medium">{t.filter}</span>
+          <select className={selectClass} value={filterTarget} onChange={(e) => setFilterColumn(Number(e.target.value))}>
+            {columns.map((column, i) => (
+              <option key={i} value={i}>{column.name}</option>
+            ))}
+          </select>
+          <select className={selectClass} value={operator} onChange={(e) => setOperator(e.target.value as FilterOperator)}>
+            {operators.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode={columns[filterTarget].type === 'numeric' ? 'decimal' : undefined}
+            list="filter-categories"
+            className={`w-32 ${selectClass}`}
+            placeholder={t.filterValue}
+            value={filterValue}
+            onChange={(e) => setFilterValue(e.target.value)}
+          />
+          {columns[filterTarget].type === 'categorical' && (
+            <datalist id="filter-categories">
+              {columns[filterTarget].frequencies.slice(0, 50).map(([category]) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          )}
+          <button
+            className={`${buttonClass} disabled:opacity-50`}
+            disabled={!filterValue.trim()}
+            onClick={() => apply({ type: 'filter', column: filterTarget, operator, value: filterValue })}
+          >
+            {t.keep}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {changes.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium text-gray-700">{t.changes}</h4>
+            <button onClick={onUndo} className={`inline-flex items-center text-sm ${buttonClass}`}>
+              <Undo2 className="w-4 h-4 mr-1" />
+              {t.undo}
+            </button>
+          </div>
+          <ol className="list-decimal list-inside space-y-1 text-sm text-gray-600">
+            {changes.map((change, i) => (
+              <li key={i}>{change}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DataCleaningPanel;
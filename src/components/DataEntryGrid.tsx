@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { parseClipboard } from '../utils/dataset';
+import { useMessages } from '../i18n/context';
+
+interface DataEntryGridProps {
+  // Première ligne : noms des colonnes
+  initialRows: string[][];
+  onSubmit: (rows: string[][]) => void;
+  onClose: () => void;
+}
+
+const EMPTY_GRID = [['', ''], ...Array.from({ length: 5 }, () => ['', ''])];
+
+const cellClass = 'w-full min-w-[6rem] px-2 py-1 border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function DataEntryGrid({ initialRows, onSubmit, onClose }: DataEntryGridProps) {
+  const { dataEntry: t, csv } = useMessages();
+  const [rows, setRows] = useState<string[][]>(() => (initialRows.length > 0 ? initialRows : EMPTY_GRID));
+  const [error, setError] = useState<string | null>(null);
+  const width = rows[0].length;
+
+  const setCell = (row: number, column: number, value: string) =>
+    setRows(prev => prev.map((cells, r) => (r === row ? cells.map((cell, c) => (c === column ? value : cell)) : cells)));
+
+  // Un collage de plusieurs cellules remplit la grille à partir de la cellule visée, en l'agrandissant au besoin
+  const pasteCells = (row: number, column: number, event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData('text');
+    if (!/[\t\n]/.test(text)) return;
+    event.preventDefault();
+    const pasted = parseClipboard(text);
+    setRows(prev => {
+      const columns = Math.max(prev[0].length, column + Math.max(...pasted.map(cells => cells.length)));
+      const next = prev.map(cells => [...cells, ...Array<string>(columns - cells.length).fill('')]);
+      while (next.length < row + pasted.length) next.push(Array<string>(columns).fill(''));
+      pasted.forEach((cells, r) => cells.forEach((cell, c) => {
+        next[row + r][column + c] = cell.trim();
+      }));
+      return next;
+    });
+  };
+
+  const addRow = () => setRows(prev => [...prev, Array<string>(width).fill('')]);
+
+  const addColumn = () => setRows(prev => prev.map(cells => [...cells, '']));
+
+  const removeRow = (row: number) => setRows(prev => prev.filter((_, r) => r !== row));
+
+  const removeColumn = (column: number) => {
+    if (width > 1) setRows(prev => prev.map(cells => cells.filter((_, c) => c !== column)));
+  };
+
+  const submit = () => {
+    const [header, ...body] = rows;
+    if (!body.some(cells => cells.some(cell => cell.trim() !== ''))) {
+      setError(t.empty);
+      return;
+    }
+    setError(null);
+    // Un nom vide prend le nom par défaut : l'en-tête n'est jamais confondu avec une ligne vide
+    onSubmit([header.map((name, i) => name.trim() || csv.column(i + 1)), ...body]);
+  };
+
+  return (
+    <div className="mt-4 p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">{t.title}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title={t.close}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="mb-3 text-xs text-gray-500">{t.hint}</p>
+
+      <div className="overflow-auto max-h-96 border border-gray-200 rounded-lg">
+        <table className="min-w-full">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="w-8" />
+              {rows[0].map((name, c) => (
+                <th key={c} className="p-0">
+                  <div className="flex items-center">
+                    <input
+                      type="text"
+                      className={`${cellClass} font-medium bg-gray-50`}
+                      value={name}
+                      placeholder={csv.column(c + 1)}
+                      onChange={(e) => setCell(0, c, e.target.value)}
+                      onPaste={(e) => pasteCells(0, c, e)}
+                    />
+                    {width > 1 && (
+                      <button onClick={() => removeColumn(c)} className="px-1 text-gray-400 hover:text-red-600" title={t.removeColumn}>
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(1).map((cells, r) => (
+              <tr key={r}>
+                <td className="px-1 text-center">
+                  <button onClick={() => removeRow(r + 1)} className="text-gray-400 hover:text-red-600" title={t.removeRow}>
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </td>
+                {cells.map((cell, c) => (
+                  <td key={c} className="p-0">
+                    <input
+                      type="text"
+                      className={`${cellClass} font-mono text-right`}
+                      value={cell}
+                      onChange={(e) => setCell(r + 1, c, e.target.value)}
+                      onPaste={(e) => pasteCells(r + 1, c, e)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2 text-sm">
+        <button onClick={addRow} className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+          <Plus className="w-4 h-4 mr-1" />
+          {t.addRow}
+        </button>
+        <button onClick={addColumn} className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+          <Plus className="w-4 h-4 mr-1" />
+          {t.addColumn}
+        </button>
+        <button
+          onClick={() => setRows(EMPTY_GRID)}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          {t.clear}
+        </button>
+        <button onClick={submit} className="px-4 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          {t.analyze}
+        </button>
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export default DataEntryGrid;
@@ -0,0 +1,199 @@
+import { useMemo, useState } from 'react';
+import type { Data } from 'plotly.js';
+import Plot from './Plot';
+import {
+  BinMethod,
+  MAX_BINS,
+  binCount,
+  boxPlotFromSummary,
+  computeBins,
+  kernelDensity,
+} from '../utils/distribution';
+import type { ColumnSummary } from '../utils/statistics';
+import { formatNumber, plotSeparators } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface DistributionChartProps {
+  data: number[];
+  // Résumé calculé pendant la lecture : quartiles, extrêmes et valeurs aberrantes
+  summary: ColumnSummary;
+}
+
+const BIN_METHODS: BinMethod[] = ['sturges', 'freedman-diaconis', 'manual'];
+
+function DistributionChart({ data, summary }: DistributionChartProps) {
+  const t = useMessages().distribution;
+  const methodLabels: Record<BinMethod, string> = {
+    sturges: 'Sturges',
+    'freedman-diaconis': 'Freedman–Diaconis',
+    manual: t.manual
+  };
+  const [method, setMethod] = useState<BinMethod>('sturges');
+  const [manualCount, setManualCount] = useState(10);
+  const [showDensity, setShowDensity] = useState(true);
+
+  const { min, max } = summary.moments;
+  const count = binCount(summary, method, manualCount);
+  const bins = useMemo(() => computeBins(data, min, max, count), [data, min, max, count]);
+  const box = useMemo(() => boxPlotFromSummary(summary), [summary]);
+  const density = useMemo(() => (data.length > 1 ? kernelDensity(data, min, max) : null), [data, min, max]);
+
+  if (data.length === 0) return null;
+
+  const binWidth = bins[0].end - bins[0].start;
+  const histogram: Data[] = [
+    {
+      type: 'bar',
+      x: bins.map(bin => (bin.start + bin.end) / 2),
+      y: bins.map(bin => bin.count),
+      width: bins.map(bin => bin.end - bin.start),
+      customdata: bins.map((bin, i) => [
+        formatNumber(bin.start, 2),
+        formatNumber(bin.end, 2),
+        i === bins.length - 1 ? ']' : '['
+      ]),
+      hovertemplate: `[%{customdata[0]} ; %{customdata[1]}%{customdata[2]}<br>${t.frequency} : %{y}<extra></extra>`,
+      marker: { color: 'rgba(37, 99, 235, 0.6)', line: { color: '#1d4ed8', width: 1 } },
+      name: t.frequencies
+    }
+  ];
+  if (showDensity && density) {
+    // La densité est mise à l'échelle des effectifs : f(x) × n × largeur de classe
+    histogram.push({
+      type: 'scatter',
+      mode: 'lines',
+      x: density.x,
+      y: density.y.map(y => y * data.length * binWidth),
+      line: { color: '#dc2626', width: 2 },
+      hovertemplate: `x = %{x:.2f}<extra>${t.density}</extra>`,
+      name: t.densityLegend(formatNumber(density.bandwidth, 2))
+    });
+  }
+
+  // Boîte construite à partir de nos quartiles pour rester cohérente avec les valeurs affichées
+  const boxPlot = [
+    {
+      type: 'box',
+      y: [''],
+      q1: [box.q1],
+      median: [box.median],
+      q3: [box.q3],
+      lowerfence: [box.lowerWhisker],
+      upperfence: [box.upperWhisker],
+      orientation: 'h',
+      boxpoints: false,
+      marker: { color: '#2563eb' },
+      line: { color: '#1d4ed8' },
+      name: t.quartiles
+    },
+    {
+      type: 'scatter',
+      mode: 'markers',
+      x: box.outliers,
+      y: box.outliers.map(() => ''),
+      marker: { color: '#dc2626', size: 8, symbol: 'circle-open' },
+      hovertemplate: `%{x:.2f}<extra>${t.outlier}</extra>`,
+      name: t.outliers
+    }
+  ] as Data[];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+        <label className="inline-flex items-center">
+          {t.bins}
+          <select
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as BinMethod)}
+          >
+            {BIN_METHODS.map(value => (
+              <option key={value} value={value}>{methodLabels[value]}</option>
+            ))}
+          </select>
+        </label>
+        {method === 'manual' && (
+          <input
+            type="number"
+            min={1}
+            max={MAX_BINS}
+            value={manualCount}
+            onChange={(e) => setManualCount(Math.min(MAX_BINS, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        )}
+        <span className="text-gray-500">{t.binCount(bins.length)}</span>
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            checked={showDensity}
+            onChange={(e) => setShowDensity(e.target.checked)}
+          />
+          {t.densityCurve}
+        </label>
+      </div>
+
+      <Plot
+        data={histogram}
+        layout={{
+          autosize: true,
+          height: 320,
+          margin: { l: 50, r: 20, t: 30, b: 40 },
+          title: { text: t.histogram, font: { size: 14 } },
+          separators: plotSeparators(),
+          bargap: 0,
+          showlegend: showDensity && density !== null,
+          legend: { orientation: 'h', y: -0.2 },
+          yaxis: { title: { text: t.frequency } }
+        }}
+        config={{ responsive: true, displaylogo: false }}
+        useResizeHandler
+        style={{ width: '100%' }}
+      />
+
+      <Plot
+        data={boxPlot}
+        layout={{
+          autosize: true,
+          height: 200,
+          margin: { l: 30, r: 20, t: 30, b: 40 },
+          title: { text: t.boxPlot, font: { size: 14 } },
+          separators: plotSeparators(),
+          showlegend: false
+        }}
+        config={{ responsive: true, displaylogo: false }}
+        useResizeHandler
+        style={{ width: '100%' }}
+      />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <div className="flex justify-between bg-white px-3 py-2 rounded">
+          <span className="text-gray-500">Q1</span>
+          <span className="font-medium">{formatNumber(box.q1, 2)}</span>
+        </div>
+        <div className="flex justify-between bg-white px-3 py-2 rounded">
+          <span className="text-gray-500">Q3</span>
+          <span className="font-medium">{formatNumber(box.q3, 2)}</span>
+        </div>
+        <div className="flex justify-between bg-white px-3 py-2 rounded">
+          <span className="text-gray-500">IQR</span>
+          <span className="font-medium">{formatNumber(box.iqr, 2)}</span>
+        </div>
+        <div className="flex justify-between bg-white px-3 py-2 rounded">
+          <span className="text-gray-500">{t.outliers}</span>
+          <span className="font-medium">{box.outliers.length}</span>
+        </div>
+      </div>
+      {box.outliers.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {t.outsideFences(formatNumber(box.lowerFence, 2), formatNumber(box.upperFence, 2), formatNumber(1.5))}{' '}
+          {box.outliers.slice(0, 20).map(v => formatNumber(v, 2)).join(' ; ')}
+          {box.outliers.length > 20 ? '…' : ''}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default DistributionChart;
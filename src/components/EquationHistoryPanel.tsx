@@ -0,0 +1,256 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Copy, Download, FileDown, History, Pin, PinOff, Search, Sigma, Trash2, Upload } from 'lucide-react';
+import MathFormula from './MathFormula';
+import StepList from './StepList';
+import {
+  HistoryEntry,
+  HistoryFilter,
+  HistoryPeriod,
+  PERIODS,
+  SOLUTION_TYPES,
+  entryToLatex,
+  entryToMarkdown,
+  filterHistory,
+  historyToCsv,
+  historyToJson,
+  mergeHistory,
+  parseHistoryFile,
+} from '../utils/history';
+import { downloadFile } from '../utils/download';
+import { stepToText } from '../utils/steps';
+import type { SolutionType } from '../utils/linearSystem';
+import { localeTag } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface EquationHistoryPanelProps {
+  entries: HistoryEntry[];
+  onChange: (entries: HistoryEntry[]) => void;
+  onLoad: (entry: HistoryEntry) => void;
+  title?: string;
+}
+
+type CopyFormat = 'text' | 'latex';
+
+const controlClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+const actionClass = 'inline-flex items-center px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50';
+
+function EquationHistoryPanel({ entries, onChange, onLoad, title }: EquationHistoryPanelProps) {
+  const t = useMessages().history;
+  const [filter, setFilter] = useState<HistoryFilter>({ query: '', solutionType: 'all', period: 'all' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [copied, setCopied] = useState<{ id: string; format: CopyFormat } | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => filterHistory(entries, filter), [entries, filter]);
+
+  const copyToClipboard = (item: HistoryEntry, format: CopyFormat) => {
+    navigator.clipboard.writeText(format === 'latex'
+      ? entryToLatex(item)
+      : `${item.equation}\n${item.result}\n${item.steps.map(stepToText).join('\n')}`);
+    setCopied({ id: item.id, format });
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const isCopied = (id: string, format: CopyFormat) => copied?.id === id && copied.format === format;
+
+  const exportMarkdown = (item: HistoryEntry) =>
+    downloadFile(entryToMarkdown(item), `${t.solutionFileName}-${item.timestamp.toISOString().slice(0, 10)}.md`, 'text/markdown;charset=utf-8');
+
+  const togglePin = (id: string) =>
+    onChange(entries.map(entry => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry)));
+
+  const remove = (id: string) => onChange(entries.filter(entry => entry.id !== id));
+
+  const exportAs = (format: 'json' | 'csv') => {
+    const date = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(historyToJson(visible), `${t.historyFileName}-${date}.json`, 'application/json');
+    } else {
+      downloadFile(historyToCsv(visible), `${t.historyFileName}-${date}.csv`, 'text/csv;charset=utf-8');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseHistoryFile(await file.text(), file.name);
+      const merged = mergeHistory(entries, imported);
+      onChange(merged);
+      setImportMessage({ text: t.imported(merged.length - entries.length), error: false });
+    } catch (err) {
+      setImportMessage({ text: err instanceof Error ? err.message : t.invalidFile, error: true });
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
+        <History className="w-5 h-5 mr-2 text-gray-600" />
+        {title ?? t.title}
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            placeholder={t.searchPlaceholder}
+            className={`${controlClass} w-full pl-8`}
+          />
+        </div>
+        <select
+          className={controlClass}
+          value={filter.solutionType}
+          onChange={(e) => setFilter({ ...filter, solutionType: e.target.value as SolutionType | 'all' })}
+        >
+          <option value="all">{t.allResults}</option>
+          {SOLUTION_TYPES.map(type => (
+            <option key={type} value={type}>{t.solutionTypes[type]}</option>
+          ))}
+        </select>
+        <select
+          className={controlClass}
+          value={filter.period}
+          onChange={(e) => setFilter({ ...filter, period: e.target.value as HistoryPeriod })}
+        >
+          {PERIODS.map(period => (
+            <option key={period} value={period}>{t.periods[period]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button onClick={() => exportAs('json')} disabled={visible.length === 0} className={actionClass}>
+          <Download className="mr-1 w-4 h-4" />
+          JSON
+        </button>
+        <button onClick={() => exportAs('csv')} disabled={visible.length === 0} className={actionClass}>
+          <Download className="mr-1 w-4 h-4" />
+          CSV
+        </button>
+        <button onClick={() => fileInput.current?.click()} className={actionClass}>
+          <Upload className="mr-1 w-4 h-4" />
+          {t.import}
+        </button>
+        <input ref={fileInput} type="file" accept=".json,.csv" className="hidden" onChange={handleImport} />
+        {importMessage && (
+          <span className={`text-sm ${importMessage.error ? 'text-red-600' : 'text-green-700'}`}>{importMessage.text}</span>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500 italic">{t.empty}</p>
+      ) : visible.length === 0 ? (
+        <p className="text-gray-500 italic">{t.noMatch}</p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map(item => (
+            <div
+              key={item.id}
+              className={`border rounded-lg overflow-hidden ${item.pinned ? 'border-amber-300' : 'border-gray-200'}`}
+            >
+              <div className="bg-gray-50 px-4 py-3 flex justify-between items-center gap-2">
+                <button
+                  onClick={() => onLoad(item)}
+                  className="text-left hover:underline"
+                  title={t.reload}
+                >
+                  {item.mode === 'system' && (
+                    <span className="mr-2 px-2 py-1 bg-purple-100 text-purple-800 text-xs font-medium rounded">
+                      {t.system}
+                    </span>
+                  )}
+                  {item.mode === 'numeric' && (
+                    <span className="mr-2 px-2 py-1 bg-amber-100 text-amber-800 text-xs font-medium rounded">
+                      {t.numeric}
+                    </span>
+                  )}
+                  {item.mode === 'matrix' && (
+                    <span className="mr-2 px-2 py-1 bg-indigo-100 text-indigo-800 text-xs font-medium rounded">
+                      {t.matrix}
+                    </span>
+                  )}
+                  {item.mode === 'practice' && (
+                    <span className="mr-2 px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded">
+                      {t.practice}
+                    </span>
+                  )}
+                  <MathFormula math={item.equation} className="font-medium text-gray-900" />
+                  <span className="ml-3 px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded">
+                    {item.result}
+                  </span>
+                </button>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <span className="text-xs text-gray-500" title={item.timestamp.toLocaleString(localeTag())}>
+                    {item.timestamp.toLocaleDateString(localeTag(), { day: '2-digit', month: '2-digit' })}{' '}
+                    {item.timestamp.toLocaleTimeString(localeTag(), { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <button
+                    onClick={() => togglePin(item.id)}
+                    className={`p-1 rounded-full ${item.pinned ? 'text-amber-500 hover:text-amber-700' : 'text-gray-400 hover:text-gray-600'}`}
+                    title={item.pinned ? t.unpin : t.pin}
+                  >
+                    {item.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => copyToClipboard(item, 'text')}
+                    className="text-gray-400 hover:text-gray-600 p-1 rounded-full"
+                    title={t.copy}
+                  >
+                    {isCopied(item.id, 'text') ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => copyToClipboard(item, 'latex')}
+                    className="text-gray-400 hover:text-gray-600 p-1 rounded-full"
+                    title={t.copyLatex}
+                  >
+                    {isCopied(item.id, 'latex') ? <Check className="w-4 h-4 text-green-500" /> : <Sigma className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => exportMarkdown(item)}
+                    className="text-gray-400 hover:text-gray-600 p-1 rounded-full"
+                    title={t.exportMarkdown}
+                  >
+                    <FileDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(item.id)}
+                    className="text-gray-400 hover:text-red-600 p-1 rounded-full"
+                    title={t.remove}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                    className="text-gray-400 hover:text-gray-600 p-1 rounded-full"
+                  >
+                    {expandedId === item.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === item.id && (
+                <div className="p-4 bg-white border-t border-gray-200">
+                  <h4 className="font-medium text-gray-700 mb-2 flex items-center">
+                    <svg className="w-4 h-4 mr-2 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    {t.stepsTitle}
+                  </h4>
+                  <StepList steps={item.steps} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EquationHistoryPanel;
@@ -1,177 +1,452 @@
-import { useState } from 'react';
-import { History, RefreshCw, ChevronDown, ChevronUp, Copy, Check } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { History, RefreshCw, LineChart } from 'lucide-react';
+import EquationHistoryPanel from './EquationHistoryPanel';
+import MathFormula from './MathFormula';
+import PracticeMode from './PracticeMode';
+import { Root, solveWithSteps } from '../utils/equationSolver';
+import { literalVariables } from '../utils/literalEquation';
+import { PlotRequest, splitSides } from '../utils/functionPlot';
+import { HistoryEntry, SolverMode, createEntryId, loadHistory, saveHistory } from '../utils/history';
+import type { NumericSettings, SolverState } from '../utils/urlState';
+import { SolutionType, solveSystemWithSteps, splitSystem } from '../utils/linearSystem';
+import {
+  DEFAULT_NUMERIC_OPTIONS,
+  NumericOptions,
+  ROOT_METHODS,
+  RootMethod,
+  TOLERANCES,
+  solveNumericWithSteps
+} from '../utils/rootFinding';
+import { exerciseResult } from '../utils/practice';
+import { Step, step } from '../utils/steps';
+import { Messages, formatNumber, parseLocaleNumber } from '../i18n';
+import { useMessages } from '../i18n/context';
 
-interface EquationHistory {
-  equation: string;
+type ExampleKey = keyof Messages['solver']['examples'];
+
+// unknown : inconnue présélectionnée, quand la détection automatique ne peut pas la deviner
+const EXAMPLES: Record<SolverMode, { key: ExampleKey; value: string; unknown?: string }[]> = {
+  equation: [
+    { key: 'simple', value: '2x + 3 = 5' },
+    { key: 'complex', value: '3x - 2 = x + 4' },
+    { key: 'parentheses', value: '2(x + 1) = (x + 7)/3' },
+    { key: 'quadratic', value: 'x^2 - 5x + 6 = 0' },
+    { key: 'cubic', value: 'x^3 - 6x^2 + 11x - 6 = 0' },
+    { key: 'inequality', value: '-2x + 1 ≥ 5' },
+    { key: 'compound', value: '-3 < 2x + 1 ≤ 7' },
+    { key: 'literal', value: 'PV = nRT', unknown: 'P' }
+  ],
+  system: [
+    { key: 'system2', value: 'x + y = 3\n2x - y = 0' },
+    { key: 'system3', value: 'x + y + z = 6\n2y + 5z = -4\n2x + 5y - z = 27' },
+    { key: 'inconsistent', value: 'x + y = 1\n2x + 2y = 3' },
+    { key: 'infinite', value: 'x + y + z = 1\n2x + 2y + 2z = 2' }
+  ],
+  numeric: [
+    { key: 'sine', value: 'sin(x) = x/2' },
+    { key: 'exponential', value: 'e^x = 3x' },
+    { key: 'logarithm', value: 'ln(x) + x = 2' },
+    { key: 'fixedPoint', value: 'cos(x) = x' }
+  ],
+  // Les exercices sont générés par le mode entraînement
+  practice: []
+};
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// 1e-10 s'affiche 10⁻¹⁰
+const formatTolerance = (tolerance: number) =>
+  `10⁻${[...String(Math.round(-Math.log10(tolerance)))].map(digit => SUPERSCRIPT_DIGITS[Number(digit)]).join('')}`;
+
+interface EquationSolverProps {
+  initialMode?: SolverMode;
+  // Équation reprise d'un lien partagé, résolue dès l'ouverture
+  initialEquation?: string;
+  // Inconnue d'une équation littérale reprise du lien, vide pour la détection automatique
+  initialUnknown?: string;
+  // Intervalle, méthode et tolérance repris du lien ou transmis avec l'équation
+  initialNumeric?: NumericSettings;
+  onEquationChange?: (state: SolverState) => void;
+  onPlot?: (request: PlotRequest) => void;
+}
+
+interface Solution {
   result: string;
-  steps: string[];
-  timestamp: Date;
+  steps: Step[];
+  solutionType: SolutionType;
+  roots: Root[];
+  parameters?: string[];
 }
 
-function EquationSolver() {
-  const [equation, setEquation] = useState('');
-  const [result, setResult] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<EquationHistory[]>([]);
+// Les réglages numériques (intervalle, méthode, tolérance) sont ignorés par les autres modes
+const runSolver = (mode: SolverMode, input: string, options: NumericOptions): Solution => {
+  if (mode === 'system') return { ...solveSystemWithSteps(input, options), roots: [] };
+  if (mode === 'numeric') return solveNumericWithSteps(input, options);
+  return solveWithSteps(input, options);
+};
+
+function EquationSolver({
+  initialMode = 'equation',
+  initialEquation = '',
+  initialUnknown = '',
+  initialNumeric,
+  onEquationChange,
+  onPlot
+}: EquationSolverProps) {
+  const { solver: t, common, numeric, practice } = useMessages();
+  const initialOptions = { ...DEFAULT_NUMERIC_OPTIONS, ...initialNumeric };
+  const [initial] = useState(() => {
+    if (!initialEquation.trim() || initialMode === 'practice') return { solution: null, error: null };
+    try {
+      const options = initialUnknown ? { ...initialOptions, variable: initialUnknown } : initialOptions;
+      return { solution: runSolver(initialMode, initialEquation, options), error: null };
+    } catch (err) {
+      return { solution: null, error: err instanceof Error ? err.message : t.invalidFormat };
+    }
+  });
+  const [mode, setMode] = useState<SolverMode>(initialMode);
+  const [equation, setEquation] = useState(initialEquation);
+  const [solvedEquation, setSolvedEquation] = useState(initial.solution ? initialEquation : '');
+  const [result, setResult] = useState<string | null>(initial.solution?.result ?? null);
+  const [roots, setRoots] = useState<Root[]>(initial.solution?.roots ?? []);
+  // Présent quand l'équation a été résolue comme équation littérale : pas de graphe en x
+  const [parameters, setParameters] = useState<string[] | undefined>(initial.solution?.parameters);
+  // Inconnue choisie par l'utilisateur ; vide, x est retenu s'il figure dans l'équation
+  const [variable, setVariable] = useState(initialUnknown);
+  const [error, setError] = useState<string | null>(initial.error);
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
   const [showHistory, setShowHistory] = useState(false);
-  const [expandedSteps, setExpandedSteps] = useState<number | null>(null);
-  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [showApproximation, setShowApproximation] = useState(false);
+  const [precision, setPrecision] = useState(4);
+  const [xMin, setXMin] = useState(() => formatNumber(initialOptions.xMin));
+  const [xMax, setXMax] = useState(() => formatNumber(initialOptions.xMax));
+  const [method, setMethod] = useState<RootMethod>(initialOptions.method);
+  const [tolerance, setTolerance] = useState(initialOptions.tolerance);
+  // Change à chaque rechargement d'un exercice depuis l'historique, pour repartir de zéro
+  const [practiceKey, setPracticeKey] = useState(0);
+
+  // Une borne illisible donne NaN, rejeté comme intervalle invalide
+  const numericSettings = (): NumericSettings => ({
+    xMin: parseLocaleNumber(xMin) ?? NaN,
+    xMax: parseLocaleNumber(xMax) ?? NaN,
+    method,
+    tolerance
+  });
 
-  const resetForm = () => {
-    setEquation('');
+  // Le mode et l'équation transmis au parent sont ceux qui vont s'afficher, pas ceux de l'état courant
+  const resetForm = (nextMode: SolverMode = mode, nextEquation = '', nextUnknown = '') => {
+    setEquation(nextEquation);
     setResult(null);
+    setRoots([]);
+    setParameters(undefined);
+    setVariable(nextUnknown);
     setError(null);
+    onEquationChange?.({ mode: nextMode, equation: nextEquation, unknown: nextUnknown, numeric: numericSettings() });
   };
 
-  const copyToClipboard = (text: string, index: number) => {
-    navigator.clipboard.writeText(text);
-    setCopiedIndex(index);
-    setTimeout(() => setCopiedIndex(null), 2000);
-  };
-
-  const solveWithSteps = (equation: string) => {
-    const steps: string[] = [];
-    const cleanEquation = equation.replace(/\s+/g, '');
-    steps.push(`Équation initiale : ${equation}`);
-
-    // Validation
-    if (!cleanEquation.includes('=')) {
-      throw new Error('L\'équation doit contenir un signe "="');
-    }
-
-    if (!cleanEquation.includes('x')) {
-      throw new Error('La variable "x" est requise');
-    }
+  useEffect(() => saveHistory(history), [history]);
 
-    const [left, right] = cleanEquation.split('=');
-    steps.push(`Séparation des membres : Gauche = ${left}, Droit = ${right}`);
-
-    // Extraction des coefficients
-    const parseSide = (side: string, sideName: string) => {
-      const xTerm = side.match(/([+-]?\d*\.?\d*)x/);
-      const constantTerm = side.replace(/([+-]?\d*\.?\d*)x/, '').match(/([+-]?\d+\.?\d*)/);
-
-      const a = xTerm ? 
-        (xTerm[1] === '+' || xTerm[1] === '' ? 1 : 
-         xTerm[1] === '-' ? -1 : parseFloat(xTerm[1])) : 0;
-      
-      const b = constantTerm ? parseFloat(constantTerm[1]) : 0;
-
-      steps.push(`Coefficients ${sideName} : ${a}x ${b >= 0 ? '+' : '-'} ${Math.abs(b)}`);
-      return { a, b };
-    };
-
-    const leftCoef = parseSide(left, 'gauche');
-    const rightCoef = parseSide(right, 'droit');
-
-    // Réorganisation
-    const totalA = leftCoef.a - rightCoef.a;
-    const totalB = rightCoef.b - leftCoef.b;
-    steps.push(`Simplification : ${totalA}x = ${totalB}`);
-
-    // Résolution
-    if (totalA === 0) {
-      if (totalB === 0) {
-        steps.push('0 = 0 → L\'équation a une infinité de solutions');
-        return {
-          result: '∞ (infinité de solutions)',
-          steps
-        };
-      } else {
-        steps.push(`${totalB} ≠ 0 → Aucune solution possible`);
-        return {
-          result: '∅ (aucune solution)',
-          steps
-        };
-      }
-    }
+  // Lettres de l'équation en cours de saisie, proposées comme inconnue dès qu'une autre que x apparaît
+  const letters = useMemo(() => (mode === 'equation' ? literalVariables(equation) : []), [mode, equation]);
+  const unknownChoices = letters.some(letter => letter !== 'x') ? letters : [];
 
-    const solution = totalB / totalA;
-    steps.push(`Solution : x = ${totalB} / ${totalA} = ${solution}`);
-    
-    return {
-      result: `x = ${solution}`,
-      steps
-    };
+  const changeMode = (newMode: SolverMode) => {
+    setMode(newMode);
+    resetForm(newMode);
   };
 
   const solveEquation = () => {
     try {
       setError(null);
-      const { result, steps } = solveWithSteps(equation);
-      
+      const numeric = numericSettings();
+      const { result, steps, solutionType, roots, parameters } = runSolver(mode, equation, {
+        ...numeric,
+        ...(unknownChoices.includes(variable) ? { variable } : {}),
+        ...(showApproximation ? { precision } : {})
+      });
+
+      setRoots(roots);
+      setParameters(parameters);
       setResult(result);
+      setSolvedEquation(equation);
       setHistory(prev => [{
-        equation,
+        id: createEntryId(),
+        mode,
+        input: equation,
+        equation: mode === 'system' ? splitSystem(equation).join(' ; ') : equation,
         result,
         steps,
+        solutionType,
+        pinned: false,
         timestamp: new Date()
       }, ...prev]); // Nouvelle équation en premier
+      onEquationChange?.({ mode, equation, unknown: unknownChoices.includes(variable) ? variable : '', numeric });
 
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Format invalide. Ex: 2x+3=5 ou x-1=2x+3');
+      setError(err instanceof Error ? err.message : t.invalidFormat);
     }
   };
 
+  const completeExercise = (exercise: string, studentSteps: string[]) => {
+    setHistory(prev => [{
+      id: createEntryId(),
+      mode: 'practice',
+      input: exercise,
+      equation: exercise,
+      result: exerciseResult(exercise),
+      steps: studentSteps.map(line => step(practice.studentStep, line)),
+      solutionType: 'unique',
+      pinned: false,
+      timestamp: new Date()
+    }, ...prev]);
+  };
+
+  const changeExercise = (exercise: string) => {
+    setEquation(exercise);
+    onEquationChange?.({ mode: 'practice', equation: exercise, unknown: '', numeric: numericSettings() });
+  };
+
+  // Recharge une entrée de l'historique dans le champ de saisie, ou comme exercice en mode entraînement
+  const loadEntry = (entry: HistoryEntry) => {
+    // Une entrée matricielle importée ici ne correspond à aucun mode du résolveur
+    if (entry.mode === 'matrix') return;
+    // L'inconnue d'une équation littérale se lit au début du résultat (« t = … »)
+    const literal = entry.mode === 'equation' && literalVariables(entry.input).some(letter => letter !== 'x');
+    const unknown = literal ? entry.result.match(/^(\p{L}\d*) =/u)?.[1] : undefined;
+    setMode(entry.mode);
+    resetForm(entry.mode, entry.input, unknown ?? '');
+    if (entry.mode === 'practice') setPracticeKey(prev => prev + 1);
+  };
+
+  const historyButton = (
+    <button
+      onClick={() => setShowHistory(!showHistory)}
+      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+    >
+      <History className="inline mr-2 w-4 h-4" />
+      {showHistory ? t.hideHistory : t.showHistory}
+    </button>
+  );
+
+  const showGraph = () => {
+    if (!onPlot) return;
+    onPlot({
+      functions: splitSides(solvedEquation),
+      intersections: roots.filter(root => root.im === 0).map(root => root.re),
+      title: solvedEquation
+    });
+  };
+
   return (
     <div className="space-y-6 max-w-3xl mx-auto p-4">
       <div className="bg-white p-6 rounded-lg shadow">
-        <h2 className="text-2xl font-bold text-gray-800 mb-6">Résolveur d'Équations Linéaires</h2>
-        
-        <div className="space-y-4">
-          <div>
-            <label htmlFor="equation" className="block text-sm font-medium text-gray-700 mb-1">
-              Entrez votre équation
-            </label>
-            <input
-              type="text"
-              id="equation"
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              value={equation}
-              onChange={(e) => setEquation(e.target.value)}
-              placeholder="Ex: 2x + 3 = 5 ou x - 1 = 2x + 3"
-              onKeyPress={(e) => e.key === 'Enter' && solveEquation()}
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">
+          {mode === 'system'
+            ? t.systemTitle
+            : mode === 'numeric' ? t.numericTitle : mode === 'practice' ? t.practiceTitle : t.equationTitle}
+        </h2>
+
+        <div className="mb-4 inline-flex rounded-md border border-gray-300 overflow-hidden">
+          <button
+            onClick={() => changeMode('equation')}
+            className={`px-4 py-2 text-sm font-medium ${mode === 'equation' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+          >
+            {t.equationMode}
+          </button>
+          <button
+            onClick={() => changeMode('system')}
+            className={`px-4 py-2 text-sm font-medium border-l border-gray-300 ${mode === 'system' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+          >
+            {t.systemMode}
+          </button>
+          <button
+            onClick={() => changeMode('numeric')}
+            className={`px-4 py-2 text-sm font-medium border-l border-gray-300 ${mode === 'numeric' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+          >
+            {t.numericMode}
+          </button>
+          <button
+            onClick={() => changeMode('practice')}
+            className={`px-4 py-2 text-sm font-medium border-l border-gray-300 ${mode === 'practice' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+          >
+            {t.practiceMode}
+          </button>
+        </div>
+
+        {mode === 'practice' ? (
+          <div className="space-y-4">
+            <PracticeMode
+              key={practiceKey}
+              initialExercise={equation}
+              onExerciseChange={changeExercise}
+              onComplete={completeExercise}
             />
-            <div className="mt-2 flex flex-wrap gap-2">
+            {historyButton}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="equation" className="block text-sm font-medium text-gray-700 mb-1">
+                {mode === 'system' ? t.systemLabel : mode === 'numeric' ? t.numericLabel : t.equationLabel}
+              </label>
+              {mode === 'system' ? (
+                <textarea
+                  id="equation"
+                  rows={4}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  value={equation}
+                  onChange={(e) => setEquation(e.target.value)}
+                  placeholder={t.systemPlaceholder}
+                />
+              ) : (
+                <input
+                  type="text"
+                  id="equation"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  value={equation}
+                  onChange={(e) => setEquation(e.target.value)}
+                  placeholder={mode === 'numeric' ? t.numericPlaceholder : t.equationPlaceholder}
+                  onKeyPress={(e) => e.key === 'Enter' && solveEquation()}
+                />
+              )}
+              {equation.trim() && (
+                <div className="mt-2 px-3 py-2 bg-gray-50 rounded-md text-gray-800 overflow-x-auto">
+                  <span className="mr-2 text-xs font-semibold text-gray-500">{common.preview}</span>
+                  {mode === 'system' ? (
+                    <div className="mt-1 space-y-1">
+                      {splitSystem(equation).map((line, i) => (
+                        <MathFormula key={i} math={line} displayMode />
+                      ))}
+                    </div>
+                  ) : (
+                    <MathFormula math={equation} />
+                  )}
+                </div>
+              )}
+              <div className="mt-2 flex flex-wrap gap-2">
+                {EXAMPLES[mode].map(example => (
+                  <button
+                    key={example.key}
+                    onClick={() => {
+                      setEquation(example.value);
+                      setVariable(example.unknown ?? '');
+                    }}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    {t.examples[example.key]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {unknownChoices.length > 0 && (
+              <label className="inline-flex items-center text-sm text-gray-700">
+                {t.unknown}
+                <select
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  value={unknownChoices.includes(variable) ? variable : ''}
+                  onChange={(e) => setVariable(e.target.value)}
+                >
+                  <option value="">{t.automatic}</option>
+                  {unknownChoices.map(letter => (
+                    <option key={letter} value={letter}>{letter}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {mode === 'numeric' && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <label className="inline-flex items-center">
+                  {t.interval}
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={xMin}
+                    onChange={(e) => setXMin(e.target.value)}
+                  />
+                  <span className="mx-2">{t.intervalTo}</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={xMax}
+                    onChange={(e) => setXMax(e.target.value)}
+                  />
+                </label>
+                <label className="inline-flex items-center">
+                  {t.method}
+                  <select
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={method}
+                    onChange={(e) => setMethod(e.target.value as RootMethod)}
+                  >
+                    {ROOT_METHODS.map(name => (
+                      <option key={name} value={name}>{numeric.methods[name]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="inline-flex items-center">
+                  {t.tolerance}
+                  <select
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={tolerance}
+                    onChange={(e) => setTolerance(Number(e.target.value))}
+                  >
+                    {TOLERANCES.map(value => (
+                      <option key={value} value={value}>{formatTolerance(value)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+              <label className="inline-flex items-center">
+                <input
+                  type="checkbox"
+                  className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={showApproximation}
+                  onChange={(e) => setShowApproximation(e.target.checked)}
+                />
+                {t.showApproximation}
+              </label>
+              {showApproximation && (
+                <label className="inline-flex items-center">
+                  {t.precision}
+                  <select
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={precision}
+                    onChange={(e) => setPrecision(Number(e.target.value))}
+                  >
+                    {[2, 3, 4, 6, 8, 10].map(digits => (
+                      <option key={digits} value={digits}>{t.decimals(digits)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-3">
               <button
-                onClick={() => setEquation('2x + 3 = 5')}
-                className="text-xs text-blue-600 hover:text-blue-800"
+                onClick={solveEquation}
+                disabled={!equation.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
               >
-                Exemple simple
+                {t.solve}
               </button>
               <button
-                onClick={() => setEquation('3x - 2 = x + 4')}
-                className="text-xs text-blue-600 hover:text-blue-800"
+                onClick={() => resetForm()}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
               >
-                Exemple complexe
+                <RefreshCw className="inline mr-2 w-4 h-4" />
+                {t.reset}
               </button>
+              {historyButton}
             </div>
           </div>
-
-          <div className="flex flex-wrap gap-3">
-            <button
-              onClick={solveEquation}
-              disabled={!equation.trim()}
-              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
-            >
-              Résoudre
-            </button>
-            <button
-              onClick={resetForm}
-              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            >
-              <RefreshCw className="inline mr-2 w-4 h-4" />
-              Réinitialiser
-            </button>
-            <button
-              onClick={() => setShowHistory(!showHistory)}
-              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            >
-              <History className="inline mr-2 w-4 h-4" />
-              {showHistory ? 'Masquer' : 'Afficher'} l'historique
-            </button>
-          </div>
-        </div>
+        )}
 
         {error && (
           <div className="mt-4 p-3 bg-red-50 border-l-4 border-red-500 rounded">
@@ -191,8 +466,41 @@ function EquationSolver() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
               </svg>
               <div>
-                <h3 className="text-lg font-semibold text-green-800">Solution trouvée :</h3>
-                <div className="mt-1 text-xl font-bold text-green-900">{result}</div>
+                <h3 className="text-lg font-semibold text-green-800">{t.solutionFound}</h3>
+                {roots.length > 1 ? (
+                  <ul className="mt-1 space-y-1">
+                    {roots.map((root, i) => (
+                      <li key={i} className="text-lg font-bold text-green-900">
+                        x{root.approximate ? ' ≈ ' : ' = '}{root.value}
+                        {root.approximation && (
+                          <span className="ml-2 font-normal text-green-800">≈ {root.approximation}</span>
+                        )}
+                        {mode !== 'numeric' && (
+                          <span className="ml-2 text-sm font-normal text-green-700">
+                            {t.multiplicity(root.multiplicity)}{root.im !== 0 ? ` · ${t.complex}` : ''}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : mode === 'system' ? (
+                  <ul className="mt-1 space-y-1">
+                    {result.split(' ; ').map((line, i) => (
+                      <li key={i} className="text-lg font-bold text-green-900">{line}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="mt-1 text-xl font-bold text-green-900">{result}</div>
+                )}
+                {mode !== 'system' && !parameters && onPlot && (
+                  <button
+                    onClick={showGraph}
+                    className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <LineChart className="inline mr-1 w-4 h-4" />
+                    {t.showGraph}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -200,68 +508,7 @@ function EquationSolver() {
       </div>
 
       {showHistory && (
-        <div className="bg-white p-6 rounded-lg shadow">
-          <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center">
-            <History className="w-5 h-5 mr-2 text-gray-600" />
-            Historique des Résolutions
-          </h3>
-          
-          {history.length === 0 ? (
-            <p className="text-gray-500 italic">Aucune équation résolue encore</p>
-          ) : (
-            <div className="space-y-4">
-              {history.map((item, index) => (
-                <div key={index} className="border border-gray-200 rounded-lg overflow-hidden">
-                  <div className="bg-gray-50 px-4 py-3 flex justify-between items-center">
-                    <div>
-                      <span className="font-medium text-gray-900">{item.equation}</span>
-                      <span className="ml-3 px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded">
-                        {item.result}
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <span className="text-xs text-gray-500">
-                        {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      </span>
-                      <button
-                        onClick={() => copyToClipboard(`${item.equation}\n${item.result}\n${item.steps.join('\n')}`, index)}
-                        className="text-gray-400 hover:text-gray-600 p-1 rounded-full"
-                        title="Copier"
-                      >
-                        {copiedIndex === index ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
-                      </button>
-                      <button
-                        onClick={() => setExpandedSteps(expandedSteps === index ? null : index)}
-                        className="text-gray-400 hover:text-gray-600 p-1 rounded-full"
-                      >
-                        {expandedSteps === index ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
-                      </button>
-                    </div>
-                  </div>
-                  
-                  {expandedSteps === index && (
-                    <div className="p-4 bg-white border-t border-gray-200">
-                      <h4 className="font-medium text-gray-700 mb-2 flex items-center">
-                        <svg className="w-4 h-4 mr-2 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        Détail des étapes de résolution
-                      </h4>
-                      <ul className="space-y-2 pl-5">
-                        {item.steps.map((step, i) => (
-                          <li key={i} className="text-sm text-gray-600 relative pl-5">
-                            <span className="absolute left-0 text-gray-400">{i + 1}.</span>
-                            {step}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+        <EquationHistoryPanel entries={history} onChange={setHistory} onLoad={loadEntry} />
       )}
     </div>
   );
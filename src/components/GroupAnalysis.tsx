@@ -0,0 +1,331 @@
+import { useMemo, useState } from 'react';
+import type { Data } from 'plotly.js';
+import Plot from './Plot';
+import StatExplanationList from './StatExplanationList';
+import { Dataset, groupValues } from '../utils/dataset';
+import { boxPlotStats, sortAscending } from '../utils/distribution';
+import { AnovaResult, KruskalWallisResult, formatP, kruskalWallis, oneWayAnova } from '../utils/inference';
+import { Estimator, NumericStat, StatExplanation, computeStats } from '../utils/statistics';
+import { Messages, formatNumber, plotSeparators } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface GroupAnalysisProps {
+  dataset: Dataset;
+  numericColumns: number[];
+  estimator: Estimator;
+}
+
+// Au-delà, les boîtes côte à côte deviennent illisibles
+const MAX_GROUPS = 20;
+
+const ALPHAS = [0.1, 0.05, 0.01];
+
+const GROUP_ROWS: Exclude<NumericStat, 'count'>[] = ['mean', 'median', 'standardDeviation', 'standardError', 'q1', 'q3', 'min', 'max'];
+
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+const selectClass = 'ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+type Magnitude = keyof Messages['groups']['magnitudes'];
+
+// Seuils usuels de Cohen pour η² et ω², de Tomczak et Tomczak pour ε²
+const magnitude = (value: number, [small, medium, large]: [number, number, number]): Magnitude =>
+  value < small ? 'negligible' : value < medium ? 'small' : value < large ? 'medium' : 'large';
+
+const statisticValue = (label: string, statistic: number, pValue: number) =>
+  `${label} = ${formatNumber(statistic, 3)} (p ${pValue < 0.0001 ? '' : '= '}${formatP(pValue)})`;
+
+const buildExplanations = (anova: AnovaResult | null, kruskal: KruskalWallisResult | null, t: Messages['groups']): StatExplanation[] => {
+  const items: StatExplanation[] = [];
+  if (anova) {
+    const eta = magnitude(anova.etaSquared, [0.01, 0.06, 0.14]);
+    const omega = magnitude(anova.omegaSquared, [0.01, 0.06, 0.14]);
+    items.push(
+      {
+        title: t.fStatistic.title,
+        value: statisticValue('F', anova.statistic, anova.pValue),
+        formula: anova.formula,
+        description: t.fStatistic.description,
+        interpretation: anova.conclusion
+      },
+      {
+        title: t.etaSquared.title,
+        value: formatNumber(anova.etaSquared, 3),
+        formula: t.etaSquared.formula,
+        description: t.etaSquared.description,
+        interpretation: t.etaSquared.interpretation(formatNumber(anova.etaSquared * 100, 1), t.magnitudes[eta])
+      },
+      {
+        title: t.omegaSquared.title,
+        value: formatNumber(anova.omegaSquared, 3),
+        formula: t.omegaSquared.formula,
+        description: t.omegaSquared.description,
+        interpretation: t.omegaSquared.interpretation(formatNumber(anova.omegaSquared * 100, 1), t.magnitudes[omega])
+      }
+    );
+  }
+  if (kruskal) {
+    const epsilon = magnitude(kruskal.epsilonSquared, [0.01, 0.08, 0.26]);
+    items.push(
+      {
+        title: t.hStatistic.title,
+        value: statisticValue('H', kruskal.statistic, kruskal.pValue),
+        formula: kruskal.formula,
+        description: t.hStatistic.description,
+        interpretation: kruskal.conclusion
+      },
+      {
+        title: t.epsilonSquared.title,
+        value: formatNumber(kruskal.epsilonSquared, 3),
+        formula: 'ε² = H / (N - 1)',
+        description: t.epsilonSquared.description,
+        interpretation: t.epsilonSquared.interpretation(formatNumber(kruskal.epsilonSquared, 3), t.magnitudes[epsilon])
+      }
+    );
+  }
+  return items;
+};
+
+function GroupAnalysis({ dataset, numericColumns, estimator }: GroupAnalysisProps) {
+  const messages = useMessages();
+  const t = messages.groups;
+  const [valueColumn, setValueColumn] = useState<number | null>(null);
+  const [groupColumn, setGroupColumn] = useState<number | null>(null);
+  const [alpha, setAlpha] = useState(0.05);
+
+  const value = valueColumn !== null && numericColumns.includes(valueColumn) ? valueColumn : numericColumns[0];
+  // Une colonne numérique à peu de valeurs distinctes (lot 1, 2, 3) peut aussi servir de facteur
+  const candidates = dataset.columns.flatMap((column, i) =>
+    i !== value && column.frequencies.length >= 2 && column.frequencies.length <= MAX_GROUPS ? [i] : []
+  );
+  const group = groupColumn !== null && candidates.includes(groupColumn)
+    ? groupColumn
+    : candidates.find(i => dataset.columns[i].type === 'categorical') ?? candidates[0];
+
+  const analysis = useMemo(() => {
+    if (value === undefined || group === undefined) return null;
+    const all = groupValues(dataset.columns[value], dataset.columns[group]);
+    // Un groupe d'une seule valeur n'a pas de variance propre
+    const groups = all.filter(item => item.values.length >= 2);
+    const valueName = dataset.columns[value].name;
+    const groupName = dataset.columns[group].name;
+    const attempt = <T,>(compute: () => T): { result: T | null; error: string | null } => {
+      try {
+        return { result: compute(), error: null };
+      } catch (err) {
+        return { result: null, error: err instanceof Error ? err.message : messages.common.computationError };
+      }
+    };
+    return {
+      groups: groups.map(item => ({ ...item, stats: computeStats(item.values, estimator) })),
+      ignored: all.length - groups.length,
+      anova: attempt(() => oneWayAnova(groups, alpha, valueName, groupName)),
+      kruskal: attempt(() => kruskalWallis(groups, alpha, valueName, groupName))
+    };
+  }, [dataset, value, group, alpha, estimator, messages]);
+
+  const explanations = useMemo(
+    () => (analysis ? buildExplanations(analysis.anova.result, analysis.kruskal.result, t) : []),
+    [analysis, t]
+  );
+
+  if (value === undefined) return null;
+
+  // Boîtes construites à partir de nos quartiles, comme dans la distribution d'une colonne
+  const boxes = (analysis?.groups ?? []).flatMap(({ name, values }, i) => {
+    const box = boxPlotStats(sortAscending(values));
+    const color = COLORS[i % COLORS.length];
+    return [
+      {
+        type: 'box',
+        x: [name],
+        q1: [box.q1],
+        median: [box.median],
+        q3: [box.q3],
+        lowerfence: [box.lowerWhisker],
+        upperfence: [box.upperWhisker],
+        boxpoints: false,
+        marker: { color },
+        line: { color },
+        name
+      },
+      {
+        type: 'scatter',
+        mode: 'markers',
+        x: box.outliers.map(() => name),
+        y: box.outliers,
+        marker: { color, size: 8, symbol: 'circle-open' },
+        hovertemplate: `%{y:.2f}<extra>${t.outliers}</extra>`,
+        showlegend: false
+      }
+    ];
+  }) as Data[];
+
+  const anova = analysis?.anova.result;
+  const total = analysis?.groups.reduce((sum, item) => sum + item.values.length, 0) ?? 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-gray-800 mb-4">{t.title}</h3>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        <label>
+          {t.valueColumn}
+          <select className={selectClass} value={value} onChange={(e) => setValueColumn(Number(e.target.value))}>
+            {numericColumns.map(i => (
+              <option key={i} value={i}>{dataset.columns[i].name}</option>
+            ))}
+          </select>
+        </label>
+        {group !== undefined && (
+          <label>
+            {t.groupColumn}
+            <select className={selectClass} value={group} onChange={(e) => setGroupColumn(Number(e.target.value))}>
+              {candidates.map(i => (
+                <option key={i} value={i}>{dataset.columns[i].name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label>
+          {t.significance}
+          <select className={selectClass} value={alpha} onChange={(e) => setAlpha(Number(e.target.value))}>
+            {ALPHAS.map(a => (
+              <option key={a} value={a}>{formatNumber(a)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {group === undefined && <p className="text-sm text-gray-500 italic">{t.noGroupColumn(MAX_GROUPS)}</p>}
+
+      {analysis && (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-500">
+            {t.groupCount(analysis.groups.length, total)}
+            {analysis.ignored > 0 && ` · ${t.ignoredGroups(analysis.ignored)}`}
+          </p>
+
+          {analysis.groups.length > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-700 mb-3">{t.statsTitle}</h4>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">{messages.analysis.statistic}</th>
+                      {analysis.groups.map(({ name }) => (
+                        <th key={name} className="px-3 py-2 text-right font-medium text-gray-700 whitespace-nowrap">{name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b border-gray-100">
+                      <td className="px-3 py-1.5 text-gray-500">{messages.analysis.observations}</td>
+                      {analysis.groups.map(({ name, stats }) => (
+                        <td key={name} className="px-3 py-1.5 text-right font-medium">{stats.count}</td>
+                      ))}
+                    </tr>
+                    {GROUP_ROWS.map(key => (
+                      <tr key={key} className="border-b border-gray-100">
+                        <td className="px-3 py-1.5 text-gray-500">{messages.analysis.labels[key]}</td>
+                        {analysis.groups.map(({ name, stats }) => (
+                          <td key={name} className="px-3 py-1.5 text-right font-medium">{formatNumber(stats[key], 2)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {boxes.length > 0 && (
+            <Plot
+              data={boxes}
+              layout={{
+                autosize: true,
+                height: 360,
+                margin: { l: 50, r: 20, t: 30, b: 60 },
+                title: { text: t.boxPlotTitle, font: { size: 14 } },
+                separators: plotSeparators(),
+                showlegend: false,
+                yaxis: { title: { text: dataset.columns[value].name } }
+              }}
+              config={{ responsive: true, displaylogo: false }}
+              useResizeHandler
+              style={{ width: '100%' }}
+            />
+          )}
+
+          {anova && (
+            <div className="border border-gray-200 rounded-lg p-4">
+              <h4 className="font-medium text-gray-700">{t.anovaTable}</h4>
+              <p className="mt-1 text-sm text-gray-500 font-mono">{anova.hypotheses}</p>
+              <div className="mt-3 overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-gray-500">
+                      <th className="px-3 py-2 text-left font-medium">{t.source}</th>
+                      <th className="px-3 py-2 text-right font-medium">{t.sumOfSquares}</th>
+                      <th className="px-3 py-2 text-right font-medium">{messages.inference.df}</th>
+                      <th className="px-3 py-2 text-right font-medium">{t.meanSquare}</th>
+                      <th className="px-3 py-2 text-right font-medium">F</th>
+                      <th className="px-3 py-2 text-right font-medium">p-value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-b border-gray-100">
+                      <td className="px-3 py-1.5 text-gray-500">{t.between}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(anova.ssBetween, 4)}</td>
+                      <td className="px-3 py-1.5 text-right">{anova.df}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(anova.msBetween, 4)}</td>
+                      <td className="px-3 py-1.5 text-right font-medium">{formatNumber(anova.statistic, 4)}</td>
+                      <td className={`px-3 py-1.5 text-right font-bold ${anova.pValue < alpha ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatP(anova.pValue)}
+                      </td>
+                    </tr>
+                    <tr className="border-b border-gray-100">
+                      <td className="px-3 py-1.5 text-gray-500">{t.within}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(anova.ssWithin, 4)}</td>
+                      <td className="px-3 py-1.5 text-right">{anova.dfWithin}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(anova.msWithin, 4)}</td>
+                      <td />
+                      <td />
+                    </tr>
+                    <tr>
+                      <td className="px-3 py-1.5 text-gray-500">{t.total}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(anova.ssBetween + anova.ssWithin, 4)}</td>
+                      <td className="px-3 py-1.5 text-right">{anova.df + anova.dfWithin}</td>
+                      <td />
+                      <td />
+                      <td />
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {[analysis.anova.error, analysis.kruskal.error]
+            .filter((error, i, errors): error is string => error !== null && errors.indexOf(error) === i)
+            .map(error => (
+              <div key={error} className="p-3 bg-red-50 border-l-4 border-red-500 rounded text-sm font-medium text-red-700">
+                {error}
+              </div>
+            ))}
+
+          {explanations.length > 0 && <StatExplanationList items={explanations} />}
+
+          {[analysis.anova.result?.warning, analysis.kruskal.result?.warning]
+            .filter((warning): warning is string => warning !== undefined)
+            .map(warning => (
+              <p key={warning} className="text-xs text-amber-700">{warning}</p>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default GroupAnalysis;
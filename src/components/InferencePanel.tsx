@@ -0,0 +1,269 @@
+import { useMemo, useState } from 'react';
+import { Dataset, numericValues } from '../utils/dataset';
+import {
+  ConfidenceInterval,
+  TestResult,
+  chiSquareGoodnessOfFit,
+  confidenceInterval,
+  formatP,
+  oneSampleTTest,
+  pairedTTest,
+  welchTTest,
+} from '../utils/inference';
+import { decimalSeparator, formatNumber, parseLocaleNumber } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface InferencePanelProps {
+  dataset: Dataset;
+  numericColumns: number[];
+}
+
+type Procedure = 'interval' | 'one-sample' | 'welch' | 'paired' | 'chi-square';
+
+const PROCEDURES: { value: Procedure; minColumns: number }[] = [
+  { value: 'interval', minColumns: 1 },
+  { value: 'one-sample', minColumns: 1 },
+  { value: 'welch', minColumns: 2 },
+  { value: 'paired', minColumns: 2 },
+  { value: 'chi-square', minColumns: 0 }
+];
+
+const LEVELS = [0.9, 0.95, 0.99];
+
+const selectClass = 'ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+function InferencePanel({ dataset, numericColumns }: InferencePanelProps) {
+  const { inference: t, common } = useMessages();
+  const [chosenProcedure, setProcedure] = useState<Procedure>('interval');
+  const [level, setLevel] = useState(0.95);
+  const [firstColumn, setFirstColumn] = useState<number | null>(null);
+  const [secondColumn, setSecondColumn] = useState<number | null>(null);
+  const [categoryColumn, setCategoryColumn] = useState(0);
+  const [mu0, setMu0] = useState('0');
+  const [proportions, setProportions] = useState('');
+
+  const available = PROCEDURES.filter(p => numericColumns.length >= p.minColumns);
+  // Sans colonne numérique, seul le test du khi-deux reste disponible
+  const procedure = available.some(p => p.value === chosenProcedure) ? chosenProcedure : available[available.length - 1].value;
+  const alpha = Number((1 - level).toFixed(4));
+  const first = firstColumn !== null && numericColumns.includes(firstColumn) ? firstColumn : numericColumns[0];
+  const second = secondColumn !== null && numericColumns.includes(secondColumn)
+    ? secondColumn
+    : numericColumns.find(i => i !== first) ?? numericColumns[0];
+  const category = Math.min(categoryColumn, dataset.columns.length - 1);
+  const observed = dataset.columns[category].frequencies;
+
+  const outcome = useMemo((): { interval?: ConfidenceInterval; test?: TestResult; error?: string } => {
+    try {
+      const firstValues = first !== undefined ? numericValues(dataset.columns[first]) : [];
+      const firstName = first !== undefined ? dataset.columns[first].name : '';
+      const secondName = second !== undefined ? dataset.columns[second].name : '';
+      switch (procedure) {
+        case 'interval':
+          return { interval: confidenceInterval(firstValues, level) };
+        case 'one-sample': {
+          const target = parseLocaleNumber(mu0);
+          if (target === null) return { error: t.invalidMu0 };
+          return { test: oneSampleTTest(firstValues, target, alpha, firstName) };
+        }
+        case 'welch':
+          if (first === second) return { error: t.differentColumns };
+          return { test: welchTTest(firstValues, numericValues(dataset.columns[second]), alpha, firstName, secondName) };
+        case 'paired':
+          if (first === second) return { error: t.differentColumns };
+          return {
+            test: pairedTTest(dataset.columns[first].values, dataset.columns[second].values, alpha, firstName, secondName)
+          };
+        case 'chi-square': {
+          // Avec la virgule décimale, seuls les espaces et points-virgules séparent les proportions
+          const separators = decimalSeparator() === ',' ? /[;\s]+/ : /[;,\s]+/;
+          const weights = proportions.trim()
+            ? proportions.split(separators).filter(Boolean).map(w => parseLocaleNumber(w) ?? NaN)
+            : null;
+          if (weights && weights.some(w => !Number.isFinite(w))) return { error: t.invalidProportions };
+          return { test: chiSquareGoodnessOfFit(observed, weights, alpha, dataset.columns[category].name) };
+        }
+      }
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : common.computationError };
+    }
+  }, [procedure, dataset, first, second, level, alpha, mu0, observed, proportions, category, t, common]);
+
+  const needsTwoColumns = procedure === 'welch' || procedure === 'paired';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-xl font-semibold text-gray-800 mb-4">{t.title}</h3>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        <label>
+          {t.procedure}
+          <select className={selectClass} value={procedure} onChange={(e) => setProcedure(e.target.value as Procedure)}>
+            {available.map(({ value }) => (
+              <option key={value} value={value}>{t.procedures[value]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t.confidenceLevel}
+          <select className={selectClass} value={level} onChange={(e) => setLevel(Number(e.target.value))}>
+            {LEVELS.map(l => (
+              <option key={l} value={l}>{l * 100}% (α = {formatNumber(Number((1 - l).toFixed(2)))})</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm text-gray-700">
+        {procedure !== 'chi-square' ? (
+          <label>
+            {needsTwoColumns ? t.firstColumn : t.column}
+            <select className={selectClass} value={first} onChange={(e) => setFirstColumn(Number(e.target.value))}>
+              {numericColumns.map(i => (
+                <option key={i} value={i}>{dataset.columns[i].name}</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <>
+            <label>
+              {t.column}
+              <select className={selectClass} value={category} onChange={(e) => setCategoryColumn(Number(e.target.value))}>
+                {dataset.columns.map((column, i) => (
+                  <option key={i} value={i}>{column.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex-1 min-w-[16rem]">
+              {t.expectedProportions}
+              <input
+                type="text"
+                value={proportions}
+                onChange={(e) => setProportions(e.target.value)}
+                placeholder={t.proportionsPlaceholder(observed.length)}
+                className="ml-2 w-64 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          </>
+        )}
+        {needsTwoColumns && (
+          <label>
+            {t.secondColumn}
+            <select className={selectClass} value={second} onChange={(e) => setSecondColumn(Number(e.target.value))}>
+              {numericColumns.map(i => (
+                <option key={i} value={i}>{dataset.columns[i].name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {procedure === 'one-sample' && (
+          <label>
+            μ₀ :
+            <input
+              type="text"
+              inputMode="decimal"
+              value={mu0}
+              onChange={(e) => setMu0(e.target.value)}
+              className="ml-2 w-28 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+        )}
+      </div>
+
+      {procedure === 'chi-square' && (
+        <p className="mb-4 text-xs text-gray-500">
+          {t.categoriesInOrder} {observed.slice(0, 12).map(([value, count]) => `${value} (${count})`).join(', ')}
+          {observed.length > 12 ? '…' : ''}
+        </p>
+      )}
+
+      {outcome.error && (
+        <div className="p-3 bg-red-50 border-l-4 border-red-500 rounded text-sm font-medium text-red-700">
+          {outcome.error}
+        </div>
+      )}
+
+      {outcome.interval && first !== undefined && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-700">
+            {t.intervalTitle(formatNumber(level * 100), dataset.columns[first].name)}
+          </h4>
+          <p className="mt-2 text-2xl font-bold text-blue-600">
+            [{formatNumber(outcome.interval.lower, 4)} ; {formatNumber(outcome.interval.upper, 4)}]
+          </p>
+          <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">x̄</span>
+              <span className="font-medium">{formatNumber(outcome.interval.mean, 4)}</span>
+            </div>
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">{t.df}</span>
+              <span className="font-medium">{outcome.interval.df}</span>
+            </div>
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">{t.tCritical}</span>
+              <span className="font-medium">{formatNumber(outcome.interval.tCritical, 4)}</span>
+            </div>
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">{t.margin}</span>
+              <span className="font-medium">±{formatNumber(outcome.interval.margin, 4)}</span>
+            </div>
+          </div>
+          <div className="mt-3">
+            <span className="text-xs font-semibold text-gray-500">{common.formula}</span>
+            <div className="mt-1 p-2 bg-gray-100 rounded font-mono text-sm">
+              x̄ ± t(1 - α/2 ; n - 1) · s / √n
+            </div>
+          </div>
+          <div className="mt-3">
+            <span className="text-xs font-semibold text-gray-500">{common.interpretation}</span>
+            <p className="mt-1 text-sm text-gray-700">
+              {t.intervalInterpretation(
+                formatNumber(level * 100),
+                dataset.columns[first].name,
+                formatNumber(outcome.interval.lower, 4),
+                formatNumber(outcome.interval.upper, 4)
+              )}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {outcome.test && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h4 className="font-medium text-gray-700">{outcome.test.title}</h4>
+          <p className="mt-1 text-sm text-gray-500 font-mono">{outcome.test.hypotheses}</p>
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">{t.statistic(outcome.test.statisticLabel)}</span>
+              <span className="font-medium">{formatNumber(outcome.test.statistic, 4)}</span>
+            </div>
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">{t.degreesOfFreedom}</span>
+              <span className="font-medium">{formatNumber(Number(outcome.test.df.toFixed(2)))}</span>
+            </div>
+            <div className="flex justify-between bg-gray-50 px-3 py-2 rounded">
+              <span className="text-gray-500">p-value</span>
+              <span className={`font-bold ${outcome.test.pValue < alpha ? 'text-red-600' : 'text-green-600'}`}>
+                {formatP(outcome.test.pValue)}
+              </span>
+            </div>
+          </div>
+          <div className="mt-3">
+            <span className="text-xs font-semibold text-gray-500">{common.formula}</span>
+            <div className="mt-1 p-2 bg-gray-100 rounded font-mono text-sm">{outcome.test.formula}</div>
+          </div>
+          <div className="mt-3">
+            <span className="text-xs font-semibold text-gray-500">{common.conclusion}</span>
+            <p className="mt-1 text-sm text-gray-700">{outcome.test.conclusion}</p>
+          </div>
+          {outcome.test.warning && (
+            <p className="mt-2 text-xs text-amber-700">{outcome.test.warning}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InferencePanel;
@@ -0,0 +1,22 @@
+import { useMemo } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { toLatex } from '../utils/latex';
+
+interface MathFormulaProps {
+  // Expression dans la notation de l'application, convertie en LaTeX pour l'affichage
+  math: string;
+  displayMode?: boolean;
+  className?: string;
+}
+
+function MathFormula({ math, displayMode = false, className = '' }: MathFormulaProps) {
+  // throwOnError à false : une saisie incomplète s'affiche en rouge au lieu de lever une exception
+  const html = useMemo(
+    () => katex.renderToString(toLatex(math), { displayMode, throwOnError: false }),
+    [math, displayMode]
+  );
+  return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+}
+
+export default MathFormula;
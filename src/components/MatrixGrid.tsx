@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ClipboardPaste } from 'lucide-react';
+import { MAX_SIZE } from '../utils/matrix';
+import { parseClipboard } from '../utils/dataset';
+import { useMessages } from '../i18n/context';
+
+interface MatrixGridProps {
+  name: string;
+  cells: string[][];
+  onChange: (cells: string[][]) => void;
+}
+
+const controlClass = 'w-16 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+const actionClass = 'inline-flex items-center px-2 py-1 text-xs bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50';
+const cellClass = 'w-16 px-2 py-1 border border-gray-200 rounded text-sm text-center font-mono focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Redimensionne la grille en conservant les valeurs déjà saisies
+const resize = (cells: string[][], rows: number, columns: number): string[][] =>
+  Array.from({ length: rows }, (_, r) => Array.from({ length: columns }, (_, c) => cells[r]?.[c] ?? '0'));
+
+const clampSize = (value: string) => Math.min(MAX_SIZE, Math.max(1, Math.round(Number(value)) || 1));
+
+function MatrixGrid({ name, cells, onChange }: MatrixGridProps) {
+  const t = useMessages().matrix;
+  const [error, setError] = useState<string | null>(null);
+  const rows = cells.length;
+  const columns = cells[0].length;
+
+  const setCell = (row: number, column: number, value: string) =>
+    onChange(cells.map((line, r) => (r === row ? line.map((cell, c) => (c === column ? value : cell)) : line)));
+
+  // Une plage copiée depuis un tableur remplace toute la matrice et en fixe les dimensions
+  const fillFrom = (text: string) => {
+    const pasted = parseClipboard(text)
+      .map(line => line.map(cell => cell.trim()))
+      .filter(line => line.some(cell => cell !== ''));
+    if (pasted.length === 0) {
+      setError(t.pasteEmpty);
+      return;
+    }
+    const width = Math.max(...pasted.map(line => line.length));
+    if (pasted.length > MAX_SIZE || width > MAX_SIZE) {
+      setError(t.pasteTooLarge(MAX_SIZE));
+      return;
+    }
+    setError(null);
+    onChange(pasted.map(line => Array.from({ length: width }, (_, c) => line[c] ?? '')));
+  };
+
+  const pasteCells = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = event.clipboardData.getData('text');
+    if (!/[\t\n]/.test(text)) return;
+    event.preventDefault();
+    fillFrom(text);
+  };
+
+  const pasteFromClipboard = async () => {
+    try {
+      fillFrom(await navigator.clipboard.readText());
+    } catch {
+      setError(t.pasteEmpty);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 mr-2">{t.matrixName(name)}</h3>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          {t.rows}
+          <input
+            type="number"
+            min={1}
+            max={MAX_SIZE}
+            className={controlClass}
+            value={rows}
+            onChange={(e) => onChange(resize(cells, clampSize(e.target.value), columns))}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-sm text-gray-700">
+          {t.columns}
+          <input
+            type="number"
+            min={1}
+            max={MAX_SIZE}
+            className={controlClass}
+            value={columns}
+            onChange={(e) => onChange(resize(cells, rows, clampSize(e.target.value)))}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        <button onClick={pasteFromClipboard} className={actionClass} title={t.pasteHint}>
+          <ClipboardPaste className="mr-1 w-3 h-3" />
+          {t.paste}
+        </button>
+        <button
+          onClick={() => onChange(cells.map((line, r) => line.map((_, c) => (r === c ? '1' : '0'))))}
+          className={actionClass}
+        >
+          {t.identity}
+        </button>
+        <button onClick={() => onChange(cells.map(line => line.map(() => '0')))} className={actionClass}>
+          {t.clear}
+        </button>
+      </div>
+      <div className="inline-block p-2 border-x-2 border-gray-500 rounded-md overflow-x-auto max-w-full">
+        {cells.map((line, r) => (
+          <div key={r} className="flex gap-1 mb-1 last:mb-0">
+            {line.map((cell, c) => (
+              <input
+                key={c}
+                type="text"
+                inputMode="decimal"
+                className={cellClass}
+                value={cell}
+                onChange={(e) => setCell(r, c, e.target.value)}
+                onPaste={pasteCells}
+                title={t.cellHint}
+                aria-label={`${name}${r + 1}${c + 1}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export default MatrixGrid;
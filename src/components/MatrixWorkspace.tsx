@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import EquationHistoryPanel from './EquationHistoryPanel';
+import MathFormula from './MathFormula';
+import MatrixGrid from './MatrixGrid';
+import StepList from './StepList';
+import {
+  DETERMINANT_METHODS,
+  DeterminantMethod,
+  MATRIX_OPERATIONS,
+  MatrixOperation,
+  MatrixResult,
+  parseMatrixInput,
+  runMatrixOperation,
+} from '../utils/matrix';
+import { HistoryEntry, MATRIX_HISTORY_KEY, createEntryId, loadHistory, saveHistory } from '../utils/history';
+import { useMessages } from '../i18n/context';
+
+const INITIAL_A = [['2', '1'], ['1', '2']];
+const INITIAL_B = [['1', '0'], ['0', '1']];
+
+const controlClass = 'px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+function MatrixWorkspace() {
+  const t = useMessages().matrix;
+  const [a, setA] = useState<string[][]>(INITIAL_A);
+  const [b, setB] = useState<string[][]>(INITIAL_B);
+  const [operation, setOperation] = useState<MatrixOperation>('determinant');
+  const [method, setMethod] = useState<DeterminantMethod>('rowReduction');
+  const [result, setResult] = useState<MatrixResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>(() => loadHistory(MATRIX_HISTORY_KEY));
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => saveHistory(history, MATRIX_HISTORY_KEY), [history]);
+
+  const compute = () => {
+    try {
+      setError(null);
+      const input = { operation, method, a, b };
+      const computed = runMatrixOperation(input);
+      setResult(computed);
+      setHistory(prev => [{
+        id: createEntryId(),
+        mode: 'matrix',
+        input: JSON.stringify(input),
+        ...computed,
+        pinned: false,
+        timestamp: new Date()
+      }, ...prev]);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : t.emptyMatrix('A'));
+    }
+  };
+
+  // Recharge les grilles et l'opération d'un calcul de l'historique
+  const loadEntry = (entry: HistoryEntry) => {
+    const input = parseMatrixInput(entry.input);
+    if (!input) return;
+    setOperation(input.operation);
+    setMethod(input.method);
+    setA(input.a);
+    setB(input.b);
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-6 max-w-5xl mx-auto p-4">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{t.title}</h2>
+        <div className="grid gap-6 md:grid-cols-2">
+          <MatrixGrid name="A" cells={a} onChange={setA} />
+          {operation === 'product' && <MatrixGrid name="B" cells={b} onChange={setB} />}
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-4">
+          <label className="flex items-center text-sm text-gray-700">
+            {t.operationLabel}
+            <select
+              className={`ml-2 ${controlClass}`}
+              value={operation}
+              onChange={(e) => setOperation(e.target.value as MatrixOperation)}
+            >
+              {MATRIX_OPERATIONS.map(name => (
+                <option key={name} value={name}>{t.operations[name]}</option>
+              ))}
+            </select>
+          </label>
+          {operation === 'determinant' && (
+            <label className="flex items-center text-sm text-gray-700">
+              {t.methodLabel}
+              <select
+                className={`ml-2 ${controlClass}`}
+                value={method}
+                onChange={(e) => setMethod(e.target.value as DeterminantMethod)}
+              >
+                {DETERMINANT_METHODS.map(name => (
+                  <option key={name} value={name}>{t.methods[name]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <button onClick={compute} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            {t.compute}
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+          >
+            <History className="inline mr-2 w-4 h-4" />
+            {showHistory ? t.hideHistory : t.showHistory}
+          </button>
+        </div>
+
+        {error && <p className="mt-4 p-3 bg-red-50 border-l-4 border-red-500 rounded text-red-700 font-medium">{error}</p>}
+      </div>
+
+      {result && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">{t.resultTitle}</h3>
+          <div className={`p-4 border-l-4 rounded text-lg overflow-x-auto ${
+            result.solutionType === 'none' ? 'bg-amber-50 border-amber-400 text-amber-800' : 'bg-green-50 border-green-500 text-green-900'
+          }`}>
+            <MathFormula math={result.result} />
+          </div>
+          <div className="mt-4">
+            <StepList steps={result.steps} />
+          </div>
+        </div>
+      )}
+
+      {showHistory && (
+        <EquationHistoryPanel entries={history} onChange={setHistory} onLoad={loadEntry} title={t.historyTitle} />
+      )}
+    </div>
+  );
+}
+
+export default MatrixWorkspace;
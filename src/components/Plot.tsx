@@ -0,0 +1,7 @@
+import Plotly from 'plotly.js-dist';
+import createPlotlyComponent from 'react-plotly.js/factory';
+
+// Composant Plotly partagé, construit sur la distribution précompilée
+const Plot = createPlotlyComponent(Plotly);
+
+export default Plot;
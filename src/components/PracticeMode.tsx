@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { Lightbulb, RefreshCw } from 'lucide-react';
+import MathFormula from './MathFormula';
+import StepList from './StepList';
+import { DIFFICULTIES, Difficulty, StepCheck, checkStep, exercisePoints, generateExercise, hintSteps } from '../utils/practice';
+import type { Step } from '../utils/steps';
+import { useMessages } from '../i18n/context';
+
+interface PracticeModeProps {
+  // Exercice repris d'un lien partagé ou de l'historique ; sinon un exercice est tiré au sort
+  initialExercise?: string;
+  onExerciseChange?: (exercise: string) => void;
+  // Appelé une fois l'exercice résolu, avec les étapes de l'élève
+  onComplete: (exercise: string, steps: string[]) => void;
+}
+
+interface Score {
+  points: number;
+  solved: number;
+}
+
+interface Feedback {
+  check?: StepCheck;
+  error?: string;
+  points?: number;
+}
+
+const FEEDBACK_STYLES: Record<StepCheck['verdict'], string> = {
+  solved: 'bg-green-50 border-green-500 text-green-800',
+  progress: 'bg-green-50 border-green-400 text-green-700',
+  noProgress: 'bg-amber-50 border-amber-400 text-amber-800',
+  notEquivalent: 'bg-red-50 border-red-500 text-red-700'
+};
+
+function PracticeMode({ initialExercise, onExerciseChange, onComplete }: PracticeModeProps) {
+  const { practice: t, solver } = useMessages();
+  const [difficulty, setDifficulty] = useState<Difficulty>('twoStep');
+  const [exercise, setExercise] = useState(() => initialExercise?.trim() || generateExercise('twoStep'));
+  // Étapes acceptées (équivalentes à la précédente), de la première à la plus récente
+  const [steps, setSteps] = useState<string[]>([]);
+  const [input, setInput] = useState('');
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  // Indices affichés pour l'équation courante, et total utilisé sur l'exercice
+  const [hintCount, setHintCount] = useState(0);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [mistakes, setMistakes] = useState(0);
+  const [score, setScore] = useState<Score>({ points: 0, solved: 0 });
+
+  const current = steps.length > 0 ? steps[steps.length - 1] : exercise;
+  const solved = feedback?.check?.verdict === 'solved';
+  const hints = useMemo<Step[]>(() => {
+    try {
+      return hintSteps(current);
+    } catch {
+      return [];
+    }
+  }, [current]);
+
+  const startExercise = (next: string) => {
+    setExercise(next);
+    setSteps([]);
+    setInput('');
+    setFeedback(null);
+    setHintCount(0);
+    setHintsUsed(0);
+    setMistakes(0);
+    onExerciseChange?.(next);
+  };
+
+  const changeDifficulty = (next: Difficulty) => {
+    setDifficulty(next);
+    startExercise(generateExercise(next));
+  };
+
+  const submitStep = () => {
+    let check: StepCheck;
+    try {
+      check = checkStep(current, input);
+    } catch (err) {
+      setFeedback({ error: err instanceof Error ? err.message : solver.invalidFormat });
+      return;
+    }
+    if (check.verdict === 'notEquivalent') {
+      setMistakes(prev => prev + 1);
+      setFeedback({ check });
+      return;
+    }
+    const accepted = [...steps, input.trim()];
+    setSteps(accepted);
+    setInput('');
+    setHintCount(0);
+    if (check.verdict === 'solved') {
+      const points = exercisePoints(hintsUsed, mistakes);
+      setScore(prev => ({ points: prev.points + points, solved: prev.solved + 1 }));
+      setFeedback({ check, points });
+      onComplete(exercise, accepted);
+    } else {
+      setFeedback({ check });
+    }
+  };
+
+  const showHint = () => {
+    if (hintCount >= hints.length) return;
+    setHintCount(prev => prev + 1);
+    setHintsUsed(prev => prev + 1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-700">
+        <label className="inline-flex items-center">
+          {t.difficulty}
+          <select
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            value={difficulty}
+            onChange={(e) => changeDifficulty(e.target.value as Difficulty)}
+          >
+            {DIFFICULTIES.map(value => (
+              <option key={value} value={value}>{t.difficulties[value]}</option>
+            ))}
+          </select>
+        </label>
+        <div title={t.scoring}>
+          <span className="text-gray-500">{t.score}</span>{' '}
+          <span className="font-semibold text-blue-700">{t.scoreSummary(score.points, score.solved)}</span>
+        </div>
+      </div>
+
+      <div className="p-4 bg-blue-50 rounded-md">
+        <span className="mr-2 text-xs font-semibold text-blue-700">{t.exercise}</span>
+        <MathFormula math={exercise} className="text-lg text-gray-900" />
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="space-y-1 pl-5 list-decimal text-gray-800">
+          {steps.map((line, i) => (
+            <li key={i}>
+              <MathFormula math={line} />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {!solved && (
+        <div>
+          <label htmlFor="practice-step" className="block text-sm font-medium text-gray-700 mb-1">
+            {t.stepLabel}
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              id="practice-step"
+              className="flex-1 min-w-[12rem] px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={t.stepPlaceholder}
+              onKeyDown={(e) => e.key === 'Enter' && input.trim() && submitStep()}
+            />
+            <button
+              onClick={submitStep}
+              disabled={!input.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t.check}
+            </button>
+            <button
+              onClick={showHint}
+              disabled={hintCount >= hints.length}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              title={hintCount >= hints.length ? t.noMoreHints : undefined}
+            >
+              <Lightbulb className="inline mr-2 w-4 h-4" />
+              {t.hint}
+            </button>
+          </div>
+          {input.trim() && (
+            <div className="mt-2 px-3 py-2 bg-gray-50 rounded-md text-gray-800 overflow-x-auto">
+              <MathFormula math={input} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {feedback && (
+        <div className={`p-3 border-l-4 rounded text-sm ${feedback.check ? FEEDBACK_STYLES[feedback.check.verdict] : 'bg-red-50 border-red-500 text-red-700'}`}>
+          <span className="font-medium">{feedback.check?.message ?? feedback.error}</span>
+          {feedback.points !== undefined && (
+            <span className="ml-2">
+              {t.points(feedback.points)} ({t.exerciseStats(hintsUsed, mistakes)})
+            </span>
+          )}
+        </div>
+      )}
+
+      {hintCount > 0 && !solved && (
+        <div className="p-3 bg-amber-50 rounded-md">
+          <h4 className="mb-2 text-sm font-medium text-amber-800">{t.hintsTitle}</h4>
+          <StepList steps={hints.slice(0, hintCount)} />
+        </div>
+      )}
+
+      <button
+        onClick={() => startExercise(generateExercise(difficulty))}
+        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+      >
+        <RefreshCw className="inline mr-2 w-4 h-4" />
+        {t.newExercise}
+      </button>
+    </div>
+  );
+}
+
+export default PracticeMode;
@@ -0,0 +1,71 @@
+import { RefObject, useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { HtmlReport, ReportColumn, ReportMetadata, buildHtmlReport, captureCharts, statsToCsv, statsToJson } from '../utils/report';
+import { downloadFile } from '../utils/download';
+import { useMessages } from '../i18n/context';
+
+interface ReportExportProps {
+  metadata: Omit<ReportMetadata, 'date'>;
+  active: HtmlReport['active'];
+  columns: ReportColumn[];
+  changes: string[];
+  // Zone dont les graphiques sont intégrés au rapport HTML
+  chartsRoot: RefObject<HTMLElement>;
+}
+
+const buttonClass = 'inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50';
+
+function ReportExport({ metadata, active, columns, changes, chartsRoot }: ReportExportProps) {
+  const t = useMessages().report;
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fileName = (date: Date, extension: string) => `${t.fileName}-${date.toISOString().slice(0, 10)}.${extension}`;
+
+  const exportHtml = async () => {
+    const date = new Date();
+    setBusy(true);
+    setError(null);
+    try {
+      const charts = chartsRoot.current ? await captureCharts(chartsRoot.current) : [];
+      const html = buildHtmlReport({ metadata: { ...metadata, date }, active, columns, charts, changes });
+      downloadFile(html, fileName(date, 'html'), 'text/html;charset=utf-8');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportData = (format: 'json' | 'csv') => {
+    const date = new Date();
+    if (format === 'json') {
+      downloadFile(statsToJson({ ...metadata, date }, columns), fileName(date, 'json'), 'application/json');
+    } else {
+      downloadFile(statsToCsv({ ...metadata, date }, columns), fileName(date, 'csv'), 'text/csv;charset=utf-8');
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>{t.export}</span>
+        <button onClick={exportHtml} disabled={busy} className={buttonClass}>
+          <FileDown className="w-4 h-4 mr-1" />
+          {busy ? t.preparing : t.html}
+        </button>
+        <button onClick={() => exportData('json')} className={buttonClass}>
+          <FileDown className="w-4 h-4 mr-1" />
+          {t.json}
+        </button>
+        <button onClick={() => exportData('csv')} className={buttonClass}>
+          <FileDown className="w-4 h-4 mr-1" />
+          {t.csv}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+export default ReportExport;
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { StatExplanation } from '../utils/statistics';
+import { useMessages } from '../i18n/context';
+
+interface StatExplanationListProps {
+  items: StatExplanation[];
+}
+
+// Liste dépliable : chaque indicateur révèle sa formule et son interprétation
+function StatExplanationList({ items }: StatExplanationListProps) {
+  const t = useMessages().common;
+  const [showDetails, setShowDetails] = useState<Record<string, boolean>>({});
+
+  const toggleDetail = (title: string) => {
+    setShowDetails(prev => ({
+      ...prev,
+      [title]: !prev[title]
+    }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {items.map((item, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg overflow-hidden">
+          <div 
+            className="flex justify-between items-center p-4 bg-gray-50 cursor-pointer"
+            onClick={() => toggleDetail(item.title)}
+          >
+            <div>
+              <h4 className="font-medium text-gray-700">{item.title}</h4>
+              <p className="text-sm text-gray-500">{item.description}</p>
+            </div>
+            <div className="flex items-center">
+              <span className="text-lg font-bold text-blue-600 mr-3">{item.value}</span>
+              <svg 
+                className={`w-5 h-5 text-gray-500 transform transition-transform ${showDetails[item.title] ? 'rotate-180' : ''}`} 
+                fill="none" 
+                stroke="currentColor" 
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </div>
+          </div>
+
+          {showDetails[item.title] && (
+            <div className="p-4 bg-white border-t border-gray-200">
+              <div className="mb-3">
+                <span className="text-xs font-semibold text-gray-500">{t.formula}</span>
+                <div className="mt-1 p-2 bg-gray-100 rounded font-mono text-sm">
+                  {item.formula}
+                </div>
+              </div>
+              <div>
+                <span className="text-xs font-semibold text-gray-500">{t.interpretation}</span>
+                <p className="mt-1 text-sm text-gray-700">{item.interpretation}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default StatExplanationList;
@@ -0,0 +1,23 @@
+import MathFormula from './MathFormula';
+import type { Step } from '../utils/steps';
+
+interface StepListProps {
+  steps: Step[];
+}
+
+function StepList({ steps }: StepListProps) {
+  return (
+    <ul className="space-y-2 pl-5">
+      {steps.map((step, i) => (
+        <li key={i} className="text-sm text-gray-600 relative pl-5">
+          <span className="absolute left-0 text-gray-400">{i + 1}.</span>
+          {step.text}
+          {step.text && step.math !== undefined && ' : '}
+          {step.math !== undefined && <MathFormula math={step.math} className="text-gray-800" />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default StepList;
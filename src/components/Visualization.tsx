@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import type { Data, PlotRelayoutEvent } from 'plotly.js';
+import Plot from './Plot';
+import {
+  DEFAULT_RANGE,
+  PlotRange,
+  PlotRequest,
+  RealFunction,
+  compileFunction,
+  rangeAround,
+  sampleFunction,
+} from '../utils/functionPlot';
+import { formatNumber, parseLocaleNumber, plotSeparators } from '../i18n';
+import { useMessages } from '../i18n/context';
+
+interface VisualizationProps {
+  request?: PlotRequest | null;
+}
+
+const COLORS = ['#2563eb', '#dc2626', '#059669', '#d97706', '#7c3aed', '#db2777'];
+
+const RANGE_FIELDS: { key: keyof PlotRange; label: string }[] = [
+  { key: 'xMin', label: 'x min' },
+  { key: 'xMax', label: 'x max' },
+  { key: 'yMin', label: 'y min' },
+  { key: 'yMax', label: 'y max' }
+];
+
+const rangeToInputs = (range: PlotRange): Record<keyof PlotRange, string> => ({
+  xMin: formatNumber(range.xMin),
+  xMax: formatNumber(range.xMax),
+  yMin: formatNumber(range.yMin),
+  yMax: formatNumber(range.yMax)
+});
+
+// Fenêtre initiale : autour des intersections transmises par le résolveur
+const initialRange = (request?: PlotRequest | null): PlotRange => {
+  if (!request || request.intersections.length === 0) return DEFAULT_RANGE;
+  const range = rangeAround(request.intersections);
+  try {
+    const f = compileFunction(request.functions[0]);
+    const heights = request.intersections.map(f).filter(Number.isFinite);
+    if (heights.length === 0) return range;
+    const margin = Math.max(10, (Math.max(...heights) - Math.min(...heights)) / 2);
+    return { ...range, yMin: Math.floor(Math.min(...heights) - margin), yMax: Math.ceil(Math.max(...heights) + margin) };
+  } catch {
+    return range;
+  }
+};
+
+function Visualization({ request }: VisualizationProps) {
+  const t = useMessages().visualization;
+  const [functions, setFunctions] = useState<string[]>(request?.functions ?? ['x^2 - 4', '2x + 1']);
+  const [intersections, setIntersections] = useState<number[]>(request?.intersections ?? []);
+  const [range, setRange] = useState<PlotRange>(() => initialRange(request));
+  const [rangeInputs, setRangeInputs] = useState(() => rangeToInputs(initialRange(request)));
+
+  const compiled = useMemo(() => functions.map(expression => {
+    if (!expression.trim()) return { expression, f: null, error: null };
+    try {
+      return { expression, f: compileFunction(expression), error: null };
+    } catch (err) {
+      return { expression, f: null, error: err instanceof Error ? err.message : t.invalidExpression };
+    }
+  }), [functions, t]);
+
+  const traces = useMemo(() => {
+    const curves: Data[] = compiled
+      .map((item, i) => ({ ...item, color: COLORS[i % COLORS.length] }))
+      .filter((item): item is typeof item & { f: RealFunction } => item.f !== null)
+      .map(({ expression, f, color }) => {
+        const { x, y } = sampleFunction(f, range.xMin, range.xMax, range.yMax - range.yMin);
+        return {
+          x,
+          y,
+          type: 'scatter',
+          mode: 'lines',
+          name: `y = ${expression}`,
+          line: { color, width: 2 }
+        };
+      });
+
+    const first = compiled[0]?.f;
+    if (first && intersections.length > 0) {
+      curves.push({
+        x: intersections,
+        y: intersections.map(first),
+        type: 'scatter',
+        mode: 'markers',
+        name: t.intersections,
+        marker: { color: '#111827', size: 10, symbol: 'circle-open', line: { width: 2 } },
+        hovertemplate: `(%{x:.4g} ; %{y:.4g})<extra>${t.intersection}</extra>`
+      });
+    }
+    return curves;
+  }, [compiled, intersections, range, t]);
+
+  const applyRange = (next: PlotRange) => {
+    setRange(next);
+    setRangeInputs(rangeToInputs(next));
+  };
+
+  const updateFunction = (index: number, value: string) => {
+    setFunctions(prev => prev.map((f, i) => (i === index ? value : f)));
+    // Les intersections du résolveur ne valent plus dès que les courbes changent
+    setIntersections([]);
+  };
+
+  const removeFunction = (index: number) => {
+    setFunctions(prev => prev.filter((_, i) => i !== index));
+    setIntersections([]);
+  };
+
+  const updateRangeInput = (key: keyof PlotRange, value: string) => {
+    setRangeInputs(prev => ({ ...prev, [key]: value }));
+    const parsed = parseLocaleNumber(value);
+    if (parsed === null) return;
+    const next = { ...range, [key]: parsed };
+    if (next.xMin < next.xMax && next.yMin < next.yMax) setRange(next);
+  };
+
+  // Zoom et déplacement à la souris : on rééchantillonne sur la nouvelle fenêtre
+  const handleRelayout = (event: PlotRelayoutEvent) => {
+    if (event['xaxis.autorange'] || event['yaxis.autorange']) {
+      applyRange(initialRange(request));
+      return;
+    }
+    const next = { ...range };
+    if (event['xaxis.range[0]'] !== undefined && event['xaxis.range[1]'] !== undefined) {
+      next.xMin = Number(event['xaxis.range[0]'].toPrecision(6));
+      next.xMax = Number(event['xaxis.range[1]'].toPrecision(6));
+    }
+    if (event['yaxis.range[0]'] !== undefined && event['yaxis.range[1]'] !== undefined) {
+      next.yMin = Number(event['yaxis.range[0]'].toPrecision(6));
+      next.yMax = Number(event['yaxis.range[1]'].toPrecision(6));
+    }
+    applyRange(next);
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto p-4">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">{t.title}</h2>
+        {request && (
+          <p className="mb-4 text-sm text-gray-600">
+            {t.graphOf} <span className="font-mono">{request.title}</span>{t.graphExplanation}
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {functions.map((expression, i) => (
+            <div key={i}>
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                <span className="text-sm font-mono text-gray-600">y =</span>
+                <input
+                  type="text"
+                  value={expression}
+                  onChange={(e) => updateFunction(i, e.target.value)}
+                  placeholder={t.placeholder}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono"
+                />
+                <button
+                  onClick={() => removeFunction(i)}
+                  disabled={functions.length === 1}
+                  className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  title={t.removeFunction}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {compiled[i]?.error && (
+                <p className="mt-1 ml-5 text-xs text-red-600">{compiled[i].error}</p>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={() => setFunctions(prev => [...prev, ''])}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="inline mr-1 w-4 h-4" />
+            {t.addFunction}
+          </button>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-end gap-3">
+          {RANGE_FIELDS.map(({ key, label }) => (
+            <label key={key} className="text-sm text-gray-700">
+              <span className="block mb-1">{label}</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={rangeInputs[key]}
+                onChange={(e) => updateRangeInput(key, e.target.value)}
+                className="w-24 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </label>
+          ))}
+          <button
+            onClick={() => applyRange(initialRange(request))}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <RefreshCw className="inline mr-2 w-4 h-4" />
+            {t.resetView}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow">
+        <Plot
+          data={traces}
+          layout={{
+            autosize: true,
+            height: 500,
+            margin: { l: 50, r: 20, t: 20, b: 40 },
+            dragmode: 'pan',
+            separators: plotSeparators(),
+            xaxis: { range: [range.xMin, range.xMax], zeroline: true, zerolinecolor: '#9ca3af' },
+            yaxis: { range: [range.yMin, range.yMax], zeroline: true, zerolinecolor: '#9ca3af' },
+            legend: { orientation: 'h', y: -0.15 }
+          }}
+          config={{ scrollZoom: true, responsive: true, displaylogo: false }}
+          onRelayout={handleRelayout}
+          useResizeHandler
+          style={{ width: '100%' }}
+        />
+        <p className="mt-2 text-xs text-gray-500">
+          {t.help}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default Visualization;
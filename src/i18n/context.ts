@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { Locale, Messages, getLocale, getMessages } from './index';
+
+// Fournie par App : un changement de langue fait réafficher tous les composants abonnés
+export const LocaleContext = createContext<Locale>(getLocale());
+
+export const useLocale = (): Locale => useContext(LocaleContext);
+
+export const useMessages = (): Messages => getMessages(useLocale());
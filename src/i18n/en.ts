@@ -0,0 +1,1000 @@
+import type { Messages } from './fr';
+
+export const en: Messages = {
+  app: {
+    title: 'Advanced Mathematical Analysis',
+    language: 'Language',
+    tabs: {
+      equations: 'Equations',
+      analysis: 'Data Analysis',
+      visualization: 'Visualization',
+      calculus: 'Calculus',
+      matrices: 'Matrices'
+    }
+  },
+
+  common: {
+    formula: 'FORMULA',
+    interpretation: 'INTERPRETATION',
+    conclusion: 'CONCLUSION',
+    preview: 'PREVIEW',
+    computationError: 'Computation error',
+    none: 'None'
+  },
+
+  solver: {
+    equationTitle: 'Equation and Inequality Solver',
+    systemTitle: 'Linear System Solver',
+    numericTitle: 'Numerical Equation Solver',
+    practiceTitle: 'Equation Solving Practice',
+    equationMode: 'Equation',
+    systemMode: 'System',
+    numericMode: 'Numerical',
+    practiceMode: 'Practice',
+    equationLabel: 'Enter your equation',
+    systemLabel: 'Enter one equation per line (or separate them with ";")',
+    numericLabel: 'Enter an equation in x, even one with no exact solution',
+    equationPlaceholder: 'E.g. 2x + 3 = 5, x^2 - 4 = 0 or -3 < 2x + 1 ≤ 7',
+    systemPlaceholder: 'E.g. x + y = 3\n2x - y = 0',
+    numericPlaceholder: 'E.g. sin(x) = x/2, e^x = 3x or ln(x) + x = 2',
+    examples: {
+      simple: 'Simple example',
+      complex: 'Complex example',
+      parentheses: 'Example with parentheses',
+      quadratic: 'Quadratic example',
+      cubic: 'Cubic example',
+      inequality: 'Inequality example',
+      compound: 'Compound inequality example',
+      literal: 'Literal equation example',
+      system2: '2×2 system',
+      system3: '3×3 system',
+      inconsistent: 'Inconsistent system',
+      infinite: 'Infinitely many solutions',
+      sine: 'sin(x) = x/2',
+      exponential: 'e^x = 3x',
+      logarithm: 'ln(x) + x = 2',
+      fixedPoint: 'cos(x) = x'
+    },
+    interval: 'Interval:',
+    intervalTo: 'to',
+    method: 'Method:',
+    unknown: 'Unknown:',
+    automatic: 'Automatic',
+    tolerance: 'Tolerance:',
+    showApproximation: 'Show an approximate value',
+    precision: 'Precision:',
+    decimals: (digits: number) => `${digits} decimal places`,
+    solve: 'Solve',
+    reset: 'Reset',
+    showHistory: 'Show history',
+    hideHistory: 'Hide history',
+    solutionFound: 'Solution found:',
+    multiplicity: (multiplicity: number) => `multiplicity ${multiplicity}`,
+    complex: 'complex',
+    showGraph: 'Show the graph',
+    invalidFormat: 'Invalid format. E.g. 2x+3=5 or x-1=2x+3'
+  },
+
+  history: {
+    title: 'Solving History',
+    searchPlaceholder: 'Search for an equation or a result',
+    allResults: 'All results',
+    import: 'Import',
+    imported: (count: number) => `${count} entr${count === 1 ? 'y' : 'ies'} imported`,
+    invalidFile: 'Invalid history file',
+    empty: 'No equation solved yet',
+    noMatch: 'No entry matches these criteria',
+    reload: 'Reload into the input field',
+    system: 'System',
+    numeric: 'Numerical',
+    practice: 'Practice',
+    matrix: 'Matrix',
+    equation: 'Equation',
+    solution: 'Solution',
+    heading: (label: string) => `${label}:`,
+    pin: 'Pin',
+    unpin: 'Unpin',
+    copy: 'Copy',
+    copyLatex: 'Copy as LaTeX',
+    exportMarkdown: 'Export as Markdown',
+    remove: 'Delete',
+    stepsTitle: 'Step-by-step solution',
+    historyFileName: 'history',
+    solutionFileName: 'solution',
+    jsonListRequired: 'The JSON file must contain a list of entries',
+    noValidEntries: 'No valid history entry in this file',
+    saveFailed: 'Unable to save the history',
+    solutionTypes: {
+      unique: 'Unique solution',
+      multiple: 'Several solutions',
+      none: 'No solution',
+      infinite: 'Infinitely many solutions'
+    },
+    periods: {
+      all: 'All dates',
+      today: 'Today',
+      week: 'Last 7 days',
+      month: 'Last 30 days'
+    }
+  },
+
+  parser: {
+    mustNotContain: (context: string, variable: string) => `${context} must not contain "${variable}"`,
+    divisor: 'The divisor',
+    exponent: 'The exponent',
+    nonNumeric: (value: string) => `Non-numeric value: ${value}`,
+    unrepresentable: (value: string) => `Number too large or too precise for exact arithmetic: ${value}`,
+    unknownSymbol: (name: string, variable: string) =>
+      `Unknown symbol: "${name}" (only the variable "${variable}" is accepted)`,
+    divisionByZero: 'Division by zero',
+    positiveExponent: (exponent: string) => `Unsupported exponent: ${exponent} (positive integer expected)`,
+    exponentTooLarge: (exponent: string, max: number) => `Exponent too large: ${exponent} (at most ${max})`,
+    unsupportedExponent: (exponent: string) => `Unsupported exponent: ${exponent}`,
+    unsupportedExpression: (expression: string) => `Unsupported expression: ${expression}`,
+    invalidExpression: (expression: string) => `Invalid expression: ${expression}`,
+    expansion: (side: string) => `Expanding the ${side} side`,
+    grouping: (side: string) => `Collecting like terms (${side})`,
+    left: 'left',
+    right: 'right',
+    middle: 'middle'
+  },
+
+  equation: {
+    initial: 'Initial equation',
+    missingEquals: 'The equation must contain an "=" sign (or <, >, ≤, ≥ for an inequality)',
+    variableRequired: (variable: string) => `The variable "${variable}" is required`,
+    exactlyOneEquals: 'The equation must contain exactly one "=" sign with two sides',
+    splitSides: 'Splitting the sides',
+    sides: (left: string, right: string) => `Left = ${left}, Right = ${right}`,
+    standardForm: (variable: string) => `Rewriting as P(${variable}) = 0`,
+    degree: (degree: number) => `Degree of the equation: ${degree}`,
+    transposition: 'Moving the terms',
+    simplification: 'Simplification',
+    infiniteSolutions: '0 = 0 → The equation has infinitely many solutions',
+    noSolution: (constant: string) => `${constant} ≠ 0 → No solution`,
+    resultInfinite: '∞ (infinitely many solutions)',
+    resultNone: '∅ (no solution)',
+    solution: 'Solution',
+    double: ' (double)',
+    triple: ' (triple)',
+    multiplicity: (multiplicity: number) => ` (multiplicity ${multiplicity})`,
+    coefficients: 'Coefficients',
+    discriminant: 'Discriminant',
+    doubleRoot: 'Δ = 0 → one double root',
+    twoRealRoots: 'Δ > 0 → two distinct real roots',
+    complexRoots: 'Δ < 0 → no real root, two complex conjugate roots',
+    factorOut: (factor: string) => `Factoring out ${factor}`,
+    rationalSearch: (constant: bigint, leading: bigint, count: number) =>
+      `Searching for rational roots p/q (p divides ${constant}, q divides ${leading}): ${count} candidates`,
+    rootFound: (variable: string, root: string, multiplicity: string, factor: string) =>
+      `P(${root}) = 0 → ${variable} = ${root} is a root${multiplicity}; dividing by ${factor}`,
+    quadraticFactor: 'Solving the quadratic factor',
+    linearFactor: 'Linear factor',
+    numericApproximation: (polynomial: string) =>
+      `No rational root for ${polynomial}: numerical approximation (Durand-Kerner method)`,
+    factoredForm: 'Factored form'
+  },
+
+  literal: {
+    unknownAndParameters: (unknown: string, parameters: string) => `Unknown: ${unknown}; parameters: ${parameters}`,
+    unknownOnly: (unknown: string) => `Unknown: ${unknown}`,
+    chooseUnknown: (letters: string) => `Several letters (${letters}): choose the unknown`,
+    unknownAbsent: (unknown: string) => `The unknown "${unknown}" does not appear in the equation`,
+    firstDegreeOnly: (unknown: string) =>
+      `With parameters, only equations of the first degree in ${unknown} are supported`,
+    clearDenominators: 'Multiplying both sides by the denominators',
+    expansion: 'Expanding both sides',
+    isolate: (unknown: string) => `Terms in ${unknown} on the left, the others on the right`,
+    division: (divisor: string) => `Dividing by ${divisor}`,
+    conditions: 'Conditions',
+    unknownVanishes: (unknown: string) => `The unknown ${unknown} cancels out`,
+    resultConditional: (condition: string) => `ℝ if ${condition}, ∅ otherwise`
+  },
+
+  inequality: {
+    initial: 'Initial inequality',
+    noBareEquals: 'An inequality cannot contain a bare "=" sign (use ≤ or ≥)',
+    invalidFormat: 'Invalid inequality format. E.g. 2x + 1 < 7 or -3 < 2x + 1 ≤ 7',
+    firstDegreeOnly: 'Only linear inequalities are supported',
+    sameDirection: 'Both inequalities of a compound inequality must point the same way',
+    division: (coefficient: string, negative: boolean) =>
+      negative
+        ? `Dividing by ${coefficient} (negative number): the inequality is reversed`
+        : `Dividing by ${coefficient} (positive number): the inequality is unchanged`,
+    divisionAll: (coefficient: string, negative: boolean) =>
+      negative
+        ? `Dividing all three parts by ${coefficient} (negative number): the inequalities are reversed`
+        : `Dividing all three parts by ${coefficient} (positive number): the inequalities are unchanged`,
+    constant: (statement: string, satisfied: boolean) =>
+      `${statement} is ${satisfied ? 'always true → every real number works' : 'always false → no real number works'}`,
+    transposition: (label: string) => `Moving the terms${label}`,
+    simplification: (label: string) => `Simplification${label}`,
+    decomposition: 'Decomposition',
+    both: (first: string, second: string) => `${first} and ${second}`,
+    intersection: 'Intersection',
+    addToAll: (value: string) => `Adding ${value} to all three parts`,
+    subtractFromAll: (value: string) => `Subtracting ${value} from all three parts`,
+    increasingOrder: 'Rewriting in increasing order',
+    splitSides: 'Splitting the sides',
+    compound: 'Compound inequality',
+    solutionSet: 'Solution set',
+    resultNone: '∅ (no solution)',
+    resultAll: 'ℝ (all real numbers)'
+  },
+
+  system: {
+    nonLinear: (expression: string) => `Non-linear equation: ${expression}`,
+    equalsRequired: (index: number) => `Equation ${index} must contain exactly one "=" sign with two sides`,
+    invalidExpression: (index: number, side: string) => `Invalid expression in equation ${index}: ${side}`,
+    atLeastOneEquation: 'The system must contain at least one equation',
+    atLeastOneUnknown: 'The system must contain at least one unknown',
+    initial: 'Initial system',
+    unknowns: 'Unknowns',
+    unknownList: (variables: string, count: number) => `${variables} (${count} equation${count > 1 ? 's' : ''})`,
+    standardForm: (index: number) => `Equation ${index} in standard form`,
+    augmentedMatrix: 'Augmented matrix [A | b]',
+    row: 'R',
+    reducedForm: 'Reduced row echelon form',
+    line: (index: number) => `Row ${index}`,
+    inconsistent: (value: string) => `0 = ${value} → the system is inconsistent`,
+    uniqueRank: (rank: number) => `Rank ${rank} = number of unknowns → unique solution`,
+    infiniteRank: (rank: number, unknowns: number, free: number) =>
+      `Rank ${rank} < ${unknowns} unknowns → infinitely many solutions; free variable${free > 1 ? 's' : ''}`,
+    parametric: 'Parametric form',
+    resultNone: '∅ (no solution)'
+  },
+
+  // Numerical solving of transcendental equations
+  numeric: {
+    equationsOnly: 'Numerical solving only applies to equations (a single "=" sign)',
+    invalidInterval: 'Invalid search interval: the lower bound must be strictly less than the upper bound',
+    function: 'Rewriting as f(x) = 0',
+    scan: (interval: string, points: number, count: number) =>
+      `Scanning ${interval} in ${points} subintervals: ${count} sign change${count === 1 ? '' : 's'}`,
+    exactZero: 'Exact zero found while scanning',
+    methods: {
+      bisection: 'bisection',
+      newton: 'Newton\'s method',
+      brent: 'Brent\'s method'
+    },
+    refine: (method: string) => `Refining with ${method} on the bracket`,
+    iteration: (index: number) => `Iteration ${index}`,
+    skipped: (count: number) => `… ${count} intermediate iterations`,
+    converged: (iterations: number, reached: string, tolerance: string) =>
+      `Converged in ${iterations} iteration${iterations === 1 ? '' : 's'}: ε = ${reached} ≤ tolerance ${tolerance}`,
+    failed: (method: string, interval: string, reason: string) => `Convergence failure (${method}) on ${interval}: ${reason}`,
+    notDefined: (x: string) => `f is not defined at x = ${x}`,
+    zeroDerivative: (x: string) => `zero derivative at x = ${x}`,
+    leftBracket: (x: string) => `the iterate x = ${x} left the bracket, try bisection or Brent's method`,
+    maxIterations: (count: number) => `no convergence after ${count} iterations`,
+    discontinuity: (interval: string) => `Sign change on ${interval} caused by a discontinuity, not a root`,
+    noSignChange: 'No sign change: widen the interval (a double root, where f does not change sign, escapes the scan)',
+    resultNone: (interval: string) => `∅ (no root found on ${interval})`,
+    solutions: (count: number, interval: string) => `${count} root${count === 1 ? '' : 's'} on ${interval}`
+  },
+
+  practice: {
+    difficulty: 'Level:',
+    difficulties: {
+      oneStep: 'One step',
+      twoStep: 'Two steps',
+      bothSides: 'x on both sides',
+      parentheses: 'Parentheses',
+      fractions: 'Fractions'
+    },
+    newExercise: 'New exercise',
+    exercise: 'Exercise',
+    stepLabel: 'Write the next equation',
+    stepPlaceholder: 'E.g. 2x = 6',
+    check: 'Check',
+    hint: 'Hint',
+    noMoreHints: 'No more hints for this equation',
+    hintsTitle: 'Hints from the solver',
+    studentStep: 'Student step',
+    linearOnly: 'Only first-degree equations are accepted in practice mode',
+    notEquivalent: 'This equation does not have the same solutions as the previous one: check your working',
+    progress: 'Correct: the equation is equivalent and simpler',
+    noProgress: 'Equivalent, but it does not move towards the solution: simplify further',
+    solved: (result: string) => `Well done, ${result}!`,
+    points: (points: number) => `+${points} point${points > 1 ? 's' : ''}`,
+    score: 'Session score:',
+    scoreSummary: (points: number, solved: number) =>
+      `${points} point${points > 1 ? 's' : ''} · ${solved} exercise${solved > 1 ? 's' : ''} solved`,
+    exerciseStats: (hints: number, mistakes: number) =>
+      `${hints} hint${hints > 1 ? 's' : ''}, ${mistakes} mistake${mistakes > 1 ? 's' : ''}`,
+    scoring: 'Each exercise is worth 10 points, minus 2 per hint and 1 per wrong step (at least 1 point).'
+  },
+
+  visualization: {
+    title: 'Function Plotter',
+    graphOf: 'Graph of the equation',
+    graphExplanation: ': each side is plotted separately, the solutions are the x-coordinates of the intersection points.',
+    placeholder: 'E.g. sin(x), x^2 - 4 or 1/x',
+    removeFunction: 'Remove the function',
+    addFunction: 'Add a function',
+    resetView: 'Reset the view',
+    intersections: 'Intersections',
+    intersection: 'Intersection',
+    help: 'Drag to pan, use the mouse wheel to zoom, double-click to return to the initial view.',
+    invalidExpression: 'Invalid expression',
+    notEvaluable: (expression: string, reason: string) => `Function cannot be evaluated: ${expression} (${reason})`,
+    unknownError: 'unknown error'
+  },
+
+  calculus: {
+    title: 'Derivatives, integrals and limits',
+    functionLabel: 'Function f(x)',
+    placeholder: 'E.g. x^2·sin(x), ln(x)/x or e^(-x^2)',
+    examples: 'Examples:',
+    derivativeTitle: 'Derivative',
+    plotTitle: 'Graphs of f and f′',
+    integralTitle: 'Definite integral',
+    limitTitle: 'Limit',
+    from: 'From',
+    to: 'to',
+    methodLabel: 'Method:',
+    compute: 'Compute',
+    point: 'x tends to',
+    pointHint: 'a number, +∞ or -∞',
+    sideLabel: 'Side:',
+    sides: {
+      both: 'both sides',
+      left: 'from the left',
+      right: 'from the right'
+    },
+    integralArea: 'Signed area',
+    invalidNumber: (text: string) => `Invalid number: ${text}`,
+    emptyFunction: 'Enter a function of x',
+    unknownFunction: (name: string) => `Unknown function: ${name}`,
+    unknownSymbol: (name: string) => `Only the variable x is allowed (with the constants e and π): ${name}`,
+    notDifferentiable: (expression: string) => `Cannot differentiate ${expression}`,
+    function: 'Function',
+    constant: 'f is constant, its derivative is zero',
+    linearity: 'Linearity: the derivative of a sum is the sum of the derivatives',
+    constantFactor: (factor: string) => `Constant factor ${factor}`,
+    productRule: (u: string, v: string) => `Product rule (uv)' = u'v + uv', with u = ${u} and v = ${v}`,
+    quotientRule: (u: string, v: string) => `Quotient rule (u/v)' = (u'v - uv')/v², with u = ${u} and v = ${v}`,
+    powerRule: 'Power rule (xⁿ)\' = n·xⁿ⁻¹',
+    powerChainRule: (u: string) => `Power of a function (uⁿ)' = n·uⁿ⁻¹·u', with u = ${u}`,
+    exponentialRule: (base: string) => `Exponential with base ${base}: (aᵘ)' = ln(a)·u'·aᵘ`,
+    naturalExponential: 'Exponential (eᵘ)\' = u\'·eᵘ',
+    generalPower: 'Variable power: uᵛ = e^(v·ln(u))',
+    elementary: (name: string) => `Standard derivative of ${name}`,
+    chainRule: (name: string, u: string) => `Chain rule (${name}(u))' = ${name}'(u)·u', with u = ${u}`,
+    simplification: 'After simplification',
+    integrationMethods: {
+      adaptive: 'Adaptive Simpson',
+      simpson: 'Composite Simpson'
+    },
+    method: (name: string) => `Method: ${name}`,
+    invalidBounds: 'The bounds of the integral must be finite numbers',
+    emptyInterval: 'Equal bounds',
+    notIntegrable: (x: string) => `f is not defined at x = ${x}: the integral is improper or does not exist`,
+    subintervals: (count: number) => `${count} subintervals`,
+    adaptiveIntervals: (count: number) => `Adaptive split into ${count} subintervals`,
+    noConvergence: 'No convergence: f varies too sharply on the interval',
+    integralResult: (evaluations: number, error: string) => `${evaluations} evaluations of f, estimated error ${error}`,
+    invalidPoint: 'Invalid point: enter a number, +∞ or -∞',
+    approach: {
+      left: 'Values of f to the left of the point',
+      right: 'Values of f to the right of the point'
+    },
+    approachInfinity: (point: string) => `Values of f as x tends to ${point}`,
+    undefinedValue: 'undefined',
+    sidesDiffer: (left: string, right: string) => `Left limit ${left}, right limit ${right}: no limit`,
+    noLimit: 'No limit',
+    noLimitReason: 'The values neither settle nor grow without bound: no limit detected'
+  },
+
+  matrix: {
+    title: 'Matrix calculator',
+    matrixName: (name: string) => `Matrix ${name}`,
+    rows: 'Rows',
+    columns: 'Columns',
+    paste: 'Paste',
+    pasteHint: 'Paste a range copied from a spreadsheet or tab-separated text',
+    pasteEmpty: 'The clipboard contains no cells',
+    pasteTooLarge: (max: number) => `The pasted matrix exceeds ${max} × ${max}`,
+    identity: 'Identity',
+    clear: 'Clear',
+    cellHint: 'Integer, decimal or fraction a/b',
+    operationLabel: 'Operation:',
+    operations: {
+      determinant: 'Determinant',
+      inverse: 'Inverse',
+      transpose: 'Transpose',
+      product: 'Product A × B',
+      rank: 'Rank',
+      echelon: 'Row echelon form',
+      eigen: 'Eigenvalues and eigenvectors'
+    },
+    methodLabel: 'Method:',
+    methods: {
+      rowReduction: 'Gaussian elimination',
+      cofactor: 'Cofactor expansion'
+    },
+    compute: 'Compute',
+    resultTitle: 'Result',
+    historyTitle: 'Matrix calculation history',
+    showHistory: 'Show history',
+    hideHistory: 'Hide history',
+    emptyMatrix: (name: string) => `Matrix ${name} is empty`,
+    emptyCell: (name: string, row: number, column: number) => `Empty cell in ${name} (row ${row}, column ${column})`,
+    invalidCell: (name: string, row: number, column: number, text: string) =>
+      `Invalid value in ${name} (row ${row}, column ${column}): ${text}`,
+    squareRequired: (name: string, rows: number, columns: number) => `Matrix ${name} must be square (here ${rows} × ${columns})`,
+    cofactorTooLarge: (max: number) => `Cofactor expansion is limited to ${max} × ${max} matrices: use Gaussian elimination`,
+    twoByTwo: '2 × 2 matrix: det = ad - bc',
+    cofactorExpansion: (row: number) => `Expansion along row ${row}, the one with the most zeros`,
+    minor: (row: number, column: number) => `Minor obtained by deleting row ${row} and column ${column}`,
+    cofactorSum: 'Sum of the terms',
+    zeroPivot: 'A column has no pivot: the determinant is zero',
+    diagonalProduct: (swaps: number) => swaps === 0
+      ? 'Triangular matrix: det = product of the pivots'
+      : `Triangular matrix: det = (-1)^${swaps} × product of the pivots (${swaps} row swap${swaps > 1 ? 's' : ''})`,
+    singular: 'Zero determinant: the matrix is not invertible',
+    augmentedIdentity: 'Augmented matrix [A | I]',
+    notInvertible: (rank: number, size: number) => `Rank ${rank} < ${size}: A is not invertible`,
+    noInverse: 'A is not invertible',
+    inverseRead: 'The left part is now I: the inverse is on the right',
+    transposeRule: (rows: number, columns: number) => `Rows become columns: ${rows} × ${columns} → ${columns} × ${rows}`,
+    productSizes: (rowsA: number, columnsA: number, rowsB: number, columnsB: number) =>
+      `Product impossible: A has ${columnsA} column${columnsA > 1 ? 's' : ''} (${rowsA} × ${columnsA}), B has ${rowsB} row${rowsB > 1 ? 's' : ''} (${rowsB} × ${columnsB})`,
+    productSize: (rows: number, inner: number, columns: number) => `(${rows} × ${inner}) × (${inner} × ${columns}) → ${rows} × ${columns}`,
+    productEntry: (row: number, column: number) => `Entry (${row}, ${column}): row ${row} of A times column ${column} of B`,
+    echelonFirst: 'Reduction to row echelon form',
+    rankRead: (rank: number) => `${rank} nonzero row${rank > 1 ? 's' : ''}: rank ${rank}`,
+    rankOf: 'rank',
+    alreadyEchelon: 'The matrix is already in row echelon form',
+    pivotColumns: (columns: string) => `Pivot columns: ${columns}`,
+    echelonOf: 'ref',
+    characteristicPolynomial: 'Characteristic polynomial (Faddeev-LeVerrier)',
+    eigenFailed: (reason: string) => `Eigenvalues could not be computed ${reason}`.trim(),
+    eigenvalue: (multiplicity: number) => multiplicity > 1 ? `Eigenvalue of multiplicity ${multiplicity}` : 'Eigenvalue',
+    eigenvector: (value: string) => `Exact eigenvector for λ = ${value}`,
+    approximateEigenvector: (value: string) => `Approximate eigenvector for λ = ${value}`,
+    complexEigenvalues: 'Complex eigenvalues: the matrix is not diagonalizable over ℝ',
+    eigenOf: 'spectrum'
+  },
+
+  csv: {
+    column: (index: number) => `Column ${index}`,
+    noData: 'The file contains no data',
+    analysisError: 'Error while analysing the file',
+    readError: (message: string) => `Error while reading the file: ${message}`,
+    readFailed: 'Error while reading the file',
+    cancelled: 'Import cancelled'
+  },
+
+  analysis: {
+    title: 'Statistical Data Analysis',
+    importLabel: 'Import a CSV file',
+    cancel: 'Cancel',
+    progress: (percent: number, rows: string) => `${percent}% read · ${rows} rows processed`,
+    fileHint: 'The file may contain several columns, with or without a header row, separated by commas, semicolons or tabs',
+    noNumericColumn: 'No numeric column found: every column is categorical',
+    processingError: 'Error while processing the data',
+    preview: 'Data preview',
+    size: (rows: string, columns: number) => `(${rows} rows, ${columns} columns)`,
+    headerToggle: 'The first row contains the headers',
+    numeric: 'Numeric',
+    categorical: 'Categorical',
+    previewRows: (shown: number, total: string) => `First ${shown} rows out of ${total}`,
+    dataRepresents: 'The data represent',
+    sample: 'A sample (variance over n - 1)',
+    population: 'The whole population (variance over N)',
+    columnsToAnalyze: 'Columns to analyse',
+    categories: (count: number) => `${count} categories`,
+    comparison: 'Column comparison',
+    statistic: 'Statistic',
+    observations: 'Observations',
+    detailedTitle: 'Detailed Statistical Analysis',
+    detailedSubtitle: (name: string, count: number) => `(${name}, ${count} observations)`,
+    detailedColumn: 'Detailed column:',
+    approximate: (limit: string) =>
+      `More than ${limit} values: the median, quartiles and percentiles are estimated in a single pass (P² algorithm) and the mode is not computed.`,
+    summary: 'Statistical Summary',
+    centralTendency: 'Central Tendency',
+    dispersion: 'Dispersion',
+    extremes: 'Extremes',
+    distribution: 'Distribution',
+    labels: {
+      mean: 'Mean',
+      median: 'Median',
+      standardDeviation: 'Standard deviation',
+      variance: 'Variance',
+      coefficientOfVariation: 'Coefficient of variation',
+      standardError: 'Standard error',
+      q1: 'Q1',
+      q3: 'Q3',
+      iqr: 'IQR',
+      skewness: 'Skewness',
+      kurtosis: 'Kurtosis',
+      min: 'Minimum',
+      max: 'Maximum',
+      range: 'Range',
+      sum: 'Sum'
+    }
+  },
+
+  dataEntry: {
+    open: 'Type or paste data',
+    edit: 'Edit in the grid',
+    title: 'Data entry',
+    hint: 'The first row holds the column names. Paste cells copied from a spreadsheet or a text file: the grid is filled from the chosen cell.',
+    addRow: 'Add a row',
+    addColumn: 'Add a column',
+    removeRow: 'Remove the row',
+    removeColumn: 'Remove the column',
+    clear: 'Clear the grid',
+    analyze: 'Analyse these data',
+    close: 'Close',
+    empty: 'The grid contains no value',
+    edited: 'Data edited in the grid'
+  },
+
+  cleaning: {
+    title: 'Data quality and cleaning',
+    report: 'Quality report',
+    rows: (rows: string) => `${rows} rows`,
+    duplicates: (count: number) => `${count} duplicate row${count === 1 ? '' : 's'}`,
+    column: 'Column',
+    missing: 'Missing',
+    invalid: 'Non-numeric',
+    invalidHint: 'Non-numeric cells in a numeric column are ignored by the statistics: drop those rows or impute a value.',
+    complete: 'No missing or non-numeric value',
+    missingValues: 'Missing values',
+    allColumns: 'all columns',
+    allColumnsOption: 'All columns',
+    dropRows: 'Drop the rows',
+    impute: 'Impute with',
+    strategies: {
+      mean: 'the mean',
+      median: 'the median'
+    },
+    outliers: 'Outliers',
+    methods: {
+      iqr: 'Tukey\'s rule (1.5 × IQR)',
+      zScore: 'z-score (|z| > 3)'
+    },
+    trim: 'Remove',
+    filter: 'Filter rows',
+    filterValue: 'Value',
+    keep: 'Keep',
+    changes: 'Applied changes',
+    undo: 'Undo the last change',
+    droppedMissing: (column: string, removed: number) =>
+      `Incomplete rows dropped (${column}): ${removed} row${removed === 1 ? '' : 's'}`,
+    imputed: (strategy: string, column: string, filled: number) =>
+      `Imputed with ${strategy} (${column}): ${filled} value${filled === 1 ? '' : 's'}`,
+    trimmed: (method: string, column: string, removed: number) =>
+      `Outliers removed from ${column}, ${method}: ${removed} row${removed === 1 ? '' : 's'}`,
+    filtered: (condition: string, removed: number) =>
+      `Filter ${condition}: ${removed} row${removed === 1 ? '' : 's'} removed`,
+    emptyResult: 'This operation would remove every row',
+    noValues: (column: string) => `Column ${column} contains no numeric value`,
+    invalidValue: (text: string) => `"${text}" is not a valid number`,
+    categoricalOperator: 'A categorical column can only be filtered with = or ≠'
+  },
+
+  report: {
+    export: 'Export:',
+    html: 'HTML report',
+    json: 'JSON',
+    csv: 'CSV',
+    preparing: 'Preparing the report…',
+    title: 'Statistical analysis report',
+    printHint: 'Print this page from the browser (Ctrl+P) to get a PDF.',
+    source: 'Source',
+    manualSource: 'Manual entry',
+    column: 'Detailed column',
+    observations: 'Observations',
+    rows: 'Dataset rows',
+    estimator: 'Estimator',
+    estimators: {
+      sample: 'sample (variance over n - 1)',
+      population: 'population (variance over N)'
+    },
+    date: 'Date',
+    changes: 'Applied cleaning',
+    charts: 'Charts',
+    explanations: 'Detailed indicators',
+    fileName: 'statistical-report',
+    failed: 'Could not generate the report'
+  },
+
+  explanations: {
+    mean: {
+      title: 'Mean',
+      description: 'The arithmetic mean of all the values',
+      interpretation: (mean: string) =>
+        `The average value of your dataset is ${mean}. It is the centre of gravity of your distribution.`
+    },
+    median: {
+      title: 'Median',
+      formula: 'Middle value once the data are sorted',
+      description: 'The value that splits the dataset into two equal halves',
+      interpretation: (median: string) => `50% of your values are below ${median} and 50% are above.`
+    },
+    mode: {
+      title: 'Mode',
+      formula: 'Value(s) with the highest frequency',
+      description: 'The most frequent value or values',
+      none: 'All the values are distinct: the series has no mode.',
+      single: (value: string) => `The value ${value} is the most frequent.`,
+      multiple: (count: number) => `The series is multimodal: ${count} values share the highest frequency.`
+    },
+    standardDeviation: {
+      title: 'Standard deviation',
+      sampleDescription: 'Measures the spread around the mean, estimated from a sample',
+      populationDescription: 'Measures the spread of the data around the population mean',
+      interpretation: (low: string, high: string) =>
+        `About 68% of the values lie between ${low} and ${high} (if the distribution is close to normal).`
+    },
+    variance: {
+      title: 'Variance',
+      sampleDescription: 'Square of the standard deviation; dividing by n - 1 corrects the estimation bias',
+      populationDescription: 'Square of the standard deviation, mean of the squared deviations from the mean',
+      interpretation: (variance: string, spread: boolean) =>
+        `A variance of ${variance} indicates that the data are ${spread ? 'widely spread' : 'fairly concentrated'}.`
+    },
+    coefficientOfVariation: {
+      title: 'Coefficient of variation',
+      description: 'Relative spread, independent of the unit of measurement',
+      interpretation: (percent: string, level: 'low' | 'moderate' | 'high') =>
+        `The standard deviation is ${percent}% of the mean: the spread is ${level}.`,
+      undefinedValue: 'Undefined when the mean is zero.'
+    },
+    standardError: {
+      title: 'Standard error of the mean',
+      description: 'How precisely the mean is estimated',
+      interpretation: (error: string, count: number) =>
+        `The computed mean would typically vary by ±${error} from one sample of ${count} values to another.`
+    },
+    q1: {
+      title: 'First quartile (Q1)',
+      formula: 'Q1 = P25, linear interpolation between ranks',
+      description: 'Value below which 25% of the data lie',
+      interpretation: (q1: string) => `25% of your values are below ${q1}.`
+    },
+    q3: {
+      title: 'Third quartile (Q3)',
+      formula: 'Q3 = P75, linear interpolation between ranks',
+      description: 'Value below which 75% of the data lie',
+      interpretation: (q3: string) => `75% of your values are below ${q3}.`
+    },
+    iqr: {
+      title: 'Interquartile range (IQR)',
+      description: 'Width of the middle half of the data, barely affected by extremes',
+      interpretation: (iqr: string, q1: string, q3: string) =>
+        `The middle half of your values fits in an interval of width ${iqr}, between ${q1} and ${q3}.`
+    },
+    percentiles: {
+      title: 'Percentiles',
+      description: 'Values below which a given percentage of the data lie',
+      interpretation: (p1: string, p99: string) =>
+        `80% of your values lie between P10 and P90; 98% between P1 = ${p1} and P99 = ${p99}.`
+    },
+    skewness: {
+      title: 'Skewness',
+      populationFormula: 'g1 = m3 / m2^(3/2), where mk = Σ(xi - μ)^k / N',
+      description: 'Measures the asymmetry of the distribution around the mean',
+      undefinedValue: 'is undefined for these data',
+      symmetric: 'is roughly symmetric',
+      right: 'is skewed to the right (long tail towards large values)',
+      left: 'is skewed to the left (long tail towards small values)',
+      interpretation: (description: string) => `Your distribution ${description}.`
+    },
+    kurtosis: {
+      title: 'Kurtosis',
+      sampleFormula: 'G2 = (n - 1) / ((n - 2)(n - 3)) · ((n + 1) · g2 + 6), with g2 = m4 / m2² - 3',
+      populationFormula: 'g2 = m4 / m2² - 3 (excess over the normal distribution)',
+      description: 'Compares the heaviness of the tails with those of a normal distribution',
+      undefinedValue: 'is undefined for these data',
+      normal: 'is close to that of a normal distribution (mesokurtic)',
+      heavy: 'indicates heavier tails than a normal distribution (leptokurtic): more extreme values',
+      light: 'indicates lighter tails than a normal distribution (platykurtic): few extreme values',
+      interpretation: (kurtosis: string, description: string) => `An excess kurtosis of ${kurtosis} ${description}.`
+    },
+    iqrOutliers: {
+      title: 'Outliers (IQR)',
+      formula: (factor: string) => `xi < Q1 - ${factor} × IQR or xi > Q3 + ${factor} × IQR`,
+      description: 'Tukey\'s rule, the one used by box plots',
+      none: (low: string, high: string) => `No value outside [${low}; ${high}].`,
+      some: (low: string, high: string, values: string) => `Values outside [${low}; ${high}]: ${values}.`
+    },
+    zScoreOutliers: {
+      title: 'Outliers (z-score)',
+      description: 'Values more than three standard deviations away from the mean',
+      none: 'No value more than three standard deviations away from the mean.',
+      some: (values: string) => `Values concerned: ${values}. This rule assumes a roughly normal distribution.`
+    },
+    min: {
+      title: 'Minimum',
+      description: 'The smallest value of the dataset',
+      interpretation: (min: string) => `Your lowest value is ${min}.`
+    },
+    max: {
+      title: 'Maximum',
+      description: 'The largest value of the dataset',
+      interpretation: (max: string) => `Your highest value is ${max}.`
+    },
+    range: {
+      title: 'Range',
+      description: 'Difference between the extreme values',
+      interpretation: (range: string) => `Your data span an interval of ${range} units.`
+    },
+    sum: {
+      title: 'Sum',
+      description: 'Total of all the values',
+      interpretation: (sum: string) => `The total of all your values is ${sum}.`
+    }
+  },
+
+  distribution: {
+    bins: 'Bins:',
+    manual: 'Manual',
+    binCount: (count: number) => `${count} bin${count > 1 ? 's' : ''}`,
+    densityCurve: 'Density curve',
+    density: 'Density',
+    densityLegend: (bandwidth: string) => `Density (h = ${bandwidth})`,
+    frequency: 'Frequency',
+    frequencies: 'Frequencies',
+    histogram: 'Histogram',
+    boxPlot: 'Box plot',
+    quartiles: 'Quartiles',
+    outlier: 'Outlier',
+    outliers: 'Outliers',
+    outsideFences: (low: string, high: string, factor: string) => `Outside [${low}; ${high}] (${factor} × IQR):`
+  },
+
+  bivariate: {
+    title: 'Correlation and Regression',
+    pairs: (count: number) => `(${count} complete pairs)`,
+    explanatory: 'Explanatory variable (x):',
+    response: 'Response variable (y):',
+    notEnoughPairs: 'Not enough complete pairs to analyse these two columns.',
+    observations: 'Observations',
+    leastSquaresLine: 'Least-squares line',
+    scatter: 'Scatter plot',
+    residual: 'Residual',
+    residuals: 'Residuals',
+    correlationMatrix: 'Correlation matrix (Pearson)',
+    pearson: {
+      title: 'Pearson coefficient (r)',
+      description: 'Measures the strength of the linear relationship between the two variables',
+      interpretation: (x: string, y: string, strength: string) =>
+        `The linear correlation between ${x} and ${y} is ${strength}. r ranges from -1 (perfect decreasing relationship) to 1 (perfect increasing relationship).`
+    },
+    spearman: {
+      title: 'Spearman coefficient (ρ)',
+      formula: 'ρ = r(rank(x), rank(y))',
+      description: 'Pearson correlation computed on ranks, sensitive to any monotonic relationship',
+      interpretation: (x: string, y: string, strength: string) => `The monotonic relationship between ${x} and ${y} is ${strength}.`,
+      nonLinear: 'ρ clearly exceeds |r|: the relationship looks monotonic but not linear.',
+      robust: 'Less sensitive than r to extreme values.'
+    },
+    slope: {
+      title: 'Slope (a)',
+      description: 'Average change in y when x increases by one unit',
+      interpretation: (x: string, y: string, increases: boolean, change: string) =>
+        `When ${x} increases by 1, ${y} ${increases ? 'increases' : 'decreases'} by ${change} on average.`
+    },
+    intercept: {
+      title: 'Intercept (b)',
+      description: 'Predicted value of y when x equals 0',
+      interpretation: (equation: string) => `The least-squares line has equation ${equation}.`
+    },
+    rSquared: {
+      title: 'Coefficient of determination (R²)',
+      description: 'Share of the variance of y explained by the regression line',
+      interpretation: (percent: string, y: string) => `The line explains ${percent}% of the variability of ${y}.`,
+      good: 'The linear fit is good.',
+      partial: 'The linear fit is partial.',
+      poor: 'The linear model explains the data poorly.'
+    },
+    residualError: {
+      title: 'Residual standard error',
+      description: 'Typical error made when predicting y with the line',
+      interpretation: (y: string, error: string) =>
+        `The observed values of ${y} deviate from the line by about ${error} on average. The residual plot should show a structureless cloud around 0.`
+    },
+    correlation: {
+      undefinedValue: 'undefined (one of the series is constant)',
+      negligible: 'negligible',
+      strength: (strength: 'veryStrong' | 'strong' | 'moderate' | 'weak', positive: boolean) =>
+        `${{ veryStrong: 'very strong', strong: 'strong', moderate: 'moderate', weak: 'weak' }[strength]} and ${positive ? 'positive' : 'negative'}`
+    }
+  },
+
+  curveFitting: {
+    title: 'Curve fitting',
+    hint: 'Models are ranked by adjusted R², which penalises extra parameters. The exponential, logarithmic and power models are fitted by least squares after a logarithmic transform.',
+    models: {
+      linear: 'Linear',
+      exponential: 'Exponential',
+      logarithmic: 'Logarithmic',
+      power: 'Power',
+      polynomial: 'Polynomial'
+    },
+    degree: 'Polynomial degree:',
+    rank: 'Rank',
+    model: 'Model',
+    equation: 'Equation',
+    parameters: 'Parameters',
+    adjustedRSquared: 'Adjusted R²',
+    rmse: 'RMSE',
+    show: 'Plot',
+    best: 'Best fit',
+    unavailable: 'Models not fitted:',
+    requiresPositiveY: 'requires y > 0',
+    requiresPositiveX: 'requires x > 0',
+    requiresPositive: 'requires x > 0 and y > 0',
+    notEnoughPoints: (count: number) => `at least ${count} pairs required`,
+    singular: 'x values are not spread enough',
+    solveFor: 'Find x such that y =',
+    using: 'with the model',
+    solve: 'Solve',
+    invalidTarget: (text: string) => `"${text}" is not a valid number`
+  },
+
+  inference: {
+    title: 'Inferential Statistics',
+    procedure: 'Procedure:',
+    confidenceLevel: 'Confidence level:',
+    procedures: {
+      interval: 'Confidence interval for the mean',
+      'one-sample': 'One-sample t-test',
+      welch: 'Welch t-test (two columns)',
+      paired: 'Paired t-test (two columns)',
+      'chi-square': 'Chi-square goodness-of-fit test'
+    },
+    firstColumn: 'First column:',
+    secondColumn: 'Second column:',
+    column: 'Column:',
+    expectedProportions: 'Expected proportions:',
+    proportionsPlaceholder: (count: number) => `Uniform if empty (${count} values, e.g. 1 1 2)`,
+    categoriesInOrder: 'Categories in order:',
+    invalidMu0: 'Invalid value for μ₀',
+    differentColumns: 'Choose two different columns',
+    invalidProportions: 'Invalid expected proportions',
+    intervalTitle: (level: string, name: string) => `${level}% confidence interval for the mean of ${name}`,
+    df: 'df',
+    tCritical: 'critical t',
+    margin: 'Margin',
+    intervalInterpretation: (level: string, name: string, lower: string, upper: string) =>
+      `With a confidence level of ${level}%, the true mean of ${name} lies between ${lower} and ${upper}. If the sampling were repeated, ${level}% of the intervals built this way would contain the true mean.`,
+    statistic: (label: string) => `${label} statistic`,
+    degreesOfFreedom: 'Degrees of freedom',
+    atLeast: (label: string, minimum: number, available: number) =>
+      `${label}: at least ${minimum} values are required (${available} available)`,
+    identicalValues: 'Test impossible: all the values are identical',
+    constantSeries: 'Test impossible: both series are constant',
+    identicalDifferences: 'Test impossible: all the differences are identical',
+    reject: (alpha: string, p: string, threshold: string, conclusion: string) =>
+      `At the α = ${alpha} level, H₀ is rejected (p ${p} < ${threshold}): ${conclusion}`,
+    keep: (alpha: string, p: string, threshold: string, conclusion: string) =>
+      `At the α = ${alpha} level, H₀ cannot be rejected (p ${p} ≥ ${threshold}): ${conclusion}`,
+    intervalLabel: 'Confidence interval',
+    oneSample: {
+      label: 'One-sample t-test',
+      title: 'One-sample Student t-test',
+      rejected: (name: string, mean: string, mu0: string) =>
+        `the mean of ${name} (${mean}) differs significantly from ${mu0}.`,
+      kept: (name: string, mean: string, mu0: string) =>
+        `the gap between the mean of ${name} (${mean}) and ${mu0} can be explained by sampling fluctuations.`
+    },
+    welch: {
+      title: 'Welch t-test (two independent samples)',
+      formula: 't = (x̄₁ - x̄₂) / √(s₁²/n₁ + s₂²/n₂), Welch-Satterthwaite df',
+      rejected: (a: string, meanA: string, b: string, meanB: string) =>
+        `the means of ${a} (${meanA}) and ${b} (${meanB}) are significantly different.`,
+      kept: (a: string, meanA: string, b: string, meanB: string) =>
+        `the difference between the means of ${a} (${meanA}) and ${b} (${meanB}) is not significant.`
+    },
+    paired: {
+      title: 'Paired t-test',
+      formula: 't = d̄ / (s_d / √n), where di = xi - yi over complete pairs',
+      rejected: (count: number, a: string, greater: boolean, b: string, difference: string) =>
+        `over the ${count} pairs, ${a} is on average ${difference} ${greater ? 'higher' : 'lower'} than ${b}, a significant gap.`,
+      kept: (difference: string, a: string, b: string, count: number) =>
+        `the mean gap of ${difference} between ${a} and ${b} over the ${count} pairs is not significant.`
+    },
+    chiSquare: {
+      title: 'Chi-square goodness-of-fit test',
+      formula: 'χ² = Σ (Oi - Ei)² / Ei, with Ei = n · pi',
+      minCategories: 'Chi-square test: at least two categories are required',
+      count: (expected: number, given: number) => `Chi-square test: ${expected} expected proportions, ${given} given`,
+      positive: 'Chi-square test: the expected proportions must be strictly positive',
+      hypotheses: (name: string, uniform: boolean) =>
+        `H₀: ${name} follows the ${uniform ? 'uniform' : 'expected'} distribution   against   H₁: the observed distribution departs from it`,
+      rejected: (name: string, uniform: boolean) =>
+        `the distribution of ${name} departs significantly from the ${uniform ? 'uniform' : 'expected'} distribution.`,
+      kept: (name: string, uniform: boolean) =>
+        `the distribution of ${name} is consistent with the ${uniform ? 'uniform' : 'expected'} distribution.`,
+      smallCells: (count: number) =>
+        `${count} expected frequenc${count > 1 ? 'ies' : 'y'} below 5: the chi-square approximation is unreliable.`
+    },
+    anova: {
+      title: 'One-way ANOVA',
+      formula: 'F = [SS_between / (k - 1)] / [SS_within / (N - k)]',
+      minGroups: 'At least two non-empty groups are required',
+      noWithinVariance: 'ANOVA impossible: the values are constant within each group',
+      hypotheses: (value: string, group: string) =>
+        `H₀: the mean of ${value} is the same for every level of ${group}   against   H₁: at least one mean differs`,
+      rejected: (value: string, group: string) =>
+        `the mean of ${value} differs significantly across ${group} (at least one group stands out).`,
+      kept: (value: string, group: string) =>
+        `the differences between the means of ${value} across ${group} can be explained by sampling fluctuations.`,
+      unequalVariances: (ratio: string) =>
+        `The largest group variance is ${ratio} times the smallest: equal variances are doubtful, prefer the Kruskal–Wallis test.`
+    },
+    kruskal: {
+      title: 'Kruskal–Wallis test',
+      formula: 'H = 12 / (N(N + 1)) · Σ Ri² / ni - 3(N + 1), corrected for ties',
+      hypotheses: (value: string, group: string) =>
+        `H₀: ${value} has the same distribution for every level of ${group}   against   H₁: at least one group is shifted`,
+      rejected: (value: string, group: string) =>
+        `the ranks of ${value} differ significantly across ${group}.`,
+      kept: (value: string, group: string) =>
+        `no significant shift in the ranks of ${value} across ${group}.`,
+      smallGroups: (count: number, minimum: number) =>
+        `${count} group${count > 1 ? 's have' : ' has'} fewer than ${minimum} values: the chi-square approximation is unreliable.`
+    },
+    against: 'against'
+  },
+
+  groups: {
+    title: 'Group comparison',
+    groupColumn: 'Group by:',
+    valueColumn: 'Values:',
+    significance: 'Level α:',
+    noGroupColumn: (max: number) => `No column has between 2 and ${max} levels to form groups`,
+    groupCount: (count: number, total: number) => `${count} groups, ${total} observations`,
+    ignoredGroups: (count: number) => `${count} single-value group${count > 1 ? 's' : ''} ignored`,
+    statsTitle: 'Statistics by group',
+    boxPlotTitle: 'Box plots by group',
+    outliers: 'Outliers',
+    anovaTable: 'ANOVA table',
+    source: 'Source',
+    between: 'Between groups',
+    within: 'Within groups',
+    total: 'Total',
+    sumOfSquares: 'SS',
+    meanSquare: 'MS',
+    magnitudes: {
+      negligible: 'negligible',
+      small: 'small',
+      medium: 'medium',
+      large: 'large'
+    },
+    fStatistic: {
+      title: 'F statistic',
+      description: 'Ratio of the variance between group means to the variance within groups'
+    },
+    etaSquared: {
+      title: 'Eta squared (η²)',
+      formula: 'η² = SS_between / SS_total',
+      description: 'Share of the total variance explained by group membership',
+      interpretation: (percent: string, magnitude: string) =>
+        `The groups explain ${percent}% of the variability of the values: ${magnitude} effect.`
+    },
+    omegaSquared: {
+      title: 'Omega squared (ω²)',
+      formula: 'ω² = (SS_between - (k - 1)·MS_within) / (SS_total + MS_within)',
+      description: 'Less biased version of η², preferred for small samples',
+      interpretation: (percent: string, magnitude: string) =>
+        `In the population, the groups would explain about ${percent}% of the variance: ${magnitude} effect.`
+    },
+    hStatistic: {
+      title: 'Kruskal–Wallis H statistic',
+      description: 'Rank-based non-parametric alternative to ANOVA: requires neither normality nor equal variances'
+    },
+    epsilonSquared: {
+      title: 'Epsilon squared (ε²)',
+      description: 'Effect size of the Kruskal–Wallis test, between 0 and 1',
+      interpretation: (value: string, magnitude: string) =>
+        `ε² = ${value}: the effect of the group on the ranks is ${magnitude}.`
+    }
+  }
+};
@@ -0,0 +1,1011 @@
+// Catalogue de référence : son type définit les clés que toute autre langue doit fournir
+export const fr = {
+  app: {
+    title: 'Analyse Mathématique Avancée',
+    language: 'Langue',
+    tabs: {
+      equations: 'Équations',
+      analysis: 'Analyse de Données',
+      visualization: 'Visualisation',
+      calculus: 'Calcul infinitésimal',
+      matrices: 'Matrices'
+    }
+  },
+
+  common: {
+    formula: 'FORMULE',
+    interpretation: 'INTERPRÉTATION',
+    conclusion: 'CONCLUSION',
+    preview: 'APERÇU',
+    computationError: 'Erreur dans le calcul',
+    none: 'Aucun'
+  },
+
+  solver: {
+    equationTitle: 'Résolveur d\'Équations et d\'Inéquations',
+    systemTitle: 'Résolveur de Systèmes Linéaires',
+    numericTitle: 'Résolution Numérique d\'Équations',
+    practiceTitle: 'Entraînement à la Résolution d\'Équations',
+    equationMode: 'Équation',
+    systemMode: 'Système',
+    numericMode: 'Numérique',
+    practiceMode: 'Entraînement',
+    equationLabel: 'Entrez votre équation',
+    systemLabel: 'Entrez une équation par ligne (ou séparées par ";")',
+    numericLabel: 'Entrez une équation en x, même sans solution exacte',
+    equationPlaceholder: 'Ex: 2x + 3 = 5, x^2 - 4 = 0 ou -3 < 2x + 1 ≤ 7',
+    systemPlaceholder: 'Ex: x + y = 3\n2x - y = 0',
+    numericPlaceholder: 'Ex: sin(x) = x/2, e^x = 3x ou ln(x) + x = 2',
+    examples: {
+      simple: 'Exemple simple',
+      complex: 'Exemple complexe',
+      parentheses: 'Exemple avec parenthèses',
+      quadratic: 'Exemple du second degré',
+      cubic: 'Exemple du troisième degré',
+      inequality: 'Exemple d\'inéquation',
+      compound: 'Exemple d\'encadrement',
+      literal: 'Exemple d\'équation littérale',
+      system2: 'Système 2×2',
+      system3: 'Système 3×3',
+      inconsistent: 'Système incompatible',
+      infinite: 'Infinité de solutions',
+      sine: 'sin(x) = x/2',
+      exponential: 'e^x = 3x',
+      logarithm: 'ln(x) + x = 2',
+      fixedPoint: 'cos(x) = x'
+    },
+    interval: 'Intervalle :',
+    intervalTo: 'à',
+    method: 'Méthode :',
+    unknown: 'Inconnue :',
+    automatic: 'Automatique',
+    tolerance: 'Tolérance :',
+    showApproximation: 'Afficher une valeur approchée',
+    precision: 'Précision :',
+    decimals: (digits: number) => `${digits} décimales`,
+    solve: 'Résoudre',
+    reset: 'Réinitialiser',
+    showHistory: 'Afficher l\'historique',
+    hideHistory: 'Masquer l\'historique',
+    solutionFound: 'Solution trouvée :',
+    multiplicity: (multiplicity: number) => `multiplicité ${multiplicity}`,
+    complex: 'complexe',
+    showGraph: 'Voir le graphe',
+    invalidFormat: 'Format invalide. Ex: 2x+3=5 ou x-1=2x+3'
+  },
+
+  history: {
+    title: 'Historique des Résolutions',
+    searchPlaceholder: 'Rechercher une équation ou un résultat',
+    allResults: 'Tous les résultats',
+    import: 'Importer',
+    imported: (count: number) => `${count} entrée(s) importée(s)`,
+    invalidFile: 'Fichier d\'historique invalide',
+    empty: 'Aucune équation résolue encore',
+    noMatch: 'Aucune entrée ne correspond à ces critères',
+    reload: 'Recharger dans le champ de saisie',
+    system: 'Système',
+    numeric: 'Numérique',
+    practice: 'Entraînement',
+    matrix: 'Matrice',
+    equation: 'Équation',
+    solution: 'Solution',
+    heading: (label: string) => `${label} :`,
+    pin: 'Épingler',
+    unpin: 'Désépingler',
+    copy: 'Copier',
+    copyLatex: 'Copier en LaTeX',
+    exportMarkdown: 'Exporter en Markdown',
+    remove: 'Supprimer',
+    stepsTitle: 'Détail des étapes de résolution',
+    historyFileName: 'historique',
+    solutionFileName: 'solution',
+    jsonListRequired: 'Le fichier JSON doit contenir une liste d\'entrées',
+    noValidEntries: 'Aucune entrée d\'historique valide dans ce fichier',
+    saveFailed: 'Impossible d\'enregistrer l\'historique',
+    solutionTypes: {
+      unique: 'Solution unique',
+      multiple: 'Plusieurs solutions',
+      none: 'Aucune solution',
+      infinite: 'Infinité de solutions'
+    },
+    periods: {
+      all: 'Toutes les dates',
+      today: 'Aujourd\'hui',
+      week: '7 derniers jours',
+      month: '30 derniers jours'
+    }
+  },
+
+  // Analyse des expressions, commune aux équations, inéquations et systèmes
+  parser: {
+    mustNotContain: (context: string, variable: string) => `${context} ne doit pas contenir "${variable}"`,
+    divisor: 'Le diviseur',
+    exponent: 'L\'exposant',
+    nonNumeric: (value: string) => `Valeur non numérique : ${value}`,
+    unrepresentable: (value: string) => `Nombre trop grand ou trop précis pour un calcul exact : ${value}`,
+    unknownSymbol: (name: string, variable: string) =>
+      `Symbole inconnu : "${name}" (seule la variable "${variable}" est acceptée)`,
+    divisionByZero: 'Division par zéro',
+    positiveExponent: (exponent: string) => `Exposant non pris en charge : ${exponent} (entier positif attendu)`,
+    exponentTooLarge: (exponent: string, max: number) => `Exposant trop grand : ${exponent} (au plus ${max})`,
+    unsupportedExponent: (exponent: string) => `Exposant non pris en charge : ${exponent}`,
+    unsupportedExpression: (expression: string) => `Expression non prise en charge : ${expression}`,
+    invalidExpression: (expression: string) => `Expression invalide : ${expression}`,
+    expansion: (side: string) => `Développement du membre ${side}`,
+    grouping: (side: string) => `Regroupement des termes semblables (${side})`,
+    left: 'gauche',
+    right: 'droit',
+    middle: 'central'
+  },
+
+  equation: {
+    initial: 'Équation initiale',
+    missingEquals: 'L\'équation doit contenir un signe "=" (ou <, >, ≤, ≥ pour une inéquation)',
+    variableRequired: (variable: string) => `La variable "${variable}" est requise`,
+    exactlyOneEquals: 'L\'équation doit contenir exactement un signe "=" avec deux membres',
+    splitSides: 'Séparation des membres',
+    sides: (left: string, right: string) => `Gauche = ${left}, Droit = ${right}`,
+    standardForm: (variable: string) => `Mise sous la forme P(${variable}) = 0`,
+    degree: (degree: number) => `Degré de l'équation : ${degree}`,
+    transposition: 'Transposition des termes',
+    simplification: 'Simplification',
+    infiniteSolutions: '0 = 0 → L\'équation a une infinité de solutions',
+    noSolution: (constant: string) => `${constant} ≠ 0 → Aucune solution possible`,
+    resultInfinite: '∞ (infinité de solutions)',
+    resultNone: '∅ (aucune solution)',
+    solution: 'Solution',
+    double: ' (double)',
+    triple: ' (triple)',
+    multiplicity: (multiplicity: number) => ` (multiplicité ${multiplicity})`,
+    coefficients: 'Coefficients',
+    discriminant: 'Discriminant',
+    doubleRoot: 'Δ = 0 → une racine double',
+    twoRealRoots: 'Δ > 0 → deux racines réelles distinctes',
+    complexRoots: 'Δ < 0 → pas de racine réelle, deux racines complexes conjuguées',
+    factorOut: (factor: string) => `Mise en facteur de ${factor}`,
+    rationalSearch: (constant: bigint, leading: bigint, count: number) =>
+      `Recherche de racines rationnelles p/q (p divise ${constant}, q divise ${leading}) : ${count} candidats`,
+    rootFound: (variable: string, root: string, multiplicity: string, factor: string) =>
+      `P(${root}) = 0 → ${variable} = ${root} est racine${multiplicity} ; division par ${factor}`,
+    quadraticFactor: 'Résolution du facteur du second degré',
+    linearFactor: 'Facteur du premier degré',
+    numericApproximation: (polynomial: string) =>
+      `Aucune racine rationnelle pour ${polynomial} : approximation numérique (méthode de Durand-Kerner)`,
+    factoredForm: 'Forme factorisée'
+  },
+
+  // Équations littérales : une inconnue choisie, les autres lettres sont des paramètres
+  literal: {
+    unknownAndParameters: (unknown: string, parameters: string) => `Inconnue : ${unknown} ; paramètres : ${parameters}`,
+    unknownOnly: (unknown: string) => `Inconnue : ${unknown}`,
+    chooseUnknown: (letters: string) => `Plusieurs lettres (${letters}) : choisissez l'inconnue`,
+    unknownAbsent: (unknown: string) => `L'inconnue "${unknown}" n'apparaît pas dans l'équation`,
+    firstDegreeOnly: (unknown: string) =>
+      `Avec des paramètres, seules les équations du premier degré en ${unknown} sont prises en charge`,
+    clearDenominators: 'Multiplication des deux membres par les dénominateurs',
+    expansion: 'Développement des deux membres',
+    isolate: (unknown: string) => `Termes en ${unknown} à gauche, les autres à droite`,
+    division: (divisor: string) => `Division par ${divisor}`,
+    conditions: 'Conditions',
+    unknownVanishes: (unknown: string) => `L'inconnue ${unknown} disparaît`,
+    resultConditional: (condition: string) => `ℝ si ${condition}, ∅ sinon`
+  },
+
+  inequality: {
+    initial: 'Inéquation initiale',
+    noBareEquals: 'Une inéquation ne peut pas contenir de signe "=" seul (utilisez ≤ ou ≥)',
+    invalidFormat: 'Format d\'inéquation invalide. Ex: 2x + 1 < 7 ou -3 < 2x + 1 ≤ 7',
+    firstDegreeOnly: 'Seules les inéquations du premier degré sont prises en charge',
+    sameDirection: 'Les deux inégalités d\'un encadrement doivent aller dans le même sens',
+    division: (coefficient: string, negative: boolean) =>
+      negative
+        ? `Division par ${coefficient} (nombre négatif) : le sens de l'inégalité s'inverse`
+        : `Division par ${coefficient} (nombre positif) : le sens de l'inégalité est conservé`,
+    divisionAll: (coefficient: string, negative: boolean) =>
+      negative
+        ? `Division des trois membres par ${coefficient} (nombre négatif) : les sens des inégalités s'inversent`
+        : `Division des trois membres par ${coefficient} (nombre positif) : les sens des inégalités sont conservés`,
+    constant: (statement: string, satisfied: boolean) =>
+      `${statement} est ${satisfied ? 'toujours vraie → tous les réels conviennent' : 'toujours fausse → aucun réel ne convient'}`,
+    transposition: (label: string) => `Transposition des termes${label}`,
+    simplification: (label: string) => `Simplification${label}`,
+    decomposition: 'Décomposition',
+    both: (first: string, second: string) => `${first} et ${second}`,
+    intersection: 'Intersection',
+    addToAll: (value: string) => `Ajout de ${value} aux trois membres`,
+    subtractFromAll: (value: string) => `Soustraction de ${value} aux trois membres`,
+    increasingOrder: 'Réécriture dans l\'ordre croissant',
+    splitSides: 'Séparation des membres',
+    compound: 'Encadrement',
+    solutionSet: 'Ensemble des solutions',
+    resultNone: '∅ (aucune solution)',
+    resultAll: 'ℝ (tous les réels)'
+  },
+
+  system: {
+    nonLinear: (expression: string) => `Équation non linéaire : ${expression}`,
+    equalsRequired: (index: number) => `L'équation ${index} doit contenir exactement un signe "=" avec deux membres`,
+    invalidExpression: (index: number, side: string) => `Expression invalide dans l'équation ${index} : ${side}`,
+    atLeastOneEquation: 'Le système doit contenir au moins une équation',
+    atLeastOneUnknown: 'Le système doit contenir au moins une inconnue',
+    initial: 'Système initial',
+    unknowns: 'Inconnues',
+    unknownList: (variables: string, count: number) => `${variables} (${count} équation${count > 1 ? 's' : ''})`,
+    standardForm: (index: number) => `Équation ${index} sous forme standard`,
+    augmentedMatrix: 'Matrice augmentée [A | b]',
+    row: 'L',
+    reducedForm: 'Forme échelonnée réduite',
+    line: (index: number) => `Ligne ${index}`,
+    inconsistent: (value: string) => `0 = ${value} → le système est incompatible`,
+    uniqueRank: (rank: number) => `Rang ${rank} = nombre d'inconnues → solution unique`,
+    infiniteRank: (rank: number, unknowns: number, free: number) =>
+      `Rang ${rank} < ${unknowns} inconnues → infinité de solutions ; variable${free > 1 ? 's' : ''} libre${free > 1 ? 's' : ''}`,
+    parametric: 'Forme paramétrique',
+    resultNone: '∅ (aucune solution)'
+  },
+
+  // Résolution numérique des équations transcendantes
+  numeric: {
+    equationsOnly: 'La résolution numérique ne s\'applique qu\'aux équations (un seul signe "=")',
+    invalidInterval: 'Intervalle de recherche invalide : la borne inférieure doit être strictement inférieure à la borne supérieure',
+    function: 'On se ramène à f(x) = 0',
+    scan: (interval: string, points: number, count: number) =>
+      `Balayage de ${interval} en ${points} sous-intervalles : ${count} changement${count > 1 ? 's' : ''} de signe`,
+    exactZero: 'Zéro exact rencontré pendant le balayage',
+    methods: {
+      bisection: 'dichotomie',
+      newton: 'méthode de Newton',
+      brent: 'méthode de Brent'
+    },
+    refine: (method: string) => `Affinage par ${method} sur l'encadrement`,
+    iteration: (index: number) => `Itération ${index}`,
+    skipped: (count: number) => `… ${count} itérations intermédiaires`,
+    converged: (iterations: number, reached: string, tolerance: string) =>
+      `Convergence en ${iterations} itération${iterations > 1 ? 's' : ''} : ε = ${reached} ≤ tolérance ${tolerance}`,
+    failed: (method: string, interval: string, reason: string) => `Échec de convergence (${method}) sur ${interval} : ${reason}`,
+    notDefined: (x: string) => `f n'est pas définie en x = ${x}`,
+    zeroDerivative: (x: string) => `dérivée nulle en x = ${x}`,
+    leftBracket: (x: string) => `l'itéré x = ${x} sort de l'encadrement, essayez la dichotomie ou la méthode de Brent`,
+    maxIterations: (count: number) => `pas de convergence après ${count} itérations`,
+    discontinuity: (interval: string) => `Changement de signe sur ${interval} dû à une discontinuité, pas à une racine`,
+    noSignChange: 'Aucun changement de signe : élargissez l\'intervalle (une racine double, où f ne change pas de signe, échappe au balayage)',
+    resultNone: (interval: string) => `∅ (aucune racine trouvée sur ${interval})`,
+    solutions: (count: number, interval: string) => `${count} racine${count > 1 ? 's' : ''} sur ${interval}`
+  },
+
+  // Mode entraînement : l'élève saisit chaque étape intermédiaire
+  practice: {
+    difficulty: 'Niveau :',
+    difficulties: {
+      oneStep: 'Une étape',
+      twoStep: 'Deux étapes',
+      bothSides: 'x des deux côtés',
+      parentheses: 'Parenthèses',
+      fractions: 'Fractions'
+    },
+    newExercise: 'Nouvel exercice',
+    exercise: 'Exercice',
+    stepLabel: 'Écrivez l\'équation suivante',
+    stepPlaceholder: 'Ex: 2x = 6',
+    check: 'Vérifier',
+    hint: 'Indice',
+    noMoreHints: 'Plus d\'indice disponible pour cette équation',
+    hintsTitle: 'Indices tirés de la résolution',
+    studentStep: 'Étape de l\'élève',
+    linearOnly: 'Seules les équations du premier degré sont acceptées en entraînement',
+    notEquivalent: 'Cette équation n\'a pas les mêmes solutions que la précédente : vérifiez votre calcul',
+    progress: 'Correct : l\'équation est équivalente et plus simple',
+    noProgress: 'Équivalente, mais elle ne rapproche pas de la solution : simplifiez davantage',
+    solved: (result: string) => `Bravo, ${result} !`,
+    points: (points: number) => `+${points} point${points > 1 ? 's' : ''}`,
+    score: 'Score de la session :',
+    scoreSummary: (points: number, solved: number) =>
+      `${points} point${points > 1 ? 's' : ''} · ${solved} exercice${solved > 1 ? 's' : ''} résolu${solved > 1 ? 's' : ''}`,
+    exerciseStats: (hints: number, mistakes: number) =>
+      `${hints} indice${hints > 1 ? 's' : ''}, ${mistakes} erreur${mistakes > 1 ? 's' : ''}`,
+    scoring: 'Chaque exercice rapporte 10 points, moins 2 par indice et 1 par étape fausse (au moins 1 point).'
+  },
+
+  visualization: {
+    title: 'Visualisation de Fonctions',
+    graphOf: 'Graphe de l\'équation',
+    graphExplanation: ' : chaque membre est tracé séparément, les solutions sont les abscisses des points d\'intersection.',
+    placeholder: 'Ex: sin(x), x^2 - 4 ou 1/x',
+    removeFunction: 'Supprimer la fonction',
+    addFunction: 'Ajouter une fonction',
+    resetView: 'Réinitialiser la vue',
+    intersections: 'Intersections',
+    intersection: 'Intersection',
+    help: 'Faites glisser pour déplacer la vue, utilisez la molette pour zoomer, double-cliquez pour revenir à la vue initiale.',
+    invalidExpression: 'Expression invalide',
+    notEvaluable: (expression: string, reason: string) => `Fonction non évaluable : ${expression} (${reason})`,
+    unknownError: 'erreur inconnue'
+  },
+
+  // Calcul infinitésimal : dérivées symboliques, intégrales et limites numériques
+  calculus: {
+    title: 'Dérivées, intégrales et limites',
+    functionLabel: 'Fonction f(x)',
+    placeholder: 'Ex: x^2·sin(x), ln(x)/x ou e^(-x^2)',
+    examples: 'Exemples :',
+    derivativeTitle: 'Dérivée',
+    plotTitle: 'Courbes de f et de f′',
+    integralTitle: 'Intégrale définie',
+    limitTitle: 'Limite',
+    from: 'De',
+    to: 'à',
+    methodLabel: 'Méthode :',
+    compute: 'Calculer',
+    point: 'x tend vers',
+    pointHint: 'un nombre, +∞ ou -∞',
+    sideLabel: 'Côté :',
+    sides: {
+      both: 'des deux côtés',
+      left: 'par la gauche',
+      right: 'par la droite'
+    },
+    integralArea: 'Aire algébrique',
+    invalidNumber: (text: string) => `Nombre invalide : ${text}`,
+    emptyFunction: 'Saisissez une fonction de x',
+    unknownFunction: (name: string) => `Fonction inconnue : ${name}`,
+    unknownSymbol: (name: string) => `Seule la variable x est admise (avec les constantes e et π) : ${name}`,
+    notDifferentiable: (expression: string) => `Impossible de dériver ${expression}`,
+    function: 'Fonction',
+    constant: 'f est constante, sa dérivée est nulle',
+    linearity: 'Linéarité : la dérivée d\'une somme est la somme des dérivées',
+    constantFactor: (factor: string) => `Facteur constant ${factor}`,
+    productRule: (u: string, v: string) => `Règle du produit (uv)' = u'v + uv', avec u = ${u} et v = ${v}`,
+    quotientRule: (u: string, v: string) => `Règle du quotient (u/v)' = (u'v - uv')/v², avec u = ${u} et v = ${v}`,
+    powerRule: 'Règle de la puissance (xⁿ)\' = n·xⁿ⁻¹',
+    powerChainRule: (u: string) => `Puissance d'une fonction (uⁿ)' = n·uⁿ⁻¹·u', avec u = ${u}`,
+    exponentialRule: (base: string) => `Exponentielle de base ${base} : (aᵘ)' = ln(a)·u'·aᵘ`,
+    naturalExponential: 'Exponentielle (eᵘ)\' = u\'·eᵘ',
+    generalPower: 'Puissance variable : uᵛ = e^(v·ln(u))',
+    elementary: (name: string) => `Dérivée usuelle de ${name}`,
+    chainRule: (name: string, u: string) => `Dérivée d'une composée (${name}(u))' = ${name}'(u)·u', avec u = ${u}`,
+    simplification: 'Après simplification',
+    integrationMethods: {
+      adaptive: 'Simpson adaptative',
+      simpson: 'Simpson composite'
+    },
+    method: (name: string) => `Méthode : ${name}`,
+    invalidBounds: 'Les bornes de l\'intégrale doivent être des nombres finis',
+    emptyInterval: 'Bornes égales',
+    notIntegrable: (x: string) => `f n'est pas définie en x = ${x} : l'intégrale est impropre ou n'existe pas`,
+    subintervals: (count: number) => `${count} sous-intervalles`,
+    adaptiveIntervals: (count: number) => `Découpage adaptatif en ${count} sous-intervalles`,
+    noConvergence: 'Pas de convergence : f varie trop brutalement sur l\'intervalle',
+    integralResult: (evaluations: number, error: string) => `${evaluations} évaluations de f, erreur estimée ${error}`,
+    invalidPoint: 'Point invalide : saisissez un nombre, +∞ ou -∞',
+    approach: {
+      left: 'Valeurs de f à gauche du point',
+      right: 'Valeurs de f à droite du point'
+    },
+    approachInfinity: (point: string) => `Valeurs de f quand x tend vers ${point}`,
+    undefinedValue: 'non définie',
+    sidesDiffer: (left: string, right: string) => `Limite à gauche ${left}, limite à droite ${right} : pas de limite`,
+    noLimit: 'Pas de limite',
+    noLimitReason: 'Les valeurs ne se stabilisent pas et ne croissent pas sans borne : pas de limite détectée'
+  },
+
+  // Onglet Matrices : saisie des grilles et calculs exacts en fractions
+  matrix: {
+    title: 'Calcul matriciel',
+    matrixName: (name: string) => `Matrice ${name}`,
+    rows: 'Lignes',
+    columns: 'Colonnes',
+    paste: 'Coller',
+    pasteHint: 'Collez une plage copiée depuis un tableur ou un texte séparé par des tabulations',
+    pasteEmpty: 'Le presse-papiers ne contient aucune cellule',
+    pasteTooLarge: (max: number) => `La matrice collée dépasse ${max} × ${max}`,
+    identity: 'Identité',
+    clear: 'Vider',
+    cellHint: 'Entier, décimal ou fraction a/b',
+    operationLabel: 'Opération :',
+    operations: {
+      determinant: 'Déterminant',
+      inverse: 'Inverse',
+      transpose: 'Transposée',
+      product: 'Produit A × B',
+      rank: 'Rang',
+      echelon: 'Forme échelonnée',
+      eigen: 'Valeurs et vecteurs propres'
+    },
+    methodLabel: 'Méthode :',
+    methods: {
+      rowReduction: 'Réduction de Gauss',
+      cofactor: 'Développement par cofacteurs'
+    },
+    compute: 'Calculer',
+    resultTitle: 'Résultat',
+    historyTitle: 'Historique des calculs matriciels',
+    showHistory: 'Afficher l\'historique',
+    hideHistory: 'Masquer l\'historique',
+    emptyMatrix: (name: string) => `La matrice ${name} est vide`,
+    emptyCell: (name: string, row: number, column: number) => `Cellule vide dans ${name} (ligne ${row}, colonne ${column})`,
+    invalidCell: (name: string, row: number, column: number, text: string) =>
+      `Valeur invalide dans ${name} (ligne ${row}, colonne ${column}) : ${text}`,
+    squareRequired: (name: string, rows: number, columns: number) => `La matrice ${name} doit être carrée (ici ${rows} × ${columns})`,
+    cofactorTooLarge: (max: number) => `Le développement par cofacteurs est limité aux matrices ${max} × ${max} : utilisez la réduction de Gauss`,
+    twoByTwo: 'Matrice 2 × 2 : det = ad - bc',
+    cofactorExpansion: (row: number) => `Développement selon la ligne ${row}, celle qui compte le plus de zéros`,
+    minor: (row: number, column: number) => `Mineur obtenu en supprimant la ligne ${row} et la colonne ${column}`,
+    cofactorSum: 'Somme des termes',
+    zeroPivot: 'Une colonne n\'a pas de pivot : le déterminant est nul',
+    diagonalProduct: (swaps: number) => swaps === 0
+      ? 'Matrice triangulaire : det = produit des pivots'
+      : `Matrice triangulaire : det = (-1)^${swaps} × produit des pivots (${swaps} échange${swaps > 1 ? 's' : ''} de lignes)`,
+    singular: 'Déterminant nul : la matrice n\'est pas inversible',
+    augmentedIdentity: 'Matrice augmentée [A | I]',
+    notInvertible: (rank: number, size: number) => `Rang ${rank} < ${size} : A n'est pas inversible`,
+    noInverse: 'A n\'est pas inversible',
+    inverseRead: 'La partie gauche est devenue I : l\'inverse se lit à droite',
+    transposeRule: (rows: number, columns: number) => `Les lignes deviennent des colonnes : ${rows} × ${columns} → ${columns} × ${rows}`,
+    productSizes: (rowsA: number, columnsA: number, rowsB: number, columnsB: number) =>
+      `Produit impossible : A a ${columnsA} colonne${columnsA > 1 ? 's' : ''} (${rowsA} × ${columnsA}), B a ${rowsB} ligne${rowsB > 1 ? 's' : ''} (${rowsB} × ${columnsB})`,
+    productSize: (rows: number, inner: number, columns: number) => `(${rows} × ${inner}) × (${inner} × ${columns}) → ${rows} × ${columns}`,
+    productEntry: (row: number, column: number) => `Coefficient (${row}, ${column}) : ligne ${row} de A par colonne ${column} de B`,
+    echelonFirst: 'Mise sous forme échelonnée',
+    rankRead: (rank: number) => `${rank} ligne${rank > 1 ? 's' : ''} non nulle${rank > 1 ? 's' : ''} : rang ${rank}`,
+    rankOf: 'rg',
+    alreadyEchelon: 'La matrice est déjà échelonnée',
+    pivotColumns: (columns: string) => `Colonnes des pivots : ${columns}`,
+    echelonOf: 'échelonnée',
+    characteristicPolynomial: 'Polynôme caractéristique (Faddeev-LeVerrier)',
+    eigenFailed: (reason: string) => `Calcul des valeurs propres impossible ${reason}`.trim(),
+    eigenvalue: (multiplicity: number) => multiplicity > 1 ? `Valeur propre de multiplicité ${multiplicity}` : 'Valeur propre',
+    eigenvector: (value: string) => `Vecteur propre exact pour λ = ${value}`,
+    approximateEigenvector: (value: string) => `Vecteur propre approché pour λ = ${value}`,
+    complexEigenvalues: 'Valeurs propres complexes : la matrice n\'est pas diagonalisable dans ℝ',
+    eigenOf: 'spectre'
+  },
+
+  csv: {
+    column: (index: number) => `Colonne ${index}`,
+    noData: 'Le fichier ne contient aucune donnée',
+    analysisError: 'Erreur lors de l\'analyse',
+    readError: (message: string) => `Erreur lors de la lecture du fichier : ${message}`,
+    readFailed: 'Erreur lors de la lecture du fichier',
+    cancelled: 'Import annulé'
+  },
+
+  analysis: {
+    title: 'Analyse de Données Statistiques',
+    importLabel: 'Importer un fichier CSV',
+    cancel: 'Annuler',
+    progress: (percent: number, rows: string) => `${percent}% lu · ${rows} lignes traitées`,
+    fileHint: 'Le fichier peut contenir plusieurs colonnes, avec ou sans ligne d\'en-tête, séparées par des virgules, des points-virgules ou des tabulations',
+    noNumericColumn: 'Aucune colonne numérique trouvée : toutes les colonnes sont catégorielles',
+    processingError: 'Erreur lors du traitement des données',
+    preview: 'Aperçu des données',
+    size: (rows: string, columns: number) => `(${rows} lignes, ${columns} colonnes)`,
+    headerToggle: 'La première ligne contient les en-têtes',
+    numeric: 'Numérique',
+    categorical: 'Catégorielle',
+    previewRows: (shown: number, total: string) => `${shown} premières lignes sur ${total}`,
+    dataRepresents: 'Les données représentent',
+    sample: 'Un échantillon (variance en n - 1)',
+    population: 'Toute la population (variance en N)',
+    columnsToAnalyze: 'Colonnes à analyser',
+    categories: (count: number) => `${count} modalités`,
+    comparison: 'Comparaison des colonnes',
+    statistic: 'Statistique',
+    observations: 'Observations',
+    detailedTitle: 'Analyse Statistique Détaillée',
+    detailedSubtitle: (name: string, count: number) => `(${name}, ${count} observations)`,
+    detailedColumn: 'Colonne détaillée :',
+    approximate: (limit: string) =>
+      `Plus de ${limit} valeurs : la médiane, les quartiles et les percentiles sont estimés en une passe (algorithme P²) et le mode n'est pas calculé.`,
+    summary: 'Résumé Statistique',
+    centralTendency: 'Tendance Centrale',
+    dispersion: 'Dispersion',
+    extremes: 'Extrêmes',
+    distribution: 'Distribution',
+    labels: {
+      mean: 'Moyenne',
+      median: 'Médiane',
+      standardDeviation: 'Écart-type',
+      variance: 'Variance',
+      coefficientOfVariation: 'Coefficient de variation',
+      standardError: 'Erreur standard',
+      q1: 'Q1',
+      q3: 'Q3',
+      iqr: 'IQR',
+      skewness: 'Asymétrie',
+      kurtosis: 'Aplatissement',
+      min: 'Minimum',
+      max: 'Maximum',
+      range: 'Étendue',
+      sum: 'Somme'
+    }
+  },
+
+  // Fiches explicatives des indicateurs descriptifs
+  // Saisie manuelle et collage de valeurs dans une grille
+  dataEntry: {
+    open: 'Saisir ou coller des données',
+    edit: 'Modifier dans la grille',
+    title: 'Saisie des données',
+    hint: 'La première ligne contient les noms des colonnes. Collez des cellules copiées depuis un tableur ou un fichier texte : la grille est remplie à partir de la cellule choisie.',
+    addRow: 'Ajouter une ligne',
+    addColumn: 'Ajouter une colonne',
+    removeRow: 'Supprimer la ligne',
+    removeColumn: 'Supprimer la colonne',
+    clear: 'Vider la grille',
+    analyze: 'Analyser ces données',
+    close: 'Fermer',
+    empty: 'La grille ne contient aucune valeur',
+    edited: 'Modification des données dans la grille'
+  },
+
+  cleaning: {
+    title: 'Qualité et nettoyage des données',
+    report: 'Rapport de qualité',
+    rows: (rows: string) => `${rows} lignes`,
+    duplicates: (count: number) => `${count} ligne${count > 1 ? 's' : ''} en double`,
+    column: 'Colonne',
+    missing: 'Manquantes',
+    invalid: 'Non numériques',
+    invalidHint: 'Les cellules non numériques d\'une colonne numérique sont ignorées par les statistiques : supprimez ces lignes ou imputez une valeur.',
+    complete: 'Aucune valeur manquante ni non numérique',
+    missingValues: 'Valeurs manquantes',
+    allColumns: 'toutes les colonnes',
+    allColumnsOption: 'Toutes les colonnes',
+    dropRows: 'Supprimer les lignes',
+    impute: 'Imputer par',
+    strategies: {
+      mean: 'la moyenne',
+      median: 'la médiane'
+    },
+    outliers: 'Valeurs aberrantes',
+    methods: {
+      iqr: 'règle de Tukey (1,5 × IQR)',
+      zScore: 'score z (|z| > 3)'
+    },
+    trim: 'Retirer',
+    filter: 'Filtrer les lignes',
+    filterValue: 'Valeur',
+    keep: 'Conserver',
+    changes: 'Modifications appliquées',
+    undo: 'Annuler la dernière modification',
+    droppedMissing: (column: string, removed: number) =>
+      `Lignes incomplètes supprimées (${column}) : ${removed} ligne${removed > 1 ? 's' : ''}`,
+    imputed: (strategy: string, column: string, filled: number) =>
+      `Imputation par ${strategy} (${column}) : ${filled} valeur${filled > 1 ? 's' : ''}`,
+    trimmed: (method: string, column: string, removed: number) =>
+      `Valeurs aberrantes de ${column} retirées, ${method} : ${removed} ligne${removed > 1 ? 's' : ''}`,
+    filtered: (condition: string, removed: number) =>
+      `Filtre ${condition} : ${removed} ligne${removed > 1 ? 's' : ''} retirée${removed > 1 ? 's' : ''}`,
+    emptyResult: 'Cette opération supprimerait toutes les lignes',
+    noValues: (column: string) => `La colonne ${column} ne contient aucune valeur numérique`,
+    invalidValue: (text: string) => `« ${text} » n'est pas un nombre valide`,
+    categoricalOperator: 'Une colonne catégorielle se filtre uniquement avec = ou ≠'
+  },
+
+  // Export du rapport d'analyse
+  report: {
+    export: 'Exporter :',
+    html: 'Rapport HTML',
+    json: 'JSON',
+    csv: 'CSV',
+    preparing: 'Préparation du rapport…',
+    title: 'Rapport d\'analyse statistique',
+    printHint: 'Imprimez cette page depuis le navigateur (Ctrl+P) pour obtenir un PDF.',
+    source: 'Source',
+    manualSource: 'Saisie manuelle',
+    column: 'Colonne détaillée',
+    observations: 'Observations',
+    rows: 'Lignes du jeu de données',
+    estimator: 'Estimateur',
+    estimators: {
+      sample: 'échantillon (variance en n - 1)',
+      population: 'population (variance en N)'
+    },
+    date: 'Date',
+    changes: 'Nettoyage appliqué',
+    charts: 'Graphiques',
+    explanations: 'Indicateurs détaillés',
+    fileName: 'rapport-statistique',
+    failed: 'Impossible de générer le rapport'
+  },
+
+  explanations: {
+    mean: {
+      title: 'Moyenne',
+      description: 'La moyenne arithmétique de toutes les valeurs',
+      interpretation: (mean: string) =>
+        `La valeur moyenne de votre dataset est ${mean}. Cela représente le centre de gravité de votre distribution.`
+    },
+    median: {
+      title: 'Médiane',
+      formula: 'Valeur centrale quand les données sont ordonnées',
+      description: 'La valeur qui sépare le dataset en deux parties égales',
+      interpretation: (median: string) => `50% de vos valeurs sont inférieures à ${median} et 50% sont supérieures.`
+    },
+    mode: {
+      title: 'Mode',
+      formula: 'Valeur(s) d\'effectif maximal',
+      description: 'La ou les valeurs les plus fréquentes',
+      none: 'Toutes les valeurs sont distinctes : la série n\'a pas de mode.',
+      single: (value: string) => `La valeur ${value} est la plus fréquente.`,
+      multiple: (count: number) => `La série est multimodale : ${count} valeurs partagent l'effectif maximal.`
+    },
+    standardDeviation: {
+      title: 'Écart-type',
+      sampleDescription: 'Mesure la dispersion autour de la moyenne, estimée à partir d\'un échantillon',
+      populationDescription: 'Mesure la dispersion des données autour de la moyenne de la population',
+      interpretation: (low: string, high: string) =>
+        `Environ 68% des valeurs se trouvent entre ${low} et ${high} (si la distribution est proche d'une loi normale).`
+    },
+    variance: {
+      title: 'Variance',
+      sampleDescription: 'Carré de l\'écart-type ; la division par n - 1 corrige le biais d\'estimation',
+      populationDescription: 'Carré de l\'écart-type, moyenne des carrés des écarts à la moyenne',
+      interpretation: (variance: string, spread: boolean) =>
+        `Une variance de ${variance} indique que les données sont ${spread ? 'très dispersées' : 'relativement groupées'}.`
+    },
+    coefficientOfVariation: {
+      title: 'Coefficient de variation',
+      description: 'Dispersion relative, indépendante de l\'unité de mesure',
+      interpretation: (percent: string, level: 'low' | 'moderate' | 'high') =>
+        `L'écart-type représente ${percent} % de la moyenne : la dispersion est ${{ low: 'faible', moderate: 'modérée', high: 'forte' }[level]}.`,
+      undefinedValue: 'Non défini lorsque la moyenne est nulle.'
+    },
+    standardError: {
+      title: 'Erreur standard de la moyenne',
+      description: 'Précision avec laquelle la moyenne est estimée',
+      interpretation: (error: string, count: number) =>
+        `La moyenne calculée fluctuerait typiquement de ±${error} d'un échantillon de ${count} valeurs à l'autre.`
+    },
+    q1: {
+      title: 'Premier quartile (Q1)',
+      formula: 'Q1 = P25, interpolation linéaire entre les rangs',
+      description: 'Valeur sous laquelle se trouvent 25% des données',
+      interpretation: (q1: string) => `25% de vos valeurs sont inférieures à ${q1}.`
+    },
+    q3: {
+      title: 'Troisième quartile (Q3)',
+      formula: 'Q3 = P75, interpolation linéaire entre les rangs',
+      description: 'Valeur sous laquelle se trouvent 75% des données',
+      interpretation: (q3: string) => `75% de vos valeurs sont inférieures à ${q3}.`
+    },
+    iqr: {
+      title: 'Écart interquartile (IQR)',
+      description: 'Étendue de la moitié centrale des données, peu sensible aux extrêmes',
+      interpretation: (iqr: string, q1: string, q3: string) =>
+        `La moitié centrale de vos valeurs tient dans un intervalle de largeur ${iqr}, entre ${q1} et ${q3}.`
+    },
+    percentiles: {
+      title: 'Percentiles',
+      description: 'Valeurs sous lesquelles se trouve un pourcentage donné des données',
+      interpretation: (p1: string, p99: string) =>
+        `80% de vos valeurs sont comprises entre P10 et P90 ; 98% entre P1 = ${p1} et P99 = ${p99}.`
+    },
+    skewness: {
+      title: 'Asymétrie',
+      populationFormula: 'g1 = m3 / m2^(3/2), où mk = Σ(xi - μ)^k / N',
+      description: 'Mesure le déséquilibre de la distribution autour de la moyenne',
+      undefinedValue: 'n\'est pas définie pour ces données',
+      symmetric: 'est à peu près symétrique',
+      right: 'est étalée vers la droite (queue de distribution du côté des grandes valeurs)',
+      left: 'est étalée vers la gauche (queue de distribution du côté des petites valeurs)',
+      interpretation: (description: string) => `Votre distribution ${description}.`
+    },
+    kurtosis: {
+      title: 'Aplatissement (kurtosis)',
+      sampleFormula: 'G2 = (n - 1) / ((n - 2)(n - 3)) · ((n + 1) · g2 + 6), avec g2 = m4 / m2² - 3',
+      populationFormula: 'g2 = m4 / m2² - 3 (excès par rapport à la loi normale)',
+      description: 'Compare l\'épaisseur des queues de la distribution à celle d\'une loi normale',
+      undefinedValue: 'n\'est pas défini pour ces données',
+      normal: 'est proche de celui d\'une loi normale (mésokurtique)',
+      heavy: 'indique des queues plus épaisses qu\'une loi normale (leptokurtique) : davantage de valeurs extrêmes',
+      light: 'indique des queues plus fines qu\'une loi normale (platykurtique) : peu de valeurs extrêmes',
+      interpretation: (kurtosis: string, description: string) => `Un excès d'aplatissement de ${kurtosis} ${description}.`
+    },
+    iqrOutliers: {
+      title: 'Valeurs aberrantes (IQR)',
+      formula: (factor: string) => `xi < Q1 - ${factor} × IQR ou xi > Q3 + ${factor} × IQR`,
+      description: 'Règle de Tukey, celle de la boîte à moustaches',
+      none: (low: string, high: string) => `Aucune valeur hors de [${low} ; ${high}].`,
+      some: (low: string, high: string, values: string) => `Valeurs hors de [${low} ; ${high}] : ${values}.`
+    },
+    zScoreOutliers: {
+      title: 'Valeurs aberrantes (score z)',
+      description: 'Valeurs situées à plus de trois écarts-types de la moyenne',
+      none: 'Aucune valeur à plus de trois écarts-types de la moyenne.',
+      some: (values: string) => `Valeurs concernées : ${values}. Cette règle suppose une distribution proche de la normale.`
+    },
+    min: {
+      title: 'Minimum',
+      description: 'La plus petite valeur du dataset',
+      interpretation: (min: string) => `Votre valeur la plus basse est ${min}.`
+    },
+    max: {
+      title: 'Maximum',
+      description: 'La plus grande valeur du dataset',
+      interpretation: (max: string) => `Votre valeur la plus élevée est ${max}.`
+    },
+    range: {
+      title: 'Étendue',
+      description: 'Différence entre les valeurs extrêmes',
+      interpretation: (range: string) => `Vos données couvrent un intervalle de ${range} unités.`
+    },
+    sum: {
+      title: 'Somme',
+      description: 'Total de toutes les valeurs',
+      interpretation: (sum: string) => `La somme totale de toutes vos valeurs est ${sum}.`
+    }
+  },
+
+  distribution: {
+    bins: 'Classes :',
+    manual: 'Manuel',
+    binCount: (count: number) => `${count} classe${count > 1 ? 's' : ''}`,
+    densityCurve: 'Courbe de densité',
+    density: 'Densité',
+    densityLegend: (bandwidth: string) => `Densité (h = ${bandwidth})`,
+    frequency: 'Effectif',
+    frequencies: 'Effectifs',
+    histogram: 'Histogramme',
+    boxPlot: 'Boîte à moustaches',
+    quartiles: 'Quartiles',
+    outlier: 'Valeur aberrante',
+    outliers: 'Valeurs aberrantes',
+    outsideFences: (low: string, high: string, factor: string) => `Hors de [${low} ; ${high}] (${factor} × IQR) :`
+  },
+
+  bivariate: {
+    title: 'Corrélation et Régression',
+    pairs: (count: number) => `(${count} paires complètes)`,
+    explanatory: 'Variable explicative (x) :',
+    response: 'Variable expliquée (y) :',
+    notEnoughPairs: 'Pas assez de paires complètes pour analyser ces deux colonnes.',
+    observations: 'Observations',
+    leastSquaresLine: 'Droite des moindres carrés',
+    scatter: 'Nuage de points',
+    residual: 'Résidu',
+    residuals: 'Résidus',
+    correlationMatrix: 'Matrice de corrélation (Pearson)',
+    pearson: {
+      title: 'Coefficient de Pearson (r)',
+      description: 'Mesure l\'intensité de la liaison linéaire entre les deux variables',
+      interpretation: (x: string, y: string, strength: string) =>
+        `La corrélation linéaire entre ${x} et ${y} est ${strength}. r varie de -1 (liaison décroissante parfaite) à 1 (liaison croissante parfaite).`
+    },
+    spearman: {
+      title: 'Coefficient de Spearman (ρ)',
+      formula: 'ρ = r(rang(x), rang(y))',
+      description: 'Corrélation de Pearson calculée sur les rangs, sensible à toute liaison monotone',
+      interpretation: (x: string, y: string, strength: string) => `La liaison monotone entre ${x} et ${y} est ${strength}.`,
+      nonLinear: 'ρ dépasse nettement |r| : la relation semble monotone mais non linéaire.',
+      robust: 'Moins sensible que r aux valeurs extrêmes.'
+    },
+    slope: {
+      title: 'Pente (a)',
+      description: 'Variation moyenne de y lorsque x augmente d\'une unité',
+      interpretation: (x: string, y: string, increases: boolean, change: string) =>
+        `Quand ${x} augmente de 1, ${y} ${increases ? 'augmente' : 'diminue'} en moyenne de ${change}.`
+    },
+    intercept: {
+      title: 'Ordonnée à l\'origine (b)',
+      description: 'Valeur prédite de y lorsque x vaut 0',
+      interpretation: (equation: string) => `La droite des moindres carrés a pour équation ${equation}.`
+    },
+    rSquared: {
+      title: 'Coefficient de détermination (R²)',
+      description: 'Part de la variance de y expliquée par la droite de régression',
+      interpretation: (percent: string, y: string) => `La droite explique ${percent}% de la variabilité de ${y}.`,
+      good: 'L\'ajustement linéaire est bon.',
+      partial: 'L\'ajustement linéaire est partiel.',
+      poor: 'Le modèle linéaire explique mal les données.'
+    },
+    residualError: {
+      title: 'Écart-type des résidus',
+      description: 'Erreur typique commise en prédisant y par la droite',
+      interpretation: (y: string, error: string) =>
+        `Les valeurs observées de ${y} s'écartent en moyenne d'environ ${error} de la droite. Le graphique des résidus doit montrer un nuage sans structure autour de 0.`
+    },
+    correlation: {
+      undefinedValue: 'non définie (une des séries est constante)',
+      negligible: 'négligeable',
+      strength: (strength: 'veryStrong' | 'strong' | 'moderate' | 'weak', positive: boolean) =>
+        `${{ veryStrong: 'très forte', strong: 'forte', moderate: 'modérée', weak: 'faible' }[strength]} et ${positive ? 'positive' : 'négative'}`
+    }
+  },
+
+  // Ajustement de modèles non linéaires aux paires (x, y)
+  curveFitting: {
+    title: 'Ajustement de courbes',
+    hint: 'Les modèles sont classés par R² ajusté, qui pénalise les paramètres supplémentaires. Les modèles exponentiel, logarithmique et puissance sont ajustés par moindres carrés après passage au logarithme.',
+    models: {
+      linear: 'Linéaire',
+      exponential: 'Exponentiel',
+      logarithmic: 'Logarithmique',
+      power: 'Puissance',
+      polynomial: 'Polynomial'
+    },
+    degree: 'Degré du polynôme :',
+    rank: 'Rang',
+    model: 'Modèle',
+    equation: 'Équation',
+    parameters: 'Paramètres',
+    adjustedRSquared: 'R² ajusté',
+    rmse: 'RMSE',
+    show: 'Tracer',
+    best: 'Meilleur ajustement',
+    unavailable: 'Modèles non ajustés :',
+    requiresPositiveY: 'nécessite y > 0',
+    requiresPositiveX: 'nécessite x > 0',
+    requiresPositive: 'nécessite x > 0 et y > 0',
+    notEnoughPoints: (count: number) => `au moins ${count} paires nécessaires`,
+    singular: 'valeurs de x insuffisamment dispersées',
+    solveFor: 'Trouver x tel que y =',
+    using: 'avec le modèle',
+    solve: 'Résoudre',
+    invalidTarget: (text: string) => `« ${text} » n'est pas un nombre valide`
+  },
+
+  inference: {
+    title: 'Statistique Inférentielle',
+    procedure: 'Procédure :',
+    confidenceLevel: 'Niveau de confiance :',
+    procedures: {
+      interval: 'Intervalle de confiance de la moyenne',
+      'one-sample': 'Test t à un échantillon',
+      welch: 'Test t de Welch (deux colonnes)',
+      paired: 'Test t apparié (deux colonnes)',
+      'chi-square': 'Test du khi-deux d\'adéquation'
+    },
+    firstColumn: 'Première colonne :',
+    secondColumn: 'Seconde colonne :',
+    column: 'Colonne :',
+    expectedProportions: 'Proportions attendues :',
+    proportionsPlaceholder: (count: number) => `Uniforme si vide (${count} valeurs, ex: 1 1 2)`,
+    categoriesInOrder: 'Modalités dans l\'ordre :',
+    invalidMu0: 'Valeur de μ₀ invalide',
+    differentColumns: 'Choisissez deux colonnes différentes',
+    invalidProportions: 'Proportions attendues invalides',
+    intervalTitle: (level: string, name: string) => `Intervalle de confiance à ${level}% de la moyenne de ${name}`,
+    df: 'ddl',
+    tCritical: 't critique',
+    margin: 'Marge',
+    intervalInterpretation: (level: string, name: string, lower: string, upper: string) =>
+      `Avec un niveau de confiance de ${level}%, la vraie moyenne de ${name} se situe entre ${lower} et ${upper}. Si l'on répétait l'échantillonnage, ${level}% des intervalles ainsi construits contiendraient la vraie moyenne.`,
+    statistic: (label: string) => `Statistique ${label}`,
+    degreesOfFreedom: 'Degrés de liberté',
+    atLeast: (label: string, minimum: number, available: number) =>
+      `${label} : au moins ${minimum} valeurs sont nécessaires (${available} disponibles)`,
+    identicalValues: 'Test impossible : toutes les valeurs sont identiques',
+    constantSeries: 'Test impossible : les deux séries sont constantes',
+    identicalDifferences: 'Test impossible : les différences sont toutes identiques',
+    reject: (alpha: string, p: string, threshold: string, conclusion: string) =>
+      `Au seuil α = ${alpha}, on rejette H₀ (p ${p} < ${threshold}) : ${conclusion}`,
+    keep: (alpha: string, p: string, threshold: string, conclusion: string) =>
+      `Au seuil α = ${alpha}, on ne peut pas rejeter H₀ (p ${p} ≥ ${threshold}) : ${conclusion}`,
+    intervalLabel: 'Intervalle de confiance',
+    oneSample: {
+      label: 'Test t à un échantillon',
+      title: 'Test t de Student à un échantillon',
+      rejected: (name: string, mean: string, mu0: string) =>
+        `la moyenne de ${name} (${mean}) diffère significativement de ${mu0}.`,
+      kept: (name: string, mean: string, mu0: string) =>
+        `l'écart entre la moyenne de ${name} (${mean}) et ${mu0} peut s'expliquer par les fluctuations d'échantillonnage.`
+    },
+    welch: {
+      title: 'Test t de Welch (deux échantillons indépendants)',
+      formula: 't = (x̄₁ - x̄₂) / √(s₁²/n₁ + s₂²/n₂), ddl de Welch-Satterthwaite',
+      rejected: (a: string, meanA: string, b: string, meanB: string) =>
+        `les moyennes de ${a} (${meanA}) et de ${b} (${meanB}) sont significativement différentes.`,
+      kept: (a: string, meanA: string, b: string, meanB: string) =>
+        `la différence entre les moyennes de ${a} (${meanA}) et de ${b} (${meanB}) n'est pas significative.`
+    },
+    paired: {
+      title: 'Test t apparié',
+      formula: 't = d̄ / (s_d / √n), où di = xi - yi sur les paires complètes',
+      rejected: (count: number, a: string, greater: boolean, b: string, difference: string) =>
+        `sur les ${count} paires, ${a} est en moyenne ${greater ? 'supérieur' : 'inférieur'} à ${b} de ${difference}, écart significatif.`,
+      kept: (difference: string, a: string, b: string, count: number) =>
+        `l'écart moyen de ${difference} entre ${a} et ${b} sur les ${count} paires n'est pas significatif.`
+    },
+    chiSquare: {
+      title: 'Test du khi-deux d\'adéquation',
+      formula: 'χ² = Σ (Oi - Ei)² / Ei, avec Ei = n · pi',
+      minCategories: 'Test du khi-deux : au moins deux modalités sont nécessaires',
+      count: (expected: number, given: number) => `Test du khi-deux : ${expected} proportions attendues, ${given} fournies`,
+      positive: 'Test du khi-deux : les proportions attendues doivent être strictement positives',
+      hypotheses: (name: string, uniform: boolean) =>
+        `H₀ : ${name} suit la répartition ${uniform ? 'uniforme' : 'attendue'}   contre   H₁ : la répartition observée s'en écarte`,
+      rejected: (name: string, uniform: boolean) =>
+        `la répartition de ${name} s'écarte significativement de la répartition ${uniform ? 'uniforme' : 'attendue'}.`,
+      kept: (name: string, uniform: boolean) =>
+        `la répartition de ${name} est compatible avec la répartition ${uniform ? 'uniforme' : 'attendue'}.`,
+      smallCells: (count: number) =>
+        `${count} effectif${count > 1 ? 's' : ''} théorique${count > 1 ? 's' : ''} inférieur${count > 1 ? 's' : ''} à 5 : l'approximation du khi-deux est peu fiable.`
+    },
+    anova: {
+      title: 'ANOVA à un facteur',
+      formula: 'F = [SCE_inter / (k - 1)] / [SCE_intra / (N - k)]',
+      minGroups: 'Au moins deux groupes non vides sont nécessaires',
+      noWithinVariance: 'ANOVA impossible : les valeurs sont constantes à l\'intérieur de chaque groupe',
+      hypotheses: (value: string, group: string) =>
+        `H₀ : la moyenne de ${value} est la même pour toutes les modalités de ${group}   contre   H₁ : au moins une moyenne diffère`,
+      rejected: (value: string, group: string) =>
+        `la moyenne de ${value} diffère significativement selon ${group} (au moins un groupe se distingue).`,
+      kept: (value: string, group: string) =>
+        `les écarts entre les moyennes de ${value} selon ${group} peuvent s'expliquer par les fluctuations d'échantillonnage.`,
+      unequalVariances: (ratio: string) =>
+        `La plus grande variance de groupe vaut ${ratio} fois la plus petite : l'hypothèse de variances égales est douteuse, préférez le test de Kruskal-Wallis.`
+    },
+    kruskal: {
+      title: 'Test de Kruskal-Wallis',
+      formula: 'H = 12 / (N(N + 1)) · Σ Ri² / ni - 3(N + 1), corrigé des ex aequo',
+      hypotheses: (value: string, group: string) =>
+        `H₀ : ${value} a la même distribution pour toutes les modalités de ${group}   contre   H₁ : au moins un groupe est décalé`,
+      rejected: (value: string, group: string) =>
+        `les rangs de ${value} diffèrent significativement selon ${group}.`,
+      kept: (value: string, group: string) =>
+        `aucun décalage significatif des rangs de ${value} selon ${group}.`,
+      smallGroups: (count: number, minimum: number) =>
+        `${count} groupe${count > 1 ? 's comptent' : ' compte'} moins de ${minimum} valeurs : l'approximation du khi-deux est peu fiable.`
+    },
+    against: 'contre'
+  },
+
+  // Analyse par groupe : une colonne de modalités découpe une colonne numérique
+  groups: {
+    title: 'Comparaison de groupes',
+    groupColumn: 'Grouper par :',
+    valueColumn: 'Valeurs :',
+    significance: 'Seuil α :',
+    noGroupColumn: (max: number) => `Aucune colonne ne compte entre 2 et ${max} modalités pour former des groupes`,
+    groupCount: (count: number, total: number) => `${count} groupes, ${total} observations`,
+    ignoredGroups: (count: number) => `${count} groupe${count > 1 ? 's' : ''} d'une seule valeur ignoré${count > 1 ? 's' : ''}`,
+    statsTitle: 'Statistiques par groupe',
+    boxPlotTitle: 'Boîtes à moustaches par groupe',
+    outliers: 'Valeurs aberrantes',
+    anovaTable: 'Table d\'ANOVA',
+    source: 'Source',
+    between: 'Inter-groupes',
+    within: 'Intra-groupes',
+    total: 'Total',
+    sumOfSquares: 'SCE',
+    meanSquare: 'CM',
+    magnitudes: {
+      negligible: 'négligeable',
+      small: 'faible',
+      medium: 'moyen',
+      large: 'fort'
+    },
+    fStatistic: {
+      title: 'Statistique F',
+      description: 'Rapport entre la variance des moyennes de groupe et la variance à l\'intérieur des groupes'
+    },
+    etaSquared: {
+      title: 'Êta carré (η²)',
+      formula: 'η² = SCE_inter / SCE_totale',
+      description: 'Part de la variance totale expliquée par l\'appartenance au groupe',
+      interpretation: (percent: string, magnitude: string) =>
+        `Les groupes expliquent ${percent} % de la variabilité des valeurs : effet ${magnitude}.`
+    },
+    omegaSquared: {
+      title: 'Oméga carré (ω²)',
+      formula: 'ω² = (SCE_inter - (k - 1)·CM_intra) / (SCE_totale + CM_intra)',
+      description: 'Version moins biaisée de η², à privilégier sur de petits échantillons',
+      interpretation: (percent: string, magnitude: string) =>
+        `Dans la population, les groupes expliqueraient environ ${percent} % de la variance : effet ${magnitude}.`
+    },
+    hStatistic: {
+      title: 'Statistique H de Kruskal-Wallis',
+      description: 'Alternative non paramétrique à l\'ANOVA, fondée sur les rangs : ni normalité ni variances égales requises'
+    },
+    epsilonSquared: {
+      title: 'Epsilon carré (ε²)',
+      description: 'Taille d\'effet associée au test de Kruskal-Wallis, entre 0 et 1',
+      interpretation: (value: string, magnitude: string) =>
+        `ε² = ${value} : l'effet du groupe sur les rangs est ${magnitude}.`
+    }
+  }
+};
+
+export type Messages = typeof fr;
@@ -0,0 +1,96 @@
+import { Messages, fr } from './fr';
+import { en } from './en';
+
+export type { Messages };
+
+export type Locale = 'fr' | 'en';
+
+export const LOCALES: Record<Locale, string> = {
+  fr: 'Français',
+  en: 'English'
+};
+
+const CATALOGUES: Record<Locale, Messages> = { fr, en };
+
+// Étiquettes BCP 47 utilisées par Intl
+const LOCALE_TAGS: Record<Locale, string> = { fr: 'fr-FR', en: 'en-US' };
+
+const STORAGE_KEY = 'locale';
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in CATALOGUES;
+
+// Langue enregistrée, sinon celle du navigateur ; le worker CSV n'a pas accès à localStorage
+const initialLocale = (): Locale => {
+  try {
+    const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Stockage indisponible : on retombe sur la langue du navigateur
+  }
+  const language = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2);
+  return isLocale(language) ? language : 'fr';
+};
+
+let current: Locale = initialLocale();
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale): void => {
+  current = locale;
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // La langue reste active pour la session
+  }
+};
+
+// Catalogue de la langue active, pour les utilitaires appelés hors des composants
+export const getMessages = (locale: Locale = current): Messages => CATALOGUES[locale];
+
+export const localeTag = (locale: Locale = current): string => LOCALE_TAGS[locale];
+
+export const decimalSeparator = (locale: Locale = current): string => (locale === 'fr' ? ',' : '.');
+
+// Séparateur des fichiers CSV exportés : le point-virgule côté français, où la virgule est décimale
+export const csvDelimiter = (locale: Locale = current): string => (locale === 'fr' ? ';' : ',');
+
+// Séparateurs décimal puis des milliers, au format attendu par Plotly
+export const plotSeparators = (locale: Locale = current): string => (locale === 'fr' ? ', ' : '.,');
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+// Nombre mis en forme selon la langue active : digits décimales fixes, ou jusqu'à 10 sans zéros inutiles
+export const formatNumber = (value: number, digits?: number): string => {
+  if (!Number.isFinite(value)) return '—';
+  const key = `${current}:${digits ?? ''}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(
+      localeTag(),
+      digits === undefined ? { maximumFractionDigits: 10 } : { minimumFractionDigits: digits, maximumFractionDigits: digits }
+    );
+    formatters.set(key, formatter);
+  }
+  return formatter.format(value);
+};
+
+const FRENCH_NUMBER = /^[-+]?(?:(?:\d{1,3}(?:\s\d{3})+|\d+)(?:[.,]\d*)?|[.,]\d+)(?:e[-+]?\d+)?$/i;
+const ENGLISH_NUMBER = /^[-+]?(?:(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$/i;
+
+// Lit un nombre saisi ou importé : en français la virgule décimale et les espaces de milliers sont acceptés,
+// en anglais les virgules de milliers ; le point décimal est accepté dans les deux langues
+export const parseLocaleNumber = (text: string, locale: Locale = current): number | null => {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+  let normalized: string;
+  if (locale === 'fr') {
+    if (!FRENCH_NUMBER.test(trimmed)) return null;
+    normalized = trimmed.replace(/\s/g, '').replace(',', '.');
+  } else {
+    if (!ENGLISH_NUMBER.test(trimmed)) return null;
+    normalized = trimmed.replace(/,/g, '');
+  }
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
@@ -0,0 +1,524 @@
+import {
+  parse,
+  derivative,
+  simplify,
+  MathNode,
+  ConstantNode,
+  FunctionNode,
+  OperatorNode,
+  SymbolNode,
+  isConstantNode,
+  isSymbolNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isFunctionNode,
+} from 'mathjs';
+import { VARIABLE, normalizeInput } from './expressionParser';
+import { RealFunction, toMathjsSyntax } from './functionPlot';
+import { FUNCTIONS } from './latex';
+import { Step, step } from './steps';
+import { decimalSeparator, getMessages, parseLocaleNumber } from '../i18n';
+
+export type IntegrationMethod = 'simpson' | 'adaptive';
+
+export const INTEGRATION_METHODS: IntegrationMethod[] = ['adaptive', 'simpson'];
+
+export type LimitSide = 'both' | 'left' | 'right';
+
+export const LIMIT_SIDES: LimitSide[] = ['both', 'left', 'right'];
+
+export type LimitKind = 'finite' | 'plusInfinity' | 'minusInfinity' | 'none';
+
+export interface DerivativeResult {
+  // Expression saisie et dérivée simplifiée, dans la notation de l'application
+  expression: string;
+  derivative: string;
+  steps: Step[];
+  f: RealFunction;
+  fPrime: RealFunction;
+}
+
+export interface IntegralResult {
+  value: number;
+  // Estimation de l'erreur commise (différence entre deux raffinements successifs)
+  error: number;
+  evaluations: number;
+  result: string;
+  steps: Step[];
+}
+
+export interface LimitResult {
+  kind: LimitKind;
+  // Valeur approchée, NaN si la limite n'est pas finie
+  value: number;
+  result: string;
+  steps: Step[];
+}
+
+const CONSTANTS = ['e', 'pi'];
+
+const INTEGRATION_TOLERANCE = 1e-10;
+// Simpson composite : n double jusqu'à 2^20 sous-intervalles
+const MAX_SIMPSON_LEVEL = 20;
+const MAX_ADAPTIVE_DEPTH = 50;
+// Simpson adaptatif : autant d'évaluations au plus que la subdivision la plus fine du composite
+const MAX_ADAPTIVE_EVALUATIONS = 2 ** 20;
+// Points x = a ± 10^-k (ou ±10^k à l'infini) pour k = 1…LIMIT_SAMPLES
+const LIMIT_SAMPLES = 8;
+const LIMIT_TOLERANCE = 1e-6;
+// Rapport maximal entre deux écarts successifs pour reconnaître une convergence géométrique
+const GEOMETRIC_RATIO = 0.5;
+
+const formatValue = (value: number, digits = 10): string => {
+  if (value === 0) return '0';
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1e-4 && magnitude < 1e10) return String(Number(value.toPrecision(digits))).replace('.', decimalSeparator());
+  const [mantissa, exponent] = value.toExponential(Math.min(digits, 4)).split('e');
+  return `${String(Number(mantissa)).replace('.', decimalSeparator())}·10^(${Number(exponent)})`;
+};
+
+// Les parenthèses saisies n'ont plus de rôle une fois l'arbre construit
+const stripParentheses = (node: MathNode): MathNode =>
+  isParenthesisNode(node) ? stripParentheses(node.content) : node.map(stripParentheses);
+
+const dependsOnVariable = (node: MathNode): boolean =>
+  node.filter(child => isSymbolNode(child) && child.name === VARIABLE).length > 0;
+
+const isNumber = (node: MathNode): boolean => isConstantNode(node) && typeof node.value === 'number';
+
+// Opérande affiché tel quel dans une fraction ou une puissance : nombre positif, lettre, appel de fonction
+const isAtom = (node: MathNode): boolean =>
+  (isNumber(node) && (node as ConstantNode).value >= 0) || isSymbolNode(node) || isFunctionNode(node);
+
+const isSum = (node: MathNode): boolean =>
+  isOperatorNode(node) && (node.fn === 'add' || node.fn === 'subtract' || node.fn === 'unaryMinus');
+
+const wrap = (text: string, needed: boolean) => (needed ? `(${text})` : text);
+
+// Notation de l'application : 2x^2 - 3, x·cos(x), ln(x), π ; numérateurs et dénominateurs composés
+// sont parenthésés pour que la barre de fraction couvre tout l'opérande
+export const formatNode = (node: MathNode): string => {
+  if (isParenthesisNode(node)) return formatNode(node.content);
+  if (isConstantNode(node)) {
+    return typeof node.value === 'number' ? formatValue(node.value, 12) : String(node.value);
+  }
+  if (isSymbolNode(node)) return node.name === 'pi' ? 'π' : node.name;
+  if (isFunctionNode(node)) {
+    const name = node.fn.name === 'log' && node.args.length === 1 ? 'ln' : node.fn.name;
+    return `${name}(${node.args.map(formatNode).join(', ')})`;
+  }
+  if (!isOperatorNode(node)) return node.toString();
+  const [left, right] = node.args;
+  switch (node.fn) {
+    case 'unaryMinus':
+      return `-${wrap(formatNode(left), isSum(left))}`;
+    case 'unaryPlus':
+      return formatNode(left);
+    case 'add': {
+      const second = formatNode(right);
+      return second.startsWith('-') ? `${formatNode(left)} - ${second.slice(1)}` : `${formatNode(left)} + ${second}`;
+    }
+    case 'subtract':
+      return `${formatNode(left)} - ${wrap(formatNode(right), isSum(right))}`;
+    case 'multiply': {
+      const first = wrap(formatNode(left), isSum(left));
+      const second = wrap(formatNode(right), isSum(right));
+      // 2x, 3(x + 1), 2sin(x) ; x·cos(x) sinon
+      return isNumber(left) && /^[\p{L}(]/u.test(second) ? `${first}${second}` : `${first}·${second}`;
+    }
+    case 'divide':
+      // Une puissance reste liée à la barre de fraction au numérateur, pas au dénominateur
+      return `${wrap(formatNode(left), !isAtom(left) && !(isOperatorNode(left) && left.fn === 'pow'))}/${wrap(formatNode(right), !isAtom(right))}`;
+    case 'pow':
+      return `${wrap(formatNode(left), !isAtom(left))}^${wrap(formatNode(right), !isAtom(right))}`;
+    default:
+      return node.toString();
+  }
+};
+
+// Lit une fonction de x : seules les fonctions usuelles et les constantes e et π sont admises
+export const parseFunction = (expression: string): MathNode => {
+  const t = getMessages().calculus;
+  if (!expression.trim()) throw new Error(t.emptyFunction);
+  let node: MathNode;
+  try {
+    node = parse(toMathjsSyntax(normalizeInput(expression).replace(/π/g, 'pi')));
+  } catch {
+    throw new Error(getMessages().parser.invalidExpression(expression));
+  }
+  node.traverse((child, path, parent) => {
+    if (isFunctionNode(child) && !FUNCTIONS.includes(child.fn.name)) throw new Error(t.unknownFunction(child.fn.name));
+    if (!isSymbolNode(child) || (parent && isFunctionNode(parent) && path === 'fn')) return;
+    if (child.name !== VARIABLE && !CONSTANTS.includes(child.name)) throw new Error(t.unknownSymbol(child.name));
+  });
+  return stripParentheses(node);
+};
+
+export const toRealFunction = (node: MathNode): RealFunction => {
+  const compiled = node.compile();
+  return (x: number) => {
+    try {
+      const value = compiled.evaluate({ [VARIABLE]: x });
+      return typeof value === 'number' ? value : NaN;
+    } catch {
+      return NaN;
+    }
+  };
+};
+
+// simplify remplace ln(2) par 0,693… : on fige les logarithmes de constantes le temps de la simplification
+const simplifyExact = (node: MathNode): MathNode => {
+  const frozen: MathNode[] = [];
+  const placeholder = (index: number) => `ln_${index}`;
+  const hidden = node.transform(child => {
+    if (!isFunctionNode(child) || child.fn.name !== 'log' || !child.args.every(isNumber)) return child;
+    frozen.push(child);
+    return new SymbolNode(placeholder(frozen.length - 1));
+  });
+  const isSecant = (node: MathNode) => isFunctionNode(node) && node.fn.name === 'sec';
+  return stripParentheses(simplify(hidden).transform(child => {
+    // sec n'est pas une fonction de la saisie : sec(u)^2 s'écrit 1/cos(u)^2
+    if (isOperatorNode(child) && child.fn === 'pow' && isSecant(child.args[0])) {
+      const cosine = new FunctionNode('cos', (child.args[0] as FunctionNode).args);
+      return new OperatorNode('/', 'divide', [new ConstantNode(1), new OperatorNode('^', 'pow', [cosine, child.args[1]])]);
+    }
+    if (isSecant(child)) {
+      return new OperatorNode('/', 'divide', [new ConstantNode(1), new FunctionNode('cos', (child as FunctionNode).args)]);
+    }
+    if (!isSymbolNode(child)) return child;
+    const index = frozen.findIndex((_, i) => placeholder(i) === child.name);
+    return index === -1 ? child : frozen[index];
+  }));
+};
+
+const differentiate = (node: MathNode): MathNode => {
+  try {
+    return simplifyExact(derivative(node, VARIABLE, { simplify: false }));
+  } catch {
+    throw new Error(getMessages().calculus.notDifferentiable(formatNode(node)));
+  }
+};
+
+// (u)' : le prime s'applique à l'expression entière
+const prime = (node: MathNode) => `${wrap(formatNode(node), !isSymbolNode(node))}'`;
+
+// Remet en forme une combinaison de morceaux déjà dérivés, sans la simplifier
+const combine = (template: string, parts: MathNode[]): string =>
+  formatNode(stripParentheses(parse(template.replace(/\$(\d)/g, (_, i) => `(${parts[Number(i)].toString()})`))));
+
+interface SumTerm {
+  node: MathNode;
+  negative: boolean;
+}
+
+// Termes d'une somme imbriquée a + b - c, avec leur signe
+const sumTerms = (node: MathNode, negative = false): SumTerm[] => {
+  if (isOperatorNode(node) && (node.fn === 'add' || node.fn === 'subtract')) {
+    const [left, right] = node.args;
+    return [...sumTerms(left, negative), ...sumTerms(right, node.fn === 'subtract' ? !negative : negative)];
+  }
+  return [{ node, negative }];
+};
+
+// Règle appliquée au nœud puis, récursivement, à ses sous-expressions qui dépendent de x
+const ruleSteps = (node: MathNode, steps: Step[]): void => {
+  const t = getMessages().calculus;
+  if (!dependsOnVariable(node) || isSymbolNode(node)) return;
+  const push = (text: string, structured: string) => steps.push(step(text, `${prime(node)} = ${structured}`));
+
+  if (isFunctionNode(node)) {
+    const [argument] = node.args;
+    const name = node.fn.name === 'log' ? 'ln' : node.fn.name;
+    if (isSymbolNode(argument)) {
+      push(t.elementary(name), formatNode(differentiate(node)));
+      return;
+    }
+    // f'(u)·u', avec f' calculée sur une variable muette puis évaluée en u
+    const outer = simplifyExact(derivative(new FunctionNode(node.fn, [new SymbolNode('u')]), 'u'))
+      .transform(child => (isSymbolNode(child) && child.name === 'u' ? argument : child));
+    push(t.chainRule(name, formatNode(argument)), combine('$0 * $1', [outer, differentiate(argument)]));
+    ruleSteps(argument, steps);
+    return;
+  }
+  if (!isOperatorNode(node)) return;
+
+  const [u, v] = node.args;
+  switch (node.fn) {
+    case 'unaryMinus':
+      push(t.constantFactor('-1'), combine('-$0', [differentiate(u)]));
+      ruleSteps(u, steps);
+      return;
+    case 'unaryPlus':
+      ruleSteps(u, steps);
+      return;
+    case 'add':
+    case 'subtract': {
+      // Une seule étape pour toute la somme, puis une par terme
+      const terms = sumTerms(node);
+      const template = terms.map(({ negative }, i) => `${negative ? '-' : i === 0 ? '' : '+'} $${i}`).join(' ');
+      push(t.linearity, combine(template, terms.map(term => differentiate(term.node))));
+      terms.forEach(term => ruleSteps(term.node, steps));
+      return;
+    }
+    case 'multiply':
+      if (!dependsOnVariable(u) || !dependsOnVariable(v)) {
+        const [constant, factor] = dependsOnVariable(u) ? [v, u] : [u, v];
+        push(t.constantFactor(formatNode(constant)), combine('$0 * $1', [constant, differentiate(factor)]));
+        ruleSteps(factor, steps);
+        return;
+      }
+      push(t.productRule(formatNode(u), formatNode(v)), combine('$0 * $1 + $2 * $3', [differentiate(u), v, u, differentiate(v)]));
+      ruleSteps(u, steps);
+      ruleSteps(v, steps);
+      return;
+    case 'divide':
+      if (!dependsOnVariable(v)) {
+        push(t.constantFactor(`1/${wrap(formatNode(v), !isAtom(v))}`), combine('$0 / $1', [differentiate(u), v]));
+        ruleSteps(u, steps);
+        return;
+      }
+      push(
+        t.quotientRule(formatNode(u), formatNode(v)),
+        combine('($0 * $1 - $2 * $3) / $1^2', [differentiate(u), v, u, differentiate(v)])
+      );
+      ruleSteps(u, steps);
+      ruleSteps(v, steps);
+      return;
+    case 'pow':
+      if (!dependsOnVariable(v)) {
+        const exponent = simplifyExact(parse(`(${v.toString()}) - 1`));
+        if (isSymbolNode(u)) {
+          push(t.powerRule, formatNode(differentiate(node)));
+          return;
+        }
+        push(t.powerChainRule(formatNode(u)), combine('$0 * $1^$2 * $3', [v, u, exponent, differentiate(u)]));
+        ruleSteps(u, steps);
+        return;
+      }
+      if (isSymbolNode(u) && u.name === 'e') {
+        push(t.naturalExponential, combine('$0 * e^$1', [differentiate(v), v]));
+        ruleSteps(v, steps);
+        return;
+      }
+      if (!dependsOnVariable(u)) {
+        push(t.exponentialRule(formatNode(u)), combine('log($0) * $1 * $0^$2', [u, differentiate(v), v]));
+        ruleSteps(v, steps);
+        return;
+      }
+      push(t.generalPower, formatNode(differentiate(node)));
+      return;
+    default:
+      return;
+  }
+};
+
+// Dérivée symbolique, avec la règle de dérivation appliquée à chaque sous-expression
+export const differentiateWithSteps = (expression: string): DerivativeResult => {
+  const t = getMessages().calculus;
+  const node = parseFunction(expression);
+  const result = differentiate(node);
+  const formatted = formatNode(node);
+  const steps: Step[] = [step(t.function, `f(x) = ${formatted}`)];
+  if (!dependsOnVariable(node)) {
+    steps.push(step(t.constant, `f'(x) = 0`));
+  } else {
+    ruleSteps(node, steps);
+    steps.push(step(t.simplification, `f'(x) = ${formatNode(result)}`));
+  }
+  return {
+    expression: formatted,
+    derivative: formatNode(result),
+    steps,
+    f: toRealFunction(node),
+    fPrime: toRealFunction(result)
+  };
+};
+
+// Intégrande vérifié : une valeur non finie rend l'intégrale impropre ou indéfinie
+const checkedFunction = (f: RealFunction) => {
+  let evaluations = 0;
+  const evaluate = (x: number): number => {
+    evaluations++;
+    const value = f(x);
+    if (!Number.isFinite(value)) throw new Error(getMessages().calculus.notIntegrable(formatValue(x, 6)));
+    return value;
+  };
+  return { evaluate, count: () => evaluations };
+};
+
+const simpsonSum = (f: RealFunction, a: number, b: number, n: number): number => {
+  const h = (b - a) / n;
+  let sum = f(a) + f(b);
+  for (let i = 1; i < n; i++) sum += (i % 2 === 0 ? 2 : 4) * f(a + i * h);
+  return (sum * h) / 3;
+};
+
+// Simpson composite : n double jusqu'à ce que deux estimations successives concordent
+const compositeSimpson = (f: RealFunction, a: number, b: number, steps: Step[]) => {
+  const t = getMessages().calculus;
+  let n = 2;
+  let previous = simpsonSum(f, a, b, n);
+  for (let level = 2; level <= MAX_SIMPSON_LEVEL; level++) {
+    n *= 2;
+    const current = simpsonSum(f, a, b, n);
+    // Estimation de Richardson : l'erreur de S(2n) vaut environ (S(2n) - S(n))/15
+    const error = Math.abs(current - previous) / 15;
+    steps.push(step(t.subintervals(n), `S ≈ ${formatValue(current, 12)}`));
+    if (error <= INTEGRATION_TOLERANCE * Math.max(1, Math.abs(current))) return { value: current, error };
+    previous = current;
+  }
+  throw new Error(t.noConvergence);
+};
+
+// Simpson adaptatif : chaque moitié est raffinée séparément, là où la fonction varie le plus
+const adaptiveSimpson = (f: RealFunction, a: number, b: number, steps: Step[]) => {
+  const t = getMessages().calculus;
+  let intervals = 0;
+  let error = 0;
+  let evaluations = 3;
+  const simpson = (fa: number, fm: number, fb: number, width: number) => (width / 6) * (fa + 4 * fm + fb);
+  const refine = (
+    a: number, b: number, fa: number, fm: number, fb: number, whole: number, tolerance: number, depth: number
+  ): number => {
+    evaluations += 2;
+    if (evaluations > MAX_ADAPTIVE_EVALUATIONS) throw new Error(t.noConvergence);
+    const m = (a + b) / 2;
+    const lm = (a + m) / 2;
+    const rm = (m + b) / 2;
+    const flm = f(lm);
+    const frm = f(rm);
+    const left = simpson(fa, flm, fm, m - a);
+    const right = simpson(fm, frm, fb, b - m);
+    const delta = left + right - whole;
+    if (Math.abs(delta) <= 15 * tolerance) {
+      intervals += 2;
+      error += Math.abs(delta) / 15;
+      return left + right + delta / 15;
+    }
+    if (depth >= MAX_ADAPTIVE_DEPTH) throw new Error(t.noConvergence);
+    return refine(a, m, fa, flm, fm, left, tolerance / 2, depth + 1) + refine(m, b, fm, frm, fb, right, tolerance / 2, depth + 1);
+  };
+  const fa = f(a);
+  const fb = f(b);
+  const fm = f((a + b) / 2);
+  const whole = simpson(fa, fm, fb, b - a);
+  // Tolérance relative à l'ordre de grandeur de l'intégrale, comme pour le Simpson composite
+  const value = refine(a, b, fa, fm, fb, whole, INTEGRATION_TOLERANCE * Math.max(1, Math.abs(whole)), 0);
+  steps.push(step(t.adaptiveIntervals(intervals)));
+  return { value, error };
+};
+
+// Intégrale définie de a à b, approchée par la méthode de Simpson
+export const integrateWithSteps = (expression: string, a: number, b: number, method: IntegrationMethod): IntegralResult => {
+  const t = getMessages().calculus;
+  if (!Number.isFinite(a) || !Number.isFinite(b)) throw new Error(t.invalidBounds);
+  const node = parseFunction(expression);
+  const integral = `∫[${formatValue(a)} ; ${formatValue(b)}] ${wrap(formatNode(node), isSum(node))} dx`;
+  const steps: Step[] = [step(t.function, `f(x) = ${formatNode(node)}`), step(t.method(t.integrationMethods[method]))];
+  if (a === b) {
+    const result = `${integral} = 0`;
+    steps.push(step(t.emptyInterval, result));
+    return { value: 0, error: 0, evaluations: 0, result, steps };
+  }
+  const { evaluate, count } = checkedFunction(toRealFunction(node));
+  const { value, error } = method === 'simpson'
+    ? compositeSimpson(evaluate, a, b, steps)
+    : adaptiveSimpson(evaluate, a, b, steps);
+  const result = `${integral} ≈ ${formatValue(value)}`;
+  steps.push(step(t.integralResult(count(), formatValue(error, 2)), result));
+  return { value, error, evaluations: count(), result, steps };
+};
+
+// Point de calcul d'une limite : un nombre, ou ±∞ (∞, inf, +inf, -infini…)
+export const parseLimitPoint = (text: string): number | null => {
+  const match = text.trim().replace(/\s+/g, '').match(/^([+-]?)(∞|inf|infini|infinity)$/i);
+  if (match) return match[1] === '-' ? -Infinity : Infinity;
+  return parseLocaleNumber(text);
+};
+
+const formatPoint = (point: number) => (point === Infinity ? '+∞' : point === -Infinity ? '-∞' : formatValue(point));
+
+interface SideLimit {
+  kind: LimitKind;
+  value: number;
+}
+
+const finiteLimit = (estimate: number): SideLimit => {
+  const rounded = Number(estimate.toPrecision(6));
+  return { kind: 'finite', value: Math.abs(rounded) < LIMIT_TOLERANCE ? 0 : rounded };
+};
+
+// Lit la tendance des valeurs f(x_k) : stabilisation, croissance sans borne ou comportement erratique
+const classify = (values: number[]): SideLimit => {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length < 3) return { kind: 'none', value: NaN };
+  const differences = finite.slice(1).map((value, i) => Math.abs(value - finite[i]));
+  // La cancellation numérique finit par dégrader les derniers termes : on garde le palier le plus stable
+  const best = differences.reduce((min, d, i) => (d < differences[min] ? i : min), 0);
+  const estimate = finite[best + 1];
+  if (differences[best] <= LIMIT_TOLERANCE * Math.max(1, Math.abs(estimate))) return finiteLimit(estimate);
+  const tail = finite.slice(-4);
+  const tailDifferences = differences.slice(-3);
+  // Écarts en décroissance géométrique (x·ln(x) en 0⁺) : la suite converge lentement,
+  // sa limite est extrapolée par le procédé Δ² d'Aitken sur les trois derniers termes
+  const geometric = tail.length === 4 &&
+    tailDifferences.every((d, i) => d > 0 && (i === 0 || d <= GEOMETRIC_RATIO * tailDifferences[i - 1]));
+  if (geometric) {
+    const [, x0, x1, x2] = tail;
+    const second = x2 - 2 * x1 + x0;
+    return finiteLimit(second === 0 ? x2 : x2 - (x2 - x1) ** 2 / second);
+  }
+  const sameSign = tail.every(value => value > 0) || tail.every(value => value < 0);
+  const growing = tail.every((value, i) => i === 0 || Math.abs(value) > Math.abs(tail[i - 1]));
+  const notSlowing = tailDifferences.every((d, i) => i === 0 || d >= 0.9 * tailDifferences[i - 1]);
+  if (sameSign && growing && notSlowing) return { kind: tail[0] > 0 ? 'plusInfinity' : 'minusInfinity', value: NaN };
+  return { kind: 'none', value: NaN };
+};
+
+const sameLimit = (left: SideLimit, right: SideLimit): boolean =>
+  left.kind === right.kind &&
+  (left.kind !== 'finite' || Math.abs(left.value - right.value) <= LIMIT_TOLERANCE * Math.max(1, Math.abs(left.value)));
+
+const describe = ({ kind, value }: SideLimit): string =>
+  kind === 'finite' ? formatValue(value) : kind === 'plusInfinity' ? '+∞' : kind === 'minusInfinity' ? '-∞' : '?';
+
+// Limite estimée numériquement à partir de valeurs de f de plus en plus proches du point
+export const limitWithSteps = (expression: string, point: number, side: LimitSide): LimitResult => {
+  const t = getMessages().calculus;
+  if (Number.isNaN(point)) throw new Error(t.invalidPoint);
+  const node = parseFunction(expression);
+  const f = toRealFunction(node);
+  const steps: Step[] = [step(t.function, `f(x) = ${formatNode(node)}`)];
+
+  const approach = (direction: 1 | -1): SideLimit => {
+    steps.push(step(Number.isFinite(point) ? t.approach[direction === 1 ? 'right' : 'left'] : t.approachInfinity(formatPoint(point))));
+    const values = Array.from({ length: LIMIT_SAMPLES }, (_, i) => {
+      const k = i + 1;
+      const x = Number.isFinite(point) ? point + direction * 10 ** -k * Math.max(1, Math.abs(point)) : Math.sign(point) * 10 ** k;
+      const y = f(x);
+      steps.push(step('', `f(${formatValue(x)}) ${Number.isFinite(y) ? `≈ ${formatValue(y)}` : `: ${t.undefinedValue}`}`));
+      return y;
+    });
+    return classify(values);
+  };
+
+  let limit: SideLimit;
+  let failure = t.noLimitReason;
+  if (!Number.isFinite(point)) {
+    limit = approach(point > 0 ? 1 : -1);
+  } else if (side !== 'both') {
+    limit = approach(side === 'right' ? 1 : -1);
+  } else {
+    const left = approach(-1);
+    const right = approach(1);
+    limit = sameLimit(left, right) ? right : { kind: 'none', value: NaN };
+    if (!sameLimit(left, right) && left.kind !== 'none' && right.kind !== 'none') {
+      failure = t.sidesDiffer(describe(left), describe(right));
+    }
+  }
+
+  const where = `x → ${formatPoint(point)}${Number.isFinite(point) && side !== 'both' ? (side === 'right' ? '⁺' : '⁻') : ''}`;
+  const result = limit.kind === 'none' ? t.noLimit : `lim(${where}) f(x) ${limit.kind === 'finite' ? '≈' : '='} ${describe(limit)}`;
+  steps.push(step(limit.kind === 'none' ? failure : result));
+  return { kind: limit.kind, value: limit.value, result, steps };
+};
@@ -0,0 +1,173 @@
+import { CODE_EMPTY, CODE_OTHER, ColumnType, countDuplicates, detectHeader, hashRows, parseNumber, toRows } from './dataset';
+import { getMessages } from '../i18n';
+import { ColumnSummary, PERCENTILES, summarize } from './statistics';
+import { P2Estimator, createP2, pushP2 } from './streamingStats';
+
+// Part minimale de cellules numériques pour qu'une colonne soit considérée comme numérique
+const NUMERIC_THRESHOLD = 0.9;
+
+// Nombre maximal de modalités distinctes conservées par colonne
+const MAX_CATEGORIES = 1000;
+
+export const PREVIEW_ROWS = 10;
+
+interface ColumnAccumulator {
+  // Valeurs numériques ligne par ligne, NaN pour une cellule vide ou non numérique
+  values: Float64Array;
+  // Indice de la modalité de chaque ligne dans categories (CODE_EMPTY, CODE_OTHER sinon)
+  codes: Int32Array;
+  filled: number;
+  numeric: number;
+  categories: string[];
+  indices: Map<string, number>;
+  counts: number[];
+  estimators: P2Estimator[];
+}
+
+export interface CsvAccumulator {
+  // null tant que l'en-tête n'a pas été détecté sur le premier lot de lignes
+  hasHeader: boolean | null;
+  header: string[];
+  columns: ColumnAccumulator[];
+  rowCount: number;
+  preview: string[][];
+}
+
+export interface ParsedColumn {
+  name: string;
+  type: ColumnType;
+  values: Float64Array;
+  codes: Int32Array;
+  categories: string[];
+  frequencies: [string, number][];
+  summary: ColumnSummary | null;
+  missing: number;
+  invalid: number;
+}
+
+export interface ParsedCsv {
+  columns: ParsedColumn[];
+  rowCount: number;
+  hasHeader: boolean;
+  preview: string[][];
+  duplicates: number;
+  rowHashes: Float64Array;
+}
+
+export const createAccumulator = (hasHeader: boolean | null = null): CsvAccumulator => ({
+  hasHeader,
+  header: [],
+  columns: [],
+  rowCount: 0,
+  preview: []
+});
+
+const createColumn = (rows: number): ColumnAccumulator => ({
+  values: new Float64Array(Math.max(1024, rows * 2)).fill(NaN),
+  codes: new Int32Array(Math.max(1024, rows * 2)).fill(CODE_EMPTY),
+  filled: 0,
+  numeric: 0,
+  categories: [],
+  indices: new Map(),
+  counts: [],
+  estimators: PERCENTILES.map(p => createP2(p / 100))
+});
+
+// Double la capacité du tampon quand il est plein
+const ensureCapacity = (column: ColumnAccumulator, size: number) => {
+  if (size <= column.values.length) return;
+  const capacity = Math.max(size, column.values.length * 2);
+  const values = new Float64Array(capacity).fill(NaN);
+  values.set(column.values);
+  column.values = values;
+  const codes = new Int32Array(capacity).fill(CODE_EMPTY);
+  codes.set(column.codes);
+  column.codes = codes;
+};
+
+const pushCell = (column: ColumnAccumulator, row: number, cell: string) => {
+  const trimmed = cell.trim();
+  if (trimmed === '') return;
+  column.filled++;
+  let code = column.indices.get(trimmed);
+  if (code === undefined && column.categories.length < MAX_CATEGORIES) {
+    code = column.categories.push(trimmed) - 1;
+    column.indices.set(trimmed, code);
+    column.counts.push(0);
+  }
+  if (code === undefined) {
+    column.codes[row] = CODE_OTHER;
+  } else {
+    column.codes[row] = code;
+    column.counts[code]++;
+  }
+  const value = parseNumber(trimmed);
+  if (value === null) return;
+  column.numeric++;
+  column.values[row] = value;
+  column.estimators.forEach(estimator => pushP2(estimator, value));
+};
+
+export const pushRows = (accumulator: CsvAccumulator, data: unknown[][]): void => {
+  let rows = toRows(data);
+  if (rows.length === 0) return;
+  if (accumulator.hasHeader === null) {
+    accumulator.hasHeader = detectHeader(rows);
+  }
+  if (accumulator.hasHeader && accumulator.header.length === 0 && accumulator.rowCount === 0) {
+    accumulator.header = rows[0];
+    rows = rows.slice(1);
+  }
+
+  rows.forEach(row => {
+    const index = accumulator.rowCount++;
+    if (accumulator.preview.length < PREVIEW_ROWS) accumulator.preview.push(row);
+    while (accumulator.columns.length < row.length) accumulator.columns.push(createColumn(index));
+    accumulator.columns.forEach((column, i) => {
+      ensureCapacity(column, index + 1);
+      pushCell(column, index, row[i] ?? '');
+    });
+  });
+};
+
+export const finalize = (accumulator: CsvAccumulator): ParsedCsv => {
+  const { rowCount } = accumulator;
+  const columns = accumulator.columns.map((column, i): ParsedColumn => {
+    const type: ColumnType = column.filled > 0 && column.numeric / column.filled >= NUMERIC_THRESHOLD
+      ? 'numeric'
+      : 'categorical';
+    const values = column.values.slice(0, rowCount);
+    return {
+      name: accumulator.header[i]?.trim() || getMessages().csv.column(i + 1),
+      type,
+      values,
+      codes: column.codes.slice(0, rowCount),
+      categories: column.categories,
+      frequencies: column.categories
+        .map((category, code): [string, number] => [category, column.counts[code]])
+        .sort(([, a], [, b]) => b - a),
+      summary: type === 'numeric' && column.numeric > 0
+        ? summarize(values.filter(v => !Number.isNaN(v)), column.estimators)
+        : null,
+      // Les lignes plus courtes que l'en-tête comptent comme cellules vides
+      missing: rowCount - column.filled,
+      invalid: type === 'numeric' ? column.filled - column.numeric : 0
+    };
+  });
+  const rowHashes = hashRows(columns, rowCount);
+  return {
+    columns,
+    rowCount,
+    hasHeader: accumulator.hasHeader ?? false,
+    preview: accumulator.preview,
+    duplicates: countDuplicates(rowHashes),
+    rowHashes
+  };
+};
+
+// Lecture en une fois de lignes déjà en mémoire
+export const parseRows = (rows: unknown[][], hasHeader: boolean | null = null): ParsedCsv => {
+  const accumulator = createAccumulator(hasHeader);
+  pushRows(accumulator, rows);
+  return finalize(accumulator);
+};
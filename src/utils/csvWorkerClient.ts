@@ -0,0 +1,59 @@
+import type { ParsedCsv } from './csvAccumulator';
+import { Locale, getLocale, getMessages } from '../i18n';
+
+export interface ParseProgress {
+  loaded: number;
+  total: number;
+  rows: number;
+}
+
+export interface ParseRequest {
+  file: File;
+  // null : en-tête détecté automatiquement
+  hasHeader: boolean | null;
+  // Le worker ne partage pas l'état du fil principal : la langue lui est transmise
+  locale: Locale;
+}
+
+export type ParseMessage =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'done'; result: ParsedCsv }
+  | { type: 'error'; message: string };
+
+export interface ParseJob {
+  promise: Promise<ParsedCsv>;
+  cancel: () => void;
+}
+
+// Lit et résume un fichier CSV hors du fil principal ; cancel() interrompt le worker
+export const parseCsvInWorker = (
+  file: File,
+  hasHeader: boolean | null,
+  onProgress: (progress: ParseProgress) => void
+): ParseJob => {
+  const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
+  let fail: (error: Error) => void = () => {};
+
+  const promise = new Promise<ParsedCsv>((resolve, reject) => {
+    fail = (error) => {
+      worker.terminate();
+      reject(error);
+    };
+    worker.onmessage = (event: MessageEvent<ParseMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message);
+      } else if (message.type === 'done') {
+        worker.terminate();
+        resolve(message.result);
+      } else {
+        fail(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => fail(new Error(event.message || getMessages().csv.readFailed));
+    const request: ParseRequest = { file, hasHeader, locale: getLocale() };
+    worker.postMessage(request);
+  });
+
+  return { promise, cancel: () => fail(new Error(getMessages().csv.cancelled)) };
+};
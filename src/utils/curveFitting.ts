@@ -0,0 +1,285 @@
+import { plainDecimal, toFraction } from './fraction';
+import { approximateRoots } from './polynomial';
+import { linearRegression } from './regression';
+import type { SolveRequest } from './rootFinding';
+import { Locale, decimalSeparator, getLocale, getMessages } from '../i18n';
+
+export type FitModel = 'linear' | 'exponential' | 'logarithmic' | 'power' | 'polynomial';
+
+export const FIT_MODELS: FitModel[] = ['linear', 'exponential', 'logarithmic', 'power', 'polynomial'];
+
+export const MAX_DEGREE = 6;
+
+export interface FitParameter {
+  name: string;
+  value: number;
+}
+
+export interface CurveFit {
+  model: FitModel;
+  parameters: FitParameter[];
+  predict: (x: number) => number;
+  // Second membre de y = f(x), lisible par le résolveur et par le traceur
+  expression: string;
+  rSquared: number;
+  // Pénalise les paramètres supplémentaires : sert au classement des modèles
+  adjustedRSquared: number;
+  rmse: number;
+}
+
+export interface FitFailure {
+  model: FitModel;
+  reason: string;
+}
+
+export interface FitComparison {
+  // Du meilleur au moins bon R² ajusté
+  fits: CurveFit[];
+  failures: FitFailure[];
+}
+
+// Séparateur décimal de la langue active, sans exposant que le résolveur ne lirait pas ;
+// les zéros superflus disparaissent
+const formatParameter = (value: number, locale: Locale, digits: number): string =>
+  plainDecimal(Number(value.toPrecision(digits))).replace('.', decimalSeparator(locale));
+
+// Somme de monômes « coefficient·facteur » avec les signes regroupés : 2x - 3 plutôt que 2x + -3
+const joinTerms = (terms: [number, string][], locale: Locale, digits: number): string =>
+  terms
+    .filter(([coefficient]) => coefficient !== 0)
+    .map(([coefficient, factor], i) => {
+      const magnitude = Math.abs(coefficient);
+      const body = factor && magnitude === 1 ? factor.replace(/^·/, '') : `${formatParameter(magnitude, locale, digits)}${factor}`;
+      if (i === 0) return coefficient < 0 ? `-${body}` : body;
+      return `${coefficient < 0 ? '-' : '+'} ${body}`;
+    })
+    .join(' ') || '0';
+
+// Élimination de Gauss avec pivot partiel ; null si le système est singulier
+const solveLinear = (matrix: number[][], vector: number[]): number[] | null => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+};
+
+const binomial = (n: number, k: number): number => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+};
+
+// Moindres carrés sur t = (x - m) / s pour limiter le mauvais conditionnement, puis retour aux puissances de x
+const fitPolynomial = (x: number[], y: number[], degree: number): number[] | null => {
+  const n = x.length;
+  const m = x.reduce((sum, v) => sum + v, 0) / n;
+  const s = Math.sqrt(x.reduce((sum, v) => sum + (v - m) ** 2, 0) / n) || 1;
+  const t = x.map(v => (v - m) / s);
+  const size = degree + 1;
+  const normal = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => t.reduce((sum, ti) => sum + ti ** (i + j), 0)));
+  const rhs = Array.from({ length: size }, (_, i) => t.reduce((sum, ti, k) => sum + ti ** i * y[k], 0));
+  const scaled = solveLinear(normal, rhs);
+  if (!scaled) return null;
+  // Un coefficient négligeable devant les autres est un résidu d'arrondi : amplifié par le retour aux
+  // puissances de x, il donnerait des termes parasites (données exactement affines, par exemple)
+  const largest = scaled.reduce((max, c) => Math.max(max, Math.abs(c)), 0);
+  // Σ ck ((x - m)/s)^k = Σ ck s^-k Σj C(k, j) x^j (-m)^(k-j)
+  const coefficients = new Array<number>(size).fill(0);
+  scaled.forEach((c, k) => {
+    if (Math.abs(c) < largest * 1e-9) return;
+    for (let j = 0; j <= k; j++) coefficients[j] += (c / s ** k) * binomial(k, j) * (-m) ** (k - j);
+  });
+  return coefficients;
+};
+
+const quality = (x: number[], y: number[], predict: (x: number) => number, predictors: number) => {
+  const n = y.length;
+  const my = y.reduce((sum, v) => sum + v, 0) / n;
+  let sse = 0;
+  let sst = 0;
+  y.forEach((yi, i) => {
+    sse += (yi - predict(x[i])) ** 2;
+    sst += (yi - my) ** 2;
+  });
+  const rSquared = sst === 0 ? 1 : 1 - sse / sst;
+  return {
+    rSquared,
+    adjustedRSquared: 1 - ((1 - rSquared) * (n - 1)) / (n - predictors - 1),
+    rmse: Math.sqrt(sse / n)
+  };
+};
+
+type Fitted = Omit<CurveFit, 'expression' | 'rSquared' | 'adjustedRSquared' | 'rmse'>;
+
+// Second membre de y = f(x) ; les coefficients du polynôme sont donnés du plus haut degré au terme constant
+const formatExpression = ({ model, parameters }: Fitted, locale: Locale, digits: number): string => {
+  const values = parameters.map(parameter => parameter.value);
+  const [a, b] = values;
+  const format = (value: number) => formatParameter(value, locale, digits);
+  switch (model) {
+    case 'linear': return joinTerms([[a, 'x'], [b, '']], locale, digits);
+    case 'exponential': return `${format(a)}·e^(${format(b)}x)`;
+    case 'logarithmic': return joinTerms([[a, ''], [b, '·ln(x)']], locale, digits);
+    case 'power': return `${format(a)}·x^(${format(b)})`;
+    case 'polynomial': {
+      const degree = values.length - 1;
+      return joinTerms(values.map((c, i): [number, string] => {
+        const k = degree - i;
+        return [c, k === 0 ? '' : k === 1 ? 'x' : `x^${k}`];
+      }), locale, digits);
+    }
+  }
+};
+
+// Les modèles exponentiel, logarithmique et puissance sont linéarisés par passage au logarithme
+const fitModel = (model: FitModel, x: number[], y: number[], degree: number, locale: Locale): Fitted | string => {
+  const t = getMessages(locale).curveFitting;
+  const positiveX = x.every(v => v > 0);
+  const positiveY = y.every(v => v > 0);
+  switch (model) {
+    case 'linear': {
+      const regression = linearRegression(x, y);
+      if (!regression) return t.singular;
+      const { slope: a, intercept: b } = regression;
+      return {
+        model,
+        parameters: [{ name: 'a', value: a }, { name: 'b', value: b }],
+        predict: v => a * v + b
+      };
+    }
+    case 'exponential': {
+      if (!positiveY) return t.requiresPositiveY;
+      const regression = linearRegression(x, y.map(Math.log));
+      if (!regression) return t.singular;
+      const a = Math.exp(regression.intercept);
+      const b = regression.slope;
+      return {
+        model,
+        parameters: [{ name: 'a', value: a }, { name: 'b', value: b }],
+        predict: v => a * Math.exp(b * v)
+      };
+    }
+    case 'logarithmic': {
+      if (!positiveX) return t.requiresPositiveX;
+      const regression = linearRegression(x.map(Math.log), y);
+      if (!regression) return t.singular;
+      const { intercept: a, slope: b } = regression;
+      return {
+        model,
+        parameters: [{ name: 'a', value: a }, { name: 'b', value: b }],
+        predict: v => a + b * Math.log(v)
+      };
+    }
+    case 'power': {
+      if (!positiveX || !positiveY) return t.requiresPositive;
+      const regression = linearRegression(x.map(Math.log), y.map(Math.log));
+      if (!regression) return t.singular;
+      const a = Math.exp(regression.intercept);
+      const b = regression.slope;
+      return {
+        model,
+        parameters: [{ name: 'a', value: a }, { name: 'b', value: b }],
+        predict: v => a * v ** b
+      };
+    }
+    case 'polynomial': {
+      const coefficients = fitPolynomial(x, y, degree);
+      if (!coefficients) return t.singular;
+      return {
+        model,
+        parameters: coefficients.map((value, k) => ({ name: `c${k}`, value })).reverse(),
+        predict: v => coefficients.reduceRight((sum, c) => sum * v + c, 0)
+      };
+    }
+  }
+};
+
+// Ajuste chaque modèle aux paires (x, y) et les classe par R² ajusté décroissant ; les équations et
+// les motifs d'échec sont rédigés dans la langue indiquée
+export const fitCurves = (x: number[], y: number[], degree: number, locale: Locale = getLocale()): FitComparison => {
+  const t = getMessages(locale).curveFitting;
+  const fits: CurveFit[] = [];
+  const failures: FitFailure[] = [];
+  FIT_MODELS.forEach(model => {
+    const predictors = model === 'polynomial' ? degree : 1;
+    // Le R² ajusté exige plus de points que de paramètres
+    if (x.length <= predictors + 1) {
+      failures.push({ model, reason: t.notEnoughPoints(predictors + 2) });
+      return;
+    }
+    const fitted = fitModel(model, x, y, degree, locale);
+    if (typeof fitted === 'string') {
+      failures.push({ model, reason: fitted });
+      return;
+    }
+    fits.push({ ...fitted, expression: formatExpression(fitted, locale, 6), ...quality(x, y, fitted.predict, predictors) });
+  });
+  fits.sort((a, b) => b.adjustedRSquared - a.adjustedRSquared);
+  return { fits, failures };
+};
+
+// Antécédents de la cible : exacts pour les modèles monotones linéarisés, racines réelles approchées
+// de f(x) - cible pour un polynôme ; vide s'il n'en existe pas
+const preimages = (fit: CurveFit, target: number): number[] => {
+  const values = fit.parameters.map(parameter => parameter.value);
+  const [a, b] = values;
+  let candidates: number[];
+  switch (fit.model) {
+    case 'linear': candidates = [(target - b) / a]; break;
+    case 'exponential': candidates = [Math.log(target / a) / b]; break;
+    case 'logarithmic': candidates = [Math.exp((target - a) / b)]; break;
+    case 'power': candidates = [(target / a) ** (1 / b)]; break;
+    case 'polynomial': {
+      const coefficients = [...values].reverse();
+      coefficients[0] -= target;
+      candidates = approximateRoots(coefficients).filter(root => root.im === 0).map(root => root.re);
+      break;
+    }
+  }
+  return candidates.filter(Number.isFinite);
+};
+
+// Nombre lisible en fraction exacte par le résolveur d'équations
+const isExact = (value: number): boolean => {
+  try {
+    toFraction(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Équation f(x) = cible, avec des coefficients en pleine précision : arrondis, ils fausseraient la
+// solution loin de l'origine. Seul le modèle linéaire garde une résolution exacte, tant que ses
+// coefficients tiennent en fractions ; les autres sont résolus numériquement sur un intervalle couvrant
+// les données et les antécédents attendus, même hors de l'étendue observée
+export const fitSolveRequest = (fit: CurveFit, target: number, x: number[]): SolveRequest => {
+  const equation = `${formatExpression(fit, getLocale(), 15)} = ${plainDecimal(target).replace('.', decimalSeparator())}`;
+  const written = fit.parameters.map(parameter => Number(parameter.value.toPrecision(15)));
+  if (fit.model === 'linear' && [...written, target].every(isExact)) {
+    return { mode: 'equation', equation };
+  }
+  const bounds = [...x, ...preimages(fit, target)];
+  const min = bounds.reduce((low, v) => Math.min(low, v), Infinity);
+  const max = bounds.reduce((high, v) => Math.max(high, v), -Infinity);
+  const margin = Math.max(1, (max - min) / 2);
+  return { mode: 'numeric', equation, interval: { xMin: Math.floor(min - margin), xMax: Math.ceil(max + margin) } };
+};
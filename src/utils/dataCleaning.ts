@@ -0,0 +1,163 @@
+import { PREVIEW_ROWS } from './csvAccumulator';
+import { CODE_EMPTY, Column, Dataset, cellText, countDuplicates, rebuildColumn, rowHash } from './dataset';
+import { sortAscending, quantile } from './distribution';
+import { Estimator, Z_SCORE_THRESHOLD, statsFromSummary } from './statistics';
+import { formatNumber, getMessages, parseLocaleNumber } from '../i18n';
+
+export type ImputeStrategy = 'mean' | 'median';
+
+export type OutlierMethod = 'iqr' | 'zScore';
+
+export type FilterOperator = '<' | '≤' | '>' | '≥' | '=' | '≠';
+
+export const FILTER_OPERATORS: FilterOperator[] = ['<', '≤', '>', '≥', '=', '≠'];
+
+// column à null : l'action porte sur toutes les colonnes (numériques pour l'imputation)
+export type CleaningAction =
+  | { type: 'dropMissing'; column: number | null }
+  | { type: 'impute'; column: number | null; strategy: ImputeStrategy }
+  | { type: 'trimOutliers'; column: number; method: OutlierMethod; estimator: Estimator }
+  | { type: 'filter'; column: number; operator: FilterOperator; value: string };
+
+export interface CleaningResult {
+  dataset: Dataset;
+  // Résumé de l'opération, repris dans la liste des modifications annulables
+  description: string;
+}
+
+const isEmpty = (column: Column, row: number) =>
+  column.type === 'numeric' ? column.values[row] === null : column.codes[row] === CODE_EMPTY;
+
+const compare = (a: number, b: number, operator: FilterOperator): boolean => {
+  switch (operator) {
+    case '<': return a < b;
+    case '≤': return a <= b;
+    case '>': return a > b;
+    case '≥': return a >= b;
+    case '=': return a === b;
+    case '≠': return a !== b;
+  }
+};
+
+// Les empreintes sont mises à jour par chaque opération : seules les lignes modifiées sont recalculées
+const withColumns = (dataset: Dataset, columns: Column[], rowHashes: Float64Array): Dataset => ({
+  ...dataset,
+  columns,
+  rowCount: rowHashes.length,
+  preview: Array.from({ length: Math.min(PREVIEW_ROWS, rowHashes.length) }, (_, row) => columns.map(column => cellText(column, row))),
+  duplicates: countDuplicates(rowHashes),
+  rowHashes
+});
+
+// Ne conserve que les lignes retenues ; un jeu de données vide est refusé
+const keepRows = (dataset: Dataset, keep: (row: number) => boolean): { dataset: Dataset; removed: number } => {
+  const rows: number[] = [];
+  for (let row = 0; row < dataset.rowCount; row++) {
+    if (keep(row)) rows.push(row);
+  }
+  if (rows.length === 0) throw new Error(getMessages().cleaning.emptyResult);
+  const columns = dataset.columns.map(column => rebuildColumn(
+    column,
+    rows.map(row => column.values[row]),
+    Int32Array.from(rows, row => column.codes[row])
+  ));
+  const rowHashes = Float64Array.from(rows, row => dataset.rowHashes[row]);
+  return { dataset: withColumns(dataset, columns, rowHashes), removed: dataset.rowCount - rows.length };
+};
+
+const dropMissing = (dataset: Dataset, target: number | null): CleaningResult => {
+  const t = getMessages().cleaning;
+  const columns = target === null ? dataset.columns : [dataset.columns[target]];
+  const { dataset: cleaned, removed } = keepRows(dataset, row => columns.every(column => !isEmpty(column, row)));
+  return {
+    dataset: cleaned,
+    description: t.droppedMissing(target === null ? t.allColumns : dataset.columns[target].name, removed)
+  };
+};
+
+// Remplace les valeurs absentes ou non numériques par la moyenne ou la médiane de la colonne
+const impute = (dataset: Dataset, target: number | null, strategy: ImputeStrategy): CleaningResult => {
+  const t = getMessages().cleaning;
+  let filled = 0;
+  const changed = new Set<number>();
+  const columns = dataset.columns.map((column, i) => {
+    if (column.type !== 'numeric' || !column.summary || (target !== null && i !== target)) return column;
+    const stats = statsFromSummary(column.summary, 'sample');
+    const replacement = strategy === 'mean' ? stats.mean : stats.median;
+    const values = column.values.map((value, row) => {
+      if (value !== null) return value;
+      filled++;
+      changed.add(row);
+      return replacement;
+    });
+    return rebuildColumn(column, values, column.codes);
+  });
+  const rowHashes = dataset.rowHashes.slice();
+  changed.forEach(row => {
+    rowHashes[row] = rowHash(columns, row);
+  });
+  return {
+    dataset: withColumns(dataset, columns, rowHashes),
+    description: t.imputed(t.strategies[strategy], target === null ? t.allColumns : dataset.columns[target].name, filled)
+  };
+};
+
+// Retire les lignes dont la valeur dépasse les barrières de Tukey ou le seuil du score z
+const trimOutliers = (dataset: Dataset, target: number, method: OutlierMethod, estimator: Estimator): CleaningResult => {
+  const t = getMessages().cleaning;
+  const column = dataset.columns[target];
+  if (!column.summary) throw new Error(t.noValues(column.name));
+  const stats = statsFromSummary(column.summary, estimator);
+  let isOutlier: (value: number) => boolean;
+  if (method === 'iqr') {
+    // Quartiles exacts, même lorsque le résumé affiché provient d'estimations P²
+    const sorted = sortAscending(column.values.filter((v): v is number => v !== null));
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    isOutlier = value => value < q1 - 1.5 * iqr || value > q3 + 1.5 * iqr;
+  } else {
+    isOutlier = value =>
+      stats.standardDeviation > 0 && Math.abs(value - stats.mean) / stats.standardDeviation > Z_SCORE_THRESHOLD;
+  }
+  const { dataset: cleaned, removed } = keepRows(dataset, row => {
+    const value = column.values[row];
+    return value === null || !isOutlier(value);
+  });
+  return { dataset: cleaned, description: t.trimmed(t.methods[method], column.name, removed) };
+};
+
+// Colonne numérique : comparaison de valeurs ; colonne catégorielle : égalité de modalité
+const filterRows = (dataset: Dataset, target: number, operator: FilterOperator, text: string): CleaningResult => {
+  const t = getMessages().cleaning;
+  const column = dataset.columns[target];
+  let keep: (row: number) => boolean;
+  let shown = text.trim();
+  if (column.type === 'numeric') {
+    const threshold = parseLocaleNumber(text);
+    if (threshold === null) throw new Error(t.invalidValue(text));
+    shown = formatNumber(threshold);
+    keep = row => {
+      const value = column.values[row];
+      return value !== null && compare(value, threshold, operator);
+    };
+  } else {
+    if (operator !== '=' && operator !== '≠') throw new Error(t.categoricalOperator);
+    const code = column.categories.indexOf(shown);
+    keep = row => {
+      const matches = code !== -1 && column.codes[row] === code;
+      return operator === '=' ? matches : !matches;
+    };
+  }
+  const { dataset: cleaned, removed } = keepRows(dataset, keep);
+  return { dataset: cleaned, description: t.filtered(`${column.name} ${operator} ${shown}`, removed) };
+};
+
+export const applyCleaning = (dataset: Dataset, action: CleaningAction): CleaningResult => {
+  switch (action.type) {
+    case 'dropMissing': return dropMissing(dataset, action.column);
+    case 'impute': return impute(dataset, action.column, action.strategy);
+    case 'trimOutliers': return trimOutliers(dataset, action.column, action.method, action.estimator);
+    case 'filter': return filterRows(dataset, action.column, action.operator, action.value);
+  }
+};
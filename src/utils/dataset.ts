@@ -0,0 +1,204 @@
+import Papa from 'papaparse';
+import type { ParsedCsv } from './csvAccumulator';
+import { decimalSeparator, parseLocaleNumber } from '../i18n';
+import { ColumnSummary, summarize } from './statistics';
+
+export type ColumnType = 'numeric' | 'categorical';
+
+// Codes réservés : cellule vide, modalité au-delà du nombre maximal conservé
+export const CODE_EMPTY = -1;
+export const CODE_OTHER = -2;
+
+export interface Column {
+  name: string;
+  type: ColumnType;
+  // Valeurs numériques (null pour une cellule vide ou non numérique)
+  values: (number | null)[];
+  // Modalité de chaque ligne : indice dans categories, ou l'un des codes réservés
+  codes: Int32Array;
+  categories: string[];
+  // Effectifs des modalités, du plus fréquent au moins fréquent
+  frequencies: [string, number][];
+  // Statistiques calculées pendant la lecture (colonnes numériques uniquement)
+  summary: ColumnSummary | null;
+  // Cellules vides, hors valeurs imputées
+  missing: number;
+  // Cellules non numériques d'une colonne numérique, ignorées par les statistiques
+  invalid: number;
+}
+
+export interface Dataset {
+  columns: Column[];
+  rowCount: number;
+  hasHeader: boolean;
+  // Premières lignes brutes, pour l'aperçu
+  preview: string[][];
+  // Lignes identiques à une ligne précédente
+  duplicates: number;
+  // Empreinte de chaque ligne : le nettoyage recompte les doublons sans relire les cellules
+  rowHashes: Float64Array;
+}
+
+// Cellule numérique selon la langue active (virgule décimale en français)
+export const parseNumber = (cell: string): number | null => parseLocaleNumber(cell);
+
+// Séparateurs candidats, par ordre de préférence : la virgule vient en dernier
+// car elle sert aussi de séparateur décimal dans les fichiers français
+const DELIMITERS = [';', '\t', ','];
+
+// Séparateur présent le même nombre de fois sur chaque ligne de l'échantillon,
+// undefined pour laisser Papa Parse le deviner
+export const detectDelimiter = (sample: string): string | undefined => {
+  const lines = sample.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 20);
+  if (lines.length === 0) return undefined;
+  return DELIMITERS.find(delimiter => {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    return counts[0] > 0 && counts.every(count => count === counts[0]);
+  });
+};
+
+const isNumericCell = (cell: string) => parseNumber(cell) !== null;
+
+export const toRows = (data: unknown[][]): string[][] =>
+  data
+    .map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))))
+    .filter(row => row.some(cell => cell.trim() !== ''));
+
+// La première ligne est un en-tête si aucune de ses cellules n'est numérique
+// alors qu'au moins une colonne contient des nombres dans la suite du fichier
+export const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  if (first.some(isNumericCell)) return false;
+  return first.some((_, column) => rest.some(row => isNumericCell(row[column] ?? '')));
+};
+
+export const numericValues = (column: Column): number[] =>
+  column.values.filter((v): v is number => v !== null);
+
+const countMissing = (column: Pick<Column, 'type' | 'values' | 'codes'>) => {
+  let missing = 0;
+  let invalid = 0;
+  column.codes.forEach((code, row) => {
+    if (column.type === 'numeric' && column.values[row] !== null) return;
+    if (code === CODE_EMPTY) missing++;
+    else if (column.type === 'numeric') invalid++;
+  });
+  return { missing, invalid };
+};
+
+// Empreinte numérique d'une ligne (cyrb53) : un Set de nombres reste léger sur un gros fichier
+const hashRow = (key: string): number => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < key.length; i++) {
+    const c = key.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// Colonne vue ligne par ligne : valeurs du jeu de données (null) ou tampons du worker (NaN)
+type RowSource = Pick<Column, 'type' | 'codes'> & { values: ArrayLike<number | null> };
+
+// Empreinte d'une ligne ; NaN si elle contient une modalité non conservée (CODE_OTHER),
+// une telle ligne n'étant jamais comptée comme doublon
+export const rowHash = (columns: RowSource[], row: number): number => {
+  const cells: string[] = [];
+  for (const column of columns) {
+    const value = column.type === 'numeric' ? column.values[row] : null;
+    if (value !== null && !Number.isNaN(value)) cells.push(`n${value}`);
+    else if (column.codes[row] === CODE_OTHER) return NaN;
+    else cells.push(`c${column.codes[row]}`);
+  }
+  return hashRow(cells.join('\u001f'));
+};
+
+export const hashRows = (columns: RowSource[], rowCount: number): Float64Array =>
+  Float64Array.from({ length: rowCount }, (_, row) => rowHash(columns, row));
+
+// Lignes identiques à une ligne précédente, d'après leurs empreintes
+export const countDuplicates = (hashes: Float64Array): number => {
+  const seen = new Set<number>();
+  let duplicates = 0;
+  hashes.forEach(hash => {
+    if (Number.isNaN(hash)) return;
+    if (seen.has(hash)) duplicates++;
+    else seen.add(hash);
+  });
+  return duplicates;
+};
+
+// Texte d'une cellule reconstitué à partir de la colonne, nombres au format de la langue active
+export const cellText = (column: Column, row: number): string => {
+  const value = column.type === 'numeric' ? column.values[row] : null;
+  if (value !== null) return String(value).replace('.', decimalSeparator());
+  const code = column.codes[row];
+  return code >= 0 ? column.categories[code] : '';
+};
+
+// Jeu de données complet sous forme de lignes de texte, en-tête compris, pour la grille de saisie
+export const toGridRows = (dataset: Dataset): string[][] => [
+  dataset.columns.map(column => column.name),
+  ...Array.from({ length: dataset.rowCount }, (_, row) => dataset.columns.map(column => cellText(column, row)))
+];
+
+export interface Group {
+  name: string;
+  values: number[];
+}
+
+// Valeurs de column réparties selon les modalités de by, dans l'ordre d'apparition ; les lignes
+// sans valeur numérique ou sans modalité conservée sont ignorées
+export const groupValues = (column: Column, by: Column): Group[] => {
+  const groups: Group[] = by.categories.map(name => ({ name, values: [] }));
+  by.codes.forEach((code, row) => {
+    const value = column.values[row];
+    if (code >= 0 && value !== null) groups[code].values.push(value);
+  });
+  return groups.filter(group => group.values.length > 0);
+};
+
+// Cellules copiées depuis un tableur (tabulations) ou un fichier texte ; sans séparateur reconnu,
+// chaque ligne forme une seule cellule
+export const parseClipboard = (text: string): string[][] => {
+  const detected = text.includes('\t') ? '\t' : detectDelimiter(text);
+  // Avec la virgule décimale, « 1,5 » collé seul sur sa ligne est un nombre et non deux cellules
+  const delimiter = detected === undefined || (detected === ',' && decimalSeparator() === ',') ? '\t' : detected;
+  return Papa.parse<string[]>(text.replace(/\r?\n$/, ''), { delimiter }).data;
+};
+
+// Recalcule effectifs, valeurs manquantes et résumé après une modification des lignes
+export const rebuildColumn = (column: Column, values: (number | null)[], codes: Int32Array): Column => {
+  const counts = new Array<number>(column.categories.length).fill(0);
+  codes.forEach(code => {
+    if (code >= 0) counts[code]++;
+  });
+  const rebuilt = { ...column, values, codes };
+  const numbers = numericValues(rebuilt);
+  return {
+    ...rebuilt,
+    frequencies: column.categories
+      .flatMap((category, code): [string, number][] => (counts[code] > 0 ? [[category, counts[code]]] : []))
+      .sort(([, a], [, b]) => b - a),
+    summary: column.type === 'numeric' && numbers.length > 0 ? summarize(numbers) : null,
+    ...countMissing(rebuilt)
+  };
+};
+
+// Convertit le résultat de la lecture (valeurs manquantes codées NaN) en jeu de données ;
+// doublons et cellules manquantes ont déjà été comptés par le worker
+export const toDataset = (parsed: ParsedCsv): Dataset => ({
+  columns: parsed.columns.map(({ values, ...column }): Column => ({
+    ...column,
+    values: Array.from(values, v => (Number.isNaN(v) ? null : v))
+  })),
+  rowCount: parsed.rowCount,
+  hasHeader: parsed.hasHeader,
+  preview: parsed.preview,
+  duplicates: parsed.duplicates,
+  rowHashes: parsed.rowHashes
+});
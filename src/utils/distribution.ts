@@ -0,0 +1,162 @@
+import type { ColumnSummary } from './statistics';
+
+export type BinMethod = 'sturges' | 'freedman-diaconis' | 'manual';
+
+export interface Bin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface BoxPlotStats {
+  q1: number;
+  median: number;
+  q3: number;
+  iqr: number;
+  lowerFence: number;
+  upperFence: number;
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number[];
+}
+
+export interface DensityCurve {
+  x: number[];
+  y: number[];
+  bandwidth: number;
+}
+
+export const sortAscending = (values: number[]): number[] => [...values].sort((a, b) => a - b);
+
+// Quantile par interpolation linéaire entre les rangs (méthode par défaut des tableurs)
+export const quantile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const percentileOf = (summary: ColumnSummary, p: number): number =>
+  summary.percentiles.find(item => item.p === p)?.value ?? NaN;
+
+const standardDeviation = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1));
+};
+
+// Nombre maximal de classes, quelle que soit la méthode
+export const MAX_BINS = 200;
+
+// Règle de Sturges : k = ⌈log2(n)⌉ + 1
+export const sturgesBinCount = (n: number): number => Math.max(1, Math.ceil(Math.log2(n)) + 1);
+
+// Règle de Freedman-Diaconis : largeur h = 2·IQR / ∛n
+// Retombe sur Sturges si l'IQR est dégénéré ou si la règle donne plus de classes que d'observations
+export const freedmanDiaconisBinCount = (n: number, range: number, iqr: number): number => {
+  if (range === 0 || iqr === 0) return sturgesBinCount(n);
+  const count = Math.ceil(range / ((2 * iqr) / Math.cbrt(n)));
+  if (!Number.isFinite(count) || count > n) return sturgesBinCount(n);
+  return Math.max(1, count);
+};
+
+// Le nombre de classes ne dépend que du résumé : aucun tri de la série n'est nécessaire
+const rawBinCount = (summary: ColumnSummary, method: BinMethod, manualCount: number): number => {
+  const { moments } = summary;
+  switch (method) {
+    case 'sturges':
+      return sturgesBinCount(moments.count);
+    case 'freedman-diaconis':
+      return freedmanDiaconisBinCount(moments.count, moments.max - moments.min, percentileOf(summary, 75) - percentileOf(summary, 25));
+    case 'manual':
+      return Math.max(1, Math.round(manualCount));
+  }
+};
+
+export const binCount = (summary: ColumnSummary, method: BinMethod, manualCount: number): number =>
+  Math.min(MAX_BINS, rawBinCount(summary, method, manualCount));
+
+// Classes de même largeur entre min et max ; la dernière est fermée à droite pour inclure le maximum
+export const computeBins = (values: number[], min: number, max: number, count: number): Bin[] => {
+  if (values.length === 0) return [];
+  if (min === max) return [{ start: min - 0.5, end: max + 0.5, count: values.length }];
+
+  const width = (max - min) / count;
+  const bins: Bin[] = Array.from({ length: count }, (_, i) => ({
+    start: min + i * width,
+    end: i === count - 1 ? max : min + (i + 1) * width,
+    count: 0
+  }));
+  values.forEach(value => {
+    const index = Math.min(count - 1, Math.floor((value - min) / width));
+    bins[index].count++;
+  });
+  return bins;
+};
+
+// Boîte à moustaches de Tukey : valeurs aberrantes au-delà de 1,5 × IQR des quartiles
+export const boxPlotStats = (sorted: number[]): BoxPlotStats => {
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+  const inside = sorted.filter(v => v >= lowerFence && v <= upperFence);
+  return {
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    iqr,
+    lowerFence,
+    upperFence,
+    lowerWhisker: inside[0] ?? q1,
+    upperWhisker: inside[inside.length - 1] ?? q3,
+    outliers: sorted.filter(v => v < lowerFence || v > upperFence)
+  };
+};
+
+// Boîte à moustaches tirée du résumé de la colonne : mêmes quartiles (exacts ou P²) que les statistiques affichées
+export const boxPlotFromSummary = (summary: ColumnSummary): BoxPlotStats => {
+  const q1 = percentileOf(summary, 25);
+  const q3 = percentileOf(summary, 75);
+  const iqr = q3 - q1;
+  return {
+    q1,
+    median: percentileOf(summary, 50),
+    q3,
+    iqr,
+    lowerFence: q1 - 1.5 * iqr,
+    upperFence: q3 + 1.5 * iqr,
+    lowerWhisker: summary.lowerWhisker,
+    upperWhisker: summary.upperWhisker,
+    outliers: summary.iqrOutliers
+  };
+};
+
+// Nombre maximal d'observations sommées par l'estimateur à noyau
+const MAX_DENSITY_SAMPLE = 5000;
+
+// Sous-échantillon régulier des lignes, trié : seul cet extrait est ordonné, jamais la série complète
+const evenSample = (values: number[], size: number): number[] => {
+  if (values.length <= size) return sortAscending(values);
+  const step = (values.length - 1) / (size - 1);
+  return sortAscending(Array.from({ length: size }, (_, i) => values[Math.round(i * step)]));
+};
+
+// Estimation par noyau gaussien, largeur de bande de Silverman calculée sur le sous-échantillon
+export const kernelDensity = (values: number[], min: number, max: number, points = 200): DensityCurve => {
+  const n = values.length;
+  const sample = evenSample(values, MAX_DENSITY_SAMPLE);
+  const spread = Math.min(standardDeviation(sample), (quantile(sample, 0.75) - quantile(sample, 0.25)) / 1.34);
+  const bandwidth = 0.9 * (spread > 0 ? spread : standardDeviation(sample) || 1) * Math.pow(n, -0.2);
+  const start = min - 3 * bandwidth;
+  const end = max + 3 * bandwidth;
+  const step = (end - start) / (points - 1);
+  const normalization = 1 / (sample.length * bandwidth * Math.sqrt(2 * Math.PI));
+
+  const x = Array.from({ length: points }, (_, i) => start + i * step);
+  const y = x.map(xi => normalization * sample.reduce((sum, v) => sum + Math.exp(-0.5 * ((xi - v) / bandwidth) ** 2), 0));
+  return { x, y, bandwidth };
+};
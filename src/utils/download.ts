@@ -0,0 +1,9 @@
+// Propose au navigateur d'enregistrer un contenu généré sous forme de fichier
+export const downloadFile = (content: string, fileName: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,389 @@
+import {
+  VARIABLE,
+  collectTerms,
+  coefficientOf,
+  degreeOf,
+  formatLinear,
+  formatTerms,
+  negateTerms,
+  normalizeInput,
+  reduceSide,
+} from './expressionParser';
+import {
+  Fraction,
+  abs,
+  add,
+  divide,
+  formatDecimal,
+  formatFraction,
+  isNegative,
+  isOne,
+  isZero,
+  lcm,
+  multiply,
+  negate,
+  paren,
+  ratio,
+  simplifySqrt,
+  subtract,
+  toNumber,
+} from './fraction';
+import {
+  Polynomial,
+  degree,
+  divideByRoot,
+  durandKerner,
+  evaluate,
+  fromTerms,
+  rationalRootCandidates,
+  toIntegerCoefficients,
+  toTerms,
+} from './polynomial';
+import { isInequality, solveInequalityWithSteps } from './inequality';
+import { literalVariables, solveLiteralWithSteps } from './literalEquation';
+import type { SolutionType } from './linearSystem';
+import { Step, step } from './steps';
+import { getMessages } from '../i18n';
+
+export interface Root {
+  value: string;
+  re: number;
+  im: number;
+  multiplicity: number;
+  exact?: Fraction;
+  approximate?: boolean;
+  approximation?: string;
+}
+
+export interface SolveResult {
+  result: string;
+  steps: Step[];
+  roots: Root[];
+  solutionType: SolutionType;
+  // Lettres traitées comme paramètres symboliques : le résultat est une expression, sans racine numérique
+  parameters?: string[];
+}
+
+export interface SolveOptions {
+  // Nombre de décimales de la valeur approchée affichée à côté du résultat exact
+  precision?: number;
+  // Inconnue choisie par l'utilisateur ; par défaut x, ou la seule lettre de l'équation
+  variable?: string;
+}
+
+const formatPolynomial = (p: Polynomial) => formatTerms(toTerms(p));
+
+// Décimales d'une racine approchée par Durand-Kerner lorsqu'aucune précision n'est demandée
+const APPROXIMATION_DIGITS = 6;
+
+// Racine complexe arrondie à precision décimales
+const formatComplex = (re: number, im: number, precision: number): string => {
+  const imaginary = Number(im.toFixed(precision));
+  if (imaginary === 0) return formatDecimal(re, precision);
+  const coefficient = `${Math.abs(imaginary) === 1 ? '' : formatDecimal(Math.abs(im), precision)}i`;
+  if (Number(re.toFixed(precision)) === 0) return imaginary < 0 ? `-${coefficient}` : coefficient;
+  return `${formatDecimal(re, precision)} ${imaginary < 0 ? '-' : '+'} ${coefficient}`;
+};
+
+const rationalRoot = (value: Fraction, multiplicity = 1): Root => ({
+  value: formatFraction(value),
+  re: toNumber(value),
+  im: 0,
+  multiplicity,
+  exact: value
+});
+
+// Racine de la forme (A ± B√m)/D, ou (A ± Bi√m)/D lorsqu'elle est complexe
+const radicalRoot = (rational: Fraction, coefficient: Fraction, radicand: number, sign: 1 | -1, imaginary: boolean): Root => {
+  const denominator = lcm(rational.d, coefficient.d);
+  const a = rational.s * rational.n * (denominator / rational.d);
+  const b = coefficient.n * (denominator / coefficient.d);
+  const radical = `${b === 1 ? '' : b}${imaginary ? 'i' : ''}${radicand === 1 ? '' : `√${radicand}`}`;
+  const numerator = a === 0
+    ? `${sign < 0 ? '-' : ''}${radical}`
+    : `${a} ${sign < 0 ? '-' : '+'} ${radical}`;
+  const value = denominator === 1
+    ? numerator
+    : a === 0 ? `${numerator}/${denominator}` : `(${numerator})/${denominator}`;
+  const offset = sign * toNumber(coefficient) * Math.sqrt(radicand);
+  return {
+    value,
+    re: toNumber(rational) + (imaginary ? 0 : offset),
+    im: imaginary ? offset : 0,
+    multiplicity: 1
+  };
+};
+
+const multiplicityLabel = (multiplicity: number): string => {
+  const t = getMessages().equation;
+  if (multiplicity === 1) return '';
+  if (multiplicity === 2) return t.double;
+  if (multiplicity === 3) return t.triple;
+  return t.multiplicity(multiplicity);
+};
+
+const withApproximation = (root: Root, precision?: number): Root => {
+  if (precision === undefined) return root;
+  // Une racine déjà approchée est simplement arrondie, sans seconde valeur « ≈ »
+  if (root.approximate) return { ...root, value: formatComplex(root.re, root.im, precision) };
+  const re = formatDecimal(root.re, precision);
+  const approximation = root.im === 0
+    ? re
+    : `${re} ${root.im < 0 ? '-' : '+'} ${formatDecimal(Math.abs(root.im), precision)}i`;
+  return approximation === root.value ? root : { ...root, approximation };
+};
+
+const formatRoots = (roots: Root[]): string =>
+  roots
+    .map(root => {
+      const approximation = root.approximation ? ` ≈ ${root.approximation}` : '';
+      return `${VARIABLE} ${root.approximate ? '≈' : '='} ${root.value}${approximation}${multiplicityLabel(root.multiplicity)}`;
+    })
+    .join(' ; ');
+
+const mergeRoots = (roots: Root[]): Root[] => {
+  const merged: Root[] = [];
+  roots.forEach(root => {
+    const existing = merged.find(r => r.value === root.value);
+    if (existing) existing.multiplicity += root.multiplicity;
+    else merged.push({ ...root });
+  });
+  return merged.sort((a, b) => a.re - b.re || a.im - b.im);
+};
+
+const formatFactor = (root: Root): string => {
+  const exact = root.exact!;
+  const base = isZero(exact)
+    ? VARIABLE
+    : `(${VARIABLE} ${isNegative(exact) ? '+' : '-'} ${formatFraction(abs(exact))})`;
+  return root.multiplicity > 1 ? `${base}^${root.multiplicity}` : base;
+};
+
+const solveQuadratic = (p: Polynomial, steps: Step[]): Root[] => {
+  const t = getMessages().equation;
+  const [c, b, a] = p;
+  steps.push(step(t.coefficients, `a = ${formatFraction(a)}, b = ${formatFraction(b)}, c = ${formatFraction(c)}`));
+
+  const twoA = multiply(ratio(2, 1), a);
+  const minusB = negate(b);
+  const delta = subtract(multiply(b, b), multiply(ratio(4, 1), multiply(a, c)));
+  steps.push(step(t.discriminant, `Δ = b² − 4ac = ${paren(b)}² − 4 × ${paren(a)} × ${paren(c)} = ${formatFraction(delta)}`));
+
+  if (isZero(delta)) {
+    const root = rationalRoot(divide(minusB, twoA), 2);
+    steps.push(step(t.doubleRoot, `${VARIABLE}₀ = −b / 2a = ${root.value}`));
+    return [root];
+  }
+
+  // √|Δ| = √(n/d) = √(n·d)/d, que l'on simplifie en (k/d)√m
+  const magnitude = abs(delta);
+  const { outside, inside } = simplifySqrt(magnitude.n * magnitude.d);
+  const sqrtCoefficient = ratio(outside, magnitude.d);
+  const sqrtText = inside === 1
+    ? formatFraction(sqrtCoefficient)
+    : `${isOne(sqrtCoefficient) ? '' : paren(sqrtCoefficient)}√${inside}`;
+  const rational = divide(minusB, twoA);
+  const radicalCoefficient = abs(divide(sqrtCoefficient, twoA));
+  // Signe devant √m pour la branche (−b − √Δ) / 2a : il s'inverse quand 2a < 0
+  const minusBranch: 1 | -1 = isNegative(twoA) ? 1 : -1;
+
+  if (!isNegative(delta)) {
+    steps.push(step(t.twoRealRoots));
+    if (sqrtText !== `√${paren(delta)}`) {
+      steps.push(step('', `√Δ = √${paren(delta)} = ${sqrtText}`));
+    }
+    const roots = inside === 1
+      ? [
+        rationalRoot(divide(subtract(minusB, sqrtCoefficient), twoA)),
+        rationalRoot(divide(add(minusB, sqrtCoefficient), twoA))
+      ]
+      : [
+        radicalRoot(rational, radicalCoefficient, inside, minusBranch, false),
+        radicalRoot(rational, radicalCoefficient, inside, minusBranch === 1 ? -1 : 1, false)
+      ];
+    steps.push(step('', `${VARIABLE}₁ = (−b − √Δ) / 2a = (${formatFraction(minusB)} − ${sqrtText}) / ${paren(twoA)} = ${roots[0].value}`));
+    steps.push(step('', `${VARIABLE}₂ = (−b + √Δ) / 2a = (${formatFraction(minusB)} + ${sqrtText}) / ${paren(twoA)} = ${roots[1].value}`));
+    return roots;
+  }
+
+  steps.push(step(t.complexRoots));
+  if (sqrtText !== `√${paren(magnitude)}`) {
+    steps.push(step('', `√(−Δ) = √${paren(magnitude)} = ${sqrtText}`));
+  }
+  steps.push(step('', `${VARIABLE} = (−b ± i√(−Δ)) / 2a = (${formatFraction(minusB)} ± i·${sqrtText}) / ${paren(twoA)}`));
+  const roots = [
+    radicalRoot(rational, radicalCoefficient, inside, -1, true),
+    radicalRoot(rational, radicalCoefficient, inside, 1, true)
+  ];
+  steps.push(step('', `${VARIABLE}₁ = ${roots[0].value}, ${VARIABLE}₂ = ${roots[1].value}`));
+  return roots;
+};
+
+const solvePolynomial = (p: Polynomial, steps: Step[]): Root[] => {
+  const t = getMessages().equation;
+  const roots: Root[] = [];
+  let current = p;
+
+  // Mise en facteur de x^k lorsque le terme constant est nul
+  let zeroMultiplicity = 0;
+  while (degree(current) > 0 && isZero(current[0])) {
+    current = current.slice(1);
+    zeroMultiplicity++;
+  }
+  if (zeroMultiplicity > 0) {
+    const factor = zeroMultiplicity === 1 ? VARIABLE : `${VARIABLE}^${zeroMultiplicity}`;
+    steps.push(step(t.factorOut(factor), `${factor}(${formatPolynomial(current)}) = 0 → ${VARIABLE} = 0${multiplicityLabel(zeroMultiplicity)}`));
+    roots.push(rationalRoot(ratio(0, 1), zeroMultiplicity));
+  }
+
+  // Racines rationnelles puis division synthétique tant que le degré dépasse 2
+  if (degree(current) > 2) {
+    const integers = toIntegerCoefficients(current);
+    const candidates = rationalRootCandidates(integers);
+    steps.push(step(t.rationalSearch(integers[0], integers[integers.length - 1], candidates.length)));
+
+    for (const candidate of candidates) {
+      if (degree(current) <= 2) break;
+      let multiplicity = 0;
+      while (degree(current) > 0 && isZero(evaluate(current, candidate))) {
+        current = divideByRoot(current, candidate);
+        multiplicity++;
+      }
+      if (multiplicity > 0) {
+        const root = rationalRoot(candidate, multiplicity);
+        steps.push(step(t.rootFound(VARIABLE, root.value, multiplicityLabel(multiplicity), formatFactor(root)), formatPolynomial(current)));
+        roots.push(root);
+      }
+    }
+  }
+
+  const remaining = degree(current);
+  if (remaining === 2) {
+    steps.push(step(t.quadraticFactor, `${formatPolynomial(current)} = 0`));
+    roots.push(...solveQuadratic(current, steps));
+  } else if (remaining === 1) {
+    const root = rationalRoot(divide(negate(current[0]), current[1]));
+    steps.push(step(t.linearFactor, `${formatPolynomial(current)} = 0 → ${VARIABLE} = ${root.value}`));
+    roots.push(root);
+  } else if (remaining > 2) {
+    steps.push(step(t.numericApproximation(formatPolynomial(current))));
+    const approximations = durandKerner(current).map(({ re, im }) => ({
+      value: formatComplex(re, im, APPROXIMATION_DIGITS),
+      re,
+      im,
+      multiplicity: 1,
+      approximate: true
+    }));
+    approximations.forEach(root => steps.push(step('', `${VARIABLE} ≈ ${root.value}`)));
+    roots.push(...approximations);
+  }
+
+  const merged = mergeRoots(roots);
+  if (merged.every(root => root.exact)) {
+    const leading = p[p.length - 1];
+    const prefix = isOne(leading) ? '' : isOne(negate(leading)) ? '-' : paren(leading);
+    steps.push(step(t.factoredForm, `${prefix}${merged.map(formatFactor).join('')} = 0`));
+  }
+  return merged;
+};
+
+export const solveWithSteps = (equation: string, options: SolveOptions = {}): SolveResult => {
+  if (isInequality(equation)) {
+    return solveInequalityWithSteps(equation, options);
+  }
+
+  // D'autres lettres que x : équation littérale, résolue par rapport à l'inconnue choisie
+  const letters = literalVariables(equation);
+  if (letters.some(name => name !== VARIABLE) || (options.variable !== undefined && options.variable !== VARIABLE)) {
+    return solveLiteralWithSteps(equation, options.variable);
+  }
+
+  const t = getMessages().equation;
+  const steps: Step[] = [];
+  const cleanEquation = normalizeInput(equation).replace(/\s+/g, '');
+  steps.push(step(t.initial, equation));
+
+  // Validation
+  if (!cleanEquation.includes('=')) {
+    throw new Error(t.missingEquals);
+  }
+
+  if (!cleanEquation.includes(VARIABLE)) {
+    throw new Error(t.variableRequired(VARIABLE));
+  }
+
+  const sides = cleanEquation.split('=');
+  if (sides.length !== 2 || !sides[0] || !sides[1]) {
+    throw new Error(t.exactlyOneEquals);
+  }
+
+  const [left, right] = sides;
+  steps.push(step(t.splitSides, t.sides(left, right)));
+
+  const { parser } = getMessages();
+  const leftTerms = reduceSide(left, parser.left, steps);
+  const rightTerms = reduceSide(right, parser.right, steps);
+
+  // Degré du polynôme P(x) = gauche − droit
+  const difference = collectTerms([...leftTerms, ...negateTerms(rightTerms)]);
+  const equationDegree = degreeOf(difference);
+  if (equationDegree > 1) {
+    steps.push(step(t.standardForm(VARIABLE), `${formatTerms(difference)} = 0`));
+    steps.push(step(t.degree(equationDegree)));
+    const roots = solvePolynomial(fromTerms(difference), steps)
+      .map(root => withApproximation(root, options.precision));
+    return {
+      result: formatRoots(roots),
+      steps,
+      roots,
+      solutionType: roots.length > 1 ? 'multiple' : 'unique'
+    };
+  }
+
+  // Transposition : termes en x à gauche, constantes à droite
+  const movedLeft = [
+    ...leftTerms.filter(term => term.degree > 0),
+    ...negateTerms(rightTerms.filter(term => term.degree > 0))
+  ];
+  const movedRight = [
+    ...rightTerms.filter(term => term.degree === 0),
+    ...negateTerms(leftTerms.filter(term => term.degree === 0))
+  ];
+  if (rightTerms.some(term => term.degree > 0) || leftTerms.some(term => term.degree === 0)) {
+    steps.push(step(t.transposition, `${formatTerms(movedLeft)} = ${formatTerms(movedRight)}`));
+  }
+
+  const totalA = coefficientOf(collectTerms(movedLeft), 1);
+  const totalB = coefficientOf(collectTerms(movedRight), 0);
+  steps.push(step(t.simplification, `${formatLinear(totalA)} = ${formatFraction(totalB)}`));
+
+  // Résolution
+  if (isZero(totalA)) {
+    if (isZero(totalB)) {
+      steps.push(step(t.infiniteSolutions));
+      return {
+        result: t.resultInfinite,
+        steps,
+        roots: [],
+        solutionType: 'infinite'
+      };
+    }
+    steps.push(step(t.noSolution(formatFraction(totalB))));
+    return {
+      result: t.resultNone,
+      steps,
+      roots: [],
+      solutionType: 'none'
+    };
+  }
+
+  const solution = withApproximation(rationalRoot(divide(totalB, totalA)), options.precision);
+  steps.push(step(t.solution, `${VARIABLE} = ${paren(totalB)} / ${paren(totalA)} = ${solution.value}`));
+
+  return {
+    result: formatRoots([solution]),
+    steps,
+    roots: [solution],
+    solutionType: 'unique'
+  };
+};
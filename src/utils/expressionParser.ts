@@ -0,0 +1,203 @@
+import {
+  parse,
+  MathNode,
+  isConstantNode,
+  isSymbolNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isFunctionNode,
+} from 'mathjs';
+import {
+  Fraction,
+  ONE,
+  ZERO,
+  abs,
+  add,
+  divide,
+  formatFraction,
+  isInteger,
+  isNegative,
+  isOne,
+  isZero,
+  multiply,
+  negate,
+  toFraction,
+  toNumber,
+} from './fraction';
+import { Step, step } from './steps';
+import { decimalSeparator, getMessages } from '../i18n';
+
+export const VARIABLE = 'x';
+
+// Au-delà, le développement de la puissance bloque la page et les racines calculées ne sont plus fiables
+export const MAX_EXPONENT = 30;
+
+export interface Term {
+  coefficient: Fraction;
+  degree: number;
+}
+
+export interface ParsedSide {
+  expanded: Term[];
+  collected: Term[];
+}
+
+// Remplace les symboles typographiques (−, ×, ÷) par leurs équivalents ASCII,
+// et la virgule décimale (1,5) par un point lorsque la langue active l'utilise
+export const normalizeInput = (input: string): string => {
+  const ascii = input.replace(/[−–]/g, '-').replace(/[×·]/g, '*').replace(/÷/g, '/');
+  return decimalSeparator() === ',' ? ascii.replace(/(\d),(?=\d)/g, '$1.') : ascii;
+};
+
+// Arrondit le bruit flottant des approximations numériques pour l'affichage
+export const cleanNumber = (value: number): number => Number(value.toPrecision(12));
+
+export const negateTerms = (terms: Term[]): Term[] =>
+  terms.map(t => ({ ...t, coefficient: negate(t.coefficient) }));
+
+const multiplyTerms = (left: Term[], right: Term[]): Term[] =>
+  left.flatMap(l => right.map(r => ({
+    coefficient: multiply(l.coefficient, r.coefficient),
+    degree: l.degree + r.degree
+  })));
+
+export const collectTerms = (terms: Term[]): Term[] => {
+  const byDegree = new Map<number, Fraction>();
+  terms.forEach(({ coefficient, degree }) => {
+    byDegree.set(degree, add(byDegree.get(degree) ?? ZERO, coefficient));
+  });
+  return Array.from(byDegree.entries())
+    .filter(([, coefficient]) => !isZero(coefficient))
+    .sort(([a], [b]) => b - a)
+    .map(([degree, coefficient]) => ({ coefficient, degree }));
+};
+
+const toConstant = (terms: Term[], context: string): Fraction => {
+  const collected = collectTerms(terms);
+  if (collected.some(t => t.degree !== 0)) {
+    throw new Error(getMessages().parser.mustNotContain(context, VARIABLE));
+  }
+  return collected[0]?.coefficient ?? ZERO;
+};
+
+const toTerms = (node: MathNode): Term[] => {
+  if (isConstantNode(node)) {
+    const value = Number(node.value);
+    if (isNaN(value)) throw new Error(getMessages().parser.nonNumeric(String(node.value)));
+    return [{ coefficient: toFraction(value), degree: 0 }];
+  }
+
+  if (isSymbolNode(node)) {
+    if (node.name !== VARIABLE) {
+      throw new Error(getMessages().parser.unknownSymbol(node.name, VARIABLE));
+    }
+    return [{ coefficient: ONE, degree: 1 }];
+  }
+
+  if (isParenthesisNode(node)) {
+    return toTerms(node.content);
+  }
+
+  // mathjs lit "x(x + 1)" comme un appel de fonction : on le traite comme un produit
+  if (isFunctionNode(node) && isSymbolNode(node.fn) && node.fn.name === VARIABLE && node.args.length === 1) {
+    return multiplyTerms([{ coefficient: ONE, degree: 1 }], toTerms(node.args[0]));
+  }
+
+  if (isOperatorNode(node)) {
+    const args = node.args.map(toTerms);
+
+    if (args.length === 1) {
+      if (node.op === '-') return negateTerms(args[0]);
+      if (node.op === '+') return args[0];
+    }
+
+    if (args.length === 2) {
+      const [left, right] = args;
+      switch (node.op) {
+        case '+':
+          return [...left, ...right];
+        case '-':
+          return [...left, ...negateTerms(right)];
+        case '*':
+          return multiplyTerms(left, right);
+        case '/': {
+          const divisor = toConstant(right, getMessages().parser.divisor);
+          if (isZero(divisor)) throw new Error(getMessages().parser.divisionByZero);
+          return left.map(t => ({ ...t, coefficient: divide(t.coefficient, divisor) }));
+        }
+        case '^': {
+          const exponent = toConstant(right, getMessages().parser.exponent);
+          if (!isInteger(exponent) || isNegative(exponent)) {
+            throw new Error(getMessages().parser.positiveExponent(formatFraction(exponent)));
+          }
+          if (toNumber(exponent) > MAX_EXPONENT) {
+            throw new Error(getMessages().parser.exponentTooLarge(formatFraction(exponent), MAX_EXPONENT));
+          }
+          let power: Term[] = [{ coefficient: ONE, degree: 0 }];
+          for (let i = 0; i < toNumber(exponent); i++) {
+            power = collectTerms(multiplyTerms(power, left));
+          }
+          return power;
+        }
+      }
+    }
+  }
+
+  throw new Error(getMessages().parser.unsupportedExpression(node.toString()));
+};
+
+export const parseSide = (side: string): ParsedSide => {
+  let node: MathNode;
+  try {
+    node = parse(side);
+  } catch {
+    throw new Error(getMessages().parser.invalidExpression(side));
+  }
+  const expanded = toTerms(node);
+  return { expanded, collected: collectTerms(expanded) };
+};
+
+export const degreeOf = (terms: Term[]): number =>
+  collectTerms(terms).reduce((max, t) => Math.max(max, t.degree), 0);
+
+export const coefficientOf = (terms: Term[], degree: number): Fraction =>
+  collectTerms(terms).find(t => t.degree === degree)?.coefficient ?? ZERO;
+
+const formatMonomial = (coefficient: Fraction, degree: number): string => {
+  const text = formatFraction(coefficient);
+  if (degree === 0) return text;
+  const variable = degree === 1 ? VARIABLE : `${VARIABLE}^${degree}`;
+  if (isOne(coefficient)) return variable;
+  return isInteger(coefficient) ? `${text}${variable}` : `(${text})${variable}`;
+};
+
+export const formatTerms = (terms: Term[]): string => {
+  if (terms.length === 0) return '0';
+  return terms
+    .map(({ coefficient, degree }, i) => {
+      const monomial = formatMonomial(abs(coefficient), degree);
+      if (i === 0) return isNegative(coefficient) ? `-${monomial}` : monomial;
+      return isNegative(coefficient) ? ` - ${monomial}` : ` + ${monomial}`;
+    })
+    .join('');
+};
+
+// Écrit « ax » sans faire apparaître de terme 0x
+export const formatLinear = (a: Fraction): string =>
+  isZero(a) ? '0' : formatTerms([{ coefficient: a, degree: 1 }]);
+
+const sameExpression = (a: string, b: string) => a.replace(/\s+/g, '') === b.replace(/\s+/g, '');
+
+// Développe puis regroupe un membre en consignant chaque réécriture dans les étapes
+export const reduceSide = (side: string, sideName: string, steps: Step[]): Term[] => {
+  const { expanded, collected } = parseSide(side);
+  const expandedText = formatTerms(expanded);
+  if (!sameExpression(expandedText, side)) {
+    steps.push(step(getMessages().parser.expansion(sideName), expandedText));
+  }
+  const collectedText = formatTerms(collected);
+  if (!sameExpression(collectedText, expandedText)) {
+    steps.push(step(getMessages().parser.grouping(sideName), collectedText));
+  }
+  return collected;
+};
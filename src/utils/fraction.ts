@@ -0,0 +1,97 @@
+import {
+  fraction,
+  add as addMath,
+  subtract as subtractMath,
+  multiply as multiplyMath,
+  divide as divideMath,
+  unaryMinus,
+  Fraction,
+} from 'mathjs';
+import { decimalSeparator, getMessages } from '../i18n';
+
+export type { Fraction };
+
+// Écriture décimale sans exposant : String(1e-7) donne « 1e-7 », que fraction() refuse
+export const plainDecimal = (value: number): string => {
+  const text = String(value);
+  if (!/e/i.test(text)) return text;
+  const [mantissa, exponent] = text.split(/e/i);
+  const sign = mantissa.startsWith('-') ? '-' : '';
+  const [whole, decimals = ''] = mantissa.replace('-', '').split('.');
+  const digits = whole + decimals;
+  const point = whole.length + Number(exponent);
+  if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  if (point >= digits.length) return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+};
+
+export const toFraction = (value: number | string): Fraction => {
+  const { parser } = getMessages();
+  // Passe par l'écriture décimale pour que 0.1 donne exactement 1/10
+  const text = typeof value === 'string' ? value : plainDecimal(value);
+  let result: Fraction;
+  try {
+    result = fraction(text) as Fraction;
+  } catch {
+    throw new Error(parser.nonNumeric(text));
+  }
+  // Les fractions sont calculées en nombres flottants : au-delà de 2^53, elles ne seraient plus exactes
+  if (!Number.isSafeInteger(result.n) || !Number.isSafeInteger(result.d)) {
+    throw new Error(parser.unrepresentable(text));
+  }
+  return result;
+};
+
+export const ratio = (numerator: number, denominator: number): Fraction =>
+  fraction(numerator, denominator);
+
+export const ZERO = ratio(0, 1);
+export const ONE = ratio(1, 1);
+
+export const add = (a: Fraction, b: Fraction): Fraction => addMath(a, b) as Fraction;
+export const subtract = (a: Fraction, b: Fraction): Fraction => subtractMath(a, b) as Fraction;
+export const multiply = (a: Fraction, b: Fraction): Fraction => multiplyMath(a, b) as Fraction;
+export const divide = (a: Fraction, b: Fraction): Fraction => divideMath(a, b) as Fraction;
+export const negate = (a: Fraction): Fraction => unaryMinus(a);
+
+export const isZero = (a: Fraction): boolean => a.n === 0;
+export const isOne = (a: Fraction): boolean => a.n === 1 && a.d === 1 && a.s > 0;
+export const isInteger = (a: Fraction): boolean => a.d === 1;
+export const isNegative = (a: Fraction): boolean => a.s < 0 && a.n !== 0;
+export const abs = (a: Fraction): Fraction => (isNegative(a) ? negate(a) : a);
+
+export const compare = (a: Fraction, b: Fraction): number => {
+  const difference = subtract(a, b);
+  if (isZero(difference)) return 0;
+  return isNegative(difference) ? -1 : 1;
+};
+
+export const toNumber = (a: Fraction): number => (a.s * a.n) / a.d;
+
+export const formatFraction = (a: Fraction): string =>
+  `${isNegative(a) ? '-' : ''}${a.n}${a.d === 1 ? '' : `/${a.d}`}`;
+
+// Met entre parenthèses les valeurs négatives ou fractionnaires dans un calcul
+export const paren = (value: Fraction) =>
+  isNegative(value) || !isInteger(value) ? `(${formatFraction(value)})` : formatFraction(value);
+
+// Valeur approchée affichée avec le séparateur décimal de la langue active
+export const formatDecimal = (value: number, precision: number): string =>
+  `${Number(value.toFixed(precision))}`.replace('.', decimalSeparator());
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+export const lcm = (a: number, b: number): number => Math.abs(a * b) / gcd(a, b);
+
+// Écrit √n sous la forme k√m avec m sans facteur carré
+export const simplifySqrt = (n: number): { outside: number; inside: number } => {
+  let outside = 1;
+  let inside = n;
+  for (let factor = 2; factor * factor <= inside; factor++) {
+    while (inside % (factor * factor) === 0) {
+      inside /= factor * factor;
+      outside *= factor;
+    }
+  }
+  return { outside, inside };
+};
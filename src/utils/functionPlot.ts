@@ -0,0 +1,100 @@
+import { compile, EvalFunction } from 'mathjs';
+import { VARIABLE, normalizeInput } from './expressionParser';
+import { isInequality } from './inequality';
+import { getMessages } from '../i18n';
+
+export interface PlotRange {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+// Demande de tracé transmise par le résolveur à l'onglet Visualisation
+export interface PlotRequest {
+  functions: string[];
+  intersections: number[];
+  title: string;
+}
+
+export interface Curve {
+  x: number[];
+  y: (number | null)[];
+}
+
+export type RealFunction = (x: number) => number;
+
+export const DEFAULT_RANGE: PlotRange = { xMin: -10, xMax: 10, yMin: -10, yMax: 10 };
+
+const SAMPLES = 800;
+
+// mathjs lit "x(x + 1)" comme un appel de fonction : on insère le produit explicitement ;
+// ln n'existe pas dans mathjs, où log désigne le logarithme népérien
+export const toMathjsSyntax = (expression: string) =>
+  expression
+    .replace(new RegExp(`\\b${VARIABLE}\\s*\\(`, 'g'), `${VARIABLE}*(`)
+    .replace(/\bln\s*\(/g, 'log(');
+
+export const compileFunction = (expression: string): RealFunction => {
+  let compiled: EvalFunction;
+  try {
+    compiled = compile(toMathjsSyntax(normalizeInput(expression)));
+  } catch {
+    throw new Error(getMessages().parser.invalidExpression(expression));
+  }
+  const evaluate = (x: number): number => {
+    const value = compiled.evaluate({ [VARIABLE]: x });
+    return typeof value === 'number' ? value : NaN;
+  };
+  // Vérifie dès la compilation que l'expression ne dépend que de x
+  try {
+    evaluate(0.5);
+  } catch (err) {
+    const t = getMessages().visualization;
+    throw new Error(t.notEvaluable(expression, err instanceof Error ? err.message : t.unknownError));
+  }
+  return (x: number) => {
+    try {
+      return evaluate(x);
+    } catch {
+      return NaN;
+    }
+  };
+};
+
+// Échantillonne f sur [xMin ; xMax] en coupant le tracé aux discontinuités (1/x, tan x...)
+export const sampleFunction = (f: RealFunction, xMin: number, xMax: number, yRange: number): Curve => {
+  const x: number[] = [];
+  const y: (number | null)[] = [];
+  const step = (xMax - xMin) / SAMPLES;
+  let previous: number | null = null;
+  for (let i = 0; i <= SAMPLES; i++) {
+    const xi = xMin + i * step;
+    const value = f(xi);
+    const finite = Number.isFinite(value) ? value : null;
+    if (finite !== null && previous !== null && Math.abs(finite - previous) > 10 * yRange) {
+      x.push(xi - step / 2);
+      y.push(null);
+    }
+    x.push(xi);
+    y.push(finite);
+    previous = finite;
+  }
+  return { x, y };
+};
+
+// Sépare une équation ou une inéquation en ses deux membres
+export const splitSides = (equation: string): string[] => {
+  const normalized = normalizeInput(equation).replace(/<=|>=/g, '<');
+  const separator = isInequality(normalized) ? /[<>≤≥]/ : /=/;
+  return normalized.split(separator).map(side => side.trim()).filter(Boolean);
+};
+
+// Fenêtre centrée sur les points d'intersection, avec une marge
+export const rangeAround = (points: number[]): PlotRange => {
+  if (points.length === 0) return DEFAULT_RANGE;
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const margin = Math.max(5, (max - min) / 2);
+  return { ...DEFAULT_RANGE, xMin: Math.floor(min - margin), xMax: Math.ceil(max + margin) };
+};
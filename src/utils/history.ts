@@ -0,0 +1,198 @@
+import Papa from 'papaparse';
+import type { SolutionType } from './linearSystem';
+import { Step, parseStep, step, stepToLatex, stepToMarkdown, stepToText } from './steps';
+import { toLatex } from './latex';
+import { detectDelimiter } from './dataset';
+import { csvDelimiter, getMessages } from '../i18n';
+
+export type SolverMode = 'equation' | 'system' | 'numeric' | 'practice';
+
+// Les calculs de l'onglet Matrices partagent le format des entrées, dans leur propre historique
+export type HistoryMode = SolverMode | 'matrix';
+
+export interface HistoryEntry {
+  id: string;
+  mode: HistoryMode;
+  // Saisie d'origine, rechargée telle quelle dans le champ
+  input: string;
+  equation: string;
+  result: string;
+  steps: Step[];
+  solutionType: SolutionType;
+  pinned: boolean;
+  timestamp: Date;
+}
+
+export type HistoryPeriod = 'all' | 'today' | 'week' | 'month';
+
+export interface HistoryFilter {
+  query: string;
+  solutionType: SolutionType | 'all';
+  period: HistoryPeriod;
+}
+
+export const SOLUTION_TYPES: SolutionType[] = ['unique', 'multiple', 'none', 'infinite'];
+
+export const PERIODS: HistoryPeriod[] = ['all', 'today', 'week', 'month'];
+
+export const SOLVER_MODES: SolverMode[] = ['equation', 'system', 'numeric', 'practice'];
+
+const STORAGE_KEY = 'equation-history';
+
+export const MATRIX_HISTORY_KEY = 'matrix-history';
+
+const CSV_FIELDS = ['id', 'mode', 'input', 'equation', 'result', 'steps', 'solutionType', 'pinned', 'timestamp'] as const;
+
+export const createEntryId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Les anciennes entrées stockaient chaque étape sous forme de texte
+const reviveStep = (raw: unknown): Step => {
+  if (typeof raw === 'object' && raw !== null && typeof (raw as Step).text === 'string') {
+    const { text, math } = raw as Step;
+    return step(text, typeof math === 'string' ? math : undefined);
+  }
+  return parseStep(String(raw));
+};
+
+const isSolutionType = (value: unknown): value is SolutionType =>
+  typeof value === 'string' && (SOLUTION_TYPES as string[]).includes(value);
+
+export const isSolverMode = (value: unknown): value is SolverMode =>
+  typeof value === 'string' && (SOLVER_MODES as string[]).includes(value);
+
+const isHistoryMode = (value: unknown): value is HistoryMode => value === 'matrix' || isSolverMode(value);
+
+// Reconstruit une entrée lue depuis le stockage ou un fichier ; null si elle est invalide
+const reviveEntry = (raw: unknown): HistoryEntry | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const item = raw as Record<string, unknown>;
+  const timestamp = new Date(String(item.timestamp));
+  if (typeof item.equation !== 'string' || typeof item.result !== 'string' || Number.isNaN(timestamp.getTime())) {
+    return null;
+  }
+  return {
+    id: typeof item.id === 'string' && item.id ? item.id : createEntryId(),
+    mode: isHistoryMode(item.mode) ? item.mode : 'equation',
+    input: typeof item.input === 'string' ? item.input : item.equation,
+    equation: item.equation,
+    result: item.result,
+    steps: Array.isArray(item.steps) ? item.steps.map(reviveStep) : [],
+    solutionType: isSolutionType(item.solutionType) ? item.solutionType : 'unique',
+    pinned: item.pinned === true || item.pinned === 'true',
+    timestamp
+  };
+};
+
+const reviveAll = (items: unknown[]): HistoryEntry[] =>
+  items.map(reviveEntry).filter((entry): entry is HistoryEntry => entry !== null);
+
+export const loadHistory = (key = STORAGE_KEY): HistoryEntry[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? reviveAll(parsed) : [];
+  } catch {
+    return [];
+  }
+};
+
+// JSON.stringify convertit les dates en chaînes ISO, relues par reviveEntry
+export const saveHistory = (entries: HistoryEntry[], key = STORAGE_KEY): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(entries));
+  } catch (err) {
+    console.error(getMessages().history.saveFailed, err);
+  }
+};
+
+const startOfPeriod = (period: HistoryPeriod, now: Date): number => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const day = 24 * 60 * 60 * 1000;
+  switch (period) {
+    case 'all': return -Infinity;
+    case 'today': return today;
+    case 'week': return today - 6 * day;
+    case 'month': return today - 29 * day;
+  }
+};
+
+// Entrées épinglées d'abord, puis de la plus récente à la plus ancienne
+export const filterHistory = (entries: HistoryEntry[], filter: HistoryFilter, now = new Date()): HistoryEntry[] => {
+  const query = filter.query.trim().toLowerCase();
+  const since = startOfPeriod(filter.period, now);
+  return entries
+    .filter(entry => filter.solutionType === 'all' || entry.solutionType === filter.solutionType)
+    .filter(entry => entry.timestamp.getTime() >= since)
+    .filter(entry => !query || `${entry.equation}\n${entry.result}`.toLowerCase().includes(query))
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+// Fusionne un import avec l'historique existant ; une entrée déjà présente (même id) n'est pas dupliquée
+export const mergeHistory = (existing: HistoryEntry[], imported: HistoryEntry[]): HistoryEntry[] => {
+  const ids = new Set(existing.map(entry => entry.id));
+  return [...existing, ...imported.filter(entry => !ids.has(entry.id))]
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+export const historyToJson = (entries: HistoryEntry[]): string => JSON.stringify(entries, null, 2);
+
+// Une ligne par entrée ; les étapes sont séparées par des retours à la ligne dans leur cellule
+export const historyToCsv = (entries: HistoryEntry[]): string =>
+  Papa.unparse({
+    fields: [...CSV_FIELDS],
+    data: entries.map(entry => [
+      entry.id,
+      entry.mode,
+      entry.input,
+      entry.equation,
+      entry.result,
+      entry.steps.map(stepToText).join('\n'),
+      entry.solutionType,
+      String(entry.pinned),
+      entry.timestamp.toISOString()
+    ])
+  }, { delimiter: csvDelimiter() });
+
+export const parseHistoryFile = (text: string, fileName: string): HistoryEntry[] => {
+  const t = getMessages().history;
+  let items: unknown[];
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    // Seule la ligne d'en-tête est sûre : les cellules d'étapes contiennent des retours à la ligne
+    const delimiter = detectDelimiter(text.split('\n', 1)[0]);
+    const { data } = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true, delimiter });
+    items = data.map(row => ({ ...row, steps: row.steps ? row.steps.split('\n') : [] }));
+  } else {
+    const parsed: unknown = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error(t.jsonListRequired);
+    items = parsed;
+  }
+  const entries = reviveAll(items);
+  if (entries.length === 0) throw new Error(t.noValidEntries);
+  return entries;
+};
+
+const entryTitle = (entry: HistoryEntry): string => {
+  const t = getMessages().history;
+  return t.heading(entry.mode === 'system' ? t.system : entry.mode === 'matrix' ? t.matrix : t.equation);
+};
+
+// Fragment LaTeX prêt à coller dans un document de cours
+export const entryToLatex = (entry: HistoryEntry): string =>
+  [
+    `\\textbf{${entryTitle(entry)}} $${toLatex(entry.equation)}$`,
+    '\\begin{enumerate}',
+    ...entry.steps.map(item => `  \\item ${stepToLatex(item)}`),
+    '\\end{enumerate}',
+    `\\textbf{${getMessages().history.heading(getMessages().history.solution)}} $${toLatex(entry.result)}$`
+  ].join('\n');
+
+export const entryToMarkdown = (entry: HistoryEntry): string =>
+  [
+    `### ${entryTitle(entry)} $${toLatex(entry.equation)}$`,
+    '',
+    ...entry.steps.map((item, i) => `${i + 1}. ${stepToMarkdown(item)}`),
+    '',
+    `**${getMessages().history.heading(getMessages().history.solution)}** $${toLatex(entry.result)}$`,
+    ''
+  ].join('\n');
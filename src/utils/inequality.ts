@@ -0,0 +1,278 @@
+import {
+  VARIABLE,
+  Term,
+  collectTerms,
+  coefficientOf,
+  degreeOf,
+  formatLinear,
+  formatTerms,
+  negateTerms,
+  normalizeInput,
+  parseSide,
+  reduceSide,
+} from './expressionParser';
+import {
+  Fraction,
+  ZERO,
+  abs,
+  compare,
+  divide,
+  formatDecimal,
+  formatFraction,
+  isNegative,
+  isOne,
+  isZero,
+  paren,
+  subtract,
+  toNumber,
+} from './fraction';
+import type { SolveOptions, SolveResult } from './equationSolver';
+import type { SolutionType } from './linearSystem';
+import { Step, step } from './steps';
+import { getMessages } from '../i18n';
+
+type Relation = '<' | '≤' | '>' | '≥';
+
+// Borne absente (null) = infini
+interface Interval {
+  empty: boolean;
+  lower: Fraction | null;
+  lowerClosed: boolean;
+  upper: Fraction | null;
+  upperClosed: boolean;
+}
+
+const RELATION_PATTERN = /(≤|≥|<|>)/;
+
+const FLIPPED: Record<Relation, Relation> = { '<': '>', '≤': '≥', '>': '<', '≥': '≤' };
+
+const REAL_LINE: Interval = { empty: false, lower: null, lowerClosed: false, upper: null, upperClosed: false };
+const EMPTY: Interval = { ...REAL_LINE, empty: true };
+
+const normalizeRelations = (input: string) => input.replace(/<=/g, '≤').replace(/>=/g, '≥');
+
+export const isInequality = (input: string): boolean => RELATION_PATTERN.test(normalizeRelations(input));
+
+const isIncreasing = (relation: Relation) => relation === '<' || relation === '≤';
+
+const holds = (left: Fraction, relation: Relation, right: Fraction): boolean => {
+  const order = compare(left, right);
+  switch (relation) {
+    case '<': return order < 0;
+    case '≤': return order <= 0;
+    case '>': return order > 0;
+    case '≥': return order >= 0;
+  }
+};
+
+// Intervalle des x vérifiant « x relation borne »
+const halfLine = (relation: Relation, bound: Fraction): Interval => {
+  const closed = relation === '≤' || relation === '≥';
+  return isIncreasing(relation)
+    ? { ...REAL_LINE, upper: bound, upperClosed: closed }
+    : { ...REAL_LINE, lower: bound, lowerClosed: closed };
+};
+
+// ∅ → aucune, ℝ → tout réel (comme 0 = 0), point isolé → unique, autre intervalle → multiple
+const solutionTypeOf = (interval: Interval): SolutionType => {
+  if (interval.empty) return 'none';
+  const { lower, upper } = interval;
+  if (lower === null && upper === null) return 'infinite';
+  return lower !== null && upper !== null && compare(lower, upper) === 0 ? 'unique' : 'multiple';
+};
+
+const intersect = (a: Interval, b: Interval): Interval => {
+  if (a.empty || b.empty) return EMPTY;
+  const result: Interval = { ...a };
+  if (b.lower !== null) {
+    const order = a.lower === null ? -1 : compare(a.lower, b.lower);
+    if (order < 0) {
+      result.lower = b.lower;
+      result.lowerClosed = b.lowerClosed;
+    } else if (order === 0) {
+      result.lowerClosed = a.lowerClosed && b.lowerClosed;
+    }
+  }
+  if (b.upper !== null) {
+    const order = a.upper === null ? 1 : compare(a.upper, b.upper);
+    if (order > 0) {
+      result.upper = b.upper;
+      result.upperClosed = b.upperClosed;
+    } else if (order === 0) {
+      result.upperClosed = a.upperClosed && b.upperClosed;
+    }
+  }
+  if (result.lower !== null && result.upper !== null) {
+    const order = compare(result.lower, result.upper);
+    if (order > 0 || (order === 0 && !(result.lowerClosed && result.upperClosed))) return EMPTY;
+  }
+  return result;
+};
+
+const formatInterval = (interval: Interval, format: (value: Fraction) => string = formatFraction): string => {
+  if (interval.empty) return '∅';
+  const { lower, upper } = interval;
+  if (lower === null && upper === null) return 'ℝ';
+  if (lower !== null && upper !== null && compare(lower, upper) === 0) return `{${format(lower)}}`;
+  const left = lower === null ? ']-∞' : `${interval.lowerClosed ? '[' : ']'}${format(lower)}`;
+  const right = upper === null ? '+∞[' : `${format(upper)}${interval.upperClosed ? ']' : '['}`;
+  return `${left} ; ${right}`;
+};
+
+const describeInterval = (interval: Interval, options: SolveOptions): string => {
+  const t = getMessages().inequality;
+  if (interval.empty) return t.resultNone;
+  if (interval.lower === null && interval.upper === null) return t.resultAll;
+  const exact = formatInterval(interval);
+  if (options.precision === undefined) return `${VARIABLE} ∈ ${exact}`;
+  const precision = options.precision;
+  const approximation = formatInterval(interval, value => formatDecimal(toNumber(value), precision));
+  return `${VARIABLE} ∈ ${exact}${approximation === exact ? '' : ` ≈ ${approximation}`}`;
+};
+
+const constantOf = (terms: Term[]): Fraction => coefficientOf(terms, 0);
+
+const assertLinear = (terms: Term[]) => {
+  if (degreeOf(terms) > 1) {
+    throw new Error(getMessages().inequality.firstDegreeOnly);
+  }
+};
+
+// Résout « gauche relation droit » pour une inéquation simple
+const solveSimple = (left: string, relation: Relation, right: string, steps: Step[], label = ''): Interval => {
+  const { parser, inequality: t } = getMessages();
+  const leftTerms = reduceSide(left, `${parser.left}${label}`, steps);
+  const rightTerms = reduceSide(right, `${parser.right}${label}`, steps);
+  assertLinear(leftTerms);
+  assertLinear(rightTerms);
+
+  const movedLeft = [
+    ...leftTerms.filter(t => t.degree > 0),
+    ...negateTerms(rightTerms.filter(t => t.degree > 0))
+  ];
+  const movedRight = [
+    ...rightTerms.filter(t => t.degree === 0),
+    ...negateTerms(leftTerms.filter(t => t.degree === 0))
+  ];
+  if (rightTerms.some(t => t.degree > 0) || leftTerms.some(t => t.degree === 0)) {
+    steps.push(step(t.transposition(label), `${formatTerms(movedLeft)} ${relation} ${formatTerms(movedRight)}`));
+  }
+
+  const a = coefficientOf(collectTerms(movedLeft), 1);
+  const b = constantOf(collectTerms(movedRight));
+  steps.push(step(t.simplification(label), `${formatLinear(a)} ${relation} ${formatFraction(b)}`));
+
+  if (isZero(a)) {
+    const satisfied = holds(ZERO, relation, b);
+    steps.push(step(t.constant(`0 ${relation} ${formatFraction(b)}`, satisfied)));
+    return satisfied ? REAL_LINE : EMPTY;
+  }
+
+  const bound = divide(b, a);
+  const finalRelation = isNegative(a) ? FLIPPED[relation] : relation;
+  if (!isOne(a)) {
+    steps.push(step(t.division(paren(a), isNegative(a)), `${VARIABLE} ${finalRelation} ${formatFraction(bound)}`));
+  }
+  return halfLine(finalRelation, bound);
+};
+
+// Résout « gauche r1 milieu r2 droit » en opérant sur les trois membres à la fois
+const solveCompound = (parts: string[], relations: [Relation, Relation], steps: Step[]): Interval => {
+  const [left, middle, right] = parts;
+  const [first, second] = relations;
+  const { parser, inequality: t } = getMessages();
+  if (isIncreasing(first) !== isIncreasing(second)) {
+    throw new Error(t.sameDirection);
+  }
+
+  const outer = [left, right].map(side => parseSide(side).collected);
+  if (outer.some(terms => degreeOf(terms) > 0)) {
+    // Membres extérieurs en x : on résout séparément puis on prend l'intersection
+    steps.push(step(t.decomposition, t.both(`${left} ${first} ${middle}`, `${middle} ${second} ${right}`)));
+    const firstInterval = solveSimple(left, first, middle, steps, ' (1)');
+    const secondInterval = solveSimple(middle, second, right, steps, ' (2)');
+    const intersection = intersect(firstInterval, secondInterval);
+    steps.push(step(t.intersection, `${formatInterval(firstInterval)} ∩ ${formatInterval(secondInterval)} = ${formatInterval(intersection)}`));
+    return intersection;
+  }
+
+  const middleTerms = reduceSide(middle, parser.middle, steps);
+  assertLinear(middleTerms);
+  let low = constantOf(outer[0]);
+  let high = constantOf(outer[1]);
+  const a = coefficientOf(middleTerms, 1);
+  const b = constantOf(middleTerms);
+
+  if (!isZero(b)) {
+    low = subtract(low, b);
+    high = subtract(high, b);
+    const action = isNegative(b) ? t.addToAll(formatFraction(abs(b))) : t.subtractFromAll(formatFraction(b));
+    steps.push(step(action, `${formatFraction(low)} ${first} ${formatLinear(a)} ${second} ${formatFraction(high)}`));
+  }
+
+  if (isZero(a)) {
+    const satisfied = holds(low, first, ZERO) && holds(ZERO, second, high);
+    steps.push(step(t.constant(`${formatFraction(low)} ${first} 0 ${second} ${formatFraction(high)}`, satisfied)));
+    return satisfied ? REAL_LINE : EMPTY;
+  }
+
+  let relationLow = first;
+  let relationHigh = second;
+  if (!isOne(a)) {
+    low = divide(low, a);
+    high = divide(high, a);
+    if (isNegative(a)) {
+      relationLow = FLIPPED[first];
+      relationHigh = FLIPPED[second];
+    }
+    steps.push(step(t.divisionAll(paren(a), isNegative(a)), `${formatFraction(low)} ${relationLow} ${VARIABLE} ${relationHigh} ${formatFraction(high)}`));
+  }
+
+  if (!isIncreasing(relationLow)) {
+    // Lecture de droite à gauche pour écrire l'encadrement dans l'ordre croissant
+    [low, high] = [high, low];
+    [relationLow, relationHigh] = [FLIPPED[relationHigh], FLIPPED[relationLow]];
+    steps.push(step(t.increasingOrder, `${formatFraction(low)} ${relationLow} ${VARIABLE} ${relationHigh} ${formatFraction(high)}`));
+  }
+
+  // « low r1 x » équivaut à « x r1' low » avec r1' la relation miroir
+  return intersect(halfLine(FLIPPED[relationLow], low), halfLine(relationHigh, high));
+};
+
+export const solveInequalityWithSteps = (input: string, options: SolveOptions = {}): SolveResult => {
+  const t = getMessages().inequality;
+  const steps: Step[] = [];
+  steps.push(step(t.initial, input));
+
+  const clean = normalizeRelations(normalizeInput(input)).replace(/\s+/g, '');
+  if (clean.includes('=')) {
+    throw new Error(t.noBareEquals);
+  }
+  if (!clean.includes(VARIABLE)) {
+    throw new Error(getMessages().equation.variableRequired(VARIABLE));
+  }
+
+  const tokens = clean.split(RELATION_PATTERN);
+  const parts = tokens.filter((_, i) => i % 2 === 0);
+  const relations = tokens.filter((_, i) => i % 2 === 1) as Relation[];
+  if (parts.some(part => !part) || relations.length > 2) {
+    throw new Error(t.invalidFormat);
+  }
+
+  let interval: Interval;
+  if (relations.length === 1) {
+    steps.push(step(t.splitSides, getMessages().equation.sides(parts[0], parts[1])));
+    interval = solveSimple(parts[0], relations[0], parts[1], steps);
+  } else {
+    steps.push(step(t.compound, `${parts[0]} ${relations[0]} ${parts[1]} ${relations[1]} ${parts[2]}`));
+    interval = solveCompound(parts, [relations[0], relations[1]], steps);
+  }
+
+  steps.push(step(t.solutionSet, formatInterval(interval)));
+  return {
+    result: describeInterval(interval, options),
+    steps,
+    roots: [],
+    solutionType: solutionTypeOf(interval)
+  };
+};
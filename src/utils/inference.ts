@@ -0,0 +1,315 @@
+import { chiSquareCdf, fisherCdf, studentCdf, studentQuantile } from './probability';
+import { pairValues } from './regression';
+import type { Group } from './dataset';
+import { formatNumber, getMessages } from '../i18n';
+
+export interface ConfidenceInterval {
+  level: number;
+  mean: number;
+  standardError: number;
+  df: number;
+  tCritical: number;
+  margin: number;
+  lower: number;
+  upper: number;
+}
+
+export interface TestResult {
+  title: string;
+  hypotheses: string;
+  statisticLabel: string;
+  statistic: number;
+  df: number;
+  pValue: number;
+  formula: string;
+  conclusion: string;
+  warning?: string;
+}
+
+// Table d'analyse de la variance ; df (hérité de TestResult) est le degré de liberté inter-groupes
+export interface AnovaResult extends TestResult {
+  ssBetween: number;
+  ssWithin: number;
+  dfWithin: number;
+  msBetween: number;
+  msWithin: number;
+  etaSquared: number;
+  omegaSquared: number;
+}
+
+export interface KruskalWallisResult extends TestResult {
+  epsilonSquared: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const sampleVariance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+};
+
+const P_FLOOR = 0.0001;
+
+export const formatP = (p: number) => (p < P_FLOOR ? `< ${formatNumber(P_FLOOR)}` : formatNumber(p, 4));
+
+const formatPercent = (value: number) => `${formatNumber(Number((value * 100).toFixed(2)))}%`;
+
+// p-value bilatérale d'une statistique t
+const twoSidedP = (t: number, df: number) => 2 * (1 - studentCdf(Math.abs(t), df));
+
+const requireSize = (values: number[], minimum: number, label: string) => {
+  if (values.length < minimum) {
+    throw new Error(getMessages().inference.atLeast(label, minimum, values.length));
+  }
+};
+
+// Phrase de décision commune à tous les tests
+const decide = (pValue: number, alpha: number, rejected: string, kept: string) => {
+  const t = getMessages().inference;
+  return pValue < alpha
+    ? t.reject(formatPercent(alpha), `${pValue < P_FLOOR ? '' : '= '}${formatP(pValue)}`, formatNumber(alpha), rejected)
+    : t.keep(formatPercent(alpha), `= ${formatP(pValue)}`, formatNumber(alpha), kept);
+};
+
+export const confidenceInterval = (values: number[], level: number): ConfidenceInterval => {
+  requireSize(values, 2, getMessages().inference.intervalLabel);
+  const n = values.length;
+  const m = mean(values);
+  const standardError = Math.sqrt(sampleVariance(values) / n);
+  const df = n - 1;
+  const tCritical = studentQuantile(1 - (1 - level) / 2, df);
+  const margin = tCritical * standardError;
+  return { level, mean: m, standardError, df, tCritical, margin, lower: m - margin, upper: m + margin };
+};
+
+export const oneSampleTTest = (values: number[], mu0: number, alpha: number, name: string): TestResult => {
+  const t = getMessages().inference;
+  requireSize(values, 2, t.oneSample.label);
+  const n = values.length;
+  const m = mean(values);
+  const standardError = Math.sqrt(sampleVariance(values) / n);
+  if (standardError === 0) throw new Error(t.identicalValues);
+  const statistic = (m - mu0) / standardError;
+  const df = n - 1;
+  const pValue = twoSidedP(statistic, df);
+  const target = formatNumber(mu0);
+  return {
+    title: t.oneSample.title,
+    hypotheses: `H₀ : μ = ${target}   ${t.against}   H₁ : μ ≠ ${target}`,
+    statisticLabel: 't',
+    statistic,
+    df,
+    pValue,
+    formula: 't = (x̄ - μ₀) / (s / √n)',
+    conclusion: decide(
+      pValue,
+      alpha,
+      t.oneSample.rejected(name, formatNumber(m, 2), target),
+      t.oneSample.kept(name, formatNumber(m, 2), target)
+    )
+  };
+};
+
+export const welchTTest = (a: number[], b: number[], alpha: number, nameA: string, nameB: string): TestResult => {
+  requireSize(a, 2, nameA);
+  requireSize(b, 2, nameB);
+  const va = sampleVariance(a) / a.length;
+  const vb = sampleVariance(b) / b.length;
+  const t = getMessages().inference;
+  if (va + vb === 0) throw new Error(t.constantSeries);
+  const statistic = (mean(a) - mean(b)) / Math.sqrt(va + vb);
+  // Degrés de liberté de Welch-Satterthwaite
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  const pValue = twoSidedP(statistic, df);
+  return {
+    title: t.welch.title,
+    hypotheses: `H₀ : μ(${nameA}) = μ(${nameB})   ${t.against}   H₁ : μ(${nameA}) ≠ μ(${nameB})`,
+    statisticLabel: 't',
+    statistic,
+    df,
+    pValue,
+    formula: t.welch.formula,
+    conclusion: decide(
+      pValue,
+      alpha,
+      t.welch.rejected(nameA, formatNumber(mean(a), 2), nameB, formatNumber(mean(b), 2)),
+      t.welch.kept(nameA, formatNumber(mean(a), 2), nameB, formatNumber(mean(b), 2))
+    )
+  };
+};
+
+export const pairedTTest = (
+  xs: (number | null)[],
+  ys: (number | null)[],
+  alpha: number,
+  nameA: string,
+  nameB: string
+): TestResult => {
+  const t = getMessages().inference;
+  const { x, y } = pairValues(xs, ys);
+  requireSize(x, 2, t.paired.title);
+  const differences = x.map((xi, i) => xi - y[i]);
+  const n = differences.length;
+  const d = mean(differences);
+  const standardError = Math.sqrt(sampleVariance(differences) / n);
+  if (standardError === 0) throw new Error(t.identicalDifferences);
+  const statistic = d / standardError;
+  const df = n - 1;
+  const pValue = twoSidedP(statistic, df);
+  return {
+    title: t.paired.title,
+    hypotheses: `H₀ : μ(${nameA} - ${nameB}) = 0   ${t.against}   H₁ : μ(${nameA} - ${nameB}) ≠ 0`,
+    statisticLabel: 't',
+    statistic,
+    df,
+    pValue,
+    formula: t.paired.formula,
+    conclusion: decide(
+      pValue,
+      alpha,
+      t.paired.rejected(n, nameA, d > 0, nameB, formatNumber(Math.abs(d), 2)),
+      t.paired.kept(formatNumber(d, 2), nameA, nameB, n)
+    )
+  };
+};
+
+// Test d'adéquation du khi-deux ; sans proportions fournies, la loi théorique est uniforme
+export const chiSquareGoodnessOfFit = (
+  observed: [string, number][],
+  weights: number[] | null,
+  alpha: number,
+  name: string
+): TestResult => {
+  const t = getMessages().inference.chiSquare;
+  const k = observed.length;
+  if (k < 2) throw new Error(t.minCategories);
+  if (weights && weights.length !== k) {
+    throw new Error(t.count(k, weights.length));
+  }
+  if (weights && weights.some(w => !(w > 0))) {
+    throw new Error(t.positive);
+  }
+  const total = observed.reduce((sum, [, count]) => sum + count, 0);
+  const weightSum = weights ? weights.reduce((sum, w) => sum + w, 0) : k;
+  const expected = observed.map((_, i) => (total * (weights ? weights[i] : 1)) / weightSum);
+  const statistic = observed.reduce((sum, [, count], i) => sum + (count - expected[i]) ** 2 / expected[i], 0);
+  const df = k - 1;
+  const pValue = 1 - chiSquareCdf(statistic, df);
+  const smallCells = expected.filter(e => e < 5).length;
+  return {
+    title: t.title,
+    hypotheses: t.hypotheses(name, !weights),
+    statisticLabel: 'χ²',
+    statistic,
+    df,
+    pValue,
+    formula: t.formula,
+    conclusion: decide(
+      pValue,
+      alpha,
+      t.rejected(name, !weights),
+      t.kept(name, !weights)
+    ),
+    warning: smallCells > 0 ? t.smallCells(smallCells) : undefined
+  };
+};
+
+const requireGroups = (groups: Group[]) => {
+  if (groups.length < 2) throw new Error(getMessages().inference.anova.minGroups);
+};
+
+// Au-delà de ce rapport entre la plus grande et la plus petite variance, l'hypothèse d'homoscédasticité est douteuse
+const VARIANCE_RATIO_LIMIT = 4;
+
+// Effectif en dessous duquel la loi du khi-deux approche mal la statistique H
+const KRUSKAL_MIN_SIZE = 5;
+
+export const oneWayAnova = (groups: Group[], alpha: number, valueName: string, groupName: string): AnovaResult => {
+  const t = getMessages().inference.anova;
+  requireGroups(groups);
+  groups.forEach(group => requireSize(group.values, 2, group.name));
+  const all = groups.flatMap(group => group.values);
+  const grandMean = mean(all);
+  const ssBetween = groups.reduce((sum, { values }) => sum + values.length * (mean(values) - grandMean) ** 2, 0);
+  const ssWithin = groups.reduce((sum, { values }) => {
+    const m = mean(values);
+    return sum + values.reduce((inner, v) => inner + (v - m) ** 2, 0);
+  }, 0);
+  if (ssWithin === 0) throw new Error(t.noWithinVariance);
+  const dfBetween = groups.length - 1;
+  const dfWithin = all.length - groups.length;
+  const msBetween = ssBetween / dfBetween;
+  const msWithin = ssWithin / dfWithin;
+  const statistic = msBetween / msWithin;
+  const pValue = 1 - fisherCdf(statistic, dfBetween, dfWithin);
+  const ssTotal = ssBetween + ssWithin;
+  const variances = groups.map(({ values }) => sampleVariance(values));
+  const varianceRatio = Math.max(...variances) / Math.min(...variances);
+  return {
+    title: t.title,
+    hypotheses: t.hypotheses(valueName, groupName),
+    statisticLabel: 'F',
+    statistic,
+    df: dfBetween,
+    pValue,
+    formula: t.formula,
+    conclusion: decide(pValue, alpha, t.rejected(valueName, groupName), t.kept(valueName, groupName)),
+    warning: varianceRatio > VARIANCE_RATIO_LIMIT ? t.unequalVariances(formatNumber(varianceRatio, 1)) : undefined,
+    ssBetween,
+    ssWithin,
+    dfWithin,
+    msBetween,
+    msWithin,
+    etaSquared: ssBetween / ssTotal,
+    omegaSquared: Math.max(0, (ssBetween - dfBetween * msWithin) / (ssTotal + msWithin))
+  };
+};
+
+// Rangs moyens sur l'ensemble des observations, les ex aequo partageant la moyenne de leurs rangs
+const averageRanks = (values: number[]): { ranks: number[]; ties: number[] } => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  const ties: number[] = [];
+  for (let start = 0; start < order.length;) {
+    let end = start + 1;
+    while (end < order.length && order[end].value === order[start].value) end++;
+    const rank = (start + end + 1) / 2;
+    for (let i = start; i < end; i++) ranks[order[i].index] = rank;
+    if (end - start > 1) ties.push(end - start);
+    start = end;
+  }
+  return { ranks, ties };
+};
+
+export const kruskalWallis = (groups: Group[], alpha: number, valueName: string, groupName: string): KruskalWallisResult => {
+  const t = getMessages().inference;
+  requireGroups(groups);
+  const all = groups.flatMap(group => group.values);
+  const n = all.length;
+  const { ranks, ties } = averageRanks(all);
+  let offset = 0;
+  const rankSums = groups.map(({ values }) => {
+    const sum = ranks.slice(offset, offset + values.length).reduce((total, rank) => total + rank, 0);
+    offset += values.length;
+    return sum;
+  });
+  const correction = 1 - ties.reduce((sum, size) => sum + size ** 3 - size, 0) / (n ** 3 - n);
+  if (correction === 0) throw new Error(t.identicalValues);
+  const h = 12 / (n * (n + 1)) * rankSums.reduce((sum, r, i) => sum + r ** 2 / groups[i].values.length, 0) - 3 * (n + 1);
+  const statistic = h / correction;
+  const df = groups.length - 1;
+  const pValue = 1 - chiSquareCdf(statistic, df);
+  const small = groups.filter(group => group.values.length < KRUSKAL_MIN_SIZE).length;
+  return {
+    title: t.kruskal.title,
+    hypotheses: t.kruskal.hypotheses(valueName, groupName),
+    statisticLabel: 'H',
+    statistic,
+    df,
+    pValue,
+    formula: t.kruskal.formula,
+    conclusion: decide(pValue, alpha, t.kruskal.rejected(valueName, groupName), t.kruskal.kept(valueName, groupName)),
+    warning: small > 0 ? t.kruskal.smallGroups(small, KRUSKAL_MIN_SIZE) : undefined,
+    epsilonSquared: statistic / (n - 1)
+  };
+};
@@ -0,0 +1,219 @@
+// Conversion de la notation texte de l'application (2x^2 - 1 = 0, √Δ, (1 - √5)/2, ]-∞ ; 3]…) en LaTeX
+
+const SYMBOLS: Record<string, string> = {
+  '≤': '\\le ',
+  '≥': '\\ge ',
+  '≠': '\\neq ',
+  '≈': '\\approx ',
+  '∈': '\\in ',
+  '∩': '\\cap ',
+  '∅': '\\varnothing ',
+  'ℝ': '\\mathbb{R}',
+  '∞': '\\infty ',
+  '→': '\\Rightarrow ',
+  '↔': '\\leftrightarrow ',
+  '←': '\\leftarrow ',
+  '×': '\\times ',
+  '·': '\\cdot ',
+  '*': '\\cdot ',
+  '−': '-',
+  '±': '\\pm ',
+  'Δ': '\\Delta ',
+  ';': ';\\,',
+  '{': '\\{',
+  '}': '\\}',
+  '%': '\\%',
+  '&': '\\&',
+  '#': '\\#',
+  '_': '\\_',
+  '$': '\\$',
+  '\\': '\\backslash '
+};
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPTS: Record<string, string> = { '²': '2', '³': '3' };
+
+// Fonctions reconnues dans la saisie (syntaxe mathjs)
+export const FUNCTIONS = ['sqrt', 'sin', 'cos', 'tan', 'exp', 'ln', 'log', 'abs'];
+
+interface Atom {
+  // Rendu avec ses parenthèses éventuelles
+  latex: string;
+  // Rendu sans parenthèses, utilisé dans une fraction, une racine ou un exposant
+  inner: string;
+}
+
+type Item = Atom | string;
+
+const isAtom = (item: Item | undefined): item is Atom => typeof item === 'object';
+
+const WORD = /^[A-Za-zÀ-ÿ']{3,}(?:\s+[A-Za-zÀ-ÿ']+)*/;
+// Le séparateur décimal est le point ou la virgule collée aux chiffres (1,5) ; « 1, 2 » reste une énumération
+const OPERAND = /^(?:\d+(?:[.,]\d+)?[A-Za-z]?|[A-Za-z])/;
+const NUMBER = /^\d+(?:(?:\.|\{,\})\d+)?$/;
+// Coefficient numérique suivi d'une variable : 2x, 0.5a, 0{,}5a
+const COEFFICIENT = /^(\d+(?:(?:\.|\{,\})\d+)?)([A-Za-z].*)$/;
+
+const convert = (input: string): string => {
+  let position = 0;
+
+  const join = (items: Item[]): string =>
+    items.map(item => (isAtom(item) ? item.latex : item)).join('').replace(/\s+/g, ' ').trim();
+
+  const skipSpaces = () => {
+    while (input[position] === ' ') position++;
+  };
+
+  // Un espace entre un opérande et « / » ou « ^ » ne doit pas les séparer
+  const precedesOperator = (items: Item[]): boolean => {
+    const next = input.slice(position).trimStart()[0];
+    return (next === '/' || next === '^') && isAtom(items[items.length - 1]);
+  };
+
+  // Opérande : nombre, variable indicée, groupe parenthésé, racine, fonction ou mot
+  const atom = (): Atom | null => {
+    const rest = input.slice(position);
+    const char = rest[0];
+    if (char === undefined) return null;
+
+    if (char === '(') {
+      position++;
+      const inner = join(sequence(')'));
+      return { latex: `\\left(${inner}\\right)`, inner };
+    }
+    if (char === '√') {
+      position++;
+      const latex = `\\sqrt{${atom()?.inner ?? ''}}`;
+      return { latex, inner: latex };
+    }
+    if (char === 'Δ') {
+      position++;
+      return { latex: '\\Delta ', inner: '\\Delta ' };
+    }
+
+    const fn = FUNCTIONS.find(name => rest.startsWith(`${name}(`));
+    if (fn) {
+      position += fn.length + 1;
+      const inner = join(sequence(')'));
+      const latex = fn === 'sqrt' ? `\\sqrt{${inner}}` : `\\operatorname{${fn}}\\left(${inner}\\right)`;
+      return { latex, inner: latex };
+    }
+
+    const word = rest.match(WORD);
+    if (word) {
+      position += word[0].length;
+      const latex = `\\text{${word[0]}}`;
+      return { latex, inner: latex };
+    }
+
+    const operand = rest.match(OPERAND);
+    if (!operand) return null;
+    position += operand[0].length;
+    let subscript = '';
+    while (position < input.length && SUBSCRIPTS.includes(input[position])) {
+      subscript += SUBSCRIPTS.indexOf(input[position]);
+      position++;
+    }
+    // Les accolades évitent l'espace que LaTeX ajoute après une virgule
+    const text = operand[0].replace(',', '{,}');
+    const latex = subscript ? `${text}_{${subscript}}` : text;
+    return { latex, inner: latex };
+  };
+
+  const sequence = (closing: string | null): Item[] => {
+    const items: Item[] = [];
+    while (position < input.length) {
+      const char = input[position];
+      if (char === closing) {
+        position++;
+        return items;
+      }
+      if (char === '/') {
+        position++;
+        skipSpaces();
+        const numerator = isAtom(items[items.length - 1]) ? items.pop() as Atom : null;
+        const denominator = atom();
+        if (numerator && denominator) {
+          // Comme mathjs, 1/2x se lit (1/2)x
+          const split = NUMBER.test(numerator.inner) ? denominator.inner.match(COEFFICIENT) : null;
+          const latex = split
+            ? `\\frac{${numerator.inner}}{${split[1]}}${split[2]}`
+            : `\\frac{${numerator.inner}}{${denominator.inner}}`;
+          items.push({ latex, inner: latex });
+        } else {
+          items.push(...(numerator ? [numerator] : []), '/', ...(denominator ? [denominator] : []));
+        }
+        continue;
+      }
+      if (char === '^' || char in SUPERSCRIPTS) {
+        position++;
+        const exponent = char === '^' ? atom()?.inner ?? '' : SUPERSCRIPTS[char];
+        const base = items.pop();
+        const baseLatex = base === undefined ? '' : isAtom(base) ? base.latex : base.trim();
+        // Dans 3x^2, seul x est élevé au carré
+        const [, coefficient, variable] = baseLatex.match(COEFFICIENT) ?? ['', '', baseLatex];
+        const latex = `${coefficient}{${variable}}^{${exponent}}`;
+        items.push({ latex, inner: latex });
+        continue;
+      }
+      if (char === ' ' && precedesOperator(items)) {
+        position++;
+        continue;
+      }
+      const operand = atom();
+      if (operand) {
+        items.push(operand);
+      } else {
+        position++;
+        items.push(SYMBOLS[char] ?? char);
+      }
+    }
+    return items;
+  };
+
+  return join(sequence(null));
+};
+
+// Matrice augmentée écrite [a, b | c] ; [d, e | f], ou [a, b | 1, 0] ; … pour [A | I]
+const MATRIX = /^\[[^[\]]*\|[^[\]]*\](?:\s*;\s*\[[^[\]]*\|[^[\]]*\])*$/;
+
+// Matrice écrite [[a, b], [c, d]], seule ou dans un texte (det [[1, 2], [3, 4]]) ; les cellules sont
+// séparées par une virgule suivie d'un espace, la virgule décimale (0,5) reste dans sa cellule
+const NESTED_MATRIX = /\[\[[^[\]]*\](?:\s*,\s*\[[^[\]]*\])*\]/g;
+
+const CELL_SEPARATOR = /,\s+/;
+
+const matrixToLatex = (text: string): string => {
+  const rows = text.split(/\]\s*;\s*\[/).map(row => row.replace(/[[\]]/g, '').split('|'));
+  const width = rows[0][0].split(CELL_SEPARATOR).length;
+  const extra = rows[0][1].split(CELL_SEPARATOR).length;
+  const body = rows
+    .map(([left, right]) => [...left.split(CELL_SEPARATOR), ...right.split(CELL_SEPARATOR)].map(cell => toLatex(cell.trim())).join(' & '))
+    .join(' \\\\ ');
+  return `\\left[\\begin{array}{${'c'.repeat(width)}|${'c'.repeat(extra)}}${body}\\end{array}\\right]`;
+};
+
+const nestedMatrixToLatex = (text: string): string => {
+  const body = Array.from(text.slice(1, -1).matchAll(/\[([^[\]]*)\]/g))
+    .map(([, row]) => row.split(CELL_SEPARATOR).map(cell => toLatex(cell.trim())).join(' & '))
+    .join(' \\\\ ');
+  return `\\begin{pmatrix}${body}\\end{pmatrix}`;
+};
+
+// Les morceaux de texte entre les matrices sont convertis séparément
+const withMatrices = (text: string): string => {
+  let latex = '';
+  let last = 0;
+  for (const match of text.matchAll(NESTED_MATRIX)) {
+    latex += `${convert(text.slice(last, match.index))} ${nestedMatrixToLatex(match[0])} `;
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return `${latex}${convert(text.slice(last))}`.trim();
+};
+
+export const toLatex = (math: string): string => {
+  const text = math.trim().replace(/<=/g, '≤').replace(/>=/g, '≥').replace(/÷/g, '/');
+  if (MATRIX.test(text)) return matrixToLatex(text);
+  if (text.includes('[[')) return withMatrices(text);
+  return convert(text);
+};
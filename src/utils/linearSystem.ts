@@ -0,0 +1,287 @@
+import {
+  parse,
+  MathNode,
+  isConstantNode,
+  isSymbolNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isFunctionNode,
+} from 'mathjs';
+import { normalizeInput } from './expressionParser';
+import { SolveOptions } from './equationSolver';
+import {
+  Fraction,
+  ONE,
+  ZERO,
+  abs,
+  add,
+  divide,
+  formatDecimal,
+  formatFraction,
+  isInteger,
+  isNegative,
+  isOne,
+  isZero,
+  multiply,
+  negate,
+  subtract,
+  toFraction,
+  toNumber,
+} from './fraction';
+import { Step, step } from './steps';
+import { getMessages } from '../i18n';
+
+// « multiple » : nombre fini de solutions distinctes (équations polynomiales)
+export type SolutionType = 'unique' | 'multiple' | 'none' | 'infinite';
+
+export interface SystemSolveResult {
+  result: string;
+  steps: Step[];
+  solutionType: SolutionType;
+}
+
+// Combinaison linéaire : coefficient par inconnue, la clé '' porte la constante
+type LinearForm = Map<string, Fraction>;
+
+const CONSTANT = '';
+const PARAMETERS = ['t', 's', 'u', 'v', 'w'];
+
+const scale = (form: LinearForm, factor: Fraction): LinearForm =>
+  new Map(Array.from(form.entries()).map(([name, c]) => [name, multiply(c, factor)]));
+
+const addForms = (a: LinearForm, b: LinearForm): LinearForm => {
+  const sum = new Map(a);
+  b.forEach((c, name) => sum.set(name, add(sum.get(name) ?? ZERO, c)));
+  return sum;
+};
+
+const constantOf = (form: LinearForm): Fraction | null =>
+  Array.from(form.entries()).every(([name, c]) => name === CONSTANT || isZero(c))
+    ? form.get(CONSTANT) ?? ZERO
+    : null;
+
+const multiplyForms = (left: LinearForm, right: LinearForm, node: MathNode): LinearForm => {
+  const leftConstant = constantOf(left);
+  if (leftConstant !== null) return scale(right, leftConstant);
+  const rightConstant = constantOf(right);
+  if (rightConstant !== null) return scale(left, rightConstant);
+  throw new Error(getMessages().system.nonLinear(node.toString()));
+};
+
+const toLinearForm = (node: MathNode): LinearForm => {
+  if (isConstantNode(node)) {
+    const value = Number(node.value);
+    if (isNaN(value)) throw new Error(getMessages().parser.nonNumeric(String(node.value)));
+    return new Map([[CONSTANT, toFraction(value)]]);
+  }
+
+  if (isSymbolNode(node)) {
+    return new Map([[node.name, ONE]]);
+  }
+
+  if (isParenthesisNode(node)) {
+    return toLinearForm(node.content);
+  }
+
+  // "a(b + 1)" est lu comme un appel de fonction : on le traite comme un produit
+  if (isFunctionNode(node) && isSymbolNode(node.fn) && node.args.length === 1) {
+    return multiplyForms(new Map([[node.fn.name, ONE]]), toLinearForm(node.args[0]), node);
+  }
+
+  if (isOperatorNode(node)) {
+    const args = node.args.map(toLinearForm);
+
+    if (args.length === 1) {
+      if (node.op === '-') return scale(args[0], negate(ONE));
+      if (node.op === '+') return args[0];
+    }
+
+    if (args.length === 2) {
+      const [left, right] = args;
+      switch (node.op) {
+        case '+':
+          return addForms(left, right);
+        case '-':
+          return addForms(left, scale(right, negate(ONE)));
+        case '*':
+          return multiplyForms(left, right, node);
+        case '/': {
+          const divisor = constantOf(right);
+          if (divisor === null) throw new Error(getMessages().system.nonLinear(node.toString()));
+          if (isZero(divisor)) throw new Error(getMessages().parser.divisionByZero);
+          return scale(left, divide(ONE, divisor));
+        }
+        case '^': {
+          const base = constantOf(left);
+          const exponent = constantOf(right);
+          if (base === null || exponent === null) throw new Error(getMessages().system.nonLinear(node.toString()));
+          if (!isInteger(exponent)) throw new Error(getMessages().parser.unsupportedExponent(formatFraction(exponent)));
+          let power = ONE;
+          for (let i = 0; i < Math.abs(toNumber(exponent)); i++) power = multiply(power, base);
+          return new Map([[CONSTANT, isNegative(exponent) ? divide(ONE, power) : power]]);
+        }
+      }
+    }
+  }
+
+  throw new Error(getMessages().parser.unsupportedExpression(node.toString()));
+};
+
+const parseEquation = (equation: string, index: number): LinearForm => {
+  const sides = equation.replace(/\s+/g, '').split('=');
+  if (sides.length !== 2 || !sides[0] || !sides[1]) {
+    throw new Error(getMessages().system.equalsRequired(index + 1));
+  }
+  const [left, right] = sides.map(side => {
+    let node: MathNode;
+    try {
+      node = parse(side);
+    } catch {
+      throw new Error(getMessages().system.invalidExpression(index + 1, side));
+    }
+    return toLinearForm(node);
+  });
+  // Forme a1·x1 + ... + an·xn − c = 0
+  return addForms(left, scale(right, negate(ONE)));
+};
+
+const formatLinear = (terms: { coefficient: Fraction; name: string }[], constant: Fraction): string => {
+  const parts = terms
+    .filter(t => !isZero(t.coefficient))
+    .map(({ coefficient, name }) => {
+      const magnitude = abs(coefficient);
+      const text = isOne(magnitude)
+        ? name
+        : isInteger(magnitude) ? `${formatFraction(magnitude)}${name}` : `(${formatFraction(magnitude)})${name}`;
+      return { negative: isNegative(coefficient), text };
+    });
+  if (!isZero(constant) || parts.length === 0) {
+    parts.unshift({ negative: isNegative(constant), text: formatFraction(abs(constant)) });
+  }
+  return parts
+    .map(({ negative, text }, i) => {
+      if (i === 0) return negative ? `-${text}` : text;
+      return negative ? ` - ${text}` : ` + ${text}`;
+    })
+    .join('');
+};
+
+const formatMatrix = (matrix: Fraction[][]): string =>
+  matrix
+    .map(row => `[${row.slice(0, -1).map(formatFraction).join(', ')} | ${formatFraction(row[row.length - 1])}]`)
+    .join(' ; ');
+
+const byName = (a: string, b: string) => a.localeCompare(b, 'fr', { numeric: true });
+
+export const splitSystem = (input: string): string[] =>
+  input
+    .split(/[;\n]/)
+    .map(line => normalizeInput(line).trim())
+    .filter(line => line.length > 0);
+
+export const solveSystemWithSteps = (input: string, options: SolveOptions = {}): SystemSolveResult => {
+  const t = getMessages().system;
+  const steps: Step[] = [];
+  const equations = splitSystem(input);
+  if (equations.length === 0) {
+    throw new Error(t.atLeastOneEquation);
+  }
+  steps.push(step(t.initial, equations.join(' ; ')));
+
+  const forms = equations.map(parseEquation);
+  const variables = Array.from(new Set(forms.flatMap(form => Array.from(form.keys()))))
+    .filter(name => name !== CONSTANT)
+    .sort(byName);
+  if (variables.length === 0) {
+    throw new Error(t.atLeastOneUnknown);
+  }
+  steps.push(step(t.unknowns, t.unknownList(variables.join(', '), equations.length)));
+
+  forms.forEach((form, i) => {
+    const terms = variables.map(name => ({ name, coefficient: form.get(name) ?? ZERO }));
+    steps.push(step(t.standardForm(i + 1), `${formatLinear(terms, ZERO)} = ${formatFraction(negate(form.get(CONSTANT) ?? ZERO))}`));
+  });
+
+  const matrix = forms.map(form => [
+    ...variables.map(name => form.get(name) ?? ZERO),
+    negate(form.get(CONSTANT) ?? ZERO)
+  ]);
+  steps.push(step(t.augmentedMatrix, formatMatrix(matrix)));
+
+  // Élimination de Gauss-Jordan jusqu'à la forme échelonnée réduite
+  const pivotColumns: number[] = [];
+  let row = 0;
+  for (let col = 0; col < variables.length && row < matrix.length; col++) {
+    const pivot = matrix.findIndex((r, i) => i >= row && !isZero(r[col]));
+    if (pivot === -1) continue;
+
+    if (pivot !== row) {
+      [matrix[row], matrix[pivot]] = [matrix[pivot], matrix[row]];
+      steps.push(step(`${t.row}${row + 1} ↔ ${t.row}${pivot + 1}`, formatMatrix(matrix)));
+    }
+
+    const pivotValue = matrix[row][col];
+    if (!isOne(pivotValue)) {
+      matrix[row] = matrix[row].map(value => divide(value, pivotValue));
+      const divisor = isInteger(pivotValue) && !isNegative(pivotValue) ? formatFraction(pivotValue) : `(${formatFraction(pivotValue)})`;
+      steps.push(step(`${t.row}${row + 1} ← ${t.row}${row + 1} / ${divisor}`, formatMatrix(matrix)));
+    }
+
+    for (let r = 0; r < matrix.length; r++) {
+      const factor = matrix[r][col];
+      if (r === row || isZero(factor)) continue;
+      matrix[r] = matrix[r].map((value, c) => subtract(value, multiply(factor, matrix[row][c])));
+      const magnitude = abs(factor);
+      const multiplier = isOne(magnitude) ? '' : isInteger(magnitude) ? `${formatFraction(magnitude)}·` : `(${formatFraction(magnitude)})·`;
+      const operation = `${isNegative(factor) ? '+' : '−'} ${multiplier}${t.row}${row + 1}`;
+      steps.push(step(`${t.row}${r + 1} ← ${t.row}${r + 1} ${operation}`, formatMatrix(matrix)));
+    }
+
+    pivotColumns.push(col);
+    row++;
+  }
+  steps.push(step(t.reducedForm, formatMatrix(matrix)));
+
+  const inconsistent = matrix.findIndex(r =>
+    r.slice(0, -1).every(isZero) && !isZero(r[r.length - 1])
+  );
+  if (inconsistent !== -1) {
+    steps.push(step(t.line(inconsistent + 1), t.inconsistent(formatFraction(matrix[inconsistent][variables.length]))));
+    return { result: t.resultNone, steps, solutionType: 'none' };
+  }
+
+  const rank = pivotColumns.length;
+  if (rank === variables.length) {
+    steps.push(step(t.uniqueRank(rank)));
+    const solution = variables.map((name, col) => {
+      const value = matrix[pivotColumns.indexOf(col)][variables.length];
+      const text = formatFraction(value);
+      const approximation = options.precision === undefined ? text : formatDecimal(toNumber(value), options.precision);
+      return `${name} = ${text}${approximation === text ? '' : ` ≈ ${approximation}`}`;
+    });
+    return { result: solution.join(' ; '), steps, solutionType: 'unique' };
+  }
+
+  // Variables libres : chacune devient un paramètre réel
+  const freeColumns = variables.map((_, col) => col).filter(col => !pivotColumns.includes(col));
+  const parameterNames = freeColumns.map((_, i) => {
+    const candidate = PARAMETERS[i] ?? `t${i + 1}`;
+    return variables.includes(candidate) ? `${candidate}${i + 1}` : candidate;
+  });
+  steps.push(step(t.infiniteRank(rank, variables.length, freeColumns.length), freeColumns.map(col => variables[col]).join(', ')));
+
+  const solution = variables.map((name, col) => {
+    const freeIndex = freeColumns.indexOf(col);
+    if (freeIndex !== -1) return `${name} = ${parameterNames[freeIndex]}`;
+    const r = matrix[pivotColumns.indexOf(col)];
+    const terms = freeColumns.map((free, i) => ({ name: parameterNames[i], coefficient: negate(r[free]) }));
+    return `${name} = ${formatLinear(terms, r[variables.length])}`;
+  });
+  solution.forEach(line => steps.push(step(t.parametric, line)));
+
+  return {
+    result: `${solution.join(' ; ')} (${parameterNames.join(', ')} ∈ ℝ)`,
+    steps,
+    solutionType: 'infinite'
+  };
+};
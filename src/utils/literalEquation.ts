@@ -0,0 +1,443 @@
+import {
+  parse,
+  MathNode,
+  isConstantNode,
+  isSymbolNode,
+  isOperatorNode,
+  isParenthesisNode,
+  isFunctionNode,
+} from 'mathjs';
+import {
+  Fraction,
+  ONE,
+  ZERO,
+  abs,
+  add,
+  divide,
+  formatFraction,
+  isInteger,
+  isNegative,
+  isOne,
+  isZero,
+  lcm,
+  multiply,
+  negate,
+  ratio,
+  toFraction,
+  toNumber,
+} from './fraction';
+import { MAX_EXPONENT, normalizeInput } from './expressionParser';
+import { FUNCTIONS } from './latex';
+import type { SolveResult } from './equationSolver';
+import { Step, step } from './steps';
+import { getMessages } from '../i18n';
+
+// Polynôme en plusieurs lettres : chaque monôme (« a^2t », "" pour la constante) porte un coefficient
+type Polynomial = Map<string, Fraction>;
+
+// Quotient de deux polynômes ; le dénominateur vaut 1 tant qu'aucune lettre n'est au diviseur
+interface Rational {
+  numerator: Polynomial;
+  denominator: Polynomial;
+}
+
+// Une lettre suivie éventuellement de chiffres : « nRT » se lit n·R·T, « v0 » reste une lettre indicée ;
+// pi est reconnu avant la découpe, pour que « 2pir » se lise 2·π·r et non 2·p·i·r
+const LETTER = /pi|\p{L}\d*/gu;
+
+// Constantes de mathjs : elles restent des facteurs symboliques mais ne sont ni inconnue ni paramètre
+const CONSTANTS = ['π', 'e'];
+
+// Décompose un nom de symbole en lettres ; un nom atypique (v_0…) reste entier
+const splitSymbol = (name: string): string[] => {
+  const letters = name.match(LETTER) ?? [];
+  return (letters.join('') === name ? letters : [name]).map(letter => (letter === 'pi' ? 'π' : letter));
+};
+
+const factorsOf = (key: string): [string, number][] =>
+  key === '' ? [] : key.split(' ').map(factor => {
+    const [name, exponent] = factor.split('^');
+    return [name, exponent ? Number(exponent) : 1];
+  });
+
+// Ordre alphabétique sans distinction de casse, constantes en tête : nRT plutôt que RTn, πr^2 plutôt que r^2·π
+const compareNames = (a: string, b: string): number =>
+  Number(CONSTANTS.includes(b)) - Number(CONSTANTS.includes(a)) || a.localeCompare(b, 'en');
+
+const keyOf = (factors: Map<string, number>): string =>
+  Array.from(factors.entries())
+    .filter(([, exponent]) => exponent > 0)
+    .sort(([a], [b]) => compareNames(a, b))
+    .map(([name, exponent]) => (exponent === 1 ? name : `${name}^${exponent}`))
+    .join(' ');
+
+const constant = (value: Fraction): Polynomial => (isZero(value) ? new Map() : new Map([['', value]]));
+
+const letter = (name: string): Polynomial => new Map([[name, ONE]]);
+
+const addPolynomials = (a: Polynomial, b: Polynomial): Polynomial => {
+  const sum = new Map(a);
+  b.forEach((coefficient, key) => {
+    const total = add(sum.get(key) ?? ZERO, coefficient);
+    if (isZero(total)) sum.delete(key);
+    else sum.set(key, total);
+  });
+  return sum;
+};
+
+const scale = (p: Polynomial, factor: Fraction): Polynomial =>
+  isZero(factor) ? new Map() : new Map(Array.from(p, ([key, coefficient]) => [key, multiply(coefficient, factor)]));
+
+const negatePolynomial = (p: Polynomial): Polynomial => scale(p, negate(ONE));
+
+const multiplyPolynomials = (a: Polynomial, b: Polynomial): Polynomial => {
+  let product: Polynomial = new Map();
+  a.forEach((ca, ka) => b.forEach((cb, kb) => {
+    const factors = new Map(factorsOf(ka));
+    factorsOf(kb).forEach(([name, exponent]) => factors.set(name, (factors.get(name) ?? 0) + exponent));
+    product = addPolynomials(product, new Map([[keyOf(factors), multiply(ca, cb)]]));
+  }));
+  return product;
+};
+
+const product = (names: string[]): Polynomial =>
+  names.reduce((result, name) => multiplyPolynomials(result, letter(name)), constant(ONE));
+
+const isConstant = (p: Polynomial): boolean => Array.from(p.keys()).every(key => key === '');
+
+const constantValue = (p: Polynomial): Fraction => p.get('') ?? ZERO;
+
+const samePolynomial = (a: Polynomial, b: Polynomial): boolean =>
+  a.size === b.size && Array.from(a).every(([key, coefficient]) => {
+    const other = b.get(key);
+    return other !== undefined && isZero(add(other, negate(coefficient)));
+  });
+
+const degreeIn = (p: Polynomial, name: string): number =>
+  Array.from(p.keys()).reduce((max, key) => Math.max(max, factorsOf(key).find(([n]) => n === name)?.[1] ?? 0), 0);
+
+// Termes en name^exponent, dont on retire name^exponent
+const coefficientIn = (p: Polynomial, name: string, exponent: number): Polynomial => {
+  const result: Polynomial = new Map();
+  p.forEach((coefficient, key) => {
+    const factors = new Map(factorsOf(key));
+    if ((factors.get(name) ?? 0) !== exponent) return;
+    factors.delete(name);
+    result.set(keyOf(factors), coefficient);
+  });
+  return result;
+};
+
+// Monômes de plus haut degré en tête, puis par ordre alphabétique, comme on les écrit à la main
+const sortedTerms = (p: Polynomial): [string, Fraction][] => {
+  const degree = (key: string) => factorsOf(key).reduce((sum, [, exponent]) => sum + exponent, 0);
+  const terms = Array.from(p).sort(([a], [b]) => degree(b) - degree(a) || compareNames(a, b));
+  // Un terme positif en tête évite le signe moins initial : y - p plutôt que -p + y
+  const positive = terms.findIndex(([, coefficient]) => !isNegative(coefficient));
+  return positive > 0 ? [terms[positive], ...terms.slice(0, positive), ...terms.slice(positive + 1)] : terms;
+};
+
+// Lettres juxtaposées (nRT), un point après une puissance pour que v^2·w ne se lise pas v^(2w)
+const formatFactors = (key: string): string =>
+  factorsOf(key).reduce((text, [name, exponent], i, factors) => {
+    const separator = i > 0 && factors[i - 1][1] > 1 ? '·' : '';
+    return `${text}${separator}${exponent === 1 ? name : `${name}^${exponent}`}`;
+  }, '');
+
+const formatMonomial = (coefficient: Fraction, key: string): string => {
+  const text = formatFraction(coefficient);
+  if (key === '') return text;
+  if (isOne(coefficient)) return formatFactors(key);
+  return isInteger(coefficient) ? `${text}${formatFactors(key)}` : `(${text})${formatFactors(key)}`;
+};
+
+const formatPolynomial = (p: Polynomial): string => {
+  if (p.size === 0) return '0';
+  return sortedTerms(p)
+    .map(([key, coefficient], i) => {
+      const monomial = formatMonomial(abs(coefficient), key);
+      if (i === 0) return isNegative(coefficient) ? `-${monomial}` : monomial;
+      return isNegative(coefficient) ? ` - ${monomial}` : ` + ${monomial}`;
+    })
+    .join('');
+};
+
+// Une seule lettre, éventuellement élevée à une puissance (c^2), ou un entier se passe de parenthèses dans une fraction
+const isAtom = (p: Polynomial): boolean => {
+  if (p.size !== 1) return false;
+  const [[key, coefficient]] = Array.from(p);
+  return key === '' ? isInteger(coefficient) && !isNegative(coefficient) : isOne(coefficient) && factorsOf(key).length === 1;
+};
+
+// Un numérateur nul s'écrit 0 : la condition sur le dénominateur est consignée à part
+const formatQuotient = (numerator: Polynomial, denominator: Polynomial): string => {
+  if (numerator.size === 0) return '0';
+  if (isConstant(denominator) && isOne(constantValue(denominator))) return formatPolynomial(numerator);
+  const wrap = (p: Polynomial) => (isAtom(p) ? formatPolynomial(p) : `(${formatPolynomial(p)})`);
+  return `${wrap(numerator)}/${wrap(denominator)}`;
+};
+
+// Coefficient multiplié par l'inconnue : 3t, -at, (R1 + R2)R
+const formatProduct = (coefficient: Polynomial, unknown: string): string => {
+  if (coefficient.size === 1) {
+    const [[key, value]] = Array.from(coefficient);
+    const factors = new Map(factorsOf(key));
+    factors.set(unknown, (factors.get(unknown) ?? 0) + 1);
+    return formatPolynomial(new Map([[keyOf(factors), value]]));
+  }
+  return `(${formatPolynomial(coefficient)})${unknown}`;
+};
+
+// Signe du polynôme écrit : négatif seulement si tous ses termes le sont
+const leadingNegative = (p: Polynomial): boolean => {
+  const [first] = sortedTerms(p);
+  return first !== undefined && isNegative(first[1]);
+};
+
+const fromNumber = (value: Fraction): Rational => ({ numerator: constant(value), denominator: constant(ONE) });
+
+// Un dénominateur constant est reporté sur le numérateur : 1 reste le seul dénominateur constant
+const normalize = ({ numerator, denominator }: Rational): Rational =>
+  isConstant(denominator)
+    ? { numerator: scale(numerator, divide(ONE, constantValue(denominator))), denominator: constant(ONE) }
+    : { numerator, denominator };
+
+const addRationals = (a: Rational, b: Rational): Rational => {
+  if (samePolynomial(a.denominator, b.denominator)) {
+    return { numerator: addPolynomials(a.numerator, b.numerator), denominator: a.denominator };
+  }
+  return normalize({
+    numerator: addPolynomials(multiplyPolynomials(a.numerator, b.denominator), multiplyPolynomials(b.numerator, a.denominator)),
+    denominator: multiplyPolynomials(a.denominator, b.denominator)
+  });
+};
+
+const multiplyRationals = (a: Rational, b: Rational): Rational => normalize({
+  numerator: multiplyPolynomials(a.numerator, b.numerator),
+  denominator: multiplyPolynomials(a.denominator, b.denominator)
+});
+
+const negateRational = (a: Rational): Rational => ({ ...a, numerator: negatePolynomial(a.numerator) });
+
+// Les diviseurs contenant des lettres sont consignés dans conditions : ils doivent rester non nuls
+const toRational = (node: MathNode, conditions: Polynomial[]): Rational => {
+  const { parser } = getMessages();
+
+  if (isConstantNode(node)) {
+    const value = Number(node.value);
+    if (isNaN(value)) throw new Error(parser.nonNumeric(String(node.value)));
+    return fromNumber(toFraction(value));
+  }
+
+  if (isSymbolNode(node)) return { numerator: product(splitSymbol(node.name)), denominator: constant(ONE) };
+
+  if (isParenthesisNode(node)) return toRational(node.content, conditions);
+
+  // mathjs lit « a(b + c) » comme un appel de fonction : hors fonctions connues, c'est un produit
+  if (isFunctionNode(node) && isSymbolNode(node.fn) && !FUNCTIONS.includes(node.fn.name) && node.args.length === 1) {
+    return multiplyRationals(toRational(node.fn, conditions), toRational(node.args[0], conditions));
+  }
+
+  if (isOperatorNode(node)) {
+    const args = node.args.map(arg => toRational(arg, conditions));
+
+    if (args.length === 1) {
+      if (node.op === '-') return negateRational(args[0]);
+      if (node.op === '+') return args[0];
+    }
+
+    if (args.length === 2) {
+      const [left, right] = args;
+      switch (node.op) {
+        case '+':
+          return addRationals(left, right);
+        case '-':
+          return addRationals(left, negateRational(right));
+        case '*':
+          return multiplyRationals(left, right);
+        case '/': {
+          if (right.numerator.size === 0) throw new Error(parser.divisionByZero);
+          if (!isConstant(right.numerator)) conditions.push(right.numerator);
+          return multiplyRationals(left, { numerator: right.denominator, denominator: right.numerator });
+        }
+        case '^': {
+          const exponent = constantValue(right.numerator);
+          if (!isConstant(right.numerator) || !isConstant(right.denominator) || !isInteger(exponent) || isNegative(exponent)) {
+            throw new Error(parser.positiveExponent(node.args[1].toString()));
+          }
+          if (toNumber(exponent) > MAX_EXPONENT) {
+            throw new Error(parser.exponentTooLarge(node.args[1].toString(), MAX_EXPONENT));
+          }
+          // mv^2 se lit m·v² : l'exposant ne porte que sur la dernière lettre du nom
+          const base = node.args[0];
+          const letters = isSymbolNode(base) ? splitSymbol(base.name) : [];
+          let power = letters.length > 1 ? { numerator: product(letters.slice(0, -1)), denominator: constant(ONE) } : fromNumber(ONE);
+          const factor = letters.length > 1 ? { numerator: letter(letters[letters.length - 1]), denominator: constant(ONE) } : left;
+          for (let i = 0; i < toNumber(exponent); i++) power = multiplyRationals(power, factor);
+          return power;
+        }
+      }
+    }
+  }
+
+  throw new Error(parser.unsupportedExpression(node.toString()));
+};
+
+const parseLiteral = (side: string, conditions: Polynomial[]): Rational => {
+  let node: MathNode;
+  try {
+    node = parse(side);
+  } catch {
+    throw new Error(getMessages().parser.invalidExpression(side));
+  }
+  return toRational(node, conditions);
+};
+
+// Lettres présentes dans l'équation, noms de fonctions et constantes exclus ; vide si la saisie est illisible
+export const literalVariables = (equation: string): string[] => {
+  const names = new Set<string>();
+  try {
+    normalizeInput(equation).split(/[=<>≤≥]/).forEach(side => {
+      if (!side.trim()) return;
+      parse(side).traverse((node, _path, parent) => {
+        if (!isSymbolNode(node)) return;
+        if (parent && isFunctionNode(parent) && parent.fn === node && FUNCTIONS.includes(node.name)) return;
+        splitSymbol(node.name).filter(name => !CONSTANTS.includes(name)).forEach(name => names.add(name));
+      });
+    });
+  } catch {
+    return [];
+  }
+  return Array.from(names).sort(compareNames);
+};
+
+// Numérateur et dénominateur à coefficients entiers, premiers entre eux si reduce, dénominateur de signe positif
+const integerForm = (numerator: Polynomial, denominator: Polynomial, reduce = true): Rational => {
+  const coefficients = [...numerator.values(), ...denominator.values()];
+  const common = coefficients.reduce((multiple, c) => lcm(multiple, c.d), 1);
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = reduce ? coefficients.reduce((g, c) => gcd(g, (c.n * common) / c.d), 0) || 1 : 1;
+  const sign = leadingNegative(denominator) ? -1 : 1;
+  const factor = ratio(sign * common, divisor);
+  return { numerator: scale(numerator, factor), denominator: scale(denominator, factor) };
+};
+
+// Simplifie par les lettres communes lorsque le dénominateur est un monôme : (ab)/(a) = b si a ≠ 0
+const cancelLetters = (numerator: Polynomial, denominator: Polynomial): Rational => {
+  if (denominator.size !== 1 || numerator.size === 0) return { numerator, denominator };
+  const [[denominatorKey, denominatorValue]] = Array.from(denominator);
+  const remaining = new Map(factorsOf(denominatorKey));
+  const numeratorTerms = Array.from(numerator).map(([key, value]) => ({ factors: new Map(factorsOf(key)), value }));
+  remaining.forEach((exponent, name) => {
+    const shared = Math.min(exponent, ...numeratorTerms.map(term => term.factors.get(name) ?? 0));
+    if (shared === 0) return;
+    remaining.set(name, exponent - shared);
+    numeratorTerms.forEach(term => term.factors.set(name, (term.factors.get(name) ?? 0) - shared));
+  });
+  return {
+    numerator: new Map(numeratorTerms.map(({ factors, value }) => [keyOf(factors), value])),
+    denominator: new Map([[keyOf(remaining), denominatorValue]])
+  };
+};
+
+// Un monôme est non nul si chacune de ses lettres l'est : 2nR ≠ 0 devient n ≠ 0, R ≠ 0
+const describeConditions = (conditions: Polynomial[]): string[] => {
+  const described = new Set<string>();
+  conditions.forEach(condition => {
+    const p = integerForm(condition, constant(ONE)).numerator;
+    if (isConstant(p)) return;
+    if (p.size === 1) {
+      factorsOf(Array.from(p.keys())[0])
+        .filter(([name]) => !CONSTANTS.includes(name))
+        .forEach(([name]) => described.add(`${name} ≠ 0`));
+    } else {
+      described.add(`${formatPolynomial(leadingNegative(p) ? negatePolynomial(p) : p)} ≠ 0`);
+    }
+  });
+  return Array.from(described);
+};
+
+// Équation du premier degré en l'inconnue choisie, les autres lettres étant des paramètres ;
+// sans choix, l'inconnue est la seule lettre présente, ou x
+export const solveLiteralWithSteps = (equation: string, requested?: string): SolveResult => {
+  const { literal: t, equation: messages } = getMessages();
+  const steps: Step[] = [];
+  const cleanEquation = normalizeInput(equation).replace(/\s+/g, '');
+  steps.push(step(messages.initial, equation));
+
+  const sides = cleanEquation.split('=');
+  if (!cleanEquation.includes('=')) throw new Error(messages.missingEquals);
+  if (sides.length !== 2 || !sides[0] || !sides[1]) throw new Error(messages.exactlyOneEquals);
+
+  const letters = literalVariables(cleanEquation);
+  let unknown: string;
+  if (requested !== undefined) {
+    if (!letters.includes(requested)) throw new Error(t.unknownAbsent(requested));
+    unknown = requested;
+  } else if (letters.length === 1 || letters.includes('x')) {
+    unknown = letters.length === 1 ? letters[0] : 'x';
+  } else {
+    throw new Error(t.chooseUnknown(letters.join(', ')));
+  }
+  const parameters = letters.filter(name => name !== unknown);
+  steps.push(step(parameters.length > 0 ? t.unknownAndParameters(unknown, parameters.join(', ')) : t.unknownOnly(unknown)));
+
+  const conditions: Polynomial[] = [];
+  const left = parseLiteral(sides[0], conditions);
+  const right = parseLiteral(sides[1], conditions);
+
+  // Produit en croix : A/B = C/D devient A·D = C·B
+  const leftPolynomial = multiplyPolynomials(left.numerator, right.denominator);
+  const rightPolynomial = multiplyPolynomials(right.numerator, left.denominator);
+  const expanded = `${formatPolynomial(leftPolynomial)}=${formatPolynomial(rightPolynomial)}`;
+  if (!isConstant(left.denominator) || !isConstant(right.denominator)) {
+    steps.push(step(t.clearDenominators, `${formatPolynomial(leftPolynomial)} = ${formatPolynomial(rightPolynomial)}`));
+  } else if (expanded.replace(/\s+/g, '') !== cleanEquation) {
+    steps.push(step(t.expansion, `${formatPolynomial(leftPolynomial)} = ${formatPolynomial(rightPolynomial)}`));
+  }
+
+  const difference = addPolynomials(leftPolynomial, negatePolynomial(rightPolynomial));
+  if (degreeIn(difference, unknown) > 1) throw new Error(t.firstDegreeOnly(unknown));
+
+  // a·inconnue + b = 0, écrit a·inconnue = -b avec des coefficients entiers et a de signe positif
+  const { numerator: rest, denominator: coefficient } = integerForm(
+    negatePolynomial(coefficientIn(difference, unknown, 0)),
+    coefficientIn(difference, unknown, 1),
+    false
+  );
+
+  if (coefficient.size === 0) {
+    steps.push(step(t.unknownVanishes(unknown), `0 = ${formatPolynomial(rest)}`));
+    const result = rest.size === 0
+      ? messages.resultInfinite
+      : isConstant(rest) ? messages.resultNone : t.resultConditional(`${formatPolynomial(rest)} = 0`);
+    return { result, steps, roots: [], solutionType: rest.size === 0 ? 'infinite' : 'none', parameters };
+  }
+
+  steps.push(step(t.isolate(unknown), `${formatProduct(coefficient, unknown)} = ${formatPolynomial(rest)}`));
+
+  let solution = `${unknown} = ${formatQuotient(rest, coefficient)}`;
+  if (!(isConstant(coefficient) && isOne(constantValue(coefficient)))) {
+    if (!isConstant(coefficient)) conditions.push(coefficient);
+    const divisor = coefficient.size === 1 ? formatPolynomial(coefficient) : `(${formatPolynomial(coefficient)})`;
+    steps.push(step(t.division(divisor), solution));
+    const integral = integerForm(rest, coefficient);
+    const { numerator, denominator } = cancelLetters(integral.numerator, integral.denominator);
+    const simplified = `${unknown} = ${formatQuotient(numerator, denominator)}`;
+    if (simplified !== solution) {
+      steps.push(step(messages.simplification, simplified));
+      solution = simplified;
+    }
+  }
+
+  const described = describeConditions(conditions);
+  if (described.length > 0) steps.push(step(t.conditions, described.join(', ')));
+
+  return {
+    result: described.length > 0 ? `${solution} (${described.join(', ')})` : solution,
+    steps,
+    roots: [],
+    solutionType: 'unique',
+    parameters
+  };
+};
@@ -0,0 +1,481 @@
+import { eigs } from 'mathjs';
+import {
+  Fraction,
+  ONE,
+  ZERO,
+  abs,
+  add,
+  divide,
+  formatFraction,
+  isInteger,
+  isNegative,
+  isOne,
+  isZero,
+  lcm,
+  multiply,
+  negate,
+  paren,
+  ratio,
+  subtract,
+  toFraction,
+  toNumber,
+} from './fraction';
+import type { SolutionType } from './linearSystem';
+import { Step, step } from './steps';
+import { decimalSeparator, getMessages, parseLocaleNumber } from '../i18n';
+
+export type Matrix = Fraction[][];
+
+export type MatrixOperation = 'determinant' | 'inverse' | 'transpose' | 'product' | 'rank' | 'echelon' | 'eigen';
+
+export const MATRIX_OPERATIONS: MatrixOperation[] = ['determinant', 'inverse', 'transpose', 'product', 'rank', 'echelon', 'eigen'];
+
+export type DeterminantMethod = 'rowReduction' | 'cofactor';
+
+export const DETERMINANT_METHODS: DeterminantMethod[] = ['rowReduction', 'cofactor'];
+
+export interface MatrixResult {
+  // Opération appliquée, écrite avec les matrices : det [[1, 2], [3, 4]]
+  equation: string;
+  result: string;
+  steps: Step[];
+  solutionType: SolutionType;
+}
+
+// Saisie enregistrée dans l'historique, relue pour recharger la grille
+export interface MatrixInput {
+  operation: MatrixOperation;
+  method: DeterminantMethod;
+  a: string[][];
+  b: string[][];
+}
+
+export const MAX_SIZE = 8;
+// Au-delà, le développement par cofacteurs compterait trop de mineurs pour être détaillé
+const MAX_COFACTOR_SIZE = 5;
+const EIGEN_DIGITS = 6;
+
+const FRACTION_CELL = /^[-+]?\d+\s*\/\s*\d+$/;
+
+// Cellule saisie : entier, décimal dans la langue active ou fraction a/b
+const parseCell = (text: string): Fraction | null => {
+  const trimmed = text.trim();
+  if (FRACTION_CELL.test(trimmed)) {
+    const [numerator, denominator] = trimmed.split('/').map(Number);
+    return denominator === 0 ? null : ratio(numerator, denominator);
+  }
+  const value = parseLocaleNumber(trimmed);
+  return value === null ? null : toFraction(value);
+};
+
+export const parseMatrix = (cells: string[][], name: string): Matrix => {
+  const t = getMessages().matrix;
+  if (cells.length === 0 || cells[0].length === 0) throw new Error(t.emptyMatrix(name));
+  return cells.map((row, r) => row.map((cell, c) => {
+    if (cell.trim() === '') throw new Error(t.emptyCell(name, r + 1, c + 1));
+    const value = parseCell(cell);
+    if (value === null) throw new Error(t.invalidCell(name, r + 1, c + 1, cell));
+    return value;
+  }));
+};
+
+export const formatMatrix = (matrix: Matrix): string =>
+  `[${matrix.map(row => `[${row.map(formatFraction).join(', ')}]`).join(', ')}]`;
+
+// [A | B] dans la notation des matrices augmentées du résolveur de systèmes
+const formatAugmented = (matrix: Matrix, width: number): string =>
+  matrix
+    .map(row => `[${row.slice(0, width).map(formatFraction).join(', ')} | ${row.slice(width).map(formatFraction).join(', ')}]`)
+    .join(' ; ');
+
+const formatNumber = (value: number): string => {
+  const rounded = Number(value.toPrecision(EIGEN_DIGITS));
+  return String(Object.is(rounded, -0) ? 0 : rounded).replace('.', decimalSeparator());
+};
+
+const identity = (size: number): Matrix =>
+  Array.from({ length: size }, (_, r) => Array.from({ length: size }, (_, c) => (r === c ? ONE : ZERO)));
+
+const isSquare = (matrix: Matrix) => matrix.every(row => row.length === matrix.length);
+
+const requireSquare = (matrix: Matrix, name: string) => {
+  if (!isSquare(matrix)) throw new Error(getMessages().matrix.squareRequired(name, matrix.length, matrix[0].length));
+};
+
+const transpose = (matrix: Matrix): Matrix => matrix[0].map((_, c) => matrix.map(row => row[c]));
+
+const multiplyMatrices = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, c) => row.reduce((sum, value, k) => add(sum, multiply(value, b[k][c])), ZERO)));
+
+// Coefficient devant une ligne dans une opération élémentaire : 2·L1, (1/2)·L1, L1
+const multiplier = (factor: Fraction): string => {
+  const magnitude = abs(factor);
+  if (isOne(magnitude)) return '';
+  return isInteger(magnitude) ? `${formatFraction(magnitude)}·` : `(${formatFraction(magnitude)})·`;
+};
+
+interface Reduction {
+  matrix: Matrix;
+  // Colonne du pivot de chaque ligne non nulle, dans l'ordre
+  pivots: number[];
+  swaps: number;
+}
+
+// Élimination de Gauss sur les columns premières colonnes, chaque opération étant notée comme dans le
+// résolveur de systèmes. Réduite : pivots ramenés à 1 et colonnes vidées au-dessus comme au-dessous
+const rowReduce = (input: Matrix, columns: number, reduced: boolean, steps: Step[], format: (matrix: Matrix) => string): Reduction => {
+  const row = getMessages().system.row;
+  const matrix = input.map(cells => [...cells]);
+  const pivots: number[] = [];
+  let swaps = 0;
+  let current = 0;
+  for (let col = 0; col < columns && current < matrix.length; col++) {
+    const pivot = matrix.findIndex((cells, i) => i >= current && !isZero(cells[col]));
+    if (pivot === -1) continue;
+    if (pivot !== current) {
+      [matrix[current], matrix[pivot]] = [matrix[pivot], matrix[current]];
+      swaps++;
+      steps.push(step(`${row}${current + 1} ↔ ${row}${pivot + 1}`, format(matrix)));
+    }
+    const pivotValue = matrix[current][col];
+    if (reduced && !isOne(pivotValue)) {
+      matrix[current] = matrix[current].map(value => divide(value, pivotValue));
+      steps.push(step(`${row}${current + 1} ← ${row}${current + 1} / ${paren(pivotValue)}`, format(matrix)));
+    }
+    for (let r = reduced ? 0 : current + 1; r < matrix.length; r++) {
+      if (r === current || isZero(matrix[r][col])) continue;
+      const factor = divide(matrix[r][col], matrix[current][col]);
+      matrix[r] = matrix[r].map((value, c) => subtract(value, multiply(factor, matrix[current][c])));
+      const operation = `${isNegative(factor) ? '+' : '−'} ${multiplier(factor)}${row}${current + 1}`;
+      steps.push(step(`${row}${r + 1} ← ${row}${r + 1} ${operation}`, format(matrix)));
+    }
+    pivots.push(col);
+    current++;
+  }
+  return { matrix, pivots, swaps };
+};
+
+const minor = (matrix: Matrix, row: number, col: number): Matrix =>
+  matrix.filter((_, r) => r !== row).map(cells => cells.filter((_, c) => c !== col));
+
+const cofactorDeterminant = (matrix: Matrix): Fraction => {
+  if (matrix.length === 1) return matrix[0][0];
+  return matrix[0].reduce((sum, value, col) => {
+    if (isZero(value)) return sum;
+    const term = multiply(value, cofactorDeterminant(minor(matrix, 0, col)));
+    return col % 2 === 0 ? add(sum, term) : subtract(sum, term);
+  }, ZERO);
+};
+
+// Somme signée a1·b1 - a2·b2 + … en parenthésant les facteurs négatifs ou fractionnaires
+const signedSum = (terms: { sign: 1 | -1; text: string }[]): string =>
+  terms.map(({ sign, text }, i) => (i === 0 ? `${sign < 0 ? '-' : ''}${text}` : ` ${sign < 0 ? '-' : '+'} ${text}`)).join('') || '0';
+
+const determinantByCofactors = (matrix: Matrix, steps: Step[]): Fraction => {
+  const t = getMessages().matrix;
+  const size = matrix.length;
+  if (size > MAX_COFACTOR_SIZE) throw new Error(t.cofactorTooLarge(MAX_COFACTOR_SIZE));
+  if (size === 1) return matrix[0][0];
+  if (size === 2) {
+    const [[a, b], [c, d]] = matrix;
+    const value = subtract(multiply(a, d), multiply(b, c));
+    steps.push(step(t.twoByTwo, `${paren(a)}·${paren(d)} - ${paren(b)}·${paren(c)} = ${formatFraction(value)}`));
+    return value;
+  }
+  // La ligne qui compte le plus de zéros demande le moins de mineurs
+  const zeros = matrix.map(row => row.filter(isZero).length);
+  const line = zeros.indexOf(Math.max(...zeros));
+  const entries = matrix[line]
+    .map((value, col) => ({ value, col, sign: ((line + col) % 2 === 0 ? 1 : -1) as 1 | -1 }))
+    .filter(({ value }) => !isZero(value));
+  steps.push(step(
+    t.cofactorExpansion(line + 1),
+    `det = ${signedSum(entries.map(({ value, col, sign }) => ({ sign, text: `${paren(value)}·det ${formatMatrix(minor(matrix, line, col))}` })))}`
+  ));
+  const minors = entries.map(({ value, col, sign }) => {
+    const determinant = cofactorDeterminant(minor(matrix, line, col));
+    steps.push(step(t.minor(line + 1, col + 1), `det ${formatMatrix(minor(matrix, line, col))} = ${formatFraction(determinant)}`));
+    return { value, sign, determinant };
+  });
+  const value = minors.reduce(
+    (sum, { value, sign, determinant }) => add(sum, multiply(sign > 0 ? value : negate(value), determinant)),
+    ZERO
+  );
+  steps.push(step(
+    t.cofactorSum,
+    `det = ${signedSum(minors.map(({ value, sign, determinant }) => ({ sign, text: `${paren(value)}·${paren(determinant)}` })))} = ${formatFraction(value)}`
+  ));
+  return value;
+};
+
+const determinantByReduction = (matrix: Matrix, steps: Step[]): Fraction => {
+  const t = getMessages().matrix;
+  const { matrix: reduced, pivots, swaps } = rowReduce(matrix, matrix.length, false, steps, formatMatrix);
+  if (pivots.length < matrix.length) {
+    steps.push(step(t.zeroPivot));
+    return ZERO;
+  }
+  const diagonal = reduced.map((row, i) => row[i]);
+  const product = diagonal.reduce((value, entry) => multiply(value, entry), ONE);
+  const value = swaps % 2 === 0 ? product : negate(product);
+  steps.push(step(
+    t.diagonalProduct(swaps),
+    `det = ${swaps % 2 === 0 ? '' : '-'}${diagonal.map(paren).join('·')} = ${formatFraction(value)}`
+  ));
+  return value;
+};
+
+const determinant = (a: Matrix, method: DeterminantMethod): MatrixResult => {
+  const t = getMessages().matrix;
+  requireSquare(a, 'A');
+  const steps: Step[] = [step(t.methods[method])];
+  const value = method === 'cofactor' ? determinantByCofactors(a, steps) : determinantByReduction(a, steps);
+  if (isZero(value)) steps.push(step(t.singular));
+  return { equation: `det ${formatMatrix(a)}`, result: `det A = ${formatFraction(value)}`, steps, solutionType: 'unique' };
+};
+
+// Gauss-Jordan sur [A | I] : à gauche on obtient I, à droite l'inverse
+const inverse = (a: Matrix): MatrixResult => {
+  const t = getMessages().matrix;
+  requireSquare(a, 'A');
+  const size = a.length;
+  const equation = `${formatMatrix(a)}^(-1)`;
+  const augmented = a.map((row, r) => [...row, ...identity(size)[r]]);
+  const format = (matrix: Matrix) => formatAugmented(matrix, size);
+  const steps: Step[] = [step(t.augmentedIdentity, format(augmented))];
+  const { matrix, pivots } = rowReduce(augmented, size, true, steps, format);
+  if (pivots.length < size) {
+    steps.push(step(t.notInvertible(pivots.length, size)));
+    return { equation, result: t.noInverse, steps, solutionType: 'none' };
+  }
+  const result = matrix.map(row => row.slice(size));
+  steps.push(step(t.inverseRead, `A^(-1) = ${formatMatrix(result)}`));
+  return { equation, result: `A^(-1) = ${formatMatrix(result)}`, steps, solutionType: 'unique' };
+};
+
+const transposition = (a: Matrix): MatrixResult => {
+  const t = getMessages().matrix;
+  const result = transpose(a);
+  return {
+    equation: `${formatMatrix(a)}^T`,
+    result: `A^T = ${formatMatrix(result)}`,
+    steps: [step(t.transposeRule(a.length, a[0].length), `A^T = ${formatMatrix(result)}`)],
+    solutionType: 'unique'
+  };
+};
+
+const product = (a: Matrix, b: Matrix): MatrixResult => {
+  const t = getMessages().matrix;
+  if (a[0].length !== b.length) throw new Error(t.productSizes(a.length, a[0].length, b.length, b[0].length));
+  const result = multiplyMatrices(a, b);
+  const steps: Step[] = [step(t.productSize(a.length, a[0].length, b[0].length))];
+  // Chaque coefficient est le produit scalaire d'une ligne de A par une colonne de B
+  result.forEach((row, r) => row.forEach((value, c) => {
+    const terms = a[r].map((entry, k) => `${paren(entry)}·${paren(b[k][c])}`).join(' + ');
+    steps.push(step(t.productEntry(r + 1, c + 1), `${terms} = ${formatFraction(value)}`));
+  }));
+  return {
+    equation: `${formatMatrix(a)} × ${formatMatrix(b)}`,
+    result: `AB = ${formatMatrix(result)}`,
+    steps,
+    solutionType: 'unique'
+  };
+};
+
+const rank = (a: Matrix): MatrixResult => {
+  const t = getMessages().matrix;
+  const steps: Step[] = [step(t.echelonFirst)];
+  const { matrix, pivots } = rowReduce(a, a[0].length, false, steps, formatMatrix);
+  steps.push(step(t.rankRead(pivots.length), formatMatrix(matrix)));
+  return { equation: `${t.rankOf} ${formatMatrix(a)}`, result: `${t.rankOf} A = ${pivots.length}`, steps, solutionType: 'unique' };
+};
+
+const echelon = (a: Matrix): MatrixResult => {
+  const t = getMessages().matrix;
+  const steps: Step[] = [];
+  const { matrix, pivots } = rowReduce(a, a[0].length, false, steps, formatMatrix);
+  if (steps.length === 0) steps.push(step(t.alreadyEchelon));
+  steps.push(step(t.pivotColumns(pivots.map(col => col + 1).join(', ') || '∅'), formatMatrix(matrix)));
+  return { equation: `${t.echelonOf} ${formatMatrix(a)}`, result: formatMatrix(matrix), steps, solutionType: 'unique' };
+};
+
+// Polynôme caractéristique det(λI - A) par l'algorithme de Faddeev-LeVerrier, en fractions exactes ;
+// coefficients du degré 0 au degré n
+const characteristicPolynomial = (a: Matrix): Fraction[] => {
+  const size = a.length;
+  const coefficients = new Array<Fraction>(size + 1).fill(ZERO);
+  coefficients[size] = ONE;
+  let m: Matrix = a.map(row => row.map(() => ZERO));
+  for (let k = 1; k <= size; k++) {
+    m = multiplyMatrices(a, m).map((row, r) => row.map((value, c) => (r === c ? add(value, coefficients[size - k + 1]) : value)));
+    const trace = multiplyMatrices(a, m).reduce((sum, row, i) => add(sum, row[i]), ZERO);
+    coefficients[size - k] = divide(negate(trace), ratio(k, 1));
+  }
+  return coefficients;
+};
+
+const formatPolynomial = (coefficients: Fraction[], variable: string): string => {
+  const terms = coefficients
+    .map((coefficient, degree) => ({ coefficient, degree }))
+    .filter(({ coefficient }) => !isZero(coefficient))
+    .reverse()
+    .map(({ coefficient, degree }) => {
+      const power = degree === 0 ? '' : degree === 1 ? variable : `${variable}^${degree}`;
+      const magnitude = abs(coefficient);
+      if (!power) return { sign: (isNegative(coefficient) ? -1 : 1) as 1 | -1, text: formatFraction(magnitude) };
+      const body = isOne(magnitude) ? power : `${isInteger(magnitude) ? formatFraction(magnitude) : `(${formatFraction(magnitude)})`}${power}`;
+      return { sign: (isNegative(coefficient) ? -1 : 1) as 1 | -1, text: body };
+    });
+  return signedSum(terms);
+};
+
+const evaluatePolynomial = (coefficients: Fraction[], x: Fraction): Fraction =>
+  coefficients.reduceRight((sum, coefficient) => add(multiply(sum, x), coefficient), ZERO);
+
+// Base du noyau de A - λI, à coefficients entiers ; λ est une valeur propre exacte
+const exactEigenvectors = (a: Matrix, lambda: Fraction): Matrix => {
+  const size = a.length;
+  const shifted = a.map((row, r) => row.map((value, c) => (r === c ? subtract(value, lambda) : value)));
+  const { matrix, pivots } = rowReduce(shifted, size, true, [], formatMatrix);
+  const free = Array.from({ length: size }, (_, col) => col).filter(col => !pivots.includes(col));
+  return free.map(freeCol => {
+    const vector = new Array<Fraction>(size).fill(ZERO);
+    vector[freeCol] = ONE;
+    pivots.forEach((col, row) => {
+      vector[col] = negate(matrix[row][freeCol]);
+    });
+    const scale = vector.reduce((multiple, value) => lcm(multiple, value.d), 1);
+    return vector.map(value => multiply(value, ratio(scale, 1)));
+  });
+};
+
+interface ComplexValue {
+  re: number;
+  im: number;
+}
+
+const toComplex = (value: unknown): ComplexValue =>
+  typeof value === 'number' ? { re: value, im: 0 } : { re: (value as ComplexValue).re, im: (value as ComplexValue).im };
+
+const formatComplex = ({ re, im }: ComplexValue): string => {
+  if (Math.abs(im) < 1e-12) return formatNumber(re);
+  const imaginary = `${Math.abs(im) === 1 ? '' : formatNumber(Math.abs(im))}i`;
+  if (Math.abs(re) < 1e-12) return `${im < 0 ? '-' : ''}${imaginary}`;
+  return `${formatNumber(re)} ${im < 0 ? '-' : '+'} ${imaginary}`;
+};
+
+const column = (cells: string[]) => `[${cells.map(cell => `[${cell}]`).join(', ')}]`;
+
+// Vecteur numérique ramené à une composante de plus grand module égale à 1
+const normalizeVector = (vector: ComplexValue[]): string[] => {
+  const largest = vector.reduce((best, value) => (Math.hypot(value.re, value.im) > Math.hypot(best.re, best.im) ? value : best));
+  const norm = largest.re ** 2 + largest.im ** 2;
+  if (norm === 0) return vector.map(formatComplex);
+  // v / largest = v · conj(largest) / |largest|²
+  return vector.map(({ re, im }) => formatComplex({
+    re: (re * largest.re + im * largest.im) / norm,
+    im: (im * largest.re - re * largest.im) / norm
+  }));
+};
+
+// Écriture exacte probable d'une valeur propre réelle ; null si elle n'en a pas de raisonnable
+const rationalCandidate = (value: number): Fraction | null => {
+  if (Math.abs(value) < 1e-10) return ZERO;
+  try {
+    return toFraction(Number(value.toPrecision(10)));
+  } catch {
+    return null;
+  }
+};
+
+const eigen = (a: Matrix): MatrixResult => {
+  const t = getMessages().matrix;
+  requireSquare(a, 'A');
+  const polynomial = characteristicPolynomial(a);
+  const steps: Step[] = [step(t.characteristicPolynomial, `det(λI - A) = ${formatPolynomial(polynomial, 'λ')}`)];
+  let decomposition: { values: unknown; eigenvectors?: { value: unknown; vector: unknown }[] };
+  try {
+    decomposition = eigs(a.map(row => row.map(toNumber))) as unknown as typeof decomposition;
+  } catch (err) {
+    throw new Error(t.eigenFailed(err instanceof Error ? err.message : ''));
+  }
+  const values = (decomposition.values as unknown[]).map(toComplex);
+  const vectors = (decomposition.eigenvectors ?? []).map(({ value, vector }) => ({
+    value: toComplex(value),
+    vector: (vector as unknown[]).map(toComplex)
+  }));
+  // Valeurs propres distinctes avec leur multiplicité algébrique
+  const distinct: { value: ComplexValue; multiplicity: number }[] = [];
+  values.forEach(value => {
+    const existing = distinct.find(item => Math.hypot(item.value.re - value.re, item.value.im - value.im) < 1e-9);
+    if (existing) existing.multiplicity++;
+    else distinct.push({ value, multiplicity: 1 });
+  });
+  distinct.sort((x, y) => x.value.re - y.value.re || x.value.im - y.value.im);
+
+  // Valeur propre rationnelle, racine exacte du polynôme : écrite en fraction, avec des vecteurs propres exacts
+  const labelled = distinct.map(({ value, multiplicity }) => {
+    const candidate = Math.abs(value.im) < 1e-12 ? rationalCandidate(value.re) : null;
+    const exact = candidate && isZero(evaluatePolynomial(polynomial, candidate)) ? candidate : null;
+    return { value, multiplicity, exact, label: exact ? formatFraction(exact) : formatComplex(value) };
+  });
+
+  labelled.forEach(({ value, multiplicity, exact, label }) => {
+    steps.push(step(t.eigenvalue(multiplicity), `λ = ${label}`));
+    if (exact) {
+      exactEigenvectors(a, exact).forEach(vector => {
+        steps.push(step(t.eigenvector(label), `v = ${column(vector.map(formatFraction))}`));
+      });
+      return;
+    }
+    vectors
+      .filter(item => Math.hypot(item.value.re - value.re, item.value.im - value.im) < 1e-9)
+      .forEach(item => steps.push(step(t.approximateEigenvector(label), `v ≈ ${column(normalizeVector(item.vector))}`)));
+  });
+  const real = distinct.every(({ value }) => Math.abs(value.im) < 1e-12);
+  if (!real) steps.push(step(t.complexEigenvalues));
+  return {
+    equation: `${t.eigenOf} ${formatMatrix(a)}`,
+    result: `λ ∈ {${labelled.map(({ label }) => label).join(' ; ')}}`,
+    steps,
+    solutionType: distinct.length > 1 ? 'multiple' : 'unique'
+  };
+};
+
+// Applique l'opération choisie ; B ne sert qu'au produit
+export const runMatrixOperation = (input: MatrixInput): MatrixResult => {
+  const a = parseMatrix(input.a, 'A');
+  switch (input.operation) {
+    case 'determinant': return determinant(a, input.method);
+    case 'inverse': return inverse(a);
+    case 'transpose': return transposition(a);
+    case 'product': return product(a, parseMatrix(input.b, 'B'));
+    case 'rank': return rank(a);
+    case 'echelon': return echelon(a);
+    case 'eigen': return eigen(a);
+  }
+};
+
+const isOperation = (value: unknown): value is MatrixOperation =>
+  typeof value === 'string' && (MATRIX_OPERATIONS as string[]).includes(value);
+
+const isGrid = (value: unknown): value is string[][] =>
+  Array.isArray(value) && value.length > 0 && value.every(row => Array.isArray(row) && row.every(cell => typeof cell === 'string'));
+
+// Relit la saisie d'une entrée d'historique ; null si elle ne vient pas de l'onglet Matrices
+export const parseMatrixInput = (text: string): MatrixInput | null => {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null) return null;
+    const { operation, method, a, b } = parsed as Record<string, unknown>;
+    if (!isOperation(operation) || !isGrid(a)) return null;
+    return {
+      operation,
+      method: method === 'cofactor' ? 'cofactor' : 'rowReduction',
+      a,
+      b: isGrid(b) ? b : a
+    };
+  } catch {
+    return null;
+  }
+};
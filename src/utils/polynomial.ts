@@ -0,0 +1,156 @@
+import { Term, cleanNumber } from './expressionParser';
+import { Fraction, ZERO, add, isZero, multiply, ratio, toNumber } from './fraction';
+
+// Coefficients exacts rangés par degré croissant : [a0, a1, a2, ...]
+export type Polynomial = Fraction[];
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const fromTerms = (terms: Term[]): Polynomial => {
+  const coefficients: Polynomial = [];
+  terms.forEach(({ coefficient, degree }) => {
+    while (coefficients.length <= degree) coefficients.push(ZERO);
+    coefficients[degree] = add(coefficients[degree], coefficient);
+  });
+  return trim(coefficients);
+};
+
+export const toTerms = (p: Polynomial): Term[] =>
+  p
+    .map((coefficient, degree) => ({ coefficient, degree }))
+    .filter(t => !isZero(t.coefficient))
+    .reverse();
+
+export const trim = (p: Polynomial): Polynomial => {
+  const result = [...p];
+  while (result.length > 1 && isZero(result[result.length - 1])) result.pop();
+  return result;
+};
+
+export const degree = (p: Polynomial): number => trim(p).length - 1;
+
+export const evaluate = (p: Polynomial, x: Fraction): Fraction =>
+  p.reduceRight((acc, coefficient) => add(multiply(acc, x), coefficient), ZERO);
+
+// Division synthétique de p par (x - r) ; le reste est ignoré
+export const divideByRoot = (p: Polynomial, r: Fraction): Polynomial => {
+  const n = p.length - 1;
+  const quotient: Polynomial = new Array(n).fill(ZERO);
+  let carry = ZERO;
+  for (let i = n; i >= 1; i--) {
+    carry = add(multiply(carry, r), p[i]);
+    quotient[i - 1] = carry;
+  }
+  return quotient;
+};
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  let x = a < 0n ? -a : a;
+  let y = b < 0n ? -b : b;
+  while (y !== 0n) [x, y] = [y, x % y];
+  return x;
+};
+
+// Multiplie par le PPCM des dénominateurs pour obtenir des coefficients entiers premiers entre eux
+export const toIntegerCoefficients = (p: Polynomial): bigint[] => {
+  const denominator = p.reduce((acc, f) => {
+    const d = BigInt(f.d);
+    return (acc * d) / gcd(acc, d);
+  }, 1n);
+  const integers = p.map(f => (BigInt(f.s) * BigInt(f.n) * denominator) / BigInt(f.d));
+  const common = integers.reduce((acc, c) => gcd(acc, c), 0n) || 1n;
+  return integers.map(c => c / common);
+};
+
+const divisors = (value: bigint): bigint[] => {
+  const n = value < 0n ? -value : value;
+  const result: bigint[] = [];
+  for (let i = 1n; i * i <= n; i++) {
+    if (n % i === 0n) {
+      result.push(i);
+      if (i * i !== n) result.push(n / i);
+    }
+  }
+  return result.sort((a, b) => (a < b ? -1 : 1));
+};
+
+// Théorème des racines rationnelles : p divise a0 et q divise an
+export const rationalRootCandidates = (integers: bigint[]): Fraction[] => {
+  const constant = integers[0];
+  const leading = integers[integers.length - 1];
+  const seen = new Set<string>();
+  const candidates: Fraction[] = [];
+  divisors(constant).forEach(p => {
+    divisors(leading).forEach(q => {
+      const g = gcd(p, q);
+      [p / g, -p / g].forEach(num => {
+        const key = `${num}/${q / g}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push(ratio(Number(num), Number(q / g)));
+        }
+      });
+    });
+  });
+  return candidates;
+};
+
+const multiplyComplex = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re
+});
+
+const divideComplex = (a: Complex, b: Complex): Complex => {
+  const denominator = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / denominator,
+    im: (a.im * b.re - a.re * b.im) / denominator
+  };
+};
+
+const evaluateComplex = (p: number[], z: Complex): Complex =>
+  p.reduceRight<Complex>((acc, coefficient) => {
+    const product = multiplyComplex(acc, z);
+    return { re: product.re + coefficient, im: product.im };
+  }, { re: 0, im: 0 });
+
+// Méthode de Durand-Kerner : approche simultanément toutes les racines complexes d'un polynôme
+// à coefficients décimaux, rangés par degré croissant
+export const approximateRoots = (coefficients: number[], maxIterations = 1000, tolerance = 1e-14): Complex[] => {
+  let n = coefficients.length - 1;
+  while (n > 0 && coefficients[n] === 0) n--;
+  const leading = coefficients[n];
+  const monic = coefficients.slice(0, n + 1).map(c => c / leading);
+  const seed: Complex = { re: 0.4, im: 0.9 };
+  let roots: Complex[] = [];
+  let power: Complex = { re: 1, im: 0 };
+  for (let i = 0; i < n; i++) {
+    roots.push(power);
+    power = multiplyComplex(power, seed);
+  }
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let maxChange = 0;
+    roots = roots.map((root, i) => {
+      const denominator = roots.reduce<Complex>(
+        (acc, other, j) => (i === j ? acc : multiplyComplex(acc, { re: root.re - other.re, im: root.im - other.im })),
+        { re: 1, im: 0 }
+      );
+      const delta = divideComplex(evaluateComplex(monic, root), denominator);
+      maxChange = Math.max(maxChange, Math.hypot(delta.re, delta.im));
+      return { re: root.re - delta.re, im: root.im - delta.im };
+    });
+    if (maxChange < tolerance) break;
+  }
+
+  return roots.map(({ re, im }) => ({
+    re: cleanNumber(re),
+    im: Math.abs(im) < 1e-9 ? 0 : cleanNumber(im)
+  }));
+};
+
+export const durandKerner = (p: Polynomial, maxIterations = 1000, tolerance = 1e-14): Complex[] =>
+  approximateRoots(trim(p).map(toNumber), maxIterations, tolerance);
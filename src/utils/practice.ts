@@ -0,0 +1,153 @@
+import {
+  VARIABLE,
+  coefficientOf,
+  collectTerms,
+  degreeOf,
+  formatTerms,
+  negateTerms,
+  normalizeInput,
+  parseSide,
+} from './expressionParser';
+import { Fraction, abs, compare, divide, formatFraction, isOne, isZero, negate, ratio } from './fraction';
+import { solveWithSteps } from './equationSolver';
+import { Step } from './steps';
+import { getMessages } from '../i18n';
+
+export type Difficulty = 'oneStep' | 'twoStep' | 'bothSides' | 'parentheses' | 'fractions';
+
+export const DIFFICULTIES: Difficulty[] = ['oneStep', 'twoStep', 'bothSides', 'parentheses', 'fractions'];
+
+// Verdict sur une étape saisie, comparée à la précédente
+export type StepVerdict = 'solved' | 'progress' | 'noProgress' | 'notEquivalent';
+
+export interface StepCheck {
+  verdict: StepVerdict;
+  message: string;
+}
+
+// Points d'un exercice résolu : 10, moins 2 par indice et 1 par étape refusée, au moins 1
+export const MAX_POINTS = 10;
+
+export const exercisePoints = (hints: number, mistakes: number): number =>
+  Math.max(1, MAX_POINTS - 2 * hints - mistakes);
+
+type Random = () => number;
+
+const integer = (random: Random, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+// Entier non nul, différent de ±1 si demandé (un coefficient 1 rendrait l'étape triviale)
+const coefficient = (random: Random, max: number, allowOne = false): number => {
+  const value = integer(random, 1, max) * (random() < 0.5 ? -1 : 1);
+  return !allowOne && Math.abs(value) === 1 ? value * 2 : value;
+};
+
+// ax + b, écrit comme le ferait le solveur (2x - 3 plutôt que 2x + -3)
+const linear = (a: number, b: number): string =>
+  formatTerms(collectTerms([{ coefficient: ratio(a, 1), degree: 1 }, { coefficient: ratio(b, 1), degree: 0 }]));
+
+// Exercice à solution entière, pour que la démarche reste le sujet plutôt que le calcul
+export const generateExercise = (difficulty: Difficulty, random: Random = Math.random): string => {
+  const solution = coefficient(random, 9, true);
+  switch (difficulty) {
+    case 'oneStep': {
+      if (random() < 0.5) {
+        const b = coefficient(random, 12, true);
+        return `${linear(1, b)} = ${solution + b}`;
+      }
+      const a = coefficient(random, 9);
+      return `${linear(a, 0)} = ${a * solution}`;
+    }
+    case 'twoStep': {
+      const a = coefficient(random, 9);
+      const b = coefficient(random, 15, true);
+      return `${linear(a, b)} = ${a * solution + b}`;
+    }
+    case 'bothSides': {
+      const a = coefficient(random, 9);
+      let c = coefficient(random, 9, true);
+      if (c === a) c = -c;
+      const b = coefficient(random, 12, true);
+      return `${linear(a, b)} = ${linear(c, a * solution + b - c * solution)}`;
+    }
+    case 'parentheses': {
+      const a = coefficient(random, 6);
+      const b = coefficient(random, 9, true);
+      if (random() < 0.5) return `${a}(${linear(1, b)}) = ${a * (solution + b)}`;
+      let c = coefficient(random, 6, true);
+      if (c === a) c = -c;
+      return `${a}(${linear(1, b)}) = ${linear(c, a * (solution + b) - c * solution)}`;
+    }
+    case 'fractions': {
+      const d = integer(random, 2, 6);
+      const k = coefficient(random, 6, true);
+      const b = coefficient(random, 9, true);
+      // x = dk - b ou x = d(k + b) : la division tombe juste
+      if (random() < 0.5) return `(${linear(1, b)})/${d} = ${k}`;
+      return `${VARIABLE}/${d} ${b < 0 ? '-' : '+'} ${Math.abs(b)} = ${k + b}`;
+    }
+  }
+};
+
+interface Sides {
+  left: string;
+  right: string;
+}
+
+const splitEquation = (equation: string): Sides => {
+  const t = getMessages().equation;
+  const clean = normalizeInput(equation).replace(/\s+/g, '');
+  if (!clean.includes('=')) throw new Error(t.missingEquals);
+  const sides = clean.split('=');
+  if (sides.length !== 2 || !sides[0] || !sides[1]) throw new Error(t.exactlyOneEquals);
+  return { left: sides[0], right: sides[1] };
+};
+
+type SolutionSet = { kind: 'root'; value: Fraction } | { kind: 'all' } | { kind: 'none' };
+
+// Ensemble des solutions de l'équation du premier degré, lu sur gauche − droite = ax + b
+const solutionSet = ({ left, right }: Sides): SolutionSet => {
+  const difference = collectTerms([...parseSide(left).collected, ...negateTerms(parseSide(right).collected)]);
+  if (degreeOf(difference) > 1) throw new Error(getMessages().practice.linearOnly);
+  const a = coefficientOf(difference, 1);
+  const b = coefficientOf(difference, 0);
+  if (!isZero(a)) return { kind: 'root', value: divide(negate(b), a) };
+  return isZero(b) ? { kind: 'all' } : { kind: 'none' };
+};
+
+const sameSolutions = (a: SolutionSet, b: SolutionSet): boolean =>
+  a.kind === b.kind && (a.kind !== 'root' || b.kind !== 'root' || compare(a.value, b.value) === 0);
+
+// Termes après développement, coefficients de x autres que ±1, parenthèses et divisions :
+// chaque étape utile fait baisser ce compte
+const complexity = ({ left, right }: Sides): number => {
+  const terms = [...parseSide(left).expanded, ...parseSide(right).expanded];
+  const scaled = terms.filter(({ coefficient, degree }) => degree > 0 && !isOne(abs(coefficient))).length;
+  return terms.length + scaled + (`${left}${right}`.match(/[(/]/g)?.length ?? 0);
+};
+
+// x isolé d'un côté, une constante de l'autre
+const isIsolated = ({ left, right }: Sides): boolean =>
+  (left === VARIABLE && !right.includes(VARIABLE)) || (right === VARIABLE && !left.includes(VARIABLE));
+
+// Vérifie qu'une étape est équivalente à la précédente et qu'elle rapproche de la solution ;
+// une saisie illisible lève une erreur comme dans le résolveur
+export const checkStep = (previous: string, next: string): StepCheck => {
+  const t = getMessages().practice;
+  const before = splitEquation(previous);
+  const after = splitEquation(next);
+  const expected = solutionSet(before);
+  const actual = solutionSet(after);
+  if (!sameSolutions(expected, actual)) return { verdict: 'notEquivalent', message: t.notEquivalent };
+  if (isIsolated(after) && expected.kind === 'root') {
+    return { verdict: 'solved', message: t.solved(`${VARIABLE} = ${formatFraction(expected.value)}`) };
+  }
+  if (complexity(after) < complexity(before)) return { verdict: 'progress', message: t.progress };
+  return { verdict: 'noProgress', message: t.noProgress };
+};
+
+// Étapes du résolveur à partir de l'équation courante, sans la recopie de l'équation et de ses membres
+export const hintSteps = (equation: string): Step[] => solveWithSteps(equation).steps.slice(2);
+
+// Résultat exact, enregistré dans l'historique à la fin de l'exercice
+export const exerciseResult = (equation: string): string => solveWithSteps(equation).result;
@@ -0,0 +1,126 @@
+// Fonctions de répartition des lois de Student et du khi-deux, sans dépendance externe
+
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 300;
+
+// Approximation de Lanczos de ln Γ(x)
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+export const lnGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((c, i) => {
+    sum += c / (z + i + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Fraction continue de la fonction bêta incomplète (algorithme de Lentz)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let coefficient = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + coefficient * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + coefficient / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    coefficient = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + coefficient * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + coefficient / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return result;
+};
+
+// Fonction bêta incomplète régularisée I_x(a, b)
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+// Fonction gamma incomplète régularisée P(a, x)
+export const regularizedGamma = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  if (x < a + 1) {
+    // Développement en série
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n <= MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+    }
+    return sum * Math.exp(-x + a * Math.log(x) - lnGamma(a));
+  }
+  // Fraction continue pour Q(a, x) = 1 - P(a, x)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return 1 - Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h;
+};
+
+// P(T ≤ t) pour T suivant une loi de Student à df degrés de liberté
+export const studentCdf = (t: number, df: number): number => {
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+};
+
+// Quantile de la loi de Student, obtenu par dichotomie sur la fonction de répartition
+export const studentQuantile = (p: number, df: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  let low = -1;
+  let high = 1;
+  while (studentCdf(low, df) > p) low *= 2;
+  while (studentCdf(high, df) < p) high *= 2;
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const middle = (low + high) / 2;
+    if (studentCdf(middle, df) < p) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+// P(X ≤ x) pour X suivant une loi du khi-deux à k degrés de liberté
+export const chiSquareCdf = (x: number, k: number): number => regularizedGamma(k / 2, x / 2);
+
+// P(F ≤ f) pour F suivant une loi de Fisher-Snedecor à (d1, d2) degrés de liberté
+export const fisherCdf = (f: number, d1: number, d2: number): number =>
+  f <= 0 ? 0 : regularizedBeta((d1 * f) / (d1 * f + d2), d1 / 2, d2 / 2);
@@ -0,0 +1,111 @@
+import { getMessages } from '../i18n';
+
+export interface PairedData {
+  x: number[];
+  y: number[];
+}
+
+export interface LinearRegression {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  fitted: number[];
+  residuals: number[];
+  // Écart-type des résidus (n - 2 degrés de liberté)
+  residualStandardError: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Ne conserve que les lignes où les deux colonnes sont renseignées
+export const pairValues = (xs: (number | null)[], ys: (number | null)[]): PairedData => {
+  const x: number[] = [];
+  const y: number[] = [];
+  xs.forEach((xi, i) => {
+    const yi = ys[i];
+    if (xi !== null && yi !== null && yi !== undefined) {
+      x.push(xi);
+      y.push(yi);
+    }
+  });
+  return { x, y };
+};
+
+// Coefficient de Pearson ; NaN si l'une des séries est constante
+export const pearson = (x: number[], y: number[]): number => {
+  if (x.length < 2) return NaN;
+  const mx = mean(x);
+  const my = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  x.forEach((xi, i) => {
+    covariance += (xi - mx) * (y[i] - my);
+    varianceX += (xi - mx) ** 2;
+    varianceY += (y[i] - my) ** 2;
+  });
+  if (varianceX === 0 || varianceY === 0) return NaN;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Rangs moyens : les ex æquo reçoivent la moyenne des rangs qu'ils occupent
+export const ranks = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].index] = rank;
+    start = end + 1;
+  }
+  return result;
+};
+
+export const spearman = (x: number[], y: number[]): number => pearson(ranks(x), ranks(y));
+
+// Droite des moindres carrés y = a·x + b
+export const linearRegression = (x: number[], y: number[]): LinearRegression | null => {
+  const n = x.length;
+  if (n < 2) return null;
+  const mx = mean(x);
+  const my = mean(y);
+  const sxx = x.reduce((sum, xi) => sum + (xi - mx) ** 2, 0);
+  if (sxx === 0) return null;
+  const sxy = x.reduce((sum, xi, i) => sum + (xi - mx) * (y[i] - my), 0);
+  const slope = sxy / sxx;
+  const intercept = my - slope * mx;
+  const fitted = x.map(xi => slope * xi + intercept);
+  const residuals = y.map((yi, i) => yi - fitted[i]);
+  const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+  const sst = y.reduce((sum, yi) => sum + (yi - my) ** 2, 0);
+  return {
+    slope,
+    intercept,
+    rSquared: sst === 0 ? 1 : 1 - sse / sst,
+    fitted,
+    residuals,
+    residualStandardError: n > 2 ? Math.sqrt(sse / (n - 2)) : 0
+  };
+};
+
+// Matrice de corrélation de Pearson, calculée sur les paires complètes de chaque couple de colonnes
+export const correlationMatrix = (columns: (number | null)[][]): number[][] =>
+  columns.map((a, i) => columns.map((b, j) => {
+    if (i === j) return 1;
+    const { x, y } = pairValues(a, b);
+    return pearson(x, y);
+  }));
+
+// Qualification usuelle de l'intensité d'une corrélation
+export const describeCorrelation = (r: number): string => {
+  const t = getMessages().bivariate.correlation;
+  if (Number.isNaN(r)) return t.undefinedValue;
+  const strength = Math.abs(r);
+  if (strength >= 0.9) return t.strength('veryStrong', r > 0);
+  if (strength >= 0.7) return t.strength('strong', r > 0);
+  if (strength >= 0.5) return t.strength('moderate', r > 0);
+  if (strength >= 0.3) return t.strength('weak', r > 0);
+  return t.negligible;
+};
@@ -0,0 +1,182 @@
+import Papa from 'papaparse';
+import Plotly from 'plotly.js-dist';
+import type { PlotlyHTMLElement } from 'plotly.js';
+import type { DataStats, Estimator, StatExplanation } from './statistics';
+import { csvDelimiter, formatNumber, getLocale, getMessages, localeTag } from '../i18n';
+
+export interface ReportMetadata {
+  // Nom du fichier importé, ou libellé de la saisie manuelle
+  source: string;
+  // Colonne détaillée et nombre de valeurs qu'elle contient
+  column: string;
+  observations: number;
+  rows: number;
+  estimator: Estimator;
+  date: Date;
+}
+
+export interface ReportColumn {
+  name: string;
+  stats: DataStats;
+}
+
+export interface ReportChart {
+  title: string;
+  // Image PNG encodée en data URL : le rapport HTML reste autonome
+  image: string;
+}
+
+export interface HtmlReport {
+  metadata: ReportMetadata;
+  // Colonne détaillée, avec ses indicateurs commentés
+  active: ReportColumn & { explanations: StatExplanation[] };
+  // Toutes les colonnes analysées, pour le tableau de comparaison
+  columns: ReportColumn[];
+  charts: ReportChart[];
+  // Opérations de nettoyage appliquées avant l'analyse
+  changes: string[];
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c] ?? c);
+
+// Graphiques Plotly affichés sous root, convertis en images statiques
+export const captureCharts = async (root: HTMLElement): Promise<ReportChart[]> => {
+  const plots = Array.from(root.querySelectorAll<HTMLElement>('.js-plotly-plot')) as PlotlyHTMLElement[];
+  return Promise.all(plots.map(async plot => {
+    const title = plot.layout?.title;
+    return {
+      title: typeof title === 'string' ? title : title?.text ?? '',
+      image: await Plotly.toImage(plot, { format: 'png', width: plot.clientWidth || 800, height: plot.clientHeight || 400 })
+    };
+  }));
+};
+
+const metadataEntries = (metadata: ReportMetadata): [string, string][] => [
+  ['source', metadata.source],
+  ['column', metadata.column],
+  ['observations', String(metadata.observations)],
+  ['rows', String(metadata.rows)],
+  ['estimator', metadata.estimator],
+  ['date', metadata.date.toISOString()]
+];
+
+// Export structuré : les valeurs non définies (NaN) deviennent null
+export const statsToJson = (metadata: ReportMetadata, columns: ReportColumn[]): string =>
+  JSON.stringify({ metadata: { ...metadata, date: metadata.date.toISOString() }, columns }, null, 2);
+
+// Format long (section, colonne, nom, valeur) : une statistique par ligne, les listes séparées par des espaces
+export const statsToCsv = (metadata: ReportMetadata, columns: ReportColumn[]): string => {
+  const rows: string[][] = metadataEntries(metadata).map(([name, value]) => ['metadata', '', name, value]);
+  columns.forEach(({ name: column, stats }) => {
+    Object.entries(stats).forEach(([name, value]) => {
+      if (name === 'percentiles') {
+        stats.percentiles.forEach(({ p, value: percentile }) => rows.push(['percentile', column, `P${p}`, String(percentile)]));
+      } else {
+        rows.push(['statistic', column, name, Array.isArray(value) ? value.join(' ') : String(value)]);
+      }
+    });
+  });
+  return Papa.unparse({ fields: ['section', 'column', 'name', 'value'], data: rows }, { delimiter: csvDelimiter() });
+};
+
+const STYLE = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2937; max-width: 56rem; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.5rem; }
+  h2 { font-size: 1.25rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+  th, td { padding: 0.35rem 0.75rem; border-bottom: 1px solid #f3f4f6; text-align: left; }
+  td.number, th.number { text-align: right; font-variant-numeric: tabular-nums; }
+  .meta td:first-child { color: #6b7280; width: 12rem; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; }
+  .box { background: #f9fafb; border-radius: 0.5rem; padding: 0.75rem 1rem; }
+  .box h3 { font-size: 0.95rem; margin: 0 0 0.5rem; }
+  .row { display: flex; justify-content: space-between; font-size: 0.875rem; padding: 0.15rem 0; }
+  .card { border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 0.75rem; break-inside: avoid; }
+  .card header { display: flex; justify-content: space-between; align-items: baseline; }
+  .card h3 { font-size: 1rem; margin: 0; }
+  .value { font-weight: 700; color: #2563eb; }
+  .formula { font-family: ui-monospace, monospace; background: #f3f4f6; border-radius: 0.25rem; padding: 0.25rem 0.5rem; font-size: 0.8rem; }
+  .muted { color: #6b7280; font-size: 0.875rem; }
+  figure { margin: 1rem 0; break-inside: avoid; }
+  figure img { max-width: 100%; }
+  figcaption { color: #6b7280; font-size: 0.875rem; }
+  @media print { .no-print { display: none; } body { margin: 0; } }
+`;
+
+// Rapport autonome (styles et images intégrés), prêt à être imprimé en PDF depuis le navigateur
+export const buildHtmlReport = ({ metadata, active, columns, charts, changes }: HtmlReport): string => {
+  const t = getMessages().report;
+  const analysis = getMessages().analysis;
+  const { stats } = active;
+  const format = (value: number) => escapeHtml(formatNumber(value, 2));
+  const row = (label: string, value: number) =>
+    `<div class="row"><span class="muted">${escapeHtml(label)}</span><span>${format(value)}</span></div>`;
+
+  const sections = [
+    `<h1>${escapeHtml(t.title)}</h1>`,
+    `<p class="muted no-print">${escapeHtml(t.printHint)}</p>`,
+    `<table class="meta"><tbody>${[
+      [t.source, metadata.source],
+      [t.column, metadata.column],
+      [t.observations, formatNumber(metadata.observations)],
+      [t.rows, formatNumber(metadata.rows)],
+      [t.estimator, t.estimators[metadata.estimator]],
+      [t.date, metadata.date.toLocaleString(localeTag())]
+    ].map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</tbody></table>`
+  ];
+
+  if (changes.length > 0) {
+    sections.push(`<h2>${escapeHtml(t.changes)}</h2><ol>${changes.map(change => `<li>${escapeHtml(change)}</li>`).join('')}</ol>`);
+  }
+
+  sections.push(
+    `<h2>${escapeHtml(analysis.summary)}</h2>`,
+    `<div class="grid">
+      <div class="box"><h3>${escapeHtml(analysis.centralTendency)}</h3>${row(analysis.labels.mean, stats.mean)}${row(analysis.labels.median, stats.median)}${row(analysis.labels.sum, stats.sum)}</div>
+      <div class="box"><h3>${escapeHtml(analysis.dispersion)}</h3>${row(analysis.labels.standardDeviation, stats.standardDeviation)}${row(analysis.labels.variance, stats.variance)}${row(analysis.labels.range, stats.range)}</div>
+      <div class="box"><h3>${escapeHtml(analysis.extremes)}</h3>${row(analysis.labels.min, stats.min)}${row(analysis.labels.max, stats.max)}</div>
+    </div>`
+  );
+
+  if (columns.length > 1) {
+    const keys = ['mean', 'median', 'standardDeviation', 'variance', 'q1', 'q3', 'min', 'max'] as const;
+    sections.push(
+      `<h2>${escapeHtml(analysis.comparison)}</h2>`,
+      `<table><thead><tr><th>${escapeHtml(analysis.statistic)}</th>${columns.map(column => `<th class="number">${escapeHtml(column.name)}</th>`).join('')}</tr></thead><tbody>`,
+      `<tr><td>${escapeHtml(analysis.observations)}</td>${columns.map(column => `<td class="number">${column.stats.count}</td>`).join('')}</tr>`,
+      ...keys.map(key => `<tr><td>${escapeHtml(analysis.labels[key])}</td>${columns.map(column => `<td class="number">${format(column.stats[key])}</td>`).join('')}</tr>`),
+      '</tbody></table>'
+    );
+  }
+
+  if (charts.length > 0) {
+    sections.push(
+      `<h2>${escapeHtml(t.charts)}</h2>`,
+      ...charts.map(chart => `<figure><img src="${chart.image}" alt="${escapeHtml(chart.title)}"><figcaption>${escapeHtml(chart.title)}</figcaption></figure>`)
+    );
+  }
+
+  sections.push(
+    `<h2>${escapeHtml(t.explanations)}</h2>`,
+    ...active.explanations.map(item => `<section class="card">
+      <header><h3>${escapeHtml(item.title)}</h3><span class="value">${escapeHtml(item.value)}</span></header>
+      <p class="muted">${escapeHtml(item.description)}</p>
+      <div class="formula">${escapeHtml(item.formula)}</div>
+      <p>${escapeHtml(item.interpretation)}</p>
+    </section>`)
+  );
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${t.title} – ${active.name}`)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
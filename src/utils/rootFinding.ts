@@ -0,0 +1,290 @@
+import { RealFunction, compileFunction } from './functionPlot';
+import { normalizeInput } from './expressionParser';
+import { formatDecimal } from './fraction';
+import { isInequality } from './inequality';
+import type { Root, SolveOptions, SolveResult } from './equationSolver';
+import type { SolverMode } from './history';
+import { Step, step } from './steps';
+import { decimalSeparator, getMessages } from '../i18n';
+
+export type RootMethod = 'bisection' | 'newton' | 'brent';
+
+export const ROOT_METHODS: RootMethod[] = ['bisection', 'newton', 'brent'];
+
+export const TOLERANCES = [1e-6, 1e-8, 1e-10, 1e-12];
+
+export interface NumericOptions extends SolveOptions {
+  xMin: number;
+  xMax: number;
+  method: RootMethod;
+  tolerance: number;
+}
+
+export const DEFAULT_NUMERIC_OPTIONS: NumericOptions = { xMin: -10, xMax: 10, method: 'brent', tolerance: 1e-10 };
+
+// Équation transmise au résolveur depuis un autre onglet, avec l'intervalle de recherche en mode numérique
+export interface SolveRequest {
+  mode: SolverMode;
+  equation: string;
+  interval?: Pick<NumericOptions, 'xMin' | 'xMax'>;
+}
+
+interface Iteration {
+  x: number;
+  fx: number;
+  // Demi-largeur de l'encadrement (bissection, Brent) ou |Δx| (Newton)
+  error: number;
+}
+
+interface Refinement {
+  root: number | null;
+  iterations: Iteration[];
+  // Cause de l'échec lorsque root est null
+  failure?: string;
+}
+
+// Nombre de sous-intervalles examinés pour détecter les changements de signe
+const SCAN_POINTS = 1000;
+const MAX_ITERATIONS = 100;
+// Au-delà, seules les premières et les dernières itérations sont détaillées
+const MAX_LISTED_ITERATIONS = 8;
+
+const sameSign = (a: number, b: number) => (a > 0 && b > 0) || (a < 0 && b < 0);
+
+const formatValue = (value: number, digits = 6) => formatDecimal(value, digits);
+
+// Petites grandeurs (erreurs, f(x)) en notation scientifique : 3,2·10^(-11)
+const formatScientific = (value: number): string => {
+  if (value === 0) return '0';
+  const [mantissa, exponent] = value.toExponential(2).split('e');
+  return `${mantissa.replace('.', decimalSeparator())}·10^(${Number(exponent)})`;
+};
+
+const formatBracket = (a: number, b: number) => `[${formatValue(a)} ; ${formatValue(b)}]`;
+
+// Dérivée par différence centrée, pas relatif à l'ordre de grandeur de x
+const derivative = (f: RealFunction, x: number): number => {
+  const h = 1e-7 * Math.max(1, Math.abs(x));
+  return (f(x + h) - f(x - h)) / (2 * h);
+};
+
+const bisection = (f: RealFunction, a: number, b: number, tolerance: number): Refinement => {
+  const t = getMessages().numeric;
+  const iterations: Iteration[] = [];
+  let fa = f(a);
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    const m = (a + b) / 2;
+    const fm = f(m);
+    const error = (b - a) / 2;
+    iterations.push({ x: m, fx: fm, error });
+    if (!Number.isFinite(fm)) return { root: null, iterations, failure: t.notDefined(formatValue(m)) };
+    if (fm === 0 || error <= tolerance) return { root: m, iterations };
+    if (sameSign(fa, fm)) {
+      a = m;
+      fa = fm;
+    } else {
+      b = m;
+    }
+  }
+  return { root: null, iterations, failure: t.maxIterations(MAX_ITERATIONS) };
+};
+
+// Newton part du milieu de l'encadrement ; sortir de l'encadrement est un échec
+const newton = (f: RealFunction, a: number, b: number, tolerance: number): Refinement => {
+  const t = getMessages().numeric;
+  const iterations: Iteration[] = [];
+  let x = (a + b) / 2;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    const fx = f(x);
+    const slope = derivative(f, x);
+    if (!Number.isFinite(fx)) return { root: null, iterations, failure: t.notDefined(formatValue(x)) };
+    if (!Number.isFinite(slope) || Math.abs(slope) < 1e-14) {
+      return { root: null, iterations, failure: t.zeroDerivative(formatValue(x)) };
+    }
+    const next = x - fx / slope;
+    const error = Math.abs(next - x);
+    iterations.push({ x: next, fx: f(next), error });
+    if (next < a || next > b) return { root: null, iterations, failure: t.leftBracket(formatValue(next)) };
+    x = next;
+    if (error <= tolerance) return { root: x, iterations };
+  }
+  return { root: null, iterations, failure: t.maxIterations(MAX_ITERATIONS) };
+};
+
+// Méthode de Brent : interpolation quadratique inverse ou sécante, avec repli sur la bissection
+const brent = (f: RealFunction, lower: number, upper: number, tolerance: number): Refinement => {
+  const t = getMessages().numeric;
+  const iterations: Iteration[] = [];
+  let a = lower;
+  let b = upper;
+  let fa = f(a);
+  let fb = f(b);
+  let c = b;
+  let fc = fb;
+  let d = b - a;
+  let e = d;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    if (sameSign(fb, fc)) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b;
+      b = c;
+      c = a;
+      fa = fb;
+      fb = fc;
+      fc = fa;
+    }
+    const tol = 2 * Number.EPSILON * Math.abs(b) + tolerance / 2;
+    const half = (c - b) / 2;
+    // Un zéro exact a déjà été noté comme itération, avec une erreur nulle
+    if (fb === 0 && iterations.length > 0) return { root: b, iterations };
+    if (Math.abs(half) <= tol || fb === 0) {
+      iterations.push({ x: b, fx: fb, error: fb === 0 ? 0 : Math.abs(half) });
+      return { root: b, iterations };
+    }
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * half * s;
+        q = 1 - s;
+      } else {
+        const r = fb / fc;
+        q = fa / fc;
+        p = s * (2 * half * q * (q - r) - (b - a) * (r - 1));
+        q = (q - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+      if (2 * p < Math.min(3 * half * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = half;
+        e = d;
+      }
+    } else {
+      d = half;
+      e = d;
+    }
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tol ? d : Math.sign(half) * tol;
+    fb = f(b);
+    if (!Number.isFinite(fb)) return { root: null, iterations, failure: t.notDefined(formatValue(b)) };
+    iterations.push({ x: b, fx: fb, error: fb === 0 ? 0 : Math.abs(half) });
+  }
+  return { root: null, iterations, failure: t.maxIterations(MAX_ITERATIONS) };
+};
+
+const METHODS: Record<RootMethod, (f: RealFunction, a: number, b: number, tolerance: number) => Refinement> = {
+  bisection,
+  newton,
+  brent
+};
+
+const iterationSteps = (iterations: Iteration[], digits: number): Step[] => {
+  const t = getMessages().numeric;
+  const toStep = ({ x, fx, error }: Iteration, n: number) =>
+    step(t.iteration(n + 1), `x = ${formatValue(x, digits)} ; f(x) = ${formatScientific(fx)} ; ε = ${formatScientific(error)}`);
+  if (iterations.length <= MAX_LISTED_ITERATIONS) return iterations.map(toStep);
+  const tail = iterations.length - 3;
+  return [
+    ...iterations.slice(0, 5).map(toStep),
+    step(t.skipped(tail - 5)),
+    ...iterations.slice(tail).map((iteration, i) => toStep(iteration, tail + i))
+  ];
+};
+
+// Ramène l'équation à f(x) = gauche - droite
+const toFunction = (equation: string): { expression: string; f: RealFunction } => {
+  const normalized = normalizeInput(equation);
+  if (isInequality(normalized)) throw new Error(getMessages().numeric.equationsOnly);
+  const sides = normalized.split('=').map(side => side.trim());
+  if (sides.length !== 2 || sides.some(side => side === '')) {
+    throw new Error(getMessages().equation.exactlyOneEquals);
+  }
+  const [left, right] = sides;
+  const expression = right === '0' ? left : `(${left}) - (${right})`;
+  return { expression, f: compileFunction(expression) };
+};
+
+export const solveNumericWithSteps = (equation: string, options: NumericOptions): SolveResult => {
+  const t = getMessages().numeric;
+  const { xMin, xMax, method, tolerance } = options;
+  if (!Number.isFinite(xMin) || !Number.isFinite(xMax) || xMin >= xMax) throw new Error(t.invalidInterval);
+
+  const { expression, f } = toFunction(equation);
+  // Chiffres affichés : ceux garantis par la tolérance, sauf précision demandée
+  const digits = options.precision ?? Math.min(12, Math.max(2, Math.round(-Math.log10(tolerance))));
+  const steps: Step[] = [
+    step(getMessages().equation.initial, equation),
+    step(t.function, `f(x) = ${expression}`)
+  ];
+
+  // Balayage : on note les zéros exacts et les sous-intervalles où f change de signe
+  const found: number[] = [];
+  const brackets: [number, number][] = [];
+  let previousX = xMin;
+  let previousY = f(xMin);
+  if (previousY === 0) found.push(xMin);
+  for (let i = 1; i <= SCAN_POINTS; i++) {
+    const x = xMin + (i * (xMax - xMin)) / SCAN_POINTS;
+    const y = f(x);
+    if (y === 0) found.push(x);
+    if (Number.isFinite(previousY) && Number.isFinite(y) && previousY * y < 0) brackets.push([previousX, x]);
+    previousX = x;
+    previousY = y;
+  }
+  steps.push(step(t.scan(formatBracket(xMin, xMax), SCAN_POINTS, brackets.length)));
+  found.forEach(x => steps.push(step(t.exactZero, `f(${formatValue(x, digits)}) = 0`)));
+
+  const failures: string[] = [];
+  for (const [a, b] of brackets) {
+    steps.push(step(t.refine(t.methods[method]), formatBracket(a, b)));
+    const { root, iterations, failure } = METHODS[method](f, a, b, tolerance);
+    steps.push(...iterationSteps(iterations, digits));
+    if (root === null) {
+      const message = t.failed(t.methods[method], formatBracket(a, b), failure ?? '');
+      steps.push(step(message));
+      failures.push(message);
+      continue;
+    }
+    // Un changement de signe sans zéro (1/x, tan x) fait converger vers une discontinuité
+    const value = f(root);
+    if (!Number.isFinite(value) || Math.abs(value) > Math.max(Math.abs(f(a)), Math.abs(f(b)))) {
+      steps.push(step(t.discontinuity(formatBracket(a, b))));
+      continue;
+    }
+    const reached = iterations.length > 0 ? iterations[iterations.length - 1].error : 0;
+    steps.push(step(
+      t.converged(iterations.length, formatScientific(reached), formatScientific(tolerance)),
+      `x ≈ ${formatValue(root, digits)}`
+    ));
+    found.push(root);
+  }
+
+  if (found.length === 0) {
+    // Aucune racine et au moins un échec : l'échec est la vraie réponse, pas l'absence de solution
+    if (failures.length > 0) throw new Error(failures.join(' ; '));
+    steps.push(step(t.noSignChange));
+    return { result: t.resultNone(formatBracket(xMin, xMax)), steps, roots: [], solutionType: 'none' };
+  }
+
+  found.sort((a, b) => a - b);
+  const roots: Root[] = found.map(x => ({
+    value: formatValue(x, digits),
+    re: x,
+    im: 0,
+    multiplicity: 1,
+    approximate: true
+  }));
+  const result = roots.map(root => `x ≈ ${root.value}`).join(' ; ');
+  steps.push(step(t.solutions(roots.length, formatBracket(xMin, xMax)), result));
+  return { result, steps, roots, solutionType: roots.length === 1 ? 'unique' : 'multiple' };
+};
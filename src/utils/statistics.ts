@@ -0,0 +1,203 @@
+import { quantile } from './distribution';
+import { Moments, P2Estimator, createMoments, p2Value, pushMoment } from './streamingStats';
+
+// Échantillon : dénominateur n - 1 (estimateur sans biais) ; population : dénominateur N
+export type Estimator = 'sample' | 'population';
+
+export interface Percentile {
+  p: number;
+  value: number;
+}
+
+export interface DataStats {
+  count: number;
+  mean: number;
+  median: number;
+  modes: number[];
+  standardDeviation: number;
+  min: number;
+  max: number;
+  variance: number;
+  range: number;
+  sum: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  percentiles: Percentile[];
+  coefficientOfVariation: number;
+  skewness: number;
+  kurtosis: number;
+  standardError: number;
+  iqrOutliers: number[];
+  zScoreOutliers: number[];
+  // Vrai lorsque les quantiles sont des estimations P² (fichiers très volumineux)
+  approximate: boolean;
+}
+
+// Résumé d'une colonne numérique, indépendant de l'estimateur choisi
+export interface ColumnSummary {
+  moments: Moments;
+  percentiles: Percentile[];
+  modes: number[];
+  iqrOutliers: number[];
+  zScoreOutliers: Record<Estimator, number[]>;
+  // Valeurs extrêmes comprises entre les barrières de Tukey, extrémités des moustaches
+  lowerWhisker: number;
+  upperWhisker: number;
+  approximate: boolean;
+}
+
+// Statistiques scalaires, affichables côte à côte dans un tableau
+export type NumericStat = {
+  [K in keyof DataStats]: DataStats[K] extends number ? K : never;
+}[keyof DataStats];
+
+export const PERCENTILES = [1, 5, 10, 25, 50, 75, 90, 95, 99];
+
+// Au-delà, les quantiles proviennent des estimateurs P² plutôt que d'un tri complet
+export const EXACT_QUANTILE_LIMIT = 1_000_000;
+
+// Seuil usuel du score z au-delà duquel une valeur est jugée aberrante
+export const Z_SCORE_THRESHOLD = 3;
+
+export interface StatExplanation {
+  title: string;
+  value: string;
+  formula: string;
+  description: string;
+  interpretation: string;
+}
+
+// Valeurs les plus fréquentes d'une série triée ; vide si toutes les valeurs sont distinctes
+const modesOf = (sorted: ArrayLike<number>): number[] => {
+  let modes: number[] = [];
+  let highest = 1;
+  let start = 0;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i] === sorted[start]) continue;
+    const run = i - start;
+    if (run > highest) {
+      highest = run;
+      modes = [sorted[start]];
+    } else if (run === highest && highest > 1) {
+      modes.push(sorted[start]);
+    }
+    start = i;
+  }
+  return modes;
+};
+
+const varianceOf = (moments: Moments, estimator: Estimator): number => {
+  const { count, m2 } = moments;
+  if (estimator === 'sample') return count < 2 ? NaN : m2 / (count - 1);
+  return count === 0 ? NaN : m2 / count;
+};
+
+// Seconde passe : valeurs au-delà des barrières de Tukey et des scores z, extrémités des moustaches
+const findOutliers = (values: ArrayLike<number>, moments: Moments, q1: number, q3: number) => {
+  const iqr = q3 - q1;
+  let lowerWhisker = Infinity;
+  let upperWhisker = -Infinity;
+  const deviations: Record<Estimator, number> = {
+    sample: Math.sqrt(varianceOf(moments, 'sample')),
+    population: Math.sqrt(varianceOf(moments, 'population'))
+  };
+  const iqrOutliers: number[] = [];
+  const zScoreOutliers: Record<Estimator, number[]> = { sample: [], population: [] };
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr) {
+      iqrOutliers.push(v);
+    } else {
+      lowerWhisker = Math.min(lowerWhisker, v);
+      upperWhisker = Math.max(upperWhisker, v);
+    }
+    (['sample', 'population'] as const).forEach(estimator => {
+      const deviation = deviations[estimator];
+      if (deviation > 0 && Math.abs(v - moments.mean) / deviation > Z_SCORE_THRESHOLD) {
+        zScoreOutliers[estimator].push(v);
+      }
+    });
+  }
+  const ascending = (a: number, b: number) => a - b;
+  return {
+    iqrOutliers: iqrOutliers.sort(ascending),
+    zScoreOutliers: { sample: zScoreOutliers.sample.sort(ascending), population: zScoreOutliers.population.sort(ascending) },
+    lowerWhisker: Number.isFinite(lowerWhisker) ? lowerWhisker : q1,
+    upperWhisker: Number.isFinite(upperWhisker) ? upperWhisker : q3
+  };
+};
+
+// Résume une colonne : tri exact si possible, sinon quantiles issus des estimateurs P² fournis
+export const summarize = (values: ArrayLike<number>, estimators?: P2Estimator[]): ColumnSummary => {
+  const moments = createMoments();
+  for (let i = 0; i < values.length; i++) pushMoment(moments, values[i]);
+
+  const approximate = estimators !== undefined && values.length > EXACT_QUANTILE_LIMIT;
+  let percentiles: Percentile[];
+  let modes: number[] = [];
+  if (approximate) {
+    percentiles = PERCENTILES.map((p, i) => ({ p, value: p2Value(estimators[i]) }));
+  } else {
+    const sorted = Float64Array.from(values).sort();
+    percentiles = PERCENTILES.map(p => ({ p, value: quantile(sorted, p / 100) }));
+    modes = modesOf(sorted);
+  }
+
+  const valueAt = (p: number) => percentiles.find(item => item.p === p)?.value ?? NaN;
+  return {
+    moments,
+    percentiles,
+    modes,
+    ...findOutliers(values, moments, valueAt(25), valueAt(75)),
+    approximate
+  };
+};
+
+// Coefficients d'asymétrie et d'aplatissement (excès), corrigés pour un échantillon
+const shape = (moments: Moments, estimator: Estimator) => {
+  const { count: n, m2, m3, m4 } = moments;
+  if (m2 === 0) return { skewness: NaN, kurtosis: NaN };
+  const g1 = (Math.sqrt(n) * m3) / m2 ** 1.5;
+  const g2 = (n * m4) / (m2 * m2) - 3;
+  if (estimator === 'population') return { skewness: g1, kurtosis: g2 };
+  return {
+    skewness: n > 2 ? (Math.sqrt(n * (n - 1)) / (n - 2)) * g1 : NaN,
+    kurtosis: n > 3 ? ((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * g2 + 6) : NaN
+  };
+};
+
+export const statsFromSummary = (summary: ColumnSummary, estimator: Estimator): DataStats => {
+  const { moments, percentiles } = summary;
+  const valueAt = (p: number) => percentiles.find(item => item.p === p)?.value ?? NaN;
+  const variance = varianceOf(moments, estimator);
+  const standardDeviation = Math.sqrt(variance);
+  const q1 = valueAt(25);
+  const q3 = valueAt(75);
+
+  return {
+    count: moments.count,
+    mean: moments.mean,
+    median: valueAt(50),
+    modes: summary.modes,
+    standardDeviation,
+    min: moments.min,
+    max: moments.max,
+    variance,
+    range: moments.max - moments.min,
+    sum: moments.sum,
+    q1,
+    q3,
+    iqr: q3 - q1,
+    percentiles,
+    coefficientOfVariation: moments.mean === 0 ? NaN : standardDeviation / Math.abs(moments.mean),
+    ...shape(moments, estimator),
+    standardError: standardDeviation / Math.sqrt(moments.count),
+    iqrOutliers: summary.iqrOutliers,
+    zScoreOutliers: summary.zScoreOutliers[estimator],
+    approximate: summary.approximate
+  };
+};
+
+export const computeStats = (numbers: number[], estimator: Estimator = 'sample'): DataStats =>
+  statsFromSummary(summarize(numbers), estimator);
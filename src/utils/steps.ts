@@ -0,0 +1,35 @@
+import { toLatex } from './latex';
+
+// Étape de résolution : une phrase d'explication suivie éventuellement d'une expression mathématique
+export interface Step {
+  text: string;
+  math?: string;
+}
+
+const SEPARATOR = ' : ';
+
+export const step = (text: string, math?: string): Step => (math === undefined ? { text } : { text, math });
+
+export const stepToText = ({ text, math }: Step): string => {
+  if (math === undefined) return text;
+  return text ? `${text}${SEPARATOR}${math}` : math;
+};
+
+// Inverse de stepToText, pour les étapes relues depuis un texte (ancien historique, import CSV)
+export const parseStep = (line: string): Step => {
+  const index = line.lastIndexOf(SEPARATOR);
+  return index === -1 ? step(line) : step(line.slice(0, index), line.slice(index + SEPARATOR.length));
+};
+
+const escapeLatexText = (text: string) => text.replace(/([\\{}$&#%_])/g, '\\$1');
+
+export const stepToLatex = ({ text, math }: Step): string => {
+  const label = escapeLatexText(text);
+  if (math === undefined) return label;
+  return `${label}${label ? SEPARATOR : ''}$${toLatex(math)}$`;
+};
+
+export const stepToMarkdown = ({ text, math }: Step): string => {
+  if (math === undefined) return text;
+  return `${text}${text ? SEPARATOR : ''}$${toLatex(math)}$`;
+};
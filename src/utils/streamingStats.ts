@@ -0,0 +1,121 @@
+// Accumulateurs en une seule passe, utilisables sur un flux de valeurs de taille inconnue
+
+export interface Moments {
+  count: number;
+  mean: number;
+  // Sommes des puissances des écarts à la moyenne : Σ(x - x̄)², Σ(x - x̄)³, Σ(x - x̄)⁴
+  m2: number;
+  m3: number;
+  m4: number;
+  sum: number;
+  min: number;
+  max: number;
+}
+
+export const createMoments = (): Moments => ({
+  count: 0,
+  mean: 0,
+  m2: 0,
+  m3: 0,
+  m4: 0,
+  sum: 0,
+  min: Infinity,
+  max: -Infinity
+});
+
+// Algorithme de Welford, étendu aux moments d'ordre 3 et 4 (Terriberry)
+export const pushMoment = (moments: Moments, x: number): void => {
+  const previous = moments.count;
+  const n = previous + 1;
+  const delta = x - moments.mean;
+  const deltaN = delta / n;
+  const deltaN2 = deltaN * deltaN;
+  const term = delta * deltaN * previous;
+
+  moments.mean += deltaN;
+  moments.m4 += term * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * moments.m2 - 4 * deltaN * moments.m3;
+  moments.m3 += term * deltaN * (n - 2) - 3 * deltaN * moments.m2;
+  moments.m2 += term;
+  moments.count = n;
+  moments.sum += x;
+  if (x < moments.min) moments.min = x;
+  if (x > moments.max) moments.max = x;
+};
+
+// Estimateur P² de Jain et Chlamtac : un quantile approché avec cinq marqueurs seulement
+export interface P2Estimator {
+  p: number;
+  heights: number[];
+  positions: number[];
+  desired: number[];
+  increments: number[];
+  count: number;
+}
+
+export const createP2 = (p: number): P2Estimator => ({
+  p,
+  heights: [],
+  positions: [0, 1, 2, 3, 4],
+  desired: [0, 2 * p, 4 * p, 2 + 2 * p, 4],
+  increments: [0, p / 2, p, (1 + p) / 2, 1],
+  count: 0
+});
+
+const parabolic = (e: P2Estimator, i: number, d: number): number => {
+  const q = e.heights;
+  const n = e.positions;
+  return q[i] + (d / (n[i + 1] - n[i - 1])) * (
+    ((n[i] - n[i - 1] + d) * (q[i + 1] - q[i])) / (n[i + 1] - n[i]) +
+    ((n[i + 1] - n[i] - d) * (q[i] - q[i - 1])) / (n[i] - n[i - 1])
+  );
+};
+
+const linear = (e: P2Estimator, i: number, d: number): number =>
+  e.heights[i] + (d * (e.heights[i + d] - e.heights[i])) / (e.positions[i + d] - e.positions[i]);
+
+export const pushP2 = (e: P2Estimator, x: number): void => {
+  e.count++;
+  const q = e.heights;
+  if (e.count <= 5) {
+    q.push(x);
+    q.sort((a, b) => a - b);
+    return;
+  }
+
+  let k: number;
+  if (x < q[0]) {
+    q[0] = x;
+    k = 0;
+  } else if (x >= q[4]) {
+    q[4] = Math.max(q[4], x);
+    k = 3;
+  } else {
+    k = 0;
+    while (x >= q[k + 1]) k++;
+  }
+
+  for (let i = k + 1; i < 5; i++) e.positions[i]++;
+  for (let i = 0; i < 5; i++) e.desired[i] += e.increments[i];
+
+  for (let i = 1; i <= 3; i++) {
+    const gap = e.desired[i] - e.positions[i];
+    if ((gap >= 1 && e.positions[i + 1] - e.positions[i] > 1) || (gap <= -1 && e.positions[i - 1] - e.positions[i] < -1)) {
+      const d = Math.sign(gap);
+      const candidate = parabolic(e, i, d);
+      q[i] = q[i - 1] < candidate && candidate < q[i + 1] ? candidate : linear(e, i, d);
+      e.positions[i] += d;
+    }
+  }
+};
+
+export const p2Value = (e: P2Estimator): number => {
+  if (e.count === 0) return NaN;
+  if (e.count <= 5) {
+    // Moins de cinq valeurs : quantile exact par interpolation linéaire
+    const position = (e.count - 1) * e.p;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return e.heights[lower] + (e.heights[upper] - e.heights[lower]) * (position - lower);
+  }
+  return e.heights[2];
+};
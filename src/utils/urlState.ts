@@ -0,0 +1,111 @@
+import { SolverMode, isSolverMode } from './history';
+import { DEFAULT_NUMERIC_OPTIONS, NumericOptions, ROOT_METHODS, TOLERANCES } from './rootFinding';
+import type { Estimator } from './statistics';
+
+export type Tab = 'equations' | 'analysis' | 'visualization' | 'calculus' | 'matrices';
+
+export const TABS: Tab[] = ['equations', 'analysis', 'visualization', 'calculus', 'matrices'];
+
+export interface AnalysisSettings {
+  estimator: Estimator;
+  // Nom de la colonne détaillée, null pour la première colonne sélectionnée
+  column: string | null;
+  // Noms des colonnes sélectionnées, null pour toutes les colonnes numériques
+  columns: string[] | null;
+}
+
+// Réglages du mode numérique, conservés dans le lien avec l'équation
+export type NumericSettings = Pick<NumericOptions, 'xMin' | 'xMax' | 'method' | 'tolerance'>;
+
+export interface UrlState {
+  tab: Tab;
+  mode: SolverMode;
+  equation: string;
+  // Inconnue choisie pour une équation littérale, vide pour la détection automatique
+  unknown: string;
+  numeric: NumericSettings;
+  analysis: AnalysisSettings;
+}
+
+// Partie de l'état tenue par le résolveur d'équations
+export type SolverState = Pick<UrlState, 'mode' | 'equation' | 'unknown' | 'numeric'>;
+
+const isTab = (value: string): value is Tab => (TABS as string[]).includes(value);
+
+// Un nombre absent ou illisible reprend la valeur par défaut
+const readNumber = (value: string | null, fallback: number) => {
+  const number = value === null || value.trim() === '' ? NaN : Number(value);
+  return Number.isFinite(number) ? number : fallback;
+};
+
+const parseNumericSettings = (params: URLSearchParams): NumericSettings => {
+  const method = ROOT_METHODS.find(name => name === params.get('method'));
+  const tolerance = readNumber(params.get('tolerance'), DEFAULT_NUMERIC_OPTIONS.tolerance);
+  return {
+    xMin: readNumber(params.get('xMin'), DEFAULT_NUMERIC_OPTIONS.xMin),
+    xMax: readNumber(params.get('xMax'), DEFAULT_NUMERIC_OPTIONS.xMax),
+    method: method ?? DEFAULT_NUMERIC_OPTIONS.method,
+    tolerance: TOLERANCES.includes(tolerance) ? tolerance : DEFAULT_NUMERIC_OPTIONS.tolerance
+  };
+};
+
+// Lit un fragment de la forme #analysis?estimator=population&column=Taille
+export const parseUrlState = (hash: string): UrlState => {
+  const fragment = hash.replace(/^#\/?/, '');
+  const separator = fragment.indexOf('?');
+  const path = separator === -1 ? fragment : fragment.slice(0, separator);
+  const params = new URLSearchParams(separator === -1 ? '' : fragment.slice(separator + 1));
+  const mode = params.get('mode');
+  return {
+    tab: isTab(path) ? path : 'equations',
+    mode: isSolverMode(mode) ? mode : 'equation',
+    equation: params.get('equation') ?? '',
+    unknown: params.get('unknown') ?? '',
+    numeric: parseNumericSettings(params),
+    analysis: {
+      estimator: params.get('estimator') === 'population' ? 'population' : 'sample',
+      column: params.get('column') || null,
+      columns: params.has('columns') ? params.getAll('columns').filter(Boolean) : null
+    }
+  };
+};
+
+// Seules les valeurs différentes des réglages par défaut apparaissent dans le lien
+export const formatUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.equation) {
+    if (state.mode !== 'equation') params.set('mode', state.mode);
+    params.set('equation', state.equation);
+    if (state.mode === 'equation' && state.unknown) params.set('unknown', state.unknown);
+    if (state.mode === 'numeric') {
+      const { xMin, xMax, method, tolerance } = state.numeric;
+      if (Number.isFinite(xMin) && xMin !== DEFAULT_NUMERIC_OPTIONS.xMin) params.set('xMin', String(xMin));
+      if (Number.isFinite(xMax) && xMax !== DEFAULT_NUMERIC_OPTIONS.xMax) params.set('xMax', String(xMax));
+      if (method !== DEFAULT_NUMERIC_OPTIONS.method) params.set('method', method);
+      if (tolerance !== DEFAULT_NUMERIC_OPTIONS.tolerance) params.set('tolerance', String(tolerance));
+    }
+  }
+  const { estimator, column, columns } = state.analysis;
+  if (estimator === 'population') params.set('estimator', estimator);
+  if (column) params.set('column', column);
+  if (columns) {
+    // Un paramètre vide distingue « aucune colonne » de « toutes les colonnes »
+    if (columns.length === 0) params.set('columns', '');
+    columns.forEach(name => params.append('columns', name));
+  }
+  const query = params.toString();
+  return `#${state.tab}${query ? `?${query}` : ''}`;
+};
+
+export const readUrlState = (): UrlState => parseUrlState(window.location.hash);
+
+// Un changement d'onglet crée une entrée d'historique, les autres réglages remplacent l'entrée courante
+export const writeUrlState = (state: UrlState, push: boolean): void => {
+  const hash = formatUrlState(state);
+  if (hash === window.location.hash) return;
+  if (push) {
+    window.history.pushState(null, '', hash);
+  } else {
+    window.history.replaceState(null, '', hash);
+  }
+};
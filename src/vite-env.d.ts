@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+declare module 'plotly.js-dist' {
+  import Plotly from 'plotly.js';
+  export default Plotly;
+}
@@ -0,0 +1,65 @@
+import Papa from 'papaparse';
+import { createAccumulator, finalize, pushRows } from '../utils/csvAccumulator';
+import type { ParseMessage, ParseRequest } from '../utils/csvWorkerClient';
+import { detectDelimiter } from '../utils/dataset';
+import { getMessages, setLocale } from '../i18n';
+
+const ctx = self as unknown as Worker;
+
+// Taille des blocs lus par Papa Parse : le fichier n'est jamais chargé en entier
+const CHUNK_SIZE = 1024 * 1024;
+
+// Début du fichier examiné pour choisir le séparateur de colonnes
+const SAMPLE_SIZE = 64 * 1024;
+
+const post = (message: ParseMessage, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+// L'auto-détection de Papa Parse choisit la virgule pour « 1,5;2,3 » : le séparateur est déterminé
+// sur les lignes complètes de l'échantillon
+const sniffDelimiter = async (file: File): Promise<string | undefined> => {
+  const sample = await file.slice(0, SAMPLE_SIZE).text();
+  const complete = file.size > SAMPLE_SIZE ? sample.slice(0, sample.lastIndexOf('\n') + 1) : sample;
+  return detectDelimiter(complete);
+};
+
+ctx.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  const { file, hasHeader, locale } = event.data;
+  setLocale(locale);
+  const t = getMessages().csv;
+  // Sans réponse, la promesse du fil principal ne serait jamais réglée : toute erreur est renvoyée
+  try {
+    const accumulator = createAccumulator(hasHeader);
+    const delimiter = await sniffDelimiter(file);
+    let loaded = 0;
+
+    Papa.parse<unknown[]>(file, {
+      chunkSize: CHUNK_SIZE,
+      delimiter,
+      skipEmptyLines: true,
+      chunk: (results) => {
+        pushRows(accumulator, results.data);
+        loaded = Math.min(file.size, loaded + CHUNK_SIZE);
+        post({ type: 'progress', loaded, total: file.size, rows: accumulator.rowCount });
+      },
+      complete: () => {
+        try {
+          const result = finalize(accumulator);
+          if (result.columns.length === 0) {
+            post({ type: 'error', message: t.noData });
+            return;
+          }
+          // Les tampons des colonnes sont transférés, sans copie
+          post({ type: 'done', result }, [
+            ...result.columns.flatMap(column => [column.values.buffer, column.codes.buffer]),
+            result.rowHashes.buffer
+          ]);
+        } catch (err) {
+          post({ type: 'error', message: err instanceof Error ? err.message : t.analysisError });
+        }
+      },
+      error: (error) => post({ type: 'error', message: t.readError(error.message) })
+    });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? t.readError(err.message) : t.readFailed });
+  }
+};